@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import redis from "@/lib/redis";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { queueNotificationDelivery } from "@/lib/notifications";
+
+// One reset email per address per minute
+const RESET_COOLDOWN_SECONDS = 60;
+
+/**
+ * Email a password reset link through the notification outbox (public).
+ * Body: { email }. Always answers 200 for a well-formed address, so the
+ * response doesn't reveal whether an account exists or was just sent one.
+ */
+export async function POST(request: Request) {
+  try {
+    const { email } = await request.json().catch(() => ({}));
+
+    if (typeof email !== "string" || !/^[^\s@]+@[^\s@]+$/.test(email.trim())) {
+      return NextResponse.json(
+        { error: "A valid email address is required" },
+        { status: 400 }
+      );
+    }
+
+    const cooldownKey = `password_reset_${email.trim().toLowerCase()}`;
+    const claimed = await redis.set(cooldownKey, "1", "EX", RESET_COOLDOWN_SECONDS, "NX");
+    if (!claimed) {
+      console.log("ℹ️ [Password Reset] Reset requested again within the cooldown; skipped");
+      return NextResponse.json({ success: true });
+    }
+
+    const appUrl = (process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin).replace(/\/+$/, "");
+    const supabase = getSupabaseAdmin();
+
+    const { data, error } = await supabase.auth.admin.generateLink({
+      type: "recovery",
+      email: email.trim(),
+      options: { redirectTo: `${appUrl}/auth/reset-password` }
+    });
+
+    if (error || !data.properties?.action_link) {
+      // Most often an unknown address
+      console.log(`ℹ️ [Password Reset] No reset link generated: ${error?.message || "no link returned"}`);
+      return NextResponse.json({ success: true });
+    }
+
+    // Sent by the worker, so the response time doesn't depend on the mail server
+    await queueNotificationDelivery(supabase, redis, "password_reset", {
+      fullName: data.user.user_metadata?.full_name || null,
+      resetUrl: data.properties.action_link
+    }, { to: data.user.email || email.trim(), userId: data.user.id, requestedBy: data.user.id });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("❌ [Password Reset] Error sending reset email:", error);
+    return NextResponse.json(
+      { error: "Failed to send reset email. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth, ADMIN_ROLES } from "@/lib/request-auth";
+import { parseBadgeRule, isValidBadgePoints, BadgeRuleError, MAX_BADGE_POINTS } from "@/lib/badge-engine";
+
+/**
+ * Edit a badge definition (admin only). Setting active back to true
+ * un-retires a badge.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, { roles: ADMIN_ROLES });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (body.points !== undefined && !isValidBadgePoints(body.points)) {
+      return NextResponse.json(
+        { error: `points must be a whole number from 0 to ${MAX_BADGE_POINTS}` },
+        { status: 400 }
+      );
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (typeof body.name === "string" && body.name.trim()) updates.name = body.name.trim();
+    if (body.description !== undefined) updates.description = body.description || null;
+    if (body.icon !== undefined) updates.icon = body.icon || null;
+    if (body.points !== undefined) updates.points = body.points;
+    if (typeof body.active === "boolean") updates.active = body.active;
+    if (body.rule !== undefined) updates.rule = parseBadgeRule(body.rule);
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: "No changes provided" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await getSupabaseAdmin()
+      .from("badges")
+      .update(updates)
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error("❌ [Badges API] Error updating badge:", error);
+      return NextResponse.json(
+        { error: "Failed to update badge" },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: "Badge not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ badge: data });
+  } catch (error) {
+    if (error instanceof BadgeRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("❌ [Badges API] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to update badge" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Retire a badge (admin only). Badges are never hard-deleted so that
+ * users keep the badges they already earned.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, { roles: ADMIN_ROLES });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+
+    const { data, error } = await getSupabaseAdmin()
+      .from("badges")
+      .update({ active: false })
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error("❌ [Badges API] Error retiring badge:", error);
+      return NextResponse.json(
+        { error: "Failed to retire badge" },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: "Badge not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ badge: data });
+  } catch (error) {
+    console.error("❌ [Badges API] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to retire badge" },
+      { status: 500 }
+    );
+  }
+}
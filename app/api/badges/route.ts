@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth, ADMIN_ROLES } from "@/lib/request-auth";
+import { loadBadgeDefinitions, parseBadgeRule, isValidBadgePoints, BadgeRuleError, MAX_BADGE_POINTS } from "@/lib/badge-engine";
+
+/**
+ * List badge definitions. Everyone can see the active catalog;
+ * admins can pass ?includeRetired=true to see retired badges too.
+ */
+export async function GET(request: Request) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const includeRetired = searchParams.get("includeRetired") === "true"
+      && ADMIN_ROLES.includes(auth.user.role);
+
+    const badges = await loadBadgeDefinitions(getSupabaseAdmin(), { includeRetired });
+
+    return NextResponse.json({ badges });
+  } catch (error) {
+    console.error("❌ [Badges API] Error listing badges:", error);
+    return NextResponse.json(
+      { error: "Failed to load badges" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a badge definition (admin only)
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth(request, { roles: ADMIN_ROLES });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { name, description, icon, rule, points } = await request.json();
+
+    if (!name || typeof name !== "string") {
+      return NextResponse.json(
+        { error: "name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (points !== undefined && !isValidBadgePoints(points)) {
+      return NextResponse.json(
+        { error: `points must be a whole number from 0 to ${MAX_BADGE_POINTS}` },
+        { status: 400 }
+      );
+    }
+
+    const parsedRule = parseBadgeRule(rule);
+
+    const { data, error } = await getSupabaseAdmin()
+      .from("badges")
+      .insert({
+        name: name.trim(),
+        description: description || null,
+        icon: icon || null,
+        rule: parsedRule,
+        points: points ?? 50,
+        active: true
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("❌ [Badges API] Error creating badge:", error);
+
+      if (error.code === "23505") {
+        return NextResponse.json(
+          { error: "A badge with this name already exists" },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Failed to create badge" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ badge: data }, { status: 201 });
+  } catch (error) {
+    if (error instanceof BadgeRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("❌ [Badges API] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to create badge" },
+      { status: 500 }
+    );
+  }
+}
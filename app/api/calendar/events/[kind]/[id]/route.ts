@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { buildCalendar, getCalendarEvent, type CalendarEventKind } from "@/lib/calendar";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * One drill or session as an .ics download. Schedules are public, so no auth;
+ * the event keeps the feed's UID, so importing it and subscribing later
+ * doesn't create a duplicate.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ kind: string; id: string }> }
+) {
+  try {
+    const { kind, id } = await params;
+
+    if ((kind !== "drill" && kind !== "session") || !isUuid(id)) {
+      return NextResponse.json(
+        { error: "Event not found" },
+        { status: 404 }
+      );
+    }
+
+    const event = await getCalendarEvent(getSupabaseAdmin(), kind as CalendarEventKind, id);
+    if (!event) {
+      return NextResponse.json(
+        { error: "Event not found" },
+        { status: 404 }
+      );
+    }
+
+    const filename = event.title.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "").toLowerCase() || kind;
+
+    return new NextResponse(buildCalendar([event]), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}.ics"`,
+        "Cache-Control": "no-cache"
+      }
+    });
+  } catch (error) {
+    console.error("❌ [Calendar API] Error building event:", error);
+    return NextResponse.json(
+      { error: "Failed to build calendar event" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { buildCalendar, findFeedOwner, getFeedEvents } from "@/lib/calendar";
+
+/**
+ * Subscribed iCalendar feed. Calendar apps can't send a bearer token, so the
+ * secret token in the URL is the credential.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const supabase = getSupabaseAdmin();
+    const owner = await findFeedOwner(supabase, token.replace(/\.ics$/, ""));
+
+    if (!owner) {
+      return NextResponse.json(
+        { error: "Calendar feed not found" },
+        { status: 404 }
+      );
+    }
+
+    const events = await getFeedEvents(supabase, owner);
+    const calendar = buildCalendar(events, {
+      name: owner.fullName ? `LifeCraft - ${owner.fullName}` : "LifeCraft"
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="lifecraft.ics"',
+        "Cache-Control": "private, no-cache"
+      }
+    });
+  } catch (error) {
+    console.error("❌ [Calendar API] Error building feed:", error);
+    return NextResponse.json(
+      { error: "Failed to build calendar feed" },
+      { status: 500 }
+    );
+  }
+}
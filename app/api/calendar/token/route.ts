@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { getCalendarFeedUrl, getFeedToken } from "@/lib/calendar";
+
+/**
+ * The signed-in user's calendar feed URL, created on first request
+ */
+export async function GET(request: Request) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const token = await getFeedToken(getSupabaseAdmin(), auth.user.id);
+    return NextResponse.json({ url: getCalendarFeedUrl(token) });
+  } catch (error) {
+    console.error("❌ [Calendar API] Error loading feed token:", error);
+    return NextResponse.json(
+      { error: "Failed to load calendar feed" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the feed URL, e.g. after it was shared by mistake. The old URL stops working.
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const token = await getFeedToken(getSupabaseAdmin(), auth.user.id, { rotate: true });
+    console.log(`✅ [Calendar API] Feed token rotated for ${auth.user.id}`);
+    return NextResponse.json({ url: getCalendarFeedUrl(token) });
+  } catch (error) {
+    console.error("❌ [Calendar API] Error rotating feed token:", error);
+    return NextResponse.json(
+      { error: "Failed to reset calendar feed" },
+      { status: 500 }
+    );
+  }
+}
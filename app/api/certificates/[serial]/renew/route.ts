@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth, ADMIN_ROLES } from "@/lib/request-auth";
+import { CertificateError, normalizeSerial, renewCertificate } from "@/lib/certificates";
+
+/**
+ * Renew an expiring or expired certificate by re-enrolling its holder in the
+ * matching drill, session or tutorial. Holders renew their own; admins any.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ serial: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const serial = normalizeSerial((await params).serial);
+
+    if (!serial) {
+      return NextResponse.json(
+        { error: "Certificate not found" },
+        { status: 404 }
+      );
+    }
+
+    const renewal = await renewCertificate(getSupabaseAdmin(), serial, {
+      userId: ADMIN_ROLES.includes(auth.user.role) ? undefined : auth.user.id
+    });
+    console.log(`✅ [Certificates API] Renewal for ${serial}: enrolled in ${renewal.targetId}`);
+
+    return NextResponse.json({ renewal });
+  } catch (error) {
+    if (error instanceof CertificateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [Certificates API] Error renewing certificate:", error);
+    return NextResponse.json(
+      { error: "Failed to renew certificate" },
+      { status: 500 }
+    );
+  }
+}
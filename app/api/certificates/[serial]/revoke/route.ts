@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { canManageCertificate } from "@/lib/permissions";
+import { CertificateError, normalizeSerial, revokeCertificate } from "@/lib/certificates";
+
+/**
+ * Revoke a certificate (admins, or whoever manages the drill or session it was
+ * issued for). Body: { reason }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ serial: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const serial = normalizeSerial((await params).serial);
+    const { reason } = await request.json().catch(() => ({}));
+
+    if (!serial) {
+      return NextResponse.json(
+        { error: "Certificate not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!reason || typeof reason !== "string" || !reason.trim()) {
+      return NextResponse.json(
+        { error: "reason is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!(await canManageCertificate(supabase, auth.user, serial))) {
+      return NextResponse.json(
+        { error: "You do not manage this certificate" },
+        { status: 403 }
+      );
+    }
+
+    await revokeCertificate(supabase, serial, {
+      reason: reason.trim(),
+      revokedBy: auth.user.id
+    });
+    console.log(`✅ [Certificates API] Revoked ${serial}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof CertificateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [Certificates API] Error revoking certificate:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke certificate" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { readLocalCertificate } from "@/lib/certificates";
+
+/**
+ * Serves certificates written by the local storage backend (development).
+ * With CERTIFICATE_STORAGE=supabase the stored URLs point at the bucket instead.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const { key } = await params;
+  const file = await readLocalCertificate(key.join("/"));
+
+  if (!file) {
+    return NextResponse.json(
+      { error: "Certificate not found" },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(new Uint8Array(file), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="${key[key.length - 1]}"`,
+      "Cache-Control": "no-cache"
+    }
+  });
+}
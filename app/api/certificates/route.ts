@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import redis from "@/lib/redis";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { canManageRegistration, isAdmin } from "@/lib/permissions";
+import { isCertificateKind } from "@/lib/certificates";
+import { enqueueJob } from "@/lib/jobs";
+
+/**
+ * Queue issuing (or re-issuing) the certificate for a completion record; the
+ * worker renders it and the job's result has the serial, URL and checksum
+ * (GET /api/jobs/:id). Organization admins and instructors can only issue for
+ * the drills and sessions they manage.
+ * Body: { kind: "drill" | "community_session" | "first_aid", recordId }
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { kind, recordId } = await request.json().catch(() => ({}));
+
+    if (!isCertificateKind(kind)) {
+      return NextResponse.json(
+        { error: "kind must be drill, community_session or first_aid" },
+        { status: 400 }
+      );
+    }
+
+    if (!recordId || typeof recordId !== "string") {
+      return NextResponse.json(
+        { error: "recordId is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    const allowed = kind === "first_aid"
+      ? isAdmin(auth.user)
+      : await canManageRegistration(supabase, auth.user, kind === "drill" ? "drill" : "session", recordId);
+
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "You do not manage this completion" },
+        { status: 403 }
+      );
+    }
+
+    const jobId = await enqueueJob(
+      redis,
+      "certificate_issue",
+      { userId: auth.user.id, kind, recordId },
+      { userId: auth.user.id }
+    );
+    console.log(`✅ [Certificates API] Queued ${kind} certificate for ${recordId} as job ${jobId}`);
+
+    return NextResponse.json(
+      { status: "pending", jobId },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("❌ [Certificates API] Error queueing certificate:", error);
+    return NextResponse.json(
+      { error: "Failed to queue certificate" },
+      { status: 500 }
+    );
+  }
+}
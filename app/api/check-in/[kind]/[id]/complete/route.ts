@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { canManageEvent } from "@/lib/permissions";
+import { CheckInError, completeCheckedIn, isCheckInKind } from "@/lib/check-in";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * Mark everyone checked in to a drill or session as completed, issuing
+ * session certificates (admins and the event's managers)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ kind: string; id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { kind, id } = await params;
+    if (!isCheckInKind(kind) || !isUuid(id)) {
+      return NextResponse.json(
+        { error: "Event not found" },
+        { status: 404 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!(await canManageEvent(supabase, auth.user, kind, id))) {
+      return NextResponse.json(
+        { error: "You do not manage this event" },
+        { status: 403 }
+      );
+    }
+
+    const summary = await completeCheckedIn(supabase, kind, id);
+    console.log(`✅ [Check-in API] Completed ${summary.completed} checked-in registrations for ${kind} ${id}`);
+
+    return NextResponse.json({ summary });
+  } catch (error) {
+    if (error instanceof CheckInError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [Check-in API] Error completing check-ins:", error);
+    return NextResponse.json(
+      { error: "Failed to complete checked-in registrations" },
+      { status: 500 }
+    );
+  }
+}
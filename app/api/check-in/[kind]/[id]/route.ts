@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { canManageEvent } from "@/lib/permissions";
+import {
+  CheckInError,
+  getCheckInRoster,
+  isCheckInKind,
+  recordCheckIns,
+  type CheckInScan
+} from "@/lib/check-in";
+import { isUuid } from "@/lib/uuid";
+
+// An offline scanner uploads everything it collected in one go
+const MAX_SCANS_PER_REQUEST = 500;
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Event not found" },
+    { status: 404 }
+  );
+}
+
+function notAssigned() {
+  return NextResponse.json(
+    { error: "You do not manage this event" },
+    { status: 403 }
+  );
+}
+
+/**
+ * Roster of a drill or session with everyone's check-in codes, for scanning
+ * offline (admins and the event's managers, see lib/permissions.ts)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ kind: string; id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { kind, id } = await params;
+    if (!isCheckInKind(kind) || !isUuid(id)) return notFound();
+
+    const supabase = getSupabaseAdmin();
+    if (!(await canManageEvent(supabase, auth.user, kind, id))) return notAssigned();
+
+    const roster = await getCheckInRoster(supabase, kind, id);
+    return NextResponse.json({ roster });
+  } catch (error) {
+    if (error instanceof CheckInError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("❌ [Check-in API] Error loading roster:", error);
+    return NextResponse.json(
+      { error: "Failed to load roster" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Record scanned codes (admins and the event's managers).
+ * Body: { scans: [{ code, scannedAt? }] }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ kind: string; id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { kind, id } = await params;
+    if (!isCheckInKind(kind) || !isUuid(id)) return notFound();
+
+    const supabase = getSupabaseAdmin();
+    if (!(await canManageEvent(supabase, auth.user, kind, id))) return notAssigned();
+
+    const { scans } = await request.json().catch(() => ({}));
+
+    if (
+      !Array.isArray(scans)
+      || scans.length === 0
+      || scans.length > MAX_SCANS_PER_REQUEST
+      || !scans.every((scan: CheckInScan) => typeof scan?.code === "string")
+    ) {
+      return NextResponse.json(
+        { error: `scans must be a list of 1-${MAX_SCANS_PER_REQUEST} { code, scannedAt } entries` },
+        { status: 400 }
+      );
+    }
+
+    const results = await recordCheckIns(supabase, kind, id, scans, auth.user.id);
+    const checkedIn = results.filter(result => result.outcome === "checked_in").length;
+    console.log(`✅ [Check-in API] ${checkedIn}/${results.length} scans checked in for ${kind} ${id}`);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("❌ [Check-in API] Error recording check-ins:", error);
+    return NextResponse.json(
+      { error: "Failed to record check-ins" },
+      { status: 500 }
+    );
+  }
+}
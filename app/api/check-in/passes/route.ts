@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { getCheckInPasses } from "@/lib/check-in";
+
+/**
+ * The signed-in user's check-in QR codes for approved, upcoming drills and sessions
+ */
+export async function GET(request: Request) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const passes = await getCheckInPasses(getSupabaseAdmin(), auth.user.id);
+    return NextResponse.json({ passes });
+  } catch (error) {
+    console.error("❌ [Check-in API] Error loading passes:", error);
+    return NextResponse.json(
+      { error: "Failed to load check-in codes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { GradingError, completeDrillRun } from "@/lib/grading";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * Finish the signed-in user's current run of a virtual drill, scored from
+ * the answers recorded during it
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    if (!isUuid(id)) {
+      return NextResponse.json({ error: "Drill not found" }, { status: 404 });
+    }
+
+    const result = await completeDrillRun(getSupabaseAdmin(), auth.user.id, id);
+    console.log(`✅ [Drill API] Drill ${id} completed with ${result.score}% by ${auth.user.id}`);
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    if (error instanceof GradingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("❌ [Drill API] Error completing drill:", error);
+    return NextResponse.json(
+      { error: "Failed to save drill results" },
+      { status: 500 }
+    );
+  }
+}
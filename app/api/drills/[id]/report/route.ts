@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import redis from "@/lib/redis";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth, ADMIN_ROLES } from "@/lib/request-auth";
+import { enqueueJob } from "@/lib/jobs";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * Queue the registration report PDF for a drill (admins). The worker renders
+ * it; once the job is done it downloads from GET /api/jobs/:id/file.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, { roles: ADMIN_ROLES });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    if (!isUuid(id)) {
+      return NextResponse.json({ error: "Drill not found" }, { status: 404 });
+    }
+
+    const { data: drill, error } = await getSupabaseAdmin()
+      .from("drills")
+      .select("id")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!drill) {
+      return NextResponse.json({ error: "Drill not found" }, { status: 404 });
+    }
+
+    const jobId = await enqueueJob(
+      redis,
+      "drill_report_export",
+      { userId: auth.user.id, drillId: id },
+      { userId: auth.user.id }
+    );
+    console.log(`✅ [Drill API] Queued report for drill ${id} as job ${jobId}`);
+
+    return NextResponse.json(
+      { status: "pending", jobId },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("❌ [Drill API] Error queueing report:", error);
+    return NextResponse.json(
+      { error: "Failed to queue report" },
+      { status: 500 }
+    );
+  }
+}
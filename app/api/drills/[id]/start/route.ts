@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { GradingError, startDrillRun } from "@/lib/grading";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * Start a run of a virtual drill for the signed-in user, or resume their
+ * unfinished one
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    if (!isUuid(id)) {
+      return NextResponse.json({ error: "Drill not found" }, { status: 404 });
+    }
+
+    const run = await startDrillRun(getSupabaseAdmin(), auth.user.id, id);
+    console.log(`✅ [Drill API] Drill ${id} ${run.resumed ? "resumed" : "started"} by ${auth.user.id}`);
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    if (error instanceof GradingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("❌ [Drill API] Error starting drill:", error);
+    return NextResponse.json(
+      { error: "Failed to start drill" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { GradingError, gradeDrillStep } from "@/lib/grading";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * Answer a step of the signed-in user's current run: { response, timeSpent }.
+ * The grade comes back with the step's answer and explanation.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; step: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  let body: { response?: unknown; timeSpent?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const { id, step } = await params;
+    const stepNumber = Number(step);
+    if (!isUuid(id) || !Number.isInteger(stepNumber) || stepNumber < 1) {
+      return NextResponse.json({ error: "Step not found" }, { status: 404 });
+    }
+
+    // Seconds spent on the step; only recorded, never scored
+    const timeSpent = Number.isInteger(body?.timeSpent) && (body.timeSpent as number) >= 0
+      ? body.timeSpent as number
+      : null;
+
+    const grade = await gradeDrillStep(getSupabaseAdmin(), auth.user.id, id, stepNumber, body?.response, timeSpent);
+    return NextResponse.json({ grade });
+  } catch (error) {
+    if (error instanceof GradingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("❌ [Drill API] Error grading step:", error);
+    return NextResponse.json(
+      { error: "Failed to grade answer" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { getDrillSteps } from "@/lib/grading";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * A virtual drill's steps, with the questions drawn for the user's current
+ * run and without their answers
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    if (!isUuid(id)) {
+      return NextResponse.json({ error: "Drill not found" }, { status: 404 });
+    }
+
+    const steps = await getDrillSteps(getSupabaseAdmin(), auth.user.id, id);
+    return NextResponse.json({ steps });
+  } catch (error) {
+    console.error("❌ [Drill API] Error loading steps:", error);
+    return NextResponse.json(
+      { error: "Failed to load drill content" },
+      { status: 500 }
+    );
+  }
+}
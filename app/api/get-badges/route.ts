@@ -1,18 +1,16 @@
 import { NextResponse } from "next/server";
 import redis from "@/lib/redis";
-import { createClient } from '@supabase/supabase-js';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { requireAuth, resolveTargetUserId } from '@/lib/request-auth';
+import { getEarnedBadgeNames } from '@/lib/badge-engine';
 
 export async function GET(request: Request) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get("userId");
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: "userId parameter is required" },
-        { status: 400 }
-      );
-    }
+    const userId = resolveTargetUserId(auth.user, searchParams.get("userId"));
 
     console.log(`🔍 [Badge API] Fetching badges for user: ${userId}`);
 
@@ -33,25 +31,13 @@ export async function GET(request: Request) {
     console.log(`🔄 [Badge API] Cache miss, fetching from Supabase...`);
     
     // Fallback to Supabase (slower but reliable)
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    );
-
-    const { data: badgeActivities, error } = await supabase
-      .from('activity_log')
-      .select('item')
-      .eq('user_id', userId)
-      .eq('action', 'Earned Badge')
-      .order('created_at', { ascending: false });
-
-    if (error) {
+    let badges: string[];
+    try {
+      badges = await getEarnedBadgeNames(getSupabaseAdmin(), userId);
+    } catch (error) {
       console.error('❌ [Badge API] Supabase error:', error);
       return NextResponse.json({ badges: [] }, { status: 200 });
     }
-
-    // Get unique badges
-    const badges = [...new Set(badgeActivities?.map(b => b.item) || [])];
     
     // Cache the result for next time (1 hour)
     if (badges.length > 0) {
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import redis from "@/lib/redis";
+import { requireAuth, ADMIN_ROLES } from "@/lib/request-auth";
+import { getJobFile, getJobStatus } from "@/lib/job-status";
+
+/**
+ * Download the file a finished job produced, such as an exported report.
+ * Same visibility as the job's status: its owner, or any admin.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    const job = await getJobStatus(redis, id);
+
+    if (!job || (job.userId !== auth.user.id && !ADMIN_ROLES.includes(auth.user.role))) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    const file = job.state === "done" ? await getJobFile(redis, id) : null;
+    if (!file) {
+      return NextResponse.json(
+        { error: "This job has no file to download" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename.replace(/"/g, "")}"`,
+        "Cache-Control": "private, no-store"
+      }
+    });
+  } catch (error) {
+    console.error("❌ [Jobs API] Error downloading job file:", error);
+    return NextResponse.json(
+      { error: "Failed to download file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import redis from "@/lib/redis";
+import { requireAuth, ADMIN_ROLES } from "@/lib/request-auth";
+import { getJobStatus } from "@/lib/job-status";
+
+/**
+ * Status of a background job: pending, processing, retrying, done or failed.
+ * Users can only see their own jobs; admins can see any.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    const job = await getJobStatus(redis, id);
+
+    // Someone else's job is reported as missing rather than forbidden
+    if (!job || (job.userId !== auth.user.id && !ADMIN_ROLES.includes(auth.user.role))) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("❌ [Jobs API] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch job status" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { GradingError, getLessonQuiz, gradeLessonQuiz } from "@/lib/grading";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * The questions drawn for the signed-in user's current attempt at a lesson's
+ * quiz, without their answers, and the attempts they have used
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    if (!isUuid(id)) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 });
+    }
+
+    const quiz = await getLessonQuiz(getSupabaseAdmin(), auth.user.id, id);
+    return NextResponse.json({ quiz });
+  } catch (error) {
+    if (error instanceof GradingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("❌ [Quiz API] Error loading quiz:", error);
+    return NextResponse.json(
+      { error: "Failed to load quiz" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Submit { responses: { [questionId]: answer } }. The attempt is graded and
+ * recorded; the grade comes back with the answers and explanations.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  let body: { responses?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const { id } = await params;
+    if (!isUuid(id)) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 });
+    }
+
+    const grade = await gradeLessonQuiz(getSupabaseAdmin(), auth.user.id, id, body?.responses);
+    console.log(`✅ [Quiz API] Lesson ${id} attempt ${grade.attempts} graded ${grade.score}% for ${auth.user.id}`);
+
+    return NextResponse.json({ grade });
+  } catch (error) {
+    if (error instanceof GradingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("❌ [Quiz API] Error grading quiz:", error);
+    return NextResponse.json(
+      { error: "Failed to grade quiz" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { GradingError, completeModule } from "@/lib/grading";
+import { isUuid } from "@/lib/uuid";
+
+/**
+ * Complete a module for the signed-in user, scored from their graded lesson
+ * quizzes, and award its points
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    if (!isUuid(id)) {
+      return NextResponse.json({ error: "Module not found" }, { status: 404 });
+    }
+
+    const completion = await completeModule(getSupabaseAdmin(), auth.user.id, id);
+    if (completion.newlyCompleted) {
+      console.log(`✅ [Module API] Module ${id} completed with ${completion.score}% by ${auth.user.id}`);
+    }
+
+    return NextResponse.json({ completion });
+  } catch (error) {
+    if (error instanceof GradingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("❌ [Module API] Error completing module:", error);
+    return NextResponse.json(
+      { error: "Failed to complete module" },
+      { status: 500 }
+    );
+  }
+}
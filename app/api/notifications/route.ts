@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import redis from "@/lib/redis";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { canManageParticipant } from "@/lib/permissions";
+import {
+  NotificationTemplateError,
+  getUserRecipient,
+  isNotificationTemplateName,
+  queueNotificationDelivery,
+  type NotificationTemplateName
+} from "@/lib/notifications";
+
+// Password reset links are only ever sent by /api/auth/password-reset
+const STAFF_TEMPLATES: NotificationTemplateName[] = [
+  "registration_approved",
+  "registration_declined",
+  "waitlist_promoted",
+  "session_reminder",
+  "certificate_issued",
+  "badge_earned"
+];
+
+/**
+ * Email a user through the notification outbox (admins, or organization admins
+ * and instructors emailing their members or registrants). The worker sends it;
+ * poll the returned jobId to see the delivery.
+ * Body: { template, userId, data }. fullName defaults to the user's profile name.
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { template, userId, data } = await request.json().catch(() => ({}));
+
+    if (!isNotificationTemplateName(template) || !STAFF_TEMPLATES.includes(template)) {
+      return NextResponse.json(
+        { error: `template must be one of ${STAFF_TEMPLATES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!userId || typeof userId !== "string") {
+      return NextResponse.json(
+        { error: "userId is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!(await canManageParticipant(supabase, auth.user, userId))) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const recipient = await getUserRecipient(supabase, userId);
+    if (!recipient) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const { notification, jobId } = await queueNotificationDelivery(
+      supabase,
+      redis,
+      template,
+      { fullName: recipient.fullName || "LifeCraft member", ...data },
+      { to: recipient.email, userId, requestedBy: auth.user.id }
+    );
+    console.log(`✅ [Notifications API] ${template} for ${userId} queued as job ${jobId}`);
+
+    return NextResponse.json(
+      { notification: { id: notification.id, status: notification.status, jobId } },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof NotificationTemplateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error("❌ [Notifications API] Error queueing notification:", error);
+    return NextResponse.json(
+      { error: "Failed to queue notification" },
+      { status: 500 }
+    );
+  }
+}
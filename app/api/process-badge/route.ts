@@ -1,72 +1,59 @@
 import { NextResponse } from "next/server";
-import amqp from "amqplib";
 import redis from "@/lib/redis";
+import { requireAuth } from "@/lib/request-auth";
+import { enqueueJob } from "@/lib/jobs";
+import { getJobStatus } from "@/lib/job-status";
+
+// One badge check per user at a time; a finished check can be requested again
+const IN_FLIGHT_TTL_SECONDS = 60;
 
 export async function POST(request: Request) {
-  let connection;
-  let channel;
-  
-  try {
-    const { userId, moduleId } = await request.json();
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
 
-    if (!userId || !moduleId) {
-      return NextResponse.json(
-        { error: 'userId and moduleId are required' },
-        { status: 400 }
-      );
+  try {
+    // moduleId is optional - it only records what triggered the check
+    const { moduleId } = await request.json().catch(() => ({}));
+    const userId = auth.user.id;
+    const inFlightKey = `badge_processing_${userId}`;
+
+    // A check still waiting or running already covers this request
+    const inFlightJobId = await redis.get(inFlightKey);
+    const inFlight = inFlightJobId ? await getJobStatus(redis, inFlightJobId) : null;
+    if (inFlight && ["pending", "processing", "retrying"].includes(inFlight.state)) {
+      console.log(`🎖️ [Badge API] Badge check ${inFlight.id} already pending for user: ${userId}`);
+      return NextResponse.json({
+        status: "pending",
+        jobId: inFlight.id,
+        message: "Checking for new badges...",
+        queuedAt: inFlight.createdAt
+      });
     }
 
     console.log(`🎖️ [Badge API] Queuing badge check for user: ${userId}`);
 
-    // Create fresh connection
-    connection = await amqp.connect(
-      process.env.RABBITMQ_URL || "amqp://localhost",
-      { heartbeat: 30 }
+    const jobId = await enqueueJob(
+      redis,
+      "badge_check",
+      { userId, moduleId: typeof moduleId === "string" ? moduleId : null },
+      { userId }
     );
-    
-    channel = await connection.createChannel();
-    await channel.assertQueue("badge_processing_queue", { durable: false });
-
-    const job = { 
-      userId, 
-      moduleId, 
-      timestamp: Date.now() 
-    };
-    
-    // Send message
-    channel.sendToQueue(
-      "badge_processing_queue",
-      Buffer.from(JSON.stringify(job))
-    );
-
-    console.log(`✅ [Badge API] Job sent to RabbitMQ queue`);
 
-    // Mark as processing in Redis
-    await redis.set(`badge_processing_${userId}`, "true", "EX", 60);
+    await redis.set(inFlightKey, jobId, "EX", IN_FLIGHT_TTL_SECONDS);
 
-    // Close properly
-    await channel.close();
-    await connection.close();
+    console.log(`✅ [Badge API] Job ${jobId} queued`);
 
     return NextResponse.json({
-      status: "processing",
+      status: "pending",
+      jobId,
       message: "Checking for new badges...",
       queuedAt: new Date().toISOString()
     });
   } catch (error) {
     console.error("❌ [Badge API] Error:", error);
-    
-    // Clean up on error
-    try {
-      if (channel) await channel.close();
-    } catch {}
-    try {
-      if (connection) await connection.close();
-    } catch {}
-    
     return NextResponse.json(
       { error: 'Failed to queue badge processing' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
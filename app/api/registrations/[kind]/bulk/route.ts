@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import redis from "@/lib/redis";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import { getManagedEventIds } from "@/lib/permissions";
+import {
+  BULK_REGISTRATION_KINDS,
+  JobPayloadError,
+  enqueueJob,
+  type BulkRegistrationKind
+} from "@/lib/jobs";
+
+/**
+ * Queue a bulk action on drill or session registrations: approve, decline,
+ * complete or issue_certificates. The worker checks each registration against
+ * the events the caller manages and reports per-row results on the job
+ * (GET /api/jobs/:id). Body: { action, registrationIds }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ kind: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { kind } = await params;
+    if (!BULK_REGISTRATION_KINDS.includes(kind as BulkRegistrationKind)) {
+      return NextResponse.json(
+        { error: "Not found" },
+        { status: 404 }
+      );
+    }
+
+    const managed = await getManagedEventIds(getSupabaseAdmin(), auth.user);
+    if (!managed.all && managed[kind as BulkRegistrationKind].length === 0) {
+      return NextResponse.json(
+        { error: "You do not manage any events" },
+        { status: 403 }
+      );
+    }
+
+    const { action, registrationIds } = await request.json().catch(() => ({}));
+    const jobId = await enqueueJob(
+      redis,
+      "registration_bulk_action",
+      { userId: auth.user.id, kind: kind as BulkRegistrationKind, action, registrationIds },
+      { userId: auth.user.id }
+    );
+
+    console.log(`✅ [Registrations API] Queued ${action} for ${registrationIds.length} ${kind} registration(s) as job ${jobId}`);
+
+    return NextResponse.json(
+      { status: "pending", jobId },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof JobPayloadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error("❌ [Registrations API] Error queueing bulk action:", error);
+    return NextResponse.json(
+      { error: "Failed to queue bulk action" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { requireAuth } from "@/lib/request-auth";
+import {
+  REMINDER_OFFSET_CHOICES,
+  MAX_REMINDER_OFFSETS,
+  ReminderPreferencesError,
+  getReminderPreferences,
+  saveReminderPreferences
+} from "@/lib/reminders";
+
+/**
+ * The signed-in user's reminder preferences and the times they can choose from
+ */
+export async function GET(request: Request) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const preferences = await getReminderPreferences(getSupabaseAdmin(), auth.user.id);
+    return NextResponse.json({
+      preferences,
+      choices: REMINDER_OFFSET_CHOICES,
+      maxOffsets: MAX_REMINDER_OFFSETS
+    });
+  } catch (error) {
+    console.error("❌ [Reminders API] Error loading preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to load reminder preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save { offsetsHours, email, inApp }. Scheduled reminders follow within a
+ * few minutes.
+ */
+export async function PUT(request: Request) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const preferences = await saveReminderPreferences(getSupabaseAdmin(), auth.user.id, body ?? {});
+    console.log(`✅ [Reminders API] Preferences saved for ${auth.user.id}`);
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    if (error instanceof ReminderPreferencesError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("❌ [Reminders API] Error saving preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to save reminder preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Go back to the default reminder times
+ */
+export async function DELETE(request: Request) {
+  const auth = await requireAuth(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const preferences = await saveReminderPreferences(getSupabaseAdmin(), auth.user.id, null);
+    console.log(`✅ [Reminders API] Preferences reset for ${auth.user.id}`);
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error("❌ [Reminders API] Error resetting preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to reset reminder preferences" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { verifyCertificate } from "@/lib/certificates";
+
+/**
+ * Public certificate verification - no auth, so employers can check the
+ * serial printed on (or scanned from) a certificate
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ serial: string }> }
+) {
+  try {
+    const { serial } = await params;
+    const certificate = await verifyCertificate(getSupabaseAdmin(), serial);
+
+    if (!certificate) {
+      return NextResponse.json(
+        { error: "Certificate not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      certificate,
+      valid: certificate.signatureValid && (certificate.status === "valid" || certificate.status === "expiring")
+    });
+  } catch (error) {
+    console.error("❌ [Verify API] Error verifying certificate:", error);
+    return NextResponse.json(
+      { error: "Failed to verify certificate" },
+      { status: 500 }
+    );
+  }
+}
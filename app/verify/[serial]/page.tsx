@@ -0,0 +1,7 @@
+'use client';
+
+import CertificateVerification from '@/components/verify/CertificateVerification';
+
+export default function VerifyCertificatePage() {
+  return <CertificateVerification />;
+}
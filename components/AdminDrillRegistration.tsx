@@ -3,8 +3,11 @@ import { useState, useEffect } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Loader2, CheckCircle, XCircle, Clock, RefreshCw, Download, ChevronDown, ChevronUp, AlertCircle } from 'lucide-react';
+import { Loader2, CheckCircle, XCircle, Clock, RefreshCw, Download, ChevronDown, ChevronUp, AlertCircle, ListOrdered, QrCode } from 'lucide-react';
 import { getAllDrillRegistrations, updateDrillRegistrationStatus, markPhysicalDrillComplete } from '@/lib/drills-utils';
+import { CheckInScanner } from './CheckInScanner';
+import { BulkRegistrationActions, SelectCheckbox, useRegistrationSelection } from './BulkRegistrationActions';
+import type { BulkRegistrationAction } from '@/lib/bulk-registration-utils';
 
 interface DrillRegistration {
   id: string;
@@ -13,6 +16,9 @@ interface DrillRegistration {
   status: string;
   created_at: string;
   completed_at?: string;
+  waitlisted_at?: string | null;
+  checked_in_at?: string | null;
+  certificate_serial?: string | null;
   profiles: {
     full_name: string;
     email: string;
@@ -35,7 +41,7 @@ interface RegistrationsByDrill {
   registrations: DrillRegistration[];
 }
 
-type FilterTab = 'all' | 'pending' | 'approved' | 'completed' | 'declined';
+type FilterTab = 'all' | 'pending' | 'waitlisted' | 'approved' | 'completed' | 'declined';
 
 export function AdminDrillRegistrations() {
   const [registrations, setRegistrations] = useState<DrillRegistration[]>([]);
@@ -45,6 +51,8 @@ export function AdminDrillRegistrations() {
   const [expandedDrills, setExpandedDrills] = useState<Set<string>>(new Set());
   const [pdfLoading, setPdfLoading] = useState<string | null>(null);
   const [activeFilter, setActiveFilter] = useState<FilterTab>('all');
+  const [scannerDrill, setScannerDrill] = useState<RegistrationsByDrill | null>(null);
+  const { selected, setSelection, clearSelection } = useRegistrationSelection();
   const [confirmComplete, setConfirmComplete] = useState<{
     show: boolean;
     registration: DrillRegistration | null;
@@ -66,6 +74,7 @@ export function AdminDrillRegistrations() {
         status: reg.status,
         created_at: reg.created_at,
         completed_at: reg.completed_at,
+        certificate_serial: reg.certificate_serial,
         profiles: Array.isArray(reg.profiles) 
           ? (reg.profiles[0] || null)
           : reg.profiles,
@@ -94,14 +103,22 @@ export function AdminDrillRegistrations() {
     }
   };
 
-  const handleStatusUpdate = async (registrationId: string, status: 'approved' | 'declined') => {
+  const handleStatusUpdate = async (registrationId: string, status: 'approved' | 'declined' | 'cancelled') => {
+    if (status === 'cancelled' && !confirm('Cancel this registration? The seat goes to the next person on the waitlist.')) {
+      return;
+    }
+
     try {
       setActionLoading(registrationId);
-      await updateDrillRegistrationStatus(registrationId, status);
+      const promoted = await updateDrillRegistrationStatus(registrationId, status);
       await loadRegistrations();
+
+      if (promoted.length > 0) {
+        alert(`${promoted.length} registration(s) moved up from the waitlist and the users were notified.`);
+      }
     } catch (error) {
       console.error('Error updating status:', error);
-      alert('Failed to update registration status');
+      alert(error instanceof Error ? error.message : 'Failed to update registration status');
     } finally {
       setActionLoading(null);
     }
@@ -523,13 +540,23 @@ export function AdminDrillRegistrations() {
   );
 
   const pendingCount = registrations.filter(r => r.status === 'pending').length;
+  const waitlistedCount = registrations.filter(r => r.status === 'waitlisted').length;
   const approvedCount = registrations.filter(r => r.status === 'approved').length;
   const completedCount = registrations.filter(r => r.status === 'completed').length;
   const declinedCount = registrations.filter(r => r.status === 'declined').length;
 
+  // Only what the current filter shows can be acted on
+  const selectedRegs = filteredRegistrations.filter(r => selected.has(r.id));
+  const bulkActions: BulkRegistrationAction[] = [];
+  if (selectedRegs.some(r => r.status === 'pending')) bulkActions.push('approve');
+  if (selectedRegs.some(r => r.status === 'pending' || r.status === 'waitlisted')) bulkActions.push('decline');
+  if (selectedRegs.some(r => r.status === 'approved')) bulkActions.push('complete');
+  if (selectedRegs.some(r => r.status === 'completed' && !r.certificate_serial)) bulkActions.push('issue_certificates');
+
   const filterTabs: { id: FilterTab; label: string; count: number }[] = [
     { id: 'all', label: 'All', count: registrations.length },
     { id: 'pending', label: 'Pending', count: pendingCount },
+    { id: 'waitlisted', label: 'Waitlist', count: waitlistedCount },
     { id: 'approved', label: 'Approved', count: approvedCount },
     { id: 'completed', label: 'Completed', count: completedCount },
     { id: 'declined', label: 'Declined', count: declinedCount },
@@ -700,6 +727,10 @@ export function AdminDrillRegistrations() {
               {registrationsByDrill.map((drill) => {
                 const isExpanded = expandedDrills.has(drill.drillId);
                 const pendingRegs = drill.registrations.filter(r => r.status === 'pending');
+                // Promotion order
+                const waitlistedRegs = drill.registrations
+                  .filter(r => r.status === 'waitlisted')
+                  .sort((a, b) => new Date(a.waitlisted_at || a.created_at).getTime() - new Date(b.waitlisted_at || b.created_at).getTime());
                 const approvedRegs = drill.registrations.filter(r => r.status === 'approved');
                 const completedRegs = drill.registrations.filter(r => r.status === 'completed');
                 const declinedRegs = drill.registrations.filter(r => r.status === 'declined');
@@ -748,6 +779,11 @@ export function AdminDrillRegistrations() {
                                 {pendingRegs.length} Pending
                               </Badge>
                             )}
+                            {waitlistedRegs.length > 0 && (
+                              <Badge className="bg-slate-100 text-slate-700 border-slate-200 text-xs">
+                                {waitlistedRegs.length} Waitlisted
+                              </Badge>
+                            )}
                             {approvedRegs.length > 0 && (
                               <Badge className="bg-green-100 text-green-700 border-green-200 text-xs">
                                 {approvedRegs.length} Approved
@@ -766,27 +802,41 @@ export function AdminDrillRegistrations() {
                           </div>
                         </div>
 
-                        <Button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            generatePDF(drill);
-                          }}
-                          size="sm"
-                          disabled={pdfLoading === drill.drillId}
-                          className="bg-red-600 hover:bg-red-700 text-white w-full sm:w-auto flex-shrink-0"
-                        >
-                          {pdfLoading === drill.drillId ? (
-                            <>
-                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                              <span className="text-xs sm:text-sm">Generating...</span>
-                            </>
-                          ) : (
-                            <>
-                              <Download className="w-4 h-4 mr-2" />
-                              <span className="text-xs sm:text-sm">Export PDF</span>
-                            </>
-                          )}
-                        </Button>
+                        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto flex-shrink-0">
+                          <Button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setScannerDrill(drill);
+                            }}
+                            size="sm"
+                            variant="outline"
+                            className="bg-white border-gray-300 hover:bg-gray-100 w-full sm:w-auto"
+                          >
+                            <QrCode className="w-4 h-4 mr-2" />
+                            <span className="text-xs sm:text-sm">Check-in</span>
+                          </Button>
+                          <Button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              generatePDF(drill);
+                            }}
+                            size="sm"
+                            disabled={pdfLoading === drill.drillId}
+                            className="bg-red-600 hover:bg-red-700 text-white w-full sm:w-auto"
+                          >
+                            {pdfLoading === drill.drillId ? (
+                              <>
+                                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                <span className="text-xs sm:text-sm">Generating...</span>
+                              </>
+                            ) : (
+                              <>
+                                <Download className="w-4 h-4 mr-2" />
+                                <span className="text-xs sm:text-sm">Export PDF</span>
+                              </>
+                            )}
+                          </Button>
+                        </div>
                       </div>
                     </div>
 
@@ -795,18 +845,22 @@ export function AdminDrillRegistrations() {
                         {pendingRegs.length > 0 && (
                           <div className="mb-6">
                             <h4 className="font-semibold mb-3 text-amber-700 text-sm sm:text-base flex items-center gap-2">
+                              <SelectCheckbox ids={pendingRegs.map(reg => reg.id)} selected={selected} onChange={setSelection} label="Select all" />
                               <Clock className="w-4 h-4" />
                               Pending Approval ({pendingRegs.length})
                             </h4>
                             <div className="space-y-3">
                               {pendingRegs.map(reg => (
                                 <div key={reg.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 bg-amber-50 rounded-lg border border-amber-200">
-                                  <div className="flex-1 min-w-0">
-                                    <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
-                                    <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
-                                    <p className="text-xs text-gray-500 mt-1">
-                                      Registered: {new Date(reg.created_at).toLocaleDateString()} at {new Date(reg.created_at).toLocaleTimeString()}
-                                    </p>
+                                  <div className="flex-1 min-w-0 flex items-start gap-3">
+                                    <SelectCheckbox ids={[reg.id]} selected={selected} onChange={setSelection} label={`Select ${reg.profiles?.full_name || 'registration'}`} className="mt-1" />
+                                    <div className="min-w-0">
+                                      <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
+                                      <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
+                                      <p className="text-xs text-gray-500 mt-1">
+                                        Registered: {new Date(reg.created_at).toLocaleDateString()} at {new Date(reg.created_at).toLocaleTimeString()}
+                                      </p>
+                                    </div>
                                   </div>
                                   <div className="flex gap-2">
                                     <Button
@@ -847,41 +901,44 @@ export function AdminDrillRegistrations() {
                           </div>
                         )}
 
-                        {/* PART 3: Approved, Completed, and Declined Sections */}
-                        {approvedRegs.length > 0 && (
+                        {waitlistedRegs.length > 0 && (
                           <div className="mb-6">
-                            <h4 className="font-semibold mb-3 text-green-700 text-sm sm:text-base flex items-center gap-2">
-                              <CheckCircle className="w-4 h-4" />
-                              Approved - Can Attend ({approvedRegs.length})
+                            <h4 className="font-semibold mb-3 text-slate-700 text-sm sm:text-base flex items-center gap-2">
+                              <SelectCheckbox ids={waitlistedRegs.map(reg => reg.id)} selected={selected} onChange={setSelection} label="Select all" />
+                              <ListOrdered className="w-4 h-4" />
+                              Waitlist ({waitlistedRegs.length})
                             </h4>
                             <div className="space-y-3">
-                              {approvedRegs.map(reg => (
-                                <div key={reg.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 bg-green-50 rounded-lg border border-green-200">
-                                  <div className="flex-1 min-w-0">
-                                    <div className="flex items-center gap-2 mb-1">
-                                      <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
-                                      <Badge className="bg-green-100 text-green-700 border-green-200 text-xs">
-                                        Approved
-                                      </Badge>
+                              {waitlistedRegs.map((reg, index) => (
+                                <div key={reg.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 bg-slate-50 rounded-lg border border-slate-200">
+                                  <div className="flex-1 min-w-0 flex items-start gap-3">
+                                    <SelectCheckbox ids={[reg.id]} selected={selected} onChange={setSelection} label={`Select ${reg.profiles?.full_name || 'registration'}`} className="mt-1" />
+                                    <div className="min-w-0">
+                                      <div className="flex items-center gap-2 mb-1">
+                                        <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
+                                        <Badge className="bg-slate-100 text-slate-700 border-slate-200 text-xs">
+                                          #{index + 1}
+                                        </Badge>
+                                      </div>
+                                      <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
+                                      <p className="text-xs text-gray-500 mt-1">
+                                        Joined waitlist: {new Date(reg.waitlisted_at || reg.created_at).toLocaleDateString()}
+                                      </p>
                                     </div>
-                                    <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
-                                    <p className="text-xs text-gray-500 mt-1">
-                                      Registered: {new Date(reg.created_at).toLocaleDateString()}
-                                    </p>
                                   </div>
                                   <Button
                                     size="sm"
-                                    onClick={() => handleMarkComplete(reg)}
+                                    onClick={() => handleStatusUpdate(reg.id, 'declined')}
                                     disabled={actionLoading === reg.id}
-                                    className="bg-blue-600 hover:bg-blue-700 text-white w-full sm:w-auto"
+                                    variant="outline"
+                                    className="text-red-600 border-red-300 hover:bg-red-50 w-full sm:w-auto"
                                   >
                                     {actionLoading === reg.id ? (
                                       <Loader2 className="w-4 h-4 animate-spin" />
                                     ) : (
                                       <>
-                                        <CheckCircle className="w-4 h-4 mr-1" />
-                                        <span className="hidden sm:inline text-sm">Mark Complete</span>
-                                        <span className="sm:hidden text-sm">Complete</span>
+                                        <XCircle className="w-4 h-4 mr-1" />
+                                        <span className="text-xs sm:text-sm">Remove</span>
                                       </>
                                     )}
                                   </Button>
@@ -891,26 +948,95 @@ export function AdminDrillRegistrations() {
                           </div>
                         )}
 
+                        {/* PART 3: Approved, Completed, and Declined Sections */}
+                        {approvedRegs.length > 0 && (
+                          <div className="mb-6">
+                            <h4 className="font-semibold mb-3 text-green-700 text-sm sm:text-base flex items-center gap-2">
+                              <SelectCheckbox ids={approvedRegs.map(reg => reg.id)} selected={selected} onChange={setSelection} label="Select all" />
+                              <CheckCircle className="w-4 h-4" />
+                              Approved - Can Attend ({approvedRegs.length})
+                            </h4>
+                            <div className="space-y-3">
+                              {approvedRegs.map(reg => (
+                                <div key={reg.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 bg-green-50 rounded-lg border border-green-200">
+                                  <div className="flex-1 min-w-0 flex items-start gap-3">
+                                    <SelectCheckbox ids={[reg.id]} selected={selected} onChange={setSelection} label={`Select ${reg.profiles?.full_name || 'registration'}`} className="mt-1" />
+                                    <div className="min-w-0">
+                                      <div className="flex items-center gap-2 mb-1">
+                                        <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
+                                        <Badge className="bg-green-100 text-green-700 border-green-200 text-xs">
+                                          Approved
+                                        </Badge>
+                                        {reg.checked_in_at && (
+                                          <Badge className="bg-blue-100 text-blue-700 border-blue-200 text-xs">
+                                            Checked in {new Date(reg.checked_in_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                                          </Badge>
+                                        )}
+                                      </div>
+                                      <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
+                                      <p className="text-xs text-gray-500 mt-1">
+                                        Registered: {new Date(reg.created_at).toLocaleDateString()}
+                                      </p>
+                                    </div>
+                                  </div>
+                                  <div className="flex gap-2">
+                                    <Button
+                                      size="sm"
+                                      onClick={() => handleStatusUpdate(reg.id, 'cancelled')}
+                                      disabled={actionLoading === reg.id}
+                                      variant="outline"
+                                      className="text-red-600 border-red-300 hover:bg-red-50 flex-1 sm:flex-none"
+                                    >
+                                      <XCircle className="w-4 h-4 mr-1" />
+                                      <span className="text-xs sm:text-sm">Cancel</span>
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      onClick={() => handleMarkComplete(reg)}
+                                      disabled={actionLoading === reg.id}
+                                      className="bg-blue-600 hover:bg-blue-700 text-white flex-1 sm:flex-none"
+                                    >
+                                      {actionLoading === reg.id ? (
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                      ) : (
+                                        <>
+                                          <CheckCircle className="w-4 h-4 mr-1" />
+                                          <span className="hidden sm:inline text-sm">Mark Complete</span>
+                                          <span className="sm:hidden text-sm">Complete</span>
+                                        </>
+                                      )}
+                                    </Button>
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
                         {completedRegs.length > 0 && (
                           <div className="mb-6">
                             <h4 className="font-semibold mb-3 text-blue-700 text-sm sm:text-base flex items-center gap-2">
+                              <SelectCheckbox ids={completedRegs.map(reg => reg.id)} selected={selected} onChange={setSelection} label="Select all" />
                               <CheckCircle className="w-4 h-4" />
                               Completed - Ready for Certificate ({completedRegs.length})
                             </h4>
                             <div className="space-y-2">
                               {completedRegs.map(reg => (
                                 <div key={reg.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-4 bg-blue-50 rounded-lg border border-blue-200">
-                                  <div className="flex-1 min-w-0">
-                                    <div className="flex items-center gap-2 mb-1">
-                                      <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
-                                      <Badge className="bg-blue-100 text-blue-700 border-blue-200 text-xs">
-                                        Completed
-                                      </Badge>
+                                  <div className="flex-1 min-w-0 flex items-start gap-3">
+                                    <SelectCheckbox ids={[reg.id]} selected={selected} onChange={setSelection} label={`Select ${reg.profiles?.full_name || 'registration'}`} className="mt-1" />
+                                    <div className="min-w-0">
+                                      <div className="flex items-center gap-2 mb-1">
+                                        <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
+                                        <Badge className="bg-blue-100 text-blue-700 border-blue-200 text-xs">
+                                          Completed
+                                        </Badge>
+                                      </div>
+                                      <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
+                                      <p className="text-xs text-gray-500 mt-1">
+                                        Completed: {reg.completed_at ? new Date(reg.completed_at).toLocaleDateString() : 'Unknown'}
+                                      </p>
                                     </div>
-                                    <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
-                                    <p className="text-xs text-gray-500 mt-1">
-                                      Completed: {reg.completed_at ? new Date(reg.completed_at).toLocaleDateString() : 'Unknown'}
-                                    </p>
                                   </div>
                                   <div className="flex items-center gap-2">
                                     <CheckCircle className="w-5 h-5 text-blue-600" />
@@ -920,7 +1046,7 @@ export function AdminDrillRegistrations() {
                             </div>
                             <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
                               <p className="text-xs sm:text-sm text-blue-800">
-                                Next Step: Go to the Certificates tab to award certificates to these participants.
+                                Next Step: Select participants and Issue Certificates, or award them one by one from the Certificates tab.
                               </p>
                             </div>
                           </div>
@@ -968,7 +1094,7 @@ export function AdminDrillRegistrations() {
           <div className="space-y-2 text-sm text-gray-700">
             <div className="flex items-start gap-3">
               <span className="font-bold text-amber-600 flex-shrink-0">1.</span>
-              <p><strong>Pending:</strong> User submits registration, wait for admin approval</p>
+              <p><strong>Pending:</strong> User submits registration, wait for admin approval. Once a drill is full, new registrations join the waitlist and move up automatically when a seat is declined or cancelled</p>
             </div>
             <div className="flex items-start gap-3">
               <span className="font-bold text-green-600 flex-shrink-0">2.</span>
@@ -976,15 +1102,15 @@ export function AdminDrillRegistrations() {
             </div>
             <div className="flex items-start gap-3">
               <span className="font-bold text-blue-600 flex-shrink-0">3.</span>
-              <p><strong>Drill Happens:</strong> Physical drill takes place in person</p>
+              <p><strong>Drill Happens:</strong> Physical drill takes place in person; instructors scan attendees&apos; check-in codes from the Check-in button</p>
             </div>
             <div className="flex items-start gap-3">
               <span className="font-bold text-blue-600 flex-shrink-0">4.</span>
-              <p><strong>Mark Complete:</strong> Admin marks drill as completed after it's done</p>
+              <p><strong>Mark Complete:</strong> Admin marks drill as completed after it's done, one by one or for everyone checked in</p>
             </div>
             <div className="flex items-start gap-3">
               <span className="font-bold text-purple-600 flex-shrink-0">5.</span>
-              <p><strong>Award Certificate:</strong> Admin awards certificate from Certificates tab</p>
+              <p><strong>Award Certificate:</strong> Admin awards certificates from the Certificates tab, or selects completed participants here and issues them together</p>
             </div>
             <div className="flex items-start gap-3">
               <span className="font-bold text-indigo-600 flex-shrink-0">6.</span>
@@ -993,6 +1119,27 @@ export function AdminDrillRegistrations() {
           </div>
         </Card>
       </div>
+
+      <BulkRegistrationActions
+        kind="drill"
+        selectedIds={selectedRegs.map(r => r.id)}
+        actions={bulkActions}
+        onClear={clearSelection}
+        onFinished={loadRegistrations}
+      />
+
+      {scannerDrill && (
+        <CheckInScanner
+          kind="drill"
+          eventId={scannerDrill.drillId}
+          title={scannerDrill.drillTitle}
+          onClose={() => {
+            setScannerDrill(null);
+            loadRegistrations();
+          }}
+          onCompleted={loadRegistrations}
+        />
+      )}
     </div>
   );
 }
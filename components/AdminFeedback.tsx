@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Profile } from '@/lib/supabase';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Archive, Edit, Loader2, MessageSquare, Plus, RotateCcw } from 'lucide-react';
+import {
+  FEEDBACK_TARGET_LABELS,
+  getFeedbackSurveys,
+  setFeedbackSurveyActive,
+  type FeedbackSurvey
+} from '@/lib/feedback-utils';
+import { FeedbackSurveyFormModal } from './FeedbackSurveyFormModal';
+import { FeedbackResultsPanel } from './FeedbackResultsPanel';
+
+interface AdminFeedbackProps {
+  profile: Profile;
+}
+
+/**
+ * Feedback tab of the admin portal. Admins write and close surveys;
+ * instructors see the results for what they teach.
+ */
+export function AdminFeedback({ profile }: AdminFeedbackProps) {
+  const isAdmin = profile.role === 'admin';
+  const [surveys, setSurveys] = useState<FeedbackSurvey[] | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingSurvey, setEditingSurvey] = useState<FeedbackSurvey | null>(null);
+
+  const loadSurveys = useCallback(() => {
+    getFeedbackSurveys()
+      .then(setSurveys)
+      .catch(() => setSurveys([]));
+  }, []);
+
+  useEffect(() => {
+    loadSurveys();
+  }, [loadSurveys]);
+
+  const handleToggleActive = async (survey: FeedbackSurvey) => {
+    const action = survey.is_active ? 'close' : 'reopen';
+    if (!confirm(`Are you sure you want to ${action} "${survey.title}"?`)) {
+      return;
+    }
+
+    try {
+      await setFeedbackSurveyActive(survey.id, !survey.is_active);
+      loadSurveys();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update survey');
+    }
+  };
+
+  if (!surveys) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-red-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {isAdmin && (
+        <div>
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-lg sm:text-xl font-semibold">Surveys</h2>
+              <p className="text-xs sm:text-sm text-gray-600">
+                Participants are asked on their dashboard once they complete what a survey covers.
+              </p>
+            </div>
+            <Button
+              onClick={() => {
+                setEditingSurvey(null);
+                setShowForm(true);
+              }}
+              className="bg-red-600 hover:bg-red-700 text-white"
+              size="sm"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Survey
+            </Button>
+          </div>
+
+          {surveys.length === 0 ? (
+            <Card className="p-8 sm:p-12 text-center">
+              <MessageSquare className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-sm sm:text-base text-gray-600">No surveys yet</p>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {surveys.map(survey => (
+                <Card key={survey.id} className={`p-4 sm:p-6 ${survey.is_active ? '' : 'opacity-60'}`}>
+                  <div className="flex items-start justify-between gap-3 mb-3">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold truncate">{survey.title}</h3>
+                      <p className="text-xs text-gray-600">
+                        {FEEDBACK_TARGET_LABELS[survey.target_kind]}
+                        {survey.target_id ? ' (one)' : 's (all)'} · {survey.questions.length} question{survey.questions.length === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    <Badge className={survey.is_active ? 'bg-green-100 text-green-700 border-green-200' : 'bg-gray-100 text-gray-600 border-gray-200'}>
+                      {survey.is_active ? 'Open' : 'Closed'}
+                    </Badge>
+                  </div>
+
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setEditingSurvey(survey);
+                        setShowForm(true);
+                      }}
+                    >
+                      <Edit className="w-4 h-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleToggleActive(survey)}
+                      className={survey.is_active ? 'text-red-600 border-red-300 hover:bg-red-50' : ''}
+                    >
+                      {survey.is_active ? (
+                        <>
+                          <Archive className="w-4 h-4 mr-1" />
+                          Close
+                        </>
+                      ) : (
+                        <>
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Reopen
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <h2 className="text-lg sm:text-xl font-semibold mb-4">Results</h2>
+        <FeedbackResultsPanel surveys={surveys} />
+      </div>
+
+      {showForm && (
+        <FeedbackSurveyFormModal
+          survey={editingSurvey}
+          onClose={() => {
+            setShowForm(false);
+            setEditingSurvey(null);
+          }}
+          onSuccess={loadSurveys}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import type { Profile } from '@/lib/supabase';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
@@ -21,7 +21,10 @@ import {
   CheckCircle,
   Mail,
   FileText,
-  Download
+  Plus,
+  Edit,
+  Archive,
+  RotateCcw
 } from 'lucide-react';
 import {
   getDashboardStats,
@@ -31,23 +34,32 @@ import {
   getPerformanceMetrics,
   searchParticipants,
   getCertifiedDrills,
-  storeCertificateUrl,
   sendCompletionNotification,
+  exportDrillReport,
   type ParticipantStats,
   type AdminDashboardStats,
   type RecentActivity,
   type DrillStats,
   type CertifiedDrill
 } from '@/lib/admin-portal-utils';
+import { fetchBadgeDefinitions, updateBadge, retireBadge, type BadgeDefinition } from '@/lib/badge-utils';
+import { BadgeFormModal } from './BadgeFormModal';
+import { issueCertificate } from '@/lib/certificate-utils';
+import { RevokeCertificateButton } from './RevokeCertificateButton';
+import { AdminFeedback } from './AdminFeedback';
 
 interface AdminPortalProps {
   profile: Profile;
 }
 
 export function AdminPortal({ profile }: AdminPortalProps) {
-  const [activeTab, setActiveTab] = useState<'overview' | 'participants' | 'drills' | 'certificates'>('overview');
+  // Instructors only get the feedback tab
+  const isAdmin = profile.role === 'admin';
+  const [activeTab, setActiveTab] = useState<'overview' | 'participants' | 'drills' | 'certificates' | 'badges' | 'feedback'>(
+    isAdmin ? 'overview' : 'feedback'
+  );
   const [searchQuery, setSearchQuery] = useState('');
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(isAdmin);
   const [searching, setSearching] = useState(false);
   const [generatingReport, setGeneratingReport] = useState(false);
   
@@ -68,18 +80,51 @@ export function AdminPortal({ profile }: AdminPortalProps) {
     avgDrillScore: 0
   });
   const [generatingCertificate, setGeneratingCertificate] = useState<string | null>(null);
+  const [badgeDefinitions, setBadgeDefinitions] = useState<BadgeDefinition[]>([]);
+  const [loadingBadges, setLoadingBadges] = useState(false);
+  const [showBadgeForm, setShowBadgeForm] = useState(false);
+  const [editingBadge, setEditingBadge] = useState<BadgeDefinition | null>(null);
 
   useEffect(() => {
-    loadDashboardData();
-  }, []);
+    if (isAdmin) loadDashboardData();
+  }, [isAdmin]);
 
   useEffect(() => {
-    if (searchQuery.trim()) {
-      handleSearch();
-    } else {
+    if (activeTab === 'badges') {
+      loadBadges();
+    }
+  }, [activeTab]);
+
+  const loadParticipants = useCallback(async () => {
+    try {
+      const data = await getAllParticipants();
+      setParticipants(data);
+    } catch (error) {
+      console.error('Error loading participants:', error);
+    }
+  }, []);
+
+  const handleSearch = useCallback(async () => {
+    if (!searchQuery.trim()) {
       loadParticipants();
+      return;
     }
-  }, [searchQuery]);
+
+    try {
+      setSearching(true);
+      const results = await searchParticipants(searchQuery);
+      setParticipants(results);
+    } catch (error) {
+      console.error('Error searching participants:', error);
+    } finally {
+      setSearching(false);
+    }
+  }, [searchQuery, loadParticipants]);
+
+  // Lists everyone while the search box is empty
+  useEffect(() => {
+    if (isAdmin) handleSearch();
+  }, [isAdmin, handleSearch]);
 
   const loadDashboardData = async () => {
     try {
@@ -104,29 +149,34 @@ export function AdminPortal({ profile }: AdminPortalProps) {
     }
   };
 
-  const loadParticipants = async () => {
+  const loadBadges = async () => {
     try {
-      const data = await getAllParticipants();
-      setParticipants(data);
+      setLoadingBadges(true);
+      const data = await fetchBadgeDefinitions(true);
+      setBadgeDefinitions(data);
     } catch (error) {
-      console.error('Error loading participants:', error);
+      console.error('Error loading badges:', error);
+    } finally {
+      setLoadingBadges(false);
     }
   };
 
-  const handleSearch = async () => {
-    if (!searchQuery.trim()) {
-      loadParticipants();
+  const handleToggleBadgeRetired = async (badge: BadgeDefinition) => {
+    const action = badge.active ? 'retire' : 'restore';
+    if (!confirm(`Are you sure you want to ${action} the "${badge.name}" badge?`)) {
       return;
     }
 
     try {
-      setSearching(true);
-      const results = await searchParticipants(searchQuery);
-      setParticipants(results);
+      if (badge.active) {
+        await retireBadge(badge.id);
+      } else {
+        await updateBadge(badge.id, { active: true });
+      }
+      await loadBadges();
     } catch (error) {
-      console.error('Error searching participants:', error);
-    } finally {
-      setSearching(false);
+      console.error(`Error trying to ${action} badge:`, error);
+      alert(`Failed to ${action} badge: ` + (error instanceof Error ? error.message : 'Unknown error'));
     }
   };
 
@@ -142,263 +192,17 @@ export function AdminPortal({ profile }: AdminPortalProps) {
     return date.toLocaleDateString();
   };
 
-  // NEW: Generate Drill Registration Report PDF
+  // Rendered by the worker; downloads once the job is done
   const generateDrillRegistrationReport = async (drill: DrillStats) => {
     setGeneratingReport(true);
 
     try {
-      const loadScript = () => {
-        return new Promise((resolve, reject) => {
-          if ((window as any).jspdf) {
-            resolve(true);
-            return;
-          }
-          
-          const script = document.createElement('script');
-          script.src = 'https://cdnjs.cloudflare.com/ajax/libs/jspdf/2.5.1/jspdf.umd.min.js';
-          script.onload = () => resolve(true);
-          script.onerror = () => reject(new Error('Failed to load PDF library'));
-          document.head.appendChild(script);
-        });
-      };
-
-      await loadScript();
-
-      const { jsPDF } = (window as any).jspdf;
-      const doc = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4'
-      });
-
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const pageHeight = doc.internal.pageSize.getHeight();
-      let yPos = 20;
-
-      // Header with border
-      doc.setLineWidth(2);
-      doc.setDrawColor(0, 0, 0);
-      doc.line(10, 15, pageWidth - 10, 15);
-      
-      yPos = 22;
-      doc.setFontSize(16);
-      doc.setFont('helvetica', 'bold');
-      doc.text('LIFECRAFT EMERGENCY RESPONSE TRAINING', pageWidth / 2, yPos, { align: 'center' });
-      
-      yPos += 7;
-      doc.setFontSize(13);
-      doc.text('Physical Drill Registration Report', pageWidth / 2, yPos, { align: 'center' });
-      
-      yPos += 8;
-      doc.setFontSize(9);
-      doc.setFont('helvetica', 'normal');
-      const now = new Date();
-      doc.text(`Report Generated: ${now.toLocaleDateString('en-US', { 
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      })} at ${now.toLocaleTimeString('en-US')}`, pageWidth / 2, yPos, { align: 'center' });
-      
-      doc.setLineWidth(2);
-      doc.line(10, yPos + 3, pageWidth - 10, yPos + 3);
-      yPos += 12;
-
-      // Drill Information Box
-      doc.setLineWidth(1.5);
-      doc.rect(10, yPos, pageWidth - 20, 40);
-      
-      yPos += 6;
-      doc.setFontSize(11);
-      doc.setFont('helvetica', 'bold');
-      doc.text('DRILL INFORMATION', 15, yPos);
-      doc.setLineWidth(0.5);
-      doc.line(15, yPos + 1, pageWidth - 15, yPos + 1);
-      
-      yPos += 8;
-      doc.setFontSize(10);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Drill Title:', 15, yPos);
-      doc.setFont('helvetica', 'normal');
-      doc.text(drill.title, 40, yPos);
-      
-      yPos += 7;
-      doc.setFont('helvetica', 'bold');
-      doc.text('Date:', 15, yPos);
-      doc.setFont('helvetica', 'normal');
-      doc.text(drill.date ? new Date(drill.date).toLocaleDateString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      }) : 'N/A', 40, yPos);
-      
-      yPos += 7;
-      doc.setFont('helvetica', 'bold');
-      doc.text('Type:', 15, yPos);
-      doc.setFont('helvetica', 'normal');
-      doc.text(drill.type, 40, yPos);
-      
-      yPos += 7;
-      doc.setFont('helvetica', 'bold');
-      doc.text('Location:', 15, yPos);
-      doc.setFont('helvetica', 'normal');
-      doc.text('Olongapo City', 40, yPos);
-      
-      yPos += 14;
-
-      // Registration Summary
-      doc.setFontSize(11);
-      doc.setFont('helvetica', 'bold');
-      doc.text('REGISTRATION SUMMARY', 15, yPos);
-      doc.setLineWidth(0.5);
-      doc.line(15, yPos + 1, pageWidth - 15, yPos + 1);
-      
-      yPos += 10;
-      
-      // Stats boxes - side by side
-      const boxWidth = (pageWidth - 30) / 2;
-      const boxHeight = 25;
-      
-      // Total Registrations
-      doc.setLineWidth(1.5);
-      doc.rect(10, yPos, boxWidth, boxHeight);
-      doc.setFontSize(9);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Total Registrations:', 15, yPos + 8);
-      doc.setFontSize(20);
-      doc.text((drill.registered ?? 0).toString(), 15, yPos + 19);
-      
-      // Capacity
-      doc.rect(10 + boxWidth + 5, yPos, boxWidth, boxHeight);
-      doc.setFontSize(9);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Capacity:', 15 + boxWidth + 5, yPos + 8);
-      doc.setFontSize(20);
-      doc.text(drill.capacity ? drill.capacity.toString() : 'N/A', 15 + boxWidth + 5, yPos + 19);
-      
-      yPos += boxHeight + 12;
-
-      // Top Performers Section
-      doc.setFontSize(11);
-      doc.setFont('helvetica', 'bold');
-      doc.text('TOP PERFORMERS', 15, yPos);
-      doc.setLineWidth(0.5);
-      doc.line(15, yPos + 1, pageWidth - 15, yPos + 1);
-      
-      yPos += 8;
-      
-      const topPerformers = participants
-        .sort((a, b) => b.points - a.points)
-        .slice(0, 5);
-      
-      // Table header
-      doc.setFontSize(9);
-      doc.setFillColor(220, 220, 220);
-      doc.rect(10, yPos, pageWidth - 20, 8, 'F');
-      doc.setLineWidth(1.5);
-      doc.rect(10, yPos, pageWidth - 20, 8);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Rank', 18, yPos + 5.5);
-      doc.text('Name', 45, yPos + 5.5);
-      doc.text('Status', 140, yPos + 5.5);
-      doc.text('Points', pageWidth - 30, yPos + 5.5);
-      
-      yPos += 8;
-      
-      // Table rows
-      doc.setFont('helvetica', 'normal');
-      topPerformers.forEach((performer, index) => {
-        if (yPos > pageHeight - 35) {
-          doc.addPage();
-          yPos = 20;
-        }
-        
-        doc.setLineWidth(0.5);
-        doc.line(10, yPos, pageWidth - 10, yPos);
-        
-        yPos += 6;
-        doc.text((index + 1).toString(), 18, yPos);
-        doc.text(performer.full_name, 45, yPos);
-        doc.text(performer.rank, 140, yPos);
-        doc.text(performer.points.toString(), pageWidth - 30, yPos);
-        yPos += 1;
-      });
-      
-      doc.setLineWidth(1.5);
-      doc.line(10, yPos, pageWidth - 10, yPos);
-      yPos += 10;
-
-      // Performance Metrics Section
-      if (yPos > pageHeight - 55) {
-        doc.addPage();
-        yPos = 20;
-      }
-      
-      doc.setFontSize(11);
-      doc.setFont('helvetica', 'bold');
-      doc.text('PERFORMANCE METRICS', 15, yPos);
-      doc.setLineWidth(0.5);
-      doc.line(15, yPos + 1, pageWidth - 15, yPos + 1);
-      
-      yPos += 10;
-      
-      const metricsBoxWidth = (pageWidth - 40) / 3;
-      const metricsBoxHeight = 28;
-      
-      // Avg Module Score
-      doc.setLineWidth(1.5);
-      doc.setFillColor(255, 255, 255);
-      doc.rect(10, yPos, metricsBoxWidth, metricsBoxHeight, 'FD');
-      doc.setFontSize(9);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Avg. Module Score', 15, yPos + 8);
-      doc.setFontSize(24);
-      doc.text(`${performanceMetrics.avgModuleScore}%`, 15, yPos + 22);
-      
-      // Avg Drill Score
-      doc.setFillColor(255, 255, 255);
-      doc.rect(15 + metricsBoxWidth, yPos, metricsBoxWidth, metricsBoxHeight, 'FD');
-      doc.setFontSize(9);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Avg. Drill Score', 20 + metricsBoxWidth, yPos + 8);
-      doc.setFontSize(24);
-      doc.text(`${performanceMetrics.avgDrillScore}%`, 20 + metricsBoxWidth, yPos + 22);
-      
-      // Completion Rate
-      doc.setFillColor(255, 255, 255);
-      doc.rect(20 + (metricsBoxWidth * 2), yPos, metricsBoxWidth, metricsBoxHeight, 'FD');
-      doc.setFontSize(9);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Completion Rate', 25 + (metricsBoxWidth * 2), yPos + 8);
-      doc.setFontSize(24);
-      doc.text(`${dashboardStats.avgCompletionRate}%`, 25 + (metricsBoxWidth * 2), yPos + 22);
-      
-      yPos += metricsBoxHeight + 15;
-
-      // Footer
-      if (yPos > pageHeight - 20) {
-        doc.addPage();
-        yPos = pageHeight - 20;
-      } else {
-        yPos = pageHeight - 20;
-      }
-      
-      doc.setLineWidth(0.5);
-      doc.line(10, yPos, pageWidth - 10, yPos);
-      doc.setFontSize(9);
-      doc.setFont('helvetica', 'italic');
-      doc.setTextColor(100, 100, 100);
-      doc.text('This report was generated automatically by the LifeCraft Training System', pageWidth / 2, yPos + 5, { align: 'center' });
-
-      // Save the PDF
-      doc.save(`Drill-Report-${drill.title.replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.pdf`);
-      
-      setGeneratingReport(false);
+      await exportDrillReport(drill.id);
     } catch (error) {
       console.error('Report generation error:', error);
+      alert(`Failed to generate report: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`);
+    } finally {
       setGeneratingReport(false);
-      alert('Failed to generate report. Please try again.');
     }
   };
   // Generate certificate function (continues from Part 1)
@@ -406,160 +210,28 @@ export function AdminPortal({ profile }: AdminPortalProps) {
     setGeneratingCertificate(`${drill.id}-${participant.user_id}`);
 
     try {
-      const loadScript = () => {
-        return new Promise((resolve, reject) => {
-          if ((window as any).jspdf) {
-            resolve(true);
-            return;
-          }
-          
-          const script = document.createElement('script');
-          script.src = 'https://cdnjs.cloudflare.com/ajax/libs/jspdf/2.5.1/jspdf.umd.min.js';
-          script.onload = () => resolve(true);
-          script.onerror = () => reject(new Error('Failed to load PDF library'));
-          document.head.appendChild(script);
-        });
-      };
-
-      await loadScript();
-
-      const { jsPDF } = (window as any).jspdf;
-      const doc = new jsPDF({
-        orientation: 'landscape',
-        unit: 'mm',
-        format: 'a4'
-      });
-
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const pageHeight = doc.internal.pageSize.getHeight();
-      
-      doc.setLineWidth(2);
-      doc.setDrawColor(0, 0, 0);
-      doc.rect(5, 5, pageWidth - 10, pageHeight - 10);
-      
-      doc.setLineWidth(0.5);
-      doc.setDrawColor(0, 0, 0);
-      doc.rect(10, 10, pageWidth - 20, pageHeight - 20);
-
-      doc.setFontSize(14);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont('helvetica', 'bold');
-      doc.text('LifeCraft Training Program', pageWidth / 2, 25, { align: 'center' });
-
-      doc.setFontSize(40);
-      doc.setFont('times', 'bold');
-      doc.text('Certificate of Completion', pageWidth / 2, 50, { align: 'center' });
-
-      doc.setLineWidth(0.8);
-      doc.setDrawColor(0, 0, 0);
-      doc.line(50, 55, pageWidth - 50, 55);
-
-      doc.setFontSize(14);
-      doc.setFont('helvetica', 'normal');
-      doc.setTextColor(0, 0, 0);
-      doc.text('This certificate is proudly presented to', pageWidth / 2, 72, { align: 'center' });
-
-      doc.setFontSize(32);
-      doc.setFont('times', 'bolditalic');
-      doc.text(participant.full_name, pageWidth / 2, 90, { align: 'center' });
-
-      doc.setLineWidth(0.3);
-      doc.setDrawColor(0, 0, 0);
-      const nameWidth = doc.getTextWidth(participant.full_name);
-      doc.line((pageWidth - nameWidth - 20) / 2, 93, (pageWidth + nameWidth + 20) / 2, 93);
-
-      doc.setFontSize(14);
-      doc.setFont('helvetica', 'normal');
-      doc.setTextColor(0, 0, 0);
-      doc.text('for successfully completing the physical drill training', pageWidth / 2, 106, { align: 'center' });
-
-      doc.setFontSize(22);
-      doc.setFont('helvetica', 'bold');
-      const titleLines = doc.splitTextToSize(drill.title, pageWidth - 80);
-      const titleY = 120;
-      doc.text(titleLines, pageWidth / 2, titleY, { align: 'center' });
-
-      const detailsY = titleY + (titleLines.length * 9) + 8;
-      doc.setFontSize(12);
-      doc.setFont('helvetica', 'normal');
-      doc.setTextColor(0, 0, 0);
-
-      const drillDate = new Date(drill.date).toLocaleDateString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      });
-
-      doc.text(`Conducted on ${drillDate} at ${drill.time}`, pageWidth / 2, detailsY, { align: 'center' });
-      doc.text(`Location: ${drill.location}`, pageWidth / 2, detailsY + 7, { align: 'center' });
-      doc.text(`Lead Instructor: ${drill.instructor}`, pageWidth / 2, detailsY + 14, { align: 'center' });
-
-      const footerY = pageHeight - 42;
-      
-      doc.setLineWidth(0.5);
-      doc.setDrawColor(0, 0, 0);
-      
-      const leftSigStart = 45;
-      const leftSigEnd = 100;
-      doc.line(leftSigStart, footerY, leftSigEnd, footerY);
-      
-      doc.setFontSize(10);
-      doc.setFont('helvetica', 'bold');
-      doc.setTextColor(0, 0, 0);
-      doc.text('Instructor', (leftSigStart + leftSigEnd) / 2, footerY + 6, { align: 'center' });
-      
-      doc.setFont('helvetica', 'normal');
-      doc.text(drill.instructor, (leftSigStart + leftSigEnd) / 2, footerY + 11, { align: 'center' });
-
-      const rightSigStart = pageWidth - 100;
-      const rightSigEnd = pageWidth - 45;
-      doc.line(rightSigStart, footerY, rightSigEnd, footerY);
-      
-      doc.setFont('helvetica', 'bold');
-      doc.text('Program Director', (rightSigStart + rightSigEnd) / 2, footerY + 6, { align: 'center' });
-      
-      doc.setFont('helvetica', 'normal');
-      doc.text('LifeCraft Administration', (rightSigStart + rightSigEnd) / 2, footerY + 11, { align: 'center' });
-
-      doc.setFontSize(9);
-      doc.setFont('helvetica', 'italic');
-      doc.setTextColor(60, 60, 60);
-      doc.text(`Certificate issued on ${new Date().toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      })}`, pageWidth / 2, pageHeight - 22, { align: 'center' });
-
-      doc.setFontSize(11);
-      doc.setFont('helvetica', 'bold');
-      doc.setTextColor(0, 0, 0);
-      doc.text('~ LifeCraft ~', pageWidth / 2, pageHeight - 15, { align: 'center' });
-
-      const pdfDataUri = doc.output('datauristring');
-
-      const success = await storeCertificateUrl(participant.id, pdfDataUri);
-
-      if (success) {
-        const emailResult = await sendCompletionNotification(
-          participant.email,
-          participant.full_name,
-          drill.title,
-          drill.date,
-          drill.location
-        );
-
-        if (emailResult.success) {
-          alert(`Certificate awarded and email notification sent to ${participant.full_name}!`);
-        } else {
-          alert(`Certificate awarded but email notification failed: ${emailResult.error}\n\nThe certificate is still available in their dashboard.`);
-        }
-        
-        const certDrills = await getCertifiedDrills();
-        setCertifiedDrills(certDrills);
+      // Rendered and stored server-side; the row gets the URL and checksum
+      const { serial } = await issueCertificate('drill', participant.id);
+
+      const emailResult = await sendCompletionNotification(
+        participant.email,
+        participant.full_name,
+        drill.title,
+        drill.date,
+        drill.location,
+        serial
+      );
+
+      if (emailResult.success && !emailResult.queued) {
+        alert(`Certificate awarded and email notification sent to ${participant.full_name}!`);
+      } else if (emailResult.success) {
+        alert(`Certificate awarded! The email notification to ${participant.full_name} is queued and will be retried until it is sent.`);
       } else {
-        alert('Certificate generated but failed to save. Please try again.');
+        alert(`Certificate awarded but email notification failed: ${emailResult.error}\n\nThe certificate is still available in their dashboard.`);
       }
+      
+      const certDrills = await getCertifiedDrills();
+      setCertifiedDrills(certDrills);
 
       setGeneratingCertificate(null);
     } catch (error) {
@@ -577,6 +249,18 @@ export function AdminPortal({ profile }: AdminPortalProps) {
     );
   }
 
+  if (!isAdmin) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-8">
+        <div className="mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold mb-2">Admin Portal</h1>
+          <p className="text-sm sm:text-base text-gray-600">Participant feedback on the drills and sessions you teach</p>
+        </div>
+        <AdminFeedback profile={profile} />
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-8">
       {/* Header */}
@@ -674,6 +358,24 @@ export function AdminPortal({ profile }: AdminPortalProps) {
           Certificates
           {activeTab === 'certificates' && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-red-600" />}
         </button>
+        <button
+          onClick={() => setActiveTab('badges')}
+          className={`px-4 sm:px-6 py-2 sm:py-3 text-sm sm:text-base whitespace-nowrap transition-colors relative ${
+            activeTab === 'badges' ? 'text-red-600' : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          Badges
+          {activeTab === 'badges' && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-red-600" />}
+        </button>
+        <button
+          onClick={() => setActiveTab('feedback')}
+          className={`px-4 sm:px-6 py-2 sm:py-3 text-sm sm:text-base whitespace-nowrap transition-colors relative ${
+            activeTab === 'feedback' ? 'text-red-600' : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          Feedback
+          {activeTab === 'feedback' && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-red-600" />}
+        </button>
       </div>
       {/* Overview Tab */}
       {activeTab === 'overview' && (
@@ -985,6 +687,13 @@ export function AdminPortal({ profile }: AdminPortalProps) {
                             <div className="flex items-center gap-2 text-green-600">
                               <CheckCircle className="w-5 h-5" />
                               <span className="text-xs font-medium hidden sm:inline">Certificate Awarded</span>
+                              {participant.certificate_serial && (
+                                <RevokeCertificateButton
+                                  serial={participant.certificate_serial}
+                                  holderName={participant.full_name}
+                                  onRevoked={async () => setCertifiedDrills(await getCertifiedDrills())}
+                                />
+                              )}
                             </div>
                           ) : (
                             <Button
@@ -1018,6 +727,112 @@ export function AdminPortal({ profile }: AdminPortalProps) {
           )}
         </div>
       )}
+
+      {/* Badges Tab */}
+      {activeTab === 'badges' && (
+        <div className="space-y-4 sm:space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <h2 className="text-xl font-semibold mb-2">Badges</h2>
+              <p className="text-sm text-gray-600">Badge rules are evaluated automatically after modules and drills are completed</p>
+            </div>
+            <Button
+              onClick={() => {
+                setEditingBadge(null);
+                setShowBadgeForm(true);
+              }}
+              className="bg-red-600 hover:bg-red-700 text-white"
+              size="sm"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Badge
+            </Button>
+          </div>
+
+          {loadingBadges ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-red-600" />
+            </div>
+          ) : badgeDefinitions.length === 0 ? (
+            <Card className="p-8 sm:p-12 text-center">
+              <Award className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-sm sm:text-base text-gray-600">No badges defined yet</p>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {badgeDefinitions.map(badge => (
+                <Card key={badge.id} className={`p-4 sm:p-6 ${badge.active ? '' : 'opacity-60'}`}>
+                  <div className="flex items-start justify-between gap-3 mb-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="text-2xl flex-shrink-0">{badge.icon || '🏅'}</span>
+                      <div className="min-w-0">
+                        <h3 className="font-semibold truncate">{badge.name}</h3>
+                        <p className="text-xs text-gray-600">{badge.description || 'No description'}</p>
+                      </div>
+                    </div>
+                    <Badge className={badge.active ? 'bg-green-100 text-green-700 border-green-200' : 'bg-gray-100 text-gray-600 border-gray-200'}>
+                      {badge.active ? 'Active' : 'Retired'}
+                    </Badge>
+                  </div>
+
+                  <pre className="text-xs bg-gray-50 border border-gray-200 rounded-lg p-3 mb-3 overflow-x-auto">
+                    {JSON.stringify(badge.rule, null, 2)}
+                  </pre>
+
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-600">+{badge.points} points</span>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setEditingBadge(badge);
+                          setShowBadgeForm(true);
+                        }}
+                      >
+                        <Edit className="w-4 h-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleToggleBadgeRetired(badge)}
+                        className={badge.active ? 'text-red-600 border-red-300 hover:bg-red-50' : ''}
+                      >
+                        {badge.active ? (
+                          <>
+                            <Archive className="w-4 h-4 mr-1" />
+                            Retire
+                          </>
+                        ) : (
+                          <>
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            Restore
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Feedback Tab */}
+      {activeTab === 'feedback' && <AdminFeedback profile={profile} />}
+
+      {showBadgeForm && (
+        <BadgeFormModal
+          badge={editingBadge}
+          onClose={() => {
+            setShowBadgeForm(false);
+            setEditingBadge(null);
+          }}
+          onSuccess={loadBadges}
+        />
+      )}
     </div>
   );
 }
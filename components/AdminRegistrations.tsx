@@ -2,8 +2,12 @@ import { useState, useEffect } from 'react';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
-import { Users, CheckCircle, XCircle, Clock, Loader2, Download, ChevronDown, ChevronUp, Award } from 'lucide-react';
+import { Users, CheckCircle, XCircle, Clock, Loader2, Download, ChevronDown, ChevronUp, Award, ListOrdered, QrCode } from 'lucide-react';
 import { getAllRegistrations, updateRegistrationStatus, markSessionComplete } from '@/lib/community-utils';
+import { RevokeCertificateButton } from './RevokeCertificateButton';
+import { CheckInScanner } from './CheckInScanner';
+import { BulkRegistrationActions, SelectCheckbox, useRegistrationSelection } from './BulkRegistrationActions';
+import type { BulkRegistrationAction } from '@/lib/bulk-registration-utils';
 
 interface Registration {
   id: string;
@@ -11,8 +15,11 @@ interface Registration {
   session_id: string;
   status: string;
   created_at: string;
+  waitlisted_at?: string | null;
+  checked_in_at?: string | null;
   completed_at?: string | null;
   certificate_url?: string | null;
+  certificate_serial?: string | null;
   profiles?: {
     full_name?: string;
     email?: string;
@@ -48,6 +55,8 @@ export function AdminRegistrations() {
   const [error, setError] = useState<string | null>(null);
   const [expandedSessions, setExpandedSessions] = useState<Set<string>>(new Set());
   const [pdfLoading, setPdfLoading] = useState<string | null>(null);
+  const [scannerSession, setScannerSession] = useState<RegistrationsBySession | null>(null);
+  const { selected, setSelection, clearSelection } = useRegistrationSelection();
 
   useEffect(() => {
     loadRegistrations();
@@ -73,14 +82,20 @@ export function AdminRegistrations() {
     }
   };
 
-  const handleStatusUpdate = async (registrationId: string, status: 'pending' | 'approved' | 'declined') => {
+  const handleStatusUpdate = async (registrationId: string, status: 'approved' | 'declined' | 'cancelled') => {
+    if (status === 'cancelled' && !confirm('Cancel this registration? The seat will go to the next person on the waitlist.')) {
+      return;
+    }
+
     try {
       setActionLoading(registrationId);
-      await updateRegistrationStatus(registrationId, status);
+      const promoted = await updateRegistrationStatus(registrationId, status);
       await loadRegistrations();
       
-      const statusText = status === 'approved' ? 'approved' : 'declined';
-      alert(`Registration ${statusText} successfully!`);
+      const promotedText = promoted.length > 0
+        ? ` ${promoted.length} waitlisted ${promoted.length === 1 ? 'person was' : 'people were'} moved up to pending.`
+        : '';
+      alert(`Registration ${status} successfully!${promotedText}`);
     } catch (error: any) {
       console.error('Error updating status:', error);
       const errorMessage = error?.message || 'Failed to update registration. Please try again.';
@@ -425,6 +440,15 @@ export function AdminRegistrations() {
   const declinedCount = registrations.filter((r: Registration) => r.status === 'declined').length;
   const completedCount = registrations.filter((r: Registration) => r.status === 'completed').length;
 
+  const selectedRegs = registrations.filter((r: Registration) => selected.has(r.id));
+  const bulkActions: BulkRegistrationAction[] = [];
+  if (selectedRegs.some(r => r.status === 'pending')) bulkActions.push('approve');
+  if (selectedRegs.some(r => r.status === 'pending' || r.status === 'waitlisted')) bulkActions.push('decline');
+  if (selectedRegs.some(r => (r.status === 'registered' || r.status === 'approved') && r.community_sessions?.certified)) {
+    bulkActions.push('complete');
+  }
+  if (selectedRegs.some(r => r.status === 'completed' && !r.certificate_serial)) bulkActions.push('issue_certificates');
+
   return (
     <div className="w-full min-h-screen px-4 sm:px-6 lg:px-8 py-4 sm:py-8">
       <div className="max-w-7xl mx-auto">
@@ -515,6 +539,9 @@ export function AdminRegistrations() {
                 const approvedRegs = session.registrations.filter((r: Registration) => r.status === 'registered' || r.status === 'approved');
                 const declinedRegs = session.registrations.filter((r: Registration) => r.status === 'declined');
                 const completedRegs = session.registrations.filter((r: Registration) => r.status === 'completed');
+                const waitlistRegs = session.registrations
+                  .filter((r: Registration) => r.status === 'waitlisted')
+                  .sort((a, b) => (a.waitlisted_at || '').localeCompare(b.waitlisted_at || ''));
 
                 return (
                   <Card key={session.sessionId} className="overflow-hidden">
@@ -566,6 +593,11 @@ export function AdminRegistrations() {
                             <Badge className="bg-green-100 text-green-700 border-green-200 text-xs">
                               {approvedRegs.length} Approved
                             </Badge>
+                            {waitlistRegs.length > 0 && (
+                              <Badge className="bg-blue-100 text-blue-700 border-blue-200 text-xs">
+                                {waitlistRegs.length} Waitlisted
+                              </Badge>
+                            )}
                             {completedRegs.length > 0 && (
                               <Badge className="bg-purple-100 text-purple-700 border-purple-200 text-xs">
                                 {completedRegs.length} Completed
@@ -579,27 +611,41 @@ export function AdminRegistrations() {
                           </div>
                         </div>
 
-                        <Button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            generatePDF(session);
-                          }}
-                          size="sm"
-                          disabled={pdfLoading === session.sessionId}
-                          className="bg-red-600 hover:bg-red-700 text-white w-full sm:w-auto flex-shrink-0"
-                        >
-                          {pdfLoading === session.sessionId ? (
-                            <>
-                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                              <span className="text-xs sm:text-sm">Generating...</span>
-                            </>
-                          ) : (
-                            <>
-                              <Download className="w-4 h-4 mr-2" />
-                              <span className="text-xs sm:text-sm">Export PDF</span>
-                            </>
-                          )}
-                        </Button>
+                        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto flex-shrink-0">
+                          <Button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setScannerSession(session);
+                            }}
+                            size="sm"
+                            variant="outline"
+                            className="bg-white border-gray-300 hover:bg-gray-100 w-full sm:w-auto"
+                          >
+                            <QrCode className="w-4 h-4 mr-2" />
+                            <span className="text-xs sm:text-sm">Check-in</span>
+                          </Button>
+                          <Button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              generatePDF(session);
+                            }}
+                            size="sm"
+                            disabled={pdfLoading === session.sessionId}
+                            className="bg-red-600 hover:bg-red-700 text-white w-full sm:w-auto"
+                          >
+                            {pdfLoading === session.sessionId ? (
+                              <>
+                                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                <span className="text-xs sm:text-sm">Generating...</span>
+                              </>
+                            ) : (
+                              <>
+                                <Download className="w-4 h-4 mr-2" />
+                                <span className="text-xs sm:text-sm">Export PDF</span>
+                              </>
+                            )}
+                          </Button>
+                        </div>
                       </div>
                     </div>
 
@@ -607,16 +653,22 @@ export function AdminRegistrations() {
                       <div className="p-4 sm:p-6 border-t">
                         {pendingRegs.length > 0 && (
                           <div className="mb-6">
-                            <h4 className="font-semibold mb-3 text-amber-700 text-sm sm:text-base">Pending Approval ({pendingRegs.length})</h4>
+                            <h4 className="font-semibold mb-3 text-amber-700 text-sm sm:text-base flex items-center gap-2">
+                              <SelectCheckbox ids={pendingRegs.map(reg => reg.id)} selected={selected} onChange={setSelection} label="Select all" />
+                              Pending Approval ({pendingRegs.length})
+                            </h4>
                             <div className="space-y-3">
                               {pendingRegs.map((reg: Registration) => (
                                 <div key={reg.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 bg-amber-50 rounded-lg border border-amber-200">
-                                  <div className="flex-1 min-w-0">
-                                    <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
-                                    <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
-                                    <p className="text-xs text-gray-500 mt-1">
-                                      Registered: {new Date(reg.created_at).toLocaleString()}
-                                    </p>
+                                  <div className="flex-1 min-w-0 flex items-start gap-3">
+                                    <SelectCheckbox ids={[reg.id]} selected={selected} onChange={setSelection} label={`Select ${reg.profiles?.full_name || 'registration'}`} className="mt-1" />
+                                    <div className="min-w-0">
+                                      <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
+                                      <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
+                                      <p className="text-xs text-gray-500 mt-1">
+                                        Registered: {new Date(reg.created_at).toLocaleString()}
+                                      </p>
+                                    </div>
                                   </div>
                                   <div className="flex gap-2">
                                     <Button
@@ -659,21 +711,48 @@ export function AdminRegistrations() {
 
                         {approvedRegs.length > 0 && (
                           <div className="mb-6">
-                            <h4 className="font-semibold mb-3 text-green-700 text-sm sm:text-base">Approved ({approvedRegs.length})</h4>
+                            <h4 className="font-semibold mb-3 text-green-700 text-sm sm:text-base flex items-center gap-2">
+                              <SelectCheckbox ids={approvedRegs.map(reg => reg.id)} selected={selected} onChange={setSelection} label="Select all" />
+                              Approved ({approvedRegs.length})
+                            </h4>
                             <div className="space-y-3">
                               {approvedRegs.map((reg: Registration) => (
                                 <div key={reg.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 bg-green-50 rounded-lg border border-green-200">
-                                  <div className="flex-1 min-w-0">
-                                    <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
-                                    <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
-                                    <p className="text-xs text-gray-500 mt-1">
-                                      Registered: {new Date(reg.created_at).toLocaleString()}
-                                    </p>
+                                  <div className="flex-1 min-w-0 flex items-start gap-3">
+                                    <SelectCheckbox ids={[reg.id]} selected={selected} onChange={setSelection} label={`Select ${reg.profiles?.full_name || 'registration'}`} className="mt-1" />
+                                    <div className="min-w-0">
+                                      <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
+                                      <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
+                                      <p className="text-xs text-gray-500 mt-1">
+                                        Registered: {new Date(reg.created_at).toLocaleString()}
+                                      </p>
+                                    </div>
                                   </div>
                                   <div className="flex gap-2 flex-wrap">
                                     <Badge className="bg-green-100 text-green-700 border-green-200 text-xs self-start sm:self-center flex-shrink-0">
                                       ✓ Approved
                                     </Badge>
+                                    {reg.checked_in_at && (
+                                      <Badge className="bg-blue-100 text-blue-700 border-blue-200 text-xs self-start sm:self-center flex-shrink-0">
+                                        Checked in {new Date(reg.checked_in_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                                      </Badge>
+                                    )}
+                                    <Button
+                                      size="sm"
+                                      onClick={() => handleStatusUpdate(reg.id, 'cancelled')}
+                                      disabled={actionLoading === reg.id}
+                                      variant="outline"
+                                      className="text-red-600 border-red-300 hover:bg-red-50 flex-shrink-0"
+                                    >
+                                      {actionLoading === reg.id ? (
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                      ) : (
+                                        <>
+                                          <XCircle className="w-4 h-4 mr-1" />
+                                          <span className="text-xs sm:text-sm">Cancel</span>
+                                        </>
+                                      )}
+                                    </Button>
                                     {session.certified && (
                                       <Button
                                         size="sm"
@@ -698,24 +777,79 @@ export function AdminRegistrations() {
                           </div>
                         )}
 
+                        {waitlistRegs.length > 0 && (
+                          <div className="mb-6">
+                            <h4 className="font-semibold mb-3 text-blue-700 text-sm sm:text-base flex items-center gap-2">
+                              <SelectCheckbox ids={waitlistRegs.map(reg => reg.id)} selected={selected} onChange={setSelection} label="Select all" />
+                              <ListOrdered className="w-4 h-4" />
+                              Waitlist ({waitlistRegs.length})
+                            </h4>
+                            <div className="space-y-2">
+                              {waitlistRegs.map((reg: Registration, index: number) => (
+                                <div key={reg.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 bg-blue-50 rounded-lg border border-blue-200">
+                                  <div className="flex-1 min-w-0 flex items-start gap-3">
+                                    <SelectCheckbox ids={[reg.id]} selected={selected} onChange={setSelection} label={`Select ${reg.profiles?.full_name || 'registration'}`} className="mt-1" />
+                                    <div className="min-w-0">
+                                      <p className="font-medium text-sm sm:text-base truncate">#{index + 1} {reg.profiles?.full_name || 'Unknown'}</p>
+                                      <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
+                                      <p className="text-xs text-gray-500 mt-1">
+                                        Waitlisted: {reg.waitlisted_at ? new Date(reg.waitlisted_at).toLocaleString() : 'Unknown'}
+                                      </p>
+                                    </div>
+                                  </div>
+                                  <Button
+                                    size="sm"
+                                    onClick={() => handleStatusUpdate(reg.id, 'declined')}
+                                    disabled={actionLoading === reg.id}
+                                    variant="outline"
+                                    className="text-red-600 border-red-300 hover:bg-red-50 flex-shrink-0"
+                                  >
+                                    {actionLoading === reg.id ? (
+                                      <Loader2 className="w-4 h-4 animate-spin" />
+                                    ) : (
+                                      <>
+                                        <XCircle className="w-4 h-4 mr-1" />
+                                        <span className="text-xs sm:text-sm">Remove</span>
+                                      </>
+                                    )}
+                                  </Button>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
                         {completedRegs.length > 0 && (
                           <div className="mb-6">
-                            <h4 className="font-semibold mb-3 text-purple-700 text-sm sm:text-base">Completed ({completedRegs.length})</h4>
+                            <h4 className="font-semibold mb-3 text-purple-700 text-sm sm:text-base flex items-center gap-2">
+                              <SelectCheckbox ids={completedRegs.map(reg => reg.id)} selected={selected} onChange={setSelection} label="Select all" />
+                              Completed ({completedRegs.length})
+                            </h4>
                             <div className="space-y-2">
                               {completedRegs.map((reg: Registration) => (
                                 <div key={reg.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 bg-purple-50 rounded-lg border border-purple-200">
-                                  <div className="flex-1 min-w-0">
-                                    <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
-                                    <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
-                                    <p className="text-xs text-gray-500 mt-1">
-                                      Completed: {reg.completed_at ? new Date(reg.completed_at).toLocaleString() : 'Unknown'}
-                                    </p>
-                                    {reg.certificate_url && (
-                                      <p className="text-xs text-green-600 mt-1">
-                                        ✓ Certificate Generated
+                                  <div className="flex-1 min-w-0 flex items-start gap-3">
+                                    <SelectCheckbox ids={[reg.id]} selected={selected} onChange={setSelection} label={`Select ${reg.profiles?.full_name || 'registration'}`} className="mt-1" />
+                                    <div className="min-w-0">
+                                      <p className="font-medium text-sm sm:text-base truncate">{reg.profiles?.full_name || 'Unknown'}</p>
+                                      <p className="text-xs sm:text-sm text-gray-600 break-all">{reg.profiles?.email || 'No email'}</p>
+                                      <p className="text-xs text-gray-500 mt-1">
+                                        Completed: {reg.completed_at ? new Date(reg.completed_at).toLocaleString() : 'Unknown'}
                                       </p>
-                                    )}
+                                      {reg.certificate_url && (
+                                        <p className="text-xs text-green-600 mt-1">
+                                          ✓ Certificate Generated
+                                        </p>
+                                      )}
+                                    </div>
                                   </div>
+                                  {reg.certificate_url && reg.certificate_serial && (
+                                    <RevokeCertificateButton
+                                      serial={reg.certificate_serial}
+                                      holderName={reg.profiles?.full_name || 'Unknown'}
+                                      onRevoked={loadRegistrations}
+                                    />
+                                  )}
                                   <Badge className="bg-purple-100 text-purple-700 border-purple-200 text-xs self-start sm:self-center flex-shrink-0">
                                     ✓ Completed
                                   </Badge>
@@ -756,6 +890,27 @@ export function AdminRegistrations() {
           )}
         </div>
       </div>
+
+      <BulkRegistrationActions
+        kind="session"
+        selectedIds={selectedRegs.map(r => r.id)}
+        actions={bulkActions}
+        onClear={clearSelection}
+        onFinished={loadRegistrations}
+      />
+
+      {scannerSession && (
+        <CheckInScanner
+          kind="session"
+          eventId={scannerSession.sessionId}
+          title={scannerSession.sessionTitle}
+          onClose={() => {
+            setScannerSession(null);
+            loadRegistrations();
+          }}
+          onCompleted={loadRegistrations}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,314 @@
+import { useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { X, Loader2 } from 'lucide-react';
+import { createBadge, updateBadge, type BadgeDefinition, type BadgeRule } from '@/lib/badge-utils';
+import { BADGE_METRICS, BADGE_OPERATORS, MAX_BADGE_POINTS, type BadgeMetric, type BadgeOperator } from '@/lib/badge-engine';
+
+interface BadgeFormModalProps {
+  badge?: BadgeDefinition | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type RuleKind = 'metric' | 'category_complete' | 'module_completed' | 'custom';
+
+const METRIC_LABELS: Record<BadgeMetric, string> = {
+  completedModules: 'Completed modules',
+  averageModuleScore: 'Average module score (%)',
+  bestModuleScore: 'Best module score (%)',
+  completedDrills: 'Completed drills',
+  bestDrillScore: 'Best drill score (%)',
+  points: 'Total points'
+};
+
+export function BadgeFormModal({ badge, onClose, onSuccess }: BadgeFormModalProps) {
+  const isEditing = !!badge;
+  const initialRule = badge?.rule;
+
+  const [formData, setFormData] = useState({
+    name: badge?.name || '',
+    description: badge?.description || '',
+    icon: badge?.icon || '🏅',
+    points: badge?.points ?? 50
+  });
+
+  const [ruleKind, setRuleKind] = useState<RuleKind>(
+    initialRule?.type === 'all' || initialRule?.type === 'any' ? 'custom' : initialRule?.type || 'metric'
+  );
+  const [metric, setMetric] = useState<BadgeMetric>(
+    initialRule?.type === 'metric' ? initialRule.metric : 'completedModules'
+  );
+  const [operator, setOperator] = useState<BadgeOperator>(
+    initialRule?.type === 'metric' ? initialRule.op : '>='
+  );
+  const [threshold, setThreshold] = useState<number>(
+    initialRule?.type === 'metric' ? initialRule.value : 1
+  );
+  const [category, setCategory] = useState(
+    initialRule?.type === 'category_complete' ? initialRule.category || '' : ''
+  );
+  const [moduleId, setModuleId] = useState(
+    initialRule?.type === 'module_completed' ? initialRule.moduleId : ''
+  );
+  const [minScore, setMinScore] = useState<number>(
+    initialRule?.type === 'module_completed' ? initialRule.minScore ?? 0 : 50
+  );
+  const [customRule, setCustomRule] = useState(
+    initialRule ? JSON.stringify(initialRule, null, 2) : ''
+  );
+
+  const [loading, setLoading] = useState(false);
+
+  const buildRule = (): BadgeRule => {
+    switch (ruleKind) {
+      case 'metric':
+        return { type: 'metric', metric, op: operator, value: Number(threshold) || 0 };
+      case 'category_complete':
+        return category.trim()
+          ? { type: 'category_complete', category: category.trim() }
+          : { type: 'category_complete' };
+      case 'module_completed':
+        if (!moduleId.trim()) {
+          throw new Error('Module ID is required');
+        }
+        return { type: 'module_completed', moduleId: moduleId.trim(), minScore: Number(minScore) || 0 };
+      case 'custom':
+        try {
+          return JSON.parse(customRule);
+        } catch {
+          throw new Error('Custom rule must be valid JSON');
+        }
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLoading(true);
+
+      if (!formData.name.trim()) {
+        throw new Error('Badge name is required');
+      }
+
+      const payload = {
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+        icon: formData.icon.trim() || null,
+        points: Number(formData.points) || 0,
+        rule: buildRule()
+      };
+
+      if (isEditing && badge) {
+        await updateBadge(badge.id, payload);
+      } else {
+        await createBadge(payload);
+      }
+
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error saving badge:', error);
+      alert('Error saving badge: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[60] flex items-center justify-center p-4 overflow-y-auto">
+      <Card className="w-full max-w-2xl bg-white p-6 my-8 relative z-[61]">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-semibold">
+            {isEditing ? 'Edit Badge' : 'New Badge'}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-3">
+              <Label htmlFor="badge-name">Badge Name *</Label>
+              <Input
+                id="badge-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="badge-icon">Icon</Label>
+              <Input
+                id="badge-icon"
+                value={formData.icon}
+                onChange={(e) => setFormData({ ...formData, icon: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="badge-description">Description</Label>
+            <Textarea
+              id="badge-description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="badge-points">Bonus Points</Label>
+              <Input
+                id="badge-points"
+                type="number"
+                min="0"
+                max={MAX_BADGE_POINTS}
+                value={formData.points}
+                onChange={(e) => setFormData({ ...formData, points: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="badge-rule-kind">Awarded When</Label>
+              <select
+                id="badge-rule-kind"
+                value={ruleKind}
+                onChange={(e) => setRuleKind(e.target.value as RuleKind)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="metric">A stat reaches a threshold</option>
+                <option value="category_complete">All modules in a category are completed</option>
+                <option value="module_completed">A specific module is completed</option>
+                <option value="custom">Custom rule (JSON)</option>
+              </select>
+            </div>
+          </div>
+
+          {ruleKind === 'metric' && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="badge-metric">Stat</Label>
+                <select
+                  id="badge-metric"
+                  value={metric}
+                  onChange={(e) => setMetric(e.target.value as BadgeMetric)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  {BADGE_METRICS.map(m => (
+                    <option key={m} value={m}>{METRIC_LABELS[m]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="badge-operator">Comparison</Label>
+                <select
+                  id="badge-operator"
+                  value={operator}
+                  onChange={(e) => setOperator(e.target.value as BadgeOperator)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  {BADGE_OPERATORS.map(op => (
+                    <option key={op} value={op}>{op}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="badge-threshold">Value</Label>
+                <Input
+                  id="badge-threshold"
+                  type="number"
+                  value={threshold}
+                  onChange={(e) => setThreshold(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+            </div>
+          )}
+
+          {ruleKind === 'category_complete' && (
+            <div>
+              <Label htmlFor="badge-category">Category</Label>
+              <Input
+                id="badge-category"
+                placeholder="Leave empty for any category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+              />
+            </div>
+          )}
+
+          {ruleKind === 'module_completed' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="badge-module">Module ID</Label>
+                <Input
+                  id="badge-module"
+                  value={moduleId}
+                  onChange={(e) => setModuleId(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="badge-min-score">Minimum Score (%)</Label>
+                <Input
+                  id="badge-min-score"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={minScore}
+                  onChange={(e) => setMinScore(parseInt(e.target.value) || 0)}
+                />
+              </div>
+            </div>
+          )}
+
+          {ruleKind === 'custom' && (
+            <div>
+              <Label htmlFor="badge-custom-rule">Rule JSON</Label>
+              <Textarea
+                id="badge-custom-rule"
+                value={customRule}
+                onChange={(e) => setCustomRule(e.target.value)}
+                rows={8}
+                className="font-mono text-xs"
+                placeholder={'{\n  "type": "all",\n  "rules": [\n    { "type": "metric", "metric": "completedModules", "op": ">=", "value": 5 },\n    { "type": "metric", "metric": "averageModuleScore", "op": ">=", "value": 90 }\n  ]\n}'}
+              />
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              onClick={onClose}
+              variant="outline"
+              disabled={loading}
+              className="ml-auto"
+            >
+              Cancel
+            </Button>
+
+            <Button
+              onClick={handleSubmit}
+              disabled={loading}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                isEditing ? 'Update Badge' : 'Create Badge'
+              )}
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Award, CheckCircle, Loader2, X, XCircle } from 'lucide-react';
+import {
+  startBulkRegistrationAction,
+  waitForBulkRegistrationAction,
+  type BulkActionSummary,
+  type BulkRegistrationAction,
+  type BulkRegistrationKind,
+  type BulkRowOutcome,
+  type JobProgress
+} from '@/lib/bulk-registration-utils';
+
+interface BulkRegistrationActionsProps {
+  kind: BulkRegistrationKind;
+  selectedIds: string[];
+  // The actions that apply to at least one selected registration, in button order
+  actions: BulkRegistrationAction[];
+  onClear: () => void;
+  // Called once a job has finished, to reload the registrations
+  onFinished: () => void;
+}
+
+const ACTION_LABELS: Record<BulkRegistrationAction, string> = {
+  approve: 'Approve',
+  decline: 'Decline',
+  complete: 'Mark Complete',
+  issue_certificates: 'Issue Certificates'
+};
+
+const ACTION_STYLES: Record<BulkRegistrationAction, string> = {
+  approve: 'bg-green-600 hover:bg-green-700 text-white',
+  decline: 'bg-white text-red-600 border border-red-300 hover:bg-red-50',
+  complete: 'bg-purple-600 hover:bg-purple-700 text-white',
+  issue_certificates: 'bg-gray-900 hover:bg-gray-800 text-white'
+};
+
+const OUTCOME_STYLES: Record<BulkRowOutcome, string> = {
+  failed: 'bg-red-100 text-red-700 border-red-200',
+  skipped: 'bg-gray-100 text-gray-700 border-gray-200',
+  succeeded: 'bg-green-100 text-green-700 border-green-200'
+};
+
+const OUTCOME_ORDER: BulkRowOutcome[] = ['failed', 'skipped', 'succeeded'];
+
+function actionLabel(kind: BulkRegistrationKind, action: BulkRegistrationAction): string {
+  // Certified sessions are certified as they're completed
+  return kind === 'session' && action === 'complete' ? 'Complete & Certify' : ACTION_LABELS[action];
+}
+
+/**
+ * Registrations ticked on an admin screen, by id
+ */
+export function useRegistrationSelection() {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const setSelection = (ids: string[], select: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (select ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  return { selected, setSelection, clearSelection: () => setSelected(new Set()) };
+}
+
+interface SelectCheckboxProps {
+  ids: string[];
+  selected: Set<string>;
+  onChange: (ids: string[], select: boolean) => void;
+  label: string;
+  className?: string;
+}
+
+/**
+ * Selects one registration, or every registration in a section
+ */
+export function SelectCheckbox({ ids, selected, onChange, label, className = '' }: SelectCheckboxProps) {
+  return (
+    <input
+      type="checkbox"
+      checked={ids.length > 0 && ids.every(id => selected.has(id))}
+      onChange={(e) => onChange(ids, e.target.checked)}
+      onClick={(e) => e.stopPropagation()}
+      aria-label={label}
+      className={`flex-shrink-0 ${className}`}
+    />
+  );
+}
+
+/**
+ * Toolbar for the registrations selected on an admin screen. Each action runs
+ * as a background job; progress is shown while it runs and the per-row
+ * results, failures first, when it's done.
+ */
+export function BulkRegistrationActions({ kind, selectedIds, actions, onClear, onFinished }: BulkRegistrationActionsProps) {
+  const [running, setRunning] = useState<BulkRegistrationAction | null>(null);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+  const [summary, setSummary] = useState<BulkActionSummary | null>(null);
+
+  const handleAction = async (action: BulkRegistrationAction) => {
+    const count = selectedIds.length;
+    if (!confirm(`${actionLabel(kind, action)}: ${count} registration${count === 1 ? '' : 's'}?`)) {
+      return;
+    }
+
+    try {
+      setRunning(action);
+      setProgress({ processed: 0, total: count });
+      const jobId = await startBulkRegistrationAction(kind, action, selectedIds);
+      setSummary(await waitForBulkRegistrationAction(jobId, next => next && setProgress(next)));
+      onClear();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Bulk action failed');
+    } finally {
+      setRunning(null);
+      setProgress(null);
+      onFinished();
+    }
+  };
+
+  const visible = selectedIds.length > 0 || running !== null;
+
+  return (
+    <>
+      {/* Room to scroll the last rows out from under the toolbar */}
+      {visible && <div className="h-24" />}
+
+      {visible && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-3xl">
+          <div className="bg-white border border-gray-200 shadow-2xl rounded-2xl p-3 sm:p-4">
+            {running && progress ? (
+              <div>
+                <div className="flex items-center justify-between text-sm mb-2">
+                  <span className="flex items-center gap-2 font-medium">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    {actionLabel(kind, running)}
+                  </span>
+                  <span className="text-gray-600">{progress.processed} of {progress.total}</span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gray-900 transition-all"
+                    style={{ width: `${progress.total ? (progress.processed / progress.total) * 100 : 0}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  This runs in the background; you can keep working while it finishes.
+                </p>
+              </div>
+            ) : (
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button onClick={onClear} className="p-1 hover:bg-gray-100 rounded" title="Clear selection">
+                    <X className="w-4 h-4" />
+                  </button>
+                  <span className="text-sm font-medium">{selectedIds.length} selected</span>
+                </div>
+                <div className="flex flex-wrap gap-2 sm:ml-auto">
+                  {actions.length === 0 && (
+                    <span className="text-xs sm:text-sm text-gray-500">No bulk actions apply to these registrations</span>
+                  )}
+                  {actions.map(action => (
+                    <Button
+                      key={action}
+                      size="sm"
+                      onClick={() => handleAction(action)}
+                      className={ACTION_STYLES[action]}
+                    >
+                      {action === 'approve' && <CheckCircle className="w-4 h-4 mr-1" />}
+                      {action === 'decline' && <XCircle className="w-4 h-4 mr-1" />}
+                      {(action === 'complete' || action === 'issue_certificates') && <Award className="w-4 h-4 mr-1" />}
+                      <span className="text-xs sm:text-sm">{actionLabel(kind, action)}</span>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {summary && <BulkActionResults summary={summary} onClose={() => setSummary(null)} />}
+    </>
+  );
+}
+
+function BulkActionResults({ summary, onClose }: { summary: BulkActionSummary; onClose: () => void }) {
+  const rows = [...summary.rows].sort(
+    (a, b) => OUTCOME_ORDER.indexOf(a.outcome) - OUTCOME_ORDER.indexOf(b.outcome)
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex items-start justify-between gap-4 p-4 sm:p-6 border-b">
+          <div className="min-w-0">
+            <h2 className="text-lg sm:text-xl font-bold text-gray-900">
+              {actionLabel(summary.kind, summary.action)}: results
+            </h2>
+            <div className="flex flex-wrap gap-2 mt-2">
+              <Badge className={`${OUTCOME_STYLES.succeeded} text-xs`}>{summary.succeeded} succeeded</Badge>
+              {summary.skipped > 0 && (
+                <Badge className={`${OUTCOME_STYLES.skipped} text-xs`}>{summary.skipped} skipped</Badge>
+              )}
+              {summary.failed > 0 && (
+                <Badge className={`${OUTCOME_STYLES.failed} text-xs`}>{summary.failed} failed</Badge>
+              )}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 sm:p-6 space-y-2">
+          {rows.map(row => (
+            <div key={row.registrationId} className="flex items-start justify-between gap-3 p-3 border rounded-lg">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{row.participant || 'Unknown participant'}</p>
+                {row.message && <p className="text-xs text-gray-600 mt-1">{row.message}</p>}
+              </div>
+              <Badge className={`${OUTCOME_STYLES[row.outcome]} text-xs flex-shrink-0`}>{row.outcome}</Badge>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end p-4 sm:p-6 border-t">
+          <Button onClick={onClose} className="bg-gray-900 hover:bg-gray-800 text-white">
+            Done
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
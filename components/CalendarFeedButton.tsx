@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { CalendarPlus, Copy, Check, Loader2, RefreshCw, X } from 'lucide-react';
+import { getCalendarFeedUrl } from '@/lib/calendar-utils';
+
+/**
+ * Shows the user's private calendar feed URL, with copy, open-in-app and reset
+ */
+export function CalendarFeedButton() {
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const loadUrl = async (rotate = false) => {
+    try {
+      setLoading(true);
+      setUrl(await getCalendarFeedUrl({ rotate }));
+      setCopied(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to load calendar feed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpen = () => {
+    setOpen(!open);
+    if (!open && !url) loadUrl();
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+  };
+
+  const handleReset = () => {
+    if (confirm('Reset your calendar link? Calendars subscribed to the current link will stop updating.')) {
+      loadUrl(true);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        onClick={handleOpen}
+        className="border-gray-300 hover:bg-gray-100 bg-white"
+      >
+        <CalendarPlus className="w-4 h-4 mr-2" />
+        Calendar Feed
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 z-40 mt-2 w-80 p-4 bg-white border border-gray-200 rounded-lg shadow-lg space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-sm text-gray-700">
+              Subscribe to this link in your calendar app to see your approved drills and sessions. Keep it private.
+            </p>
+            <button onClick={() => setOpen(false)} className="text-gray-500 hover:text-gray-700">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {loading || !url ? (
+            <div className="flex justify-center py-2">
+              <Loader2 className="w-5 h-5 animate-spin text-gray-500" />
+            </div>
+          ) : (
+            <>
+              <input
+                readOnly
+                value={url}
+                onFocus={(e) => e.target.select()}
+                className="w-full px-2 py-1.5 text-xs border border-gray-300 rounded-md bg-gray-50"
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleCopy} className="flex-1 bg-gray-900 hover:bg-gray-800 text-white">
+                  {copied ? <Check className="w-3 h-3 mr-1" /> : <Copy className="w-3 h-3 mr-1" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+                <a
+                  href={url.replace(/^https?:/, 'webcal:')}
+                  className="flex-1 inline-flex items-center justify-center px-3 text-xs border border-gray-300 rounded-md hover:bg-gray-100"
+                >
+                  Open in App
+                </a>
+              </div>
+              <button
+                onClick={handleReset}
+                className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800"
+              >
+                <RefreshCw className="w-3 h-3" />
+                Reset link
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
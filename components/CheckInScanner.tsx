@@ -0,0 +1,422 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import {
+  X, Camera, CameraOff, Download, RefreshCw, Loader2, CheckCircle, AlertTriangle, XCircle, Wifi, WifiOff, Award
+} from 'lucide-react';
+import {
+  completeCheckedIn,
+  downloadRoster,
+  getSavedCheckIn,
+  scanCode,
+  syncCheckIns,
+  type CheckInKind,
+  type LocalScanOutcome,
+  type OfflineCheckIn
+} from '@/lib/check-in-utils';
+
+// Not in TypeScript's DOM lib yet; Chrome, Edge and Android browsers ship it
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === 'undefined') return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector || null;
+}
+
+// A code held in front of the camera is detected many times a second
+const RESCAN_DELAY_MS = 3000;
+const SCAN_INTERVAL_MS = 300;
+
+const REJECTION_LABELS: Record<string, string> = {
+  invalid: 'Invalid code',
+  wrong_event: 'Code is for a different event',
+  not_eligible: 'Registration is no longer approved'
+};
+
+interface CheckInScannerProps {
+  kind: CheckInKind;
+  eventId: string;
+  title: string;
+  onClose: () => void;
+  // Called after checked-in attendees were marked completed
+  onCompleted?: () => void;
+}
+
+interface LastScan {
+  outcome: LocalScanOutcome;
+  name: string | null;
+  checkedInAt: string | null;
+}
+
+function formatTime(value: string | null): string {
+  return value ? new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }) : '';
+}
+
+/**
+ * Instructor check-in for one drill or session. The roster is downloaded in
+ * advance and kept on the device, so codes are checked and recorded without a
+ * connection; queued check-ins upload whenever the device is online.
+ */
+export function CheckInScanner({ kind, eventId, title, onClose, onCompleted }: CheckInScannerProps) {
+  const [checkIn, setCheckIn] = useState<OfflineCheckIn | null>(() => getSavedCheckIn(kind, eventId));
+  const [online, setOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+  const [downloading, setDownloading] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [completing, setCompleting] = useState(false);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState('');
+  const [lastScan, setLastScan] = useState<LastScan | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const checkInRef = useRef(checkIn);
+  const lastCodeRef = useRef<{ code: string; at: number } | null>(null);
+  const syncingRef = useRef(false);
+
+  const cameraSupported = getBarcodeDetector() !== null;
+
+  useEffect(() => {
+    checkInRef.current = checkIn;
+  }, [checkIn]);
+
+  const sync = useCallback(async ({ quiet = false }: { quiet?: boolean } = {}) => {
+    if (syncingRef.current || !checkInRef.current?.pending.length) return;
+
+    try {
+      syncingRef.current = true;
+      setSyncing(true);
+      setCheckIn(await syncCheckIns(kind, eventId));
+    } catch (error) {
+      // Scans stay queued; the next sync retries them
+      if (!quiet) alert(error instanceof Error ? error.message : 'Failed to sync check-ins');
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [kind, eventId]);
+
+  const handleDownload = useCallback(async () => {
+    try {
+      setDownloading(true);
+      setCheckIn(await downloadRoster(kind, eventId));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to download roster');
+    } finally {
+      setDownloading(false);
+    }
+  }, [kind, eventId]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      sync({ quiet: true });
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  // First open with a connection: fetch the roster straight away
+  useEffect(() => {
+    if (!checkInRef.current && navigator.onLine) {
+      handleDownload();
+    }
+  }, [handleDownload]);
+
+  const handleCode = useCallback((code: string) => {
+    const current = checkInRef.current;
+    if (!current || !code.trim()) return;
+
+    const now = Date.now();
+    if (lastCodeRef.current?.code === code && now - lastCodeRef.current.at < RESCAN_DELAY_MS) return;
+    lastCodeRef.current = { code, at: now };
+
+    const { state, outcome, entry } = scanCode(current, code);
+    checkInRef.current = state;
+    setCheckIn(state);
+    setLastScan({ outcome, name: entry?.fullName || null, checkedInAt: entry?.checkedInAt || null });
+
+    if (outcome === 'checked_in' && navigator.onLine) {
+      sync({ quiet: true });
+    }
+  }, [sync]);
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!cameraOn || !Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new Detector({ formats: ['qr_code'] });
+        const tick = async () => {
+          if (cancelled || !videoRef.current) return;
+          try {
+            const [detected] = await detector.detect(videoRef.current);
+            if (detected) handleCode(detected.rawValue);
+          } catch (error) {
+            console.warn('QR detection failed:', error);
+          }
+          timer = setTimeout(tick, SCAN_INTERVAL_MS);
+        };
+        tick();
+      } catch (error) {
+        console.error('Camera error:', error);
+        setCameraError('Could not open the camera. Check the browser\'s camera permission.');
+        setCameraOn(false);
+      }
+    };
+
+    setCameraError(null);
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [cameraOn, handleCode]);
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Typed codes are always meant, even when repeated
+    lastCodeRef.current = null;
+    handleCode(manualCode);
+    setManualCode('');
+  };
+
+  const handleComplete = async () => {
+    if (!checkIn) return;
+    if (checkIn.pending.length > 0) {
+      alert('Sync the remaining check-ins before completing.');
+      return;
+    }
+
+    const checkedIn = checkIn.roster.entries.filter(entry => entry.checkedInAt && entry.status !== 'completed').length;
+    if (!confirm(`Mark ${checkedIn} checked-in ${checkedIn === 1 ? 'attendee' : 'attendees'} as completed?`)) return;
+
+    try {
+      setCompleting(true);
+      const summary = await completeCheckedIn(kind, eventId);
+      setCheckIn(await downloadRoster(kind, eventId));
+      onCompleted?.();
+
+      const certificates = kind === 'session' ? ` ${summary.certificatesIssued} certificates issued.` : '';
+      const failures = summary.failed.length > 0 ? `\n\n${summary.failed.length} could not be processed: ${summary.failed.map(f => f.error).join('; ')}` : '';
+      alert(`${summary.completed} marked as completed.${certificates}${failures}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to complete checked-in registrations');
+    } finally {
+      setCompleting(false);
+    }
+  };
+
+  const entries = checkIn?.roster.entries || [];
+  const checkedInCount = entries.filter(entry => entry.checkedInAt).length;
+  const pendingCodes = new Set(checkIn?.pending.map(scan => scan.code));
+  const completable = entries.filter(entry => entry.checkedInAt && entry.status !== 'completed').length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex items-start justify-between gap-4 p-4 sm:p-6 border-b">
+          <div className="min-w-0">
+            <h2 className="text-lg sm:text-xl font-bold text-gray-900 truncate">Check-in: {title}</h2>
+            <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-600">
+              {online ? (
+                <Badge className="bg-green-100 text-green-700 border-green-200 text-xs">
+                  <Wifi className="w-3 h-3 mr-1" />
+                  Online
+                </Badge>
+              ) : (
+                <Badge className="bg-amber-100 text-amber-700 border-amber-200 text-xs">
+                  <WifiOff className="w-3 h-3 mr-1" />
+                  Offline
+                </Badge>
+              )}
+              {checkIn && (
+                <span>Roster from {new Date(checkIn.roster.downloadedAt).toLocaleString()}</span>
+              )}
+              {checkIn && checkIn.pending.length > 0 && (
+                <Badge className="bg-blue-100 text-blue-700 border-blue-200 text-xs">
+                  {checkIn.pending.length} waiting to sync
+                </Badge>
+              )}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 sm:p-6 space-y-4">
+          {!checkIn ? (
+            <div className="text-center py-8">
+              <p className="text-sm text-gray-600 mb-4">
+                Download the roster while you have a connection. Scanning then works offline.
+              </p>
+              <Button onClick={handleDownload} disabled={downloading || !online} className="bg-gray-900 hover:bg-gray-800 text-white">
+                {downloading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+                Download Roster
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-3">
+                {cameraSupported ? (
+                  <>
+                    {cameraOn && (
+                      <video ref={videoRef} muted playsInline className="w-full max-h-72 rounded-lg bg-black object-cover" />
+                    )}
+                    <Button
+                      variant="outline"
+                      onClick={() => setCameraOn(!cameraOn)}
+                      className="w-full border-gray-300"
+                    >
+                      {cameraOn ? <CameraOff className="w-4 h-4 mr-2" /> : <Camera className="w-4 h-4 mr-2" />}
+                      {cameraOn ? 'Stop Camera' : 'Scan with Camera'}
+                    </Button>
+                  </>
+                ) : (
+                  <p className="text-xs text-gray-500">
+                    This browser can&apos;t scan QR codes with the camera. Type the code below or use a handheld scanner.
+                  </p>
+                )}
+                {cameraError && <p className="text-sm text-red-600">{cameraError}</p>}
+
+                <form onSubmit={handleManualSubmit} className="flex gap-2">
+                  <input
+                    value={manualCode}
+                    onChange={(e) => setManualCode(e.target.value)}
+                    placeholder="Check-in code"
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  />
+                  <Button type="submit" disabled={!manualCode.trim()} className="bg-gray-900 hover:bg-gray-800 text-white">
+                    Check In
+                  </Button>
+                </form>
+
+                {lastScan && (
+                  <div className={`flex items-center gap-2 p-3 rounded-lg border text-sm ${
+                    lastScan.outcome === 'checked_in'
+                      ? 'bg-green-50 border-green-200 text-green-800'
+                      : lastScan.outcome === 'duplicate'
+                        ? 'bg-amber-50 border-amber-200 text-amber-800'
+                        : 'bg-red-50 border-red-200 text-red-800'
+                  }`}>
+                    {lastScan.outcome === 'checked_in' && <CheckCircle className="w-4 h-4 flex-shrink-0" />}
+                    {lastScan.outcome === 'duplicate' && <AlertTriangle className="w-4 h-4 flex-shrink-0" />}
+                    {lastScan.outcome === 'unknown' && <XCircle className="w-4 h-4 flex-shrink-0" />}
+                    <span>
+                      {lastScan.outcome === 'checked_in' && `${lastScan.name} checked in`}
+                      {lastScan.outcome === 'duplicate' && `${lastScan.name} already checked in at ${formatTime(lastScan.checkedInAt)}`}
+                      {lastScan.outcome === 'unknown' && 'Not a valid code for this event'}
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              {checkIn.rejected.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-sm font-medium text-red-800 mb-2">Rejected when syncing</p>
+                  <ul className="space-y-1 text-xs text-red-700">
+                    {checkIn.rejected.map((result, index) => (
+                      <li key={`${result.code}-${index}`}>
+                        {result.fullName || 'Unknown'}: {REJECTION_LABELS[result.outcome] || result.outcome}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-semibold text-sm text-gray-900">
+                    Roster ({checkedInCount}/{entries.length} checked in)
+                  </h3>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => sync()}
+                      disabled={!online || syncing || checkIn.pending.length === 0}
+                      className="border-gray-300"
+                    >
+                      {syncing ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RefreshCw className="w-3 h-3 mr-1" />}
+                      Sync
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={handleDownload}
+                      disabled={!online || downloading}
+                      className="border-gray-300"
+                    >
+                      {downloading ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Download className="w-3 h-3 mr-1" />}
+                      Refresh Roster
+                    </Button>
+                  </div>
+                </div>
+
+                {entries.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-4 text-center">No approved registrations for this event.</p>
+                ) : (
+                  <div className="divide-y border border-gray-200 rounded-lg">
+                    {entries.map(entry => (
+                      <div key={entry.registrationId} className="flex items-center justify-between gap-3 px-3 py-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{entry.fullName}</p>
+                          <p className="text-xs text-gray-500 truncate">{entry.email || 'No email'}</p>
+                        </div>
+                        {entry.checkedInAt ? (
+                          <Badge className={`text-xs flex-shrink-0 ${
+                            pendingCodes.has(entry.code)
+                              ? 'bg-blue-100 text-blue-700 border-blue-200'
+                              : 'bg-green-100 text-green-700 border-green-200'
+                          }`}>
+                            {pendingCodes.has(entry.code) ? 'Not synced' : '✓'} {formatTime(entry.checkedInAt)}
+                          </Badge>
+                        ) : (
+                          <span className="text-xs text-gray-400 flex-shrink-0">Not checked in</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {checkIn?.roster.event.canComplete && (
+          <div className="p-4 sm:p-6 border-t">
+            <Button
+              onClick={handleComplete}
+              disabled={!online || completing || completable === 0}
+              className="w-full bg-purple-600 hover:bg-purple-700 text-white"
+            >
+              {completing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Award className="w-4 h-4 mr-2" />}
+              Complete Checked-in Attendees ({completable})
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,19 +2,47 @@ import { useState, useEffect, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { MapPin, Calendar, Users, Clock, Heart, Award, Loader2, Plus, Edit, ClipboardList, XCircle, Search, SlidersHorizontal, RefreshCw, ChevronDown, Trash2, X } from 'lucide-react';
+import { MapPin, Calendar, Users, Clock, Heart, Award, Loader2, Plus, Edit, XCircle, Search, SlidersHorizontal, RefreshCw, Trash2, X, Repeat, CalendarPlus, UserCheck } from 'lucide-react';
 import { AdminRegistrations } from './AdminRegistrations';
-import { getSessionsWithStats, registerForSession, createSession, updateSession, deleteSession } from '@/lib/community-utils';
+import { CalendarFeedButton } from './CalendarFeedButton';
+import { InstructorAssignmentModal } from './InstructorAssignmentModal';
+import { getEventCalendarUrl } from '@/lib/calendar-utils';
+import { getAssignedEventIds } from '@/lib/instructor-utils';
+import { getPublishableOrganizations } from '@/lib/organization-utils';
+import type { Organization } from '@/lib/supabase';
+import {
+  getSessionsWithStats,
+  registerForSession,
+  registerForSeries,
+  createSession,
+  updateSession,
+  deleteSession,
+  createSessionSeries,
+  getSessionSeries,
+  updateSessionSeries,
+  deleteSessionSeries
+} from '@/lib/community-utils';
+import { expandRecurrence } from '@/lib/session-recurrence';
+import {
+  SessionRecurrenceFields,
+  NO_RECURRENCE,
+  fromRecurrenceRule,
+  toRecurrenceRule,
+  type RecurrenceFormValue
+} from './SessionRecurrenceFields';
 
 // Types
 interface UserRegistration {
-  status: 'pending' | 'registered' | 'approved' | 'declined';
+  status: 'pending' | 'registered' | 'approved' | 'declined' | 'waitlisted' | 'cancelled' | 'completed';
+  waitlist_position: number | null;
 }
 
 interface SessionWithStats {
   id: string;
   title: string;
+  description: string;
   organization: string;
+  organization_id: string | null;
   category: string;
   date: string;
   time: string;
@@ -23,10 +51,12 @@ interface SessionWithStats {
   capacity: number;
   registered_count: number;
   available_spots: number;
+  waitlist_length: number;
   level: 'Beginner' | 'Intermediate' | 'Advanced';
   certified: boolean;
   volunteer: boolean;
   user_registration?: UserRegistration | null;
+  series: { id: string; label: string } | null;
 }
 
 // In-memory cache
@@ -80,7 +110,7 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
   const [selectedSession, setSelectedSession] = useState<SessionWithStats | null>(null);
   const [sessionForm, setSessionForm] = useState({
     title: '',
-    organization: '',
+    organization_id: '',
     category: '',
     level: 'Beginner',
     date: '',
@@ -93,8 +123,25 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
     description: ''
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [recurrence, setRecurrence] = useState<RecurrenceFormValue>(NO_RECURRENCE);
+  // Editing one occurrence, or the series it belongs to (from seriesStartDate on)
+  const [editScope, setEditScope] = useState<'session' | 'series'>('session');
+  const [seriesRecurrence, setSeriesRecurrence] = useState<{ value: RecurrenceFormValue; startDate: string } | null>(null);
   
+  const [assignedSessionIds, setAssignedSessionIds] = useState<string[]>([]);
+  const [assigningSession, setAssigningSession] = useState<SessionWithStats | null>(null);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+
   const isAdmin = profile.role === 'admin';
+  const isInstructor = profile.role === 'instructor';
+  // Platform admins publish for any organization, organization admins for theirs
+  const canPublish = isAdmin || organizations.length > 0;
+  const isSessionStaff = canPublish || isInstructor;
+  const canAdministerSession = (session: SessionWithStats) =>
+    isAdmin || (!!session.organization_id && organizations.some(org => org.id === session.organization_id));
+  // Instructors manage only the sessions they're assigned to
+  const canManageSession = (session: SessionWithStats) =>
+    canAdministerSession(session) || assignedSessionIds.includes(session.id);
 
   useEffect(() => {
     if (activeTab === 'training') {
@@ -102,6 +149,19 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
     }
   }, [profile.id, activeTab]);
 
+  useEffect(() => {
+    getPublishableOrganizations(profile)
+      .then(setOrganizations)
+      .catch(error => console.error('Error loading organizations:', error));
+  }, [profile]);
+
+  useEffect(() => {
+    if (!isInstructor) return;
+    getAssignedEventIds(profile.id)
+      .then(assigned => setAssignedSessionIds(assigned.session))
+      .catch(error => console.error('Error loading assigned sessions:', error));
+  }, [profile.id, isInstructor]);
+
   const loadSessions = async (forceRefresh = false) => {
     try {
       if (!forceRefresh) {
@@ -121,7 +181,9 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
       const formattedData: SessionWithStats[] = data.map(session => ({
         id: session.id,
         title: session.title,
+        description: session.description || '',
         organization: session.organization || '',
+        organization_id: session.organization_id,
         category: session.category || 'General',
         date: session.date,
         time: session.time,
@@ -130,11 +192,14 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
         capacity: session.capacity,
         registered_count: session.registered_count,
         available_spots: session.available_spots,
+        waitlist_length: session.waitlist_length,
         level: (session.level as 'Beginner' | 'Intermediate' | 'Advanced') || 'Beginner',
         certified: session.certified,
         volunteer: session.volunteer,
+        series: session.series || null,
         user_registration: session.user_registration ? {
-          status: session.user_registration.status as 'pending' | 'registered' | 'approved' | 'declined'
+          status: session.user_registration.status as UserRegistration['status'],
+          waitlist_position: session.user_registration.waitlist_position
         } : null
       }));
       
@@ -161,19 +226,67 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
     if (!sessionForm.time.trim()) errors.time = 'Time is required';
     if (!sessionForm.location.trim()) errors.location = 'Location is required';
     if (sessionForm.capacity < 1) errors.capacity = 'Capacity must be at least 1';
+    if (!isAdmin && !sessionForm.organization_id) errors.organization_id = 'Choose the organization running this session';
+
+    const rule = getRecurrenceRule();
+    if (rule) {
+      if (rule.frequency !== 'dates' && !rule.endDate) {
+        errors.recurrence = 'Pick the date the series ends';
+      } else {
+        try {
+          expandRecurrence(rule);
+        } catch (error) {
+          errors.recurrence = error instanceof Error ? error.message : 'Invalid schedule';
+        }
+      }
+    }
     
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
   };
 
+  // The rule being created or edited, if any
+  const getRecurrenceRule = () => {
+    if (isEditDialogOpen) {
+      return editScope === 'series' && seriesRecurrence
+        ? toRecurrenceRule(seriesRecurrence.value, seriesRecurrence.startDate)
+        : null;
+    }
+    return toRecurrenceRule(recurrence, sessionForm.date);
+  };
+
+  const getSessionDetails = () => ({
+    title: sessionForm.title,
+    organization_id: sessionForm.organization_id || null,
+    category: sessionForm.category,
+    level: sessionForm.level,
+    time: sessionForm.time,
+    location: sessionForm.location,
+    instructor: sessionForm.instructor,
+    capacity: sessionForm.capacity,
+    certified: sessionForm.certified,
+    volunteer: sessionForm.volunteer,
+    description: sessionForm.description
+  });
+
   const handleCreateSession = async () => {
     if (!validateForm()) return;
     
     try {
       setActionLoading('create');
+      const rule = getRecurrenceRule();
+      if (rule) {
+        const { sessionCount } = await createSessionSeries(getSessionDetails(), rule);
+        setIsCreateDialogOpen(false);
+        resetForm();
+        await loadSessions(true);
+        alert(`Session series created with ${sessionCount} sessions!`);
+        return;
+      }
+
       await createSession({
         title: sessionForm.title,
-        organization: sessionForm.organization,
+        organization_id: sessionForm.organization_id || null,
         category: sessionForm.category,
         level: sessionForm.level,
         date: sessionForm.date,
@@ -199,12 +312,37 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
 
   const handleEditSession = async () => {
     if (!selectedSession || !validateForm()) return;
+
+    if (editScope === 'series' && selectedSession.series) {
+      if (!confirm('Apply these changes to every upcoming session in this series? Upcoming sessions on dates no longer in the schedule will be deleted along with their registrations.')) {
+        return;
+      }
+
+      try {
+        setActionLoading('edit');
+        const result = await updateSessionSeries(
+          selectedSession.series.id,
+          getSessionDetails(),
+          getRecurrenceRule() || undefined
+        );
+
+        setIsEditDialogOpen(false);
+        resetForm();
+        await loadSessions(true);
+        alert(`Series updated: ${result.updated} sessions changed, ${result.added} added, ${result.removed} removed.`);
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Failed to update series');
+      } finally {
+        setActionLoading(null);
+      }
+      return;
+    }
     
     try {
       setActionLoading('edit');
       await updateSession(selectedSession.id, {
         title: sessionForm.title,
-        organization: sessionForm.organization,
+        organization_id: sessionForm.organization_id || null,
         category: sessionForm.category,
         level: sessionForm.level,
         date: sessionForm.date,
@@ -228,6 +366,23 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
     }
   };
 
+  const handleDeleteSeries = async () => {
+    if (!selectedSession?.series) return;
+
+    try {
+      setActionLoading('delete-series');
+      await deleteSessionSeries(selectedSession.series.id);
+
+      setIsDeleteDialogOpen(false);
+      await loadSessions(true);
+      alert('Session series deleted successfully!');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete series');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleDeleteSession = async () => {
     if (!selectedSession) return;
     
@@ -249,7 +404,7 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
     setSelectedSession(session);
     setSessionForm({
       title: session.title,
-      organization: session.organization,
+      organization_id: session.organization_id || '',
       category: session.category,
       level: session.level,
       date: session.date,
@@ -259,9 +414,17 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
       capacity: session.capacity,
       certified: session.certified,
       volunteer: session.volunteer,
-      description: ''
+      description: session.description
     });
+    setEditScope('session');
+    setSeriesRecurrence(null);
     setIsEditDialogOpen(true);
+
+    if (session.series) {
+      getSessionSeries(session.series.id)
+        .then(series => setSeriesRecurrence(fromRecurrenceRule(series.recurrence)))
+        .catch(error => console.error('Error loading session series:', error));
+    }
   };
 
   const openDeleteDialog = (session: SessionWithStats) => {
@@ -272,7 +435,7 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
   const resetForm = () => {
     setSessionForm({
       title: '',
-      organization: '',
+      organization_id: '',
       category: '',
       level: 'Beginner',
       date: '',
@@ -285,9 +448,38 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
       description: ''
     });
     setFormErrors({});
+    setRecurrence(NO_RECURRENCE);
+    setEditScope('session');
+    setSeriesRecurrence(null);
     setSelectedSession(null);
   };
 
+  // Instructors editing a session can't move it to another organization
+  const renderOrganizationSelect = (id: string) => {
+    const locked = !!selectedSession && !canAdministerSession(selectedSession);
+    const current = selectedSession?.organization_id;
+    const options = locked && current
+      ? [{ id: current, name: selectedSession.organization }]
+      : organizations;
+
+    return (
+      <select
+        id={id}
+        value={sessionForm.organization_id}
+        onChange={(e) => setSessionForm({...sessionForm, organization_id: e.target.value})}
+        disabled={locked}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent bg-white disabled:bg-gray-100"
+      >
+        {isAdmin || (locked && !current)
+          ? <option value="">LifeCraft (no organization)</option>
+          : <option value="">Select organization</option>}
+        {options.map(org => (
+          <option key={org.id} value={org.id}>{org.name}</option>
+        ))}
+      </select>
+    );
+  };
+
   const openCreateDialog = () => {
     resetForm();
     setIsCreateDialogOpen(true);
@@ -357,12 +549,33 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
   const activeFiltersCount = [certifiedFilter, volunteerFilter, levelFilter, categoryFilter]
     .filter(f => f !== null).length;
 
+  const handleRegisterSeries = async (seriesId: string) => {
+    try {
+      setActionLoading(`series-${seriesId}`);
+      const reservations = await registerForSeries(profile.id, seriesId);
+      await loadSessions(true);
+
+      const seated = reservations.filter(r => r.status === 'pending').length;
+      const waitlisted = reservations.filter(r => r.status === 'waitlisted').length;
+      alert(waitlisted > 0
+        ? `Registered for ${seated} sessions and waitlisted for ${waitlisted} full ones. Registrations are pending approval.`
+        : `Registered for ${seated} sessions! Your registrations are pending approval.`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to register';
+      alert(message);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleRegister = async (sessionId: string) => {
     try {
       setActionLoading(sessionId);
-      await registerForSession(profile.id, sessionId);
+      const reservation = await registerForSession(profile.id, sessionId);
       await loadSessions(true);
-      alert('Registration submitted successfully! Your registration is pending approval.');
+      alert(reservation.status === 'waitlisted'
+        ? `This session is full, so you've been added to the waitlist at position #${reservation.waitlistPosition}. We'll email you if a spot opens up.`
+        : 'Registration submitted successfully! Your registration is pending approval.');
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Failed to register';
       alert(message);
@@ -398,16 +611,17 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
             <div>
               <h1 className="text-2xl sm:text-3xl font-bold mb-2">
-                {isAdmin ? 'Community Training Management' : 'Community Training Programs'}
+                {canPublish ? 'Community Training Management' : 'Community Training Programs'}
               </h1>
               <p className="text-sm sm:text-base text-gray-600">
-                {isAdmin 
+                {canPublish 
                   ? 'Manage training sessions and registrations' 
                   : 'Connect with local training sessions and volunteer opportunities'
                 }
               </p>
             </div>
             <div className="flex gap-2">
+              <CalendarFeedButton />
               {activeTab === 'training' && (
                 <Button
                   onClick={handleRefresh}
@@ -419,7 +633,7 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                   {refreshing ? 'Refreshing...' : 'Refresh'}
                 </Button>
               )}
-              {isAdmin && activeTab === 'training' && (
+              {canPublish && activeTab === 'training' && (
                 <Button 
                   onClick={openCreateDialog}
                   className="bg-gray-900 hover:bg-gray-800 text-white flex-1 sm:flex-none"
@@ -434,7 +648,7 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
       </div>
 
       {/* Admin Tabs */}
-      {isAdmin && (
+      {isSessionStaff && (
         <div className="mb-6">
           <div className="border-b border-gray-200">
             <nav className="-mb-px flex space-x-8">
@@ -470,7 +684,7 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
       )}
 
       {/* Show AdminRegistrations if on registrations tab */}
-      {isAdmin && activeTab === 'registrations' ? (
+      {isSessionStaff && activeTab === 'registrations' ? (
         <AdminRegistrations />
       ) : (
         <>
@@ -689,8 +903,17 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                 {filteredSessions.map(session => {
                   const isRegistered = session.user_registration?.status === 'registered' || session.user_registration?.status === 'approved';
                   const isPending = session.user_registration?.status === 'pending';
+                  const isWaitlisted = session.user_registration?.status === 'waitlisted';
                   const isFull = session.available_spots <= 0;
-                  const canRegister = !isAdmin && !session.user_registration && !isFull;
+                  // Full sessions take waitlist sign-ups; cancelled registrations can sign up again
+                  const canRegister = !isAdmin && (!session.user_registration || session.user_registration.status === 'cancelled');
+                  const openSeriesSessions = session.series
+                    ? sessions.filter(s =>
+                        s.series?.id === session.series?.id &&
+                        s.date >= new Date().toISOString().split('T')[0] &&
+                        (!s.user_registration || s.user_registration.status === 'cancelled')
+                      ).length
+                    : 0;
 
                   return (
                     <Card key={session.id} className="p-5 hover:shadow-lg transition-shadow bg-white">
@@ -710,6 +933,12 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                               Volunteer
                             </Badge>
                           )}
+                          {session.series && (
+                            <Badge className="bg-sky-100 text-sky-700 border-sky-200 text-xs">
+                              <Repeat className="w-3 h-3 mr-1" />
+                              {session.series.label}
+                            </Badge>
+                          )}
                         </div>
                         <div className="flex items-center gap-2">
                           <Badge 
@@ -723,8 +952,19 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                           >
                             {session.level}
                           </Badge>
-                          {isAdmin && (
+                          {canManageSession(session) && (
                             <div className="flex gap-1">
+                              {canAdministerSession(session) && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setAssigningSession(session)}
+                                  className="h-7 w-7 p-0 bg-white"
+                                  title="Instructors"
+                                >
+                                  <UserCheck className="w-3 h-3" />
+                                </Button>
+                              )}
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -733,14 +973,16 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                               >
                                 <Edit className="w-3 h-3" />
                               </Button>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => openDeleteDialog(session)}
-                                className="h-7 w-7 p-0 text-gray-700 hover:text-gray-900 hover:bg-gray-100 bg-white"
-                              >
-                                <Trash2 className="w-3 h-3" />
-                              </Button>
+                              {canAdministerSession(session) && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => openDeleteDialog(session)}
+                                  className="h-7 w-7 p-0 text-gray-700 hover:text-gray-900 hover:bg-gray-100 bg-white"
+                                >
+                                  <Trash2 className="w-3 h-3" />
+                                </Button>
+                              )}
                             </div>
                           )}
                         </div>
@@ -793,18 +1035,24 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                         <p className={`text-xs mt-1 ${
                           isFull ? 'text-red-600' : session.available_spots < 3 ? 'text-orange-600' : 'text-green-600'
                         }`}>
-                          {isFull ? 'Session Full' : `${session.available_spots} spots remaining`}
+                          {isFull
+                            ? `Session Full${session.waitlist_length > 0 ? ` - ${session.waitlist_length} waiting` : ''}`
+                            : `${session.available_spots} spots remaining`}
                         </p>
                       </div>
 
-                      {!isAdmin && session.user_registration && (
+                      {!isAdmin && session.user_registration && session.user_registration.status !== 'cancelled' && (
                         <div className="mb-3">
                           <Badge className={`${
                             isPending ? 'bg-amber-100 text-amber-700 border-amber-200' :
+                            isWaitlisted ? 'bg-blue-100 text-blue-700 border-blue-200' :
                             isRegistered ? 'bg-green-100 text-green-700 border-green-200' :
                             'bg-red-100 text-red-700 border-red-200'
                           } text-xs`}>
-                            {isPending ? '⏳ Pending Approval' : isRegistered ? '✓ Registered' : '✗ Declined'}
+                            {isPending ? '⏳ Pending Approval'
+                              : isWaitlisted ? `Waitlist #${session.user_registration.waitlist_position}`
+                              : isRegistered ? '✓ Registered'
+                              : '✗ Declined'}
                           </Badge>
                         </div>
                       )}
@@ -813,7 +1061,7 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                         onClick={() => handleRegister(session.id)}
                         disabled={!canRegister || actionLoading === session.id}
                         className={`w-full ${
-                          isRegistered || isPending || isFull
+                          !canRegister
                             ? 'bg-gray-200 text-gray-600 hover:bg-gray-300'
                             : 'bg-gray-900 hover:bg-gray-800 text-white'
                         }`}
@@ -823,16 +1071,49 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                             <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                             Processing...
                           </>
-                        ) : isFull ? (
-                          'Session Full'
+                        ) : isWaitlisted ? (
+                          `On Waitlist (#${session.user_registration?.waitlist_position})`
                         ) : isPending ? (
                           'Pending Approval'
                         ) : isRegistered ? (
                           'Registered ✓'
+                        ) : canRegister && isFull ? (
+                          'Join Waitlist'
+                        ) : isFull ? (
+                          'Session Full'
                         ) : (
                           'Register Now'
                         )}
                       </Button>
+
+                      {(canManageSession(session) || isRegistered) && (
+                        <a
+                          href={getEventCalendarUrl('session', session.id)}
+                          download
+                          className="mt-2 flex items-center justify-center gap-1 text-sm text-gray-700 hover:text-gray-900"
+                        >
+                          <CalendarPlus className="w-4 h-4" />
+                          Add to Calendar
+                        </a>
+                      )}
+
+                      {!isAdmin && session.series && openSeriesSessions > 1 && (
+                        <Button
+                          variant="outline"
+                          onClick={() => handleRegisterSeries(session.series!.id)}
+                          disabled={actionLoading === `series-${session.series.id}`}
+                          className="w-full mt-2 border-gray-300 hover:bg-gray-100"
+                        >
+                          {actionLoading === `series-${session.series.id}` ? (
+                            <>
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              Processing...
+                            </>
+                          ) : (
+                            `Register for All ${openSeriesSessions} Upcoming Sessions`
+                          )}
+                        </Button>
+                      )}
                     </Card>
                   );
                 })}
@@ -896,15 +1177,10 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
 
                   <div className="space-y-2">
                     <label htmlFor="organization" className="text-sm font-medium text-gray-700">
-                      Organization
+                      Organization {!isAdmin && <span className="text-red-500">*</span>}
                     </label>
-                    <input
-                      id="organization"
-                      value={sessionForm.organization}
-                      onChange={(e) => setSessionForm({...sessionForm, organization: e.target.value})}
-                      placeholder="Red Cross Philippines"
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent bg-white"
-                    />
+                    {renderOrganizationSelect('organization')}
+                    {formErrors.organization_id && <p className="text-sm text-red-600">{formErrors.organization_id}</p>}
                   </div>
 
                   <div className="space-y-2">
@@ -1007,6 +1283,13 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                   </div>
                 </div>
 
+                <SessionRecurrenceFields
+                  value={recurrence}
+                  startDate={sessionForm.date}
+                  onChange={setRecurrence}
+                  error={formErrors.recurrence}
+                />
+
                 <div className="space-y-2">
                   <label htmlFor="description" className="text-sm font-medium text-gray-700">
                     Description
@@ -1123,6 +1406,37 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
             
             <div className="p-6 overflow-y-auto max-h-[60vh]">
               <div className="space-y-6">
+                {selectedSession?.series && canAdministerSession(selectedSession) && (
+                  <div className="flex flex-col gap-2 p-4 border border-gray-200 rounded-lg bg-gray-50">
+                    <p className="text-sm font-medium text-gray-700">
+                      This session is part of a series ({selectedSession.series.label})
+                    </p>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="radio"
+                        name="edit-scope"
+                        checked={editScope === 'session'}
+                        onChange={() => setEditScope('session')}
+                      />
+                      Only this session
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="radio"
+                        name="edit-scope"
+                        checked={editScope === 'series'}
+                        onChange={() => setEditScope('series')}
+                      />
+                      All upcoming sessions in the series
+                    </label>
+                    {editScope === 'series' && (
+                      <p className="text-xs text-gray-500">
+                        Fields changed on individual sessions keep their own values.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div className="space-y-2">
                     <label htmlFor="edit-title" className="text-sm font-medium text-gray-700">
@@ -1139,14 +1453,10 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
 
                   <div className="space-y-2">
                     <label htmlFor="edit-organization" className="text-sm font-medium text-gray-700">
-                      Organization
+                      Organization {!isAdmin && <span className="text-red-500">*</span>}
                     </label>
-                    <input
-                      id="edit-organization"
-                      value={sessionForm.organization}
-                      onChange={(e) => setSessionForm({...sessionForm, organization: e.target.value})}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent bg-white"
-                    />
+                    {renderOrganizationSelect('edit-organization')}
+                    {formErrors.organization_id && <p className="text-sm text-red-600">{formErrors.organization_id}</p>}
                   </div>
 
                   <div className="space-y-2">
@@ -1186,7 +1496,8 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                       type="date"
                       value={sessionForm.date}
                       onChange={(e) => setSessionForm({...sessionForm, date: e.target.value})}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent bg-white"
+                      disabled={editScope === 'series'}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent bg-white disabled:bg-gray-100 disabled:text-gray-500"
                     />
                     {formErrors.date && <p className="text-sm text-red-600">{formErrors.date}</p>}
                   </div>
@@ -1245,6 +1556,16 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                   </div>
                 </div>
 
+                {editScope === 'series' && seriesRecurrence && (
+                  <SessionRecurrenceFields
+                    value={seriesRecurrence.value}
+                    startDate={seriesRecurrence.startDate}
+                    onChange={(value) => setSeriesRecurrence({ ...seriesRecurrence, value })}
+                    allowNone={false}
+                    error={formErrors.recurrence}
+                  />
+                )}
+
                 <div className="space-y-2">
                   <label htmlFor="edit-description" className="text-sm font-medium text-gray-700">
                     Description
@@ -1332,6 +1653,8 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                     Updating...
                   </>
+                ) : editScope === 'series' ? (
+                  'Update Series'
                 ) : (
                   'Update Session'
                 )}
@@ -1341,6 +1664,15 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
         </div>
       )}
 
+      {assigningSession && (
+        <InstructorAssignmentModal
+          kind="session"
+          eventId={assigningSession.id}
+          title={assigningSession.title}
+          onClose={() => setAssigningSession(null)}
+        />
+      )}
+
       {/* Delete Session Modal */}
       {isDeleteDialogOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
@@ -1353,6 +1685,23 @@ export function CommunityTraining({ profile }: CommunityTrainingProps) {
               <p className="text-gray-600 text-center mb-6">
                 Are you sure you want to delete "{selectedSession?.title}"? This action cannot be undone and will also delete all registrations for this session.
               </p>
+              {selectedSession?.series && (
+                <Button
+                  variant="outline"
+                  onClick={handleDeleteSeries}
+                  disabled={actionLoading === 'delete-series' || actionLoading === 'delete'}
+                  className="w-full mb-3 text-red-600 border-red-300 hover:bg-red-50"
+                >
+                  {actionLoading === 'delete-series' ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Deleting...
+                    </>
+                  ) : (
+                    'Delete Entire Series'
+                  )}
+                </Button>
+              )}
               <div className="flex gap-3">
                 <Button
                   variant="outline"
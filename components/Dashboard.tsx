@@ -5,7 +5,7 @@ import type { Profile } from '@/lib/supabase';
 import { Card } from './ui/card';
 import { Progress } from './ui/progress';
 import { Badge } from './ui/badge';
-import { Trophy, Target, Zap, TrendingUp, Award, BookOpen, Activity, ChevronRight, RefreshCw, Download, FileText, Sparkles, Clock, Wifi, WifiOff } from 'lucide-react';
+import { Trophy, Target, TrendingUp, Award, BookOpen, Activity, ChevronRight, RefreshCw, Download, FileText, Sparkles, Clock, Wifi, WifiOff, AlertTriangle, RotateCcw, XCircle } from 'lucide-react';
 import { Button } from './ui/button';
 import { 
   fetchDashboardData, 
@@ -15,7 +15,6 @@ import {
   getActivityIcon,
   getCertificateTypeColor,
   getCertificateTypeLabel,
-  downloadCertificateFromDataUri,
   type UserCertificate,
   getCertificateTitle,
   getCertificateDate,
@@ -23,6 +22,11 @@ import {
   getCertificateLocation
 } from '@/lib/dashboard-utils';
 import { fetchAIRecommendations, type AIRecommendation } from '@/lib/ai-recommendations';
+import { clearPendingBadgeCheck, getPendingBadgeCheck, waitForBadgeCheck, type AwardedBadge } from '@/lib/badge-utils';
+import { downloadCertificate as downloadCertificateFile, renewCertificate as requestRenewal } from '@/lib/certificate-utils';
+import { getDaysUntilExpiry } from '@/lib/certificates/status';
+import { CheckInPasses } from './dashboard/CheckInPasses';
+import { FeedbackPrompts } from './dashboard/FeedbackPrompts';
 import { useRouter } from 'next/navigation';
 
 interface DashboardProps {
@@ -129,6 +133,7 @@ export function Dashboard({ profile }: DashboardProps) {
     recentActivity: [] as any[]
   });
   const [certificates, setCertificates] = useState<UserCertificate[]>([]);
+  const [renewingSerial, setRenewingSerial] = useState<string | null>(null);
   const [aiRecommendations, setAiRecommendations] = useState<AIRecommendation[]>([]);
   
   // Granular loading states for progressive rendering
@@ -142,6 +147,13 @@ export function Dashboard({ profile }: DashboardProps) {
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [isOnline, setIsOnline] = useState(true);
   const [showSkeletons, setShowSkeletons] = useState(true);
+  // The badge check started by the last module or drill completion
+  const [badgeCheck, setBadgeCheck] = useState<
+    | { state: 'pending' }
+    | { state: 'done'; newBadges: AwardedBadge[] }
+    | { state: 'failed'; error: string }
+    | null
+  >(null);
 
   // Monitor online status
   useEffect(() => {
@@ -301,6 +313,30 @@ export function Dashboard({ profile }: DashboardProps) {
     };
   }, [loadDashboardData, loadCertificates, loadAIRecommendations]);
 
+  // Report the pending badge check, if any, once the worker has run it
+  useEffect(() => {
+    const jobId = getPendingBadgeCheck();
+    if (!jobId) return;
+
+    const controller = new AbortController();
+    setBadgeCheck({ state: 'pending' });
+
+    waitForBadgeCheck(jobId, controller.signal)
+      .then(({ newBadges }) => {
+        clearPendingBadgeCheck(jobId);
+        setBadgeCheck({ state: 'done', newBadges });
+        // Badges add points and activity
+        if (newBadges.length > 0) loadDashboardData(true);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        clearPendingBadgeCheck(jobId);
+        setBadgeCheck({ state: 'failed', error: error instanceof Error ? error.message : 'The badge check failed' });
+      });
+
+    return () => controller.abort();
+  }, [loadDashboardData]);
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
     setShowSkeletons(true);
@@ -325,7 +361,7 @@ export function Dashboard({ profile }: DashboardProps) {
       const userName = profile.full_name || 'Participant';
       const sessionTitle = getCertificateTitle(certificate);
       
-      downloadCertificateFromDataUri(
+      await downloadCertificateFile(
         certificate.certificate_url,
         userName,
         sessionTitle
@@ -336,6 +372,36 @@ export function Dashboard({ profile }: DashboardProps) {
     }
   };
 
+  const renewCertificate = async (certificate: UserCertificate) => {
+    if (!certificate.serial) return;
+    setRenewingSerial(certificate.serial);
+
+    try {
+      const renewal = await requestRenewal(certificate.serial);
+
+      if (renewal.date) {
+        const date = new Date(renewal.date).toLocaleDateString('en-US', {
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric'
+        });
+        alert(`You are registered for "${renewal.title}" on ${date}. Your registration is pending approval.`);
+      } else {
+        alert(`Complete "${renewal.title}" again to earn your renewed certificate.`);
+      }
+
+      await loadCertificates(true);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to renew certificate. Please try again.');
+    } finally {
+      setRenewingSerial(null);
+    }
+  };
+
+  const expiringCertificates = certificates.filter(
+    cert => cert.status === 'expiring' || cert.status === 'expired'
+  );
+
   const handleStartModule = (moduleId: string) => {
     router.push('/modules');
   };
@@ -460,6 +526,26 @@ export function Dashboard({ profile }: DashboardProps) {
                 Online
               </Badge>
             )}
+            {badgeCheck?.state === 'pending' && (
+              <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-200">
+                <RefreshCw className="w-3 h-3 mr-1 animate-spin" />
+                Checking for new badges...
+              </Badge>
+            )}
+            {badgeCheck?.state === 'done' && (
+              <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-200">
+                <Award className="w-3 h-3 mr-1" />
+                {badgeCheck.newBadges.length > 0
+                  ? `New badge${badgeCheck.newBadges.length > 1 ? 's' : ''}: ${badgeCheck.newBadges.map(badge => badge.name).join(', ')}`
+                  : 'Badges up to date'}
+              </Badge>
+            )}
+            {badgeCheck?.state === 'failed' && (
+              <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200" title={badgeCheck.error}>
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                Badge check failed
+              </Badge>
+            )}
           </div>
         </div>
 
@@ -604,6 +690,18 @@ export function Dashboard({ profile }: DashboardProps) {
                 )}
               </div>
               
+              {expiringCertificates.length > 0 && (
+                <div className="flex items-start gap-2 p-3 mb-3 bg-amber-50 border border-amber-200 rounded-lg text-xs sm:text-sm text-amber-800">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  <p>
+                    {expiringCertificates.length === 1
+                      ? '1 certificate has expired or expires soon.'
+                      : `${expiringCertificates.length} certificates have expired or expire soon.`}
+                    {' '}Renew to stay certified.
+                  </p>
+                </div>
+              )}
+
               {loadingStates.certificates && certificates.length === 0 ? (
                 <div className="space-y-3">
                   <CertificateSkeleton />
@@ -619,10 +717,18 @@ export function Dashboard({ profile }: DashboardProps) {
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {certificates.map((cert) => (
+                  {certificates.map((cert) => {
+                    const inactive = cert.status === 'revoked' || cert.status === 'expired';
+                    const daysLeft = getDaysUntilExpiry(cert.expires_at ?? null);
+
+                    return (
                     <div 
-                      key={cert.id}
-                      className="p-3 sm:p-4 bg-gradient-to-br from-amber-50 to-orange-50 rounded-xl border-2 border-amber-200 hover:border-amber-300 hover:shadow-md transition-all"
+                      key={`${cert.type}-${cert.id}`}
+                      className={`p-3 sm:p-4 rounded-xl border-2 hover:shadow-md transition-all ${
+                        inactive
+                          ? 'bg-gray-50 border-gray-200'
+                          : 'bg-gradient-to-br from-amber-50 to-orange-50 border-amber-200 hover:border-amber-300'
+                      }`}
                     >
                       <div className="flex items-start justify-between gap-3 mb-2">
                         <div className="flex-1 min-w-0">
@@ -647,20 +753,45 @@ export function Dashboard({ profile }: DashboardProps) {
                             <p>👨‍🏫 {cert.instructor}</p>
                             <p>🏢 {cert.organization}</p>
                           </div>
+                          {cert.status === 'revoked' ? (
+                            <p className="flex items-start gap-1.5 mt-2 text-xs font-medium text-red-700">
+                              <XCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                              Revoked{cert.revoked_reason ? `: ${cert.revoked_reason}` : ''}
+                            </p>
+                          ) : cert.status === 'expired' ? (
+                            <p className="flex items-center gap-1.5 mt-2 text-xs font-medium text-gray-700">
+                              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+                              Expired on {new Date(cert.expires_at!).toLocaleDateString()}
+                            </p>
+                          ) : cert.status === 'expiring' ? (
+                            <p className="flex items-center gap-1.5 mt-2 text-xs font-medium text-amber-700">
+                              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+                              Expires in {daysLeft} {daysLeft === 1 ? 'day' : 'days'}
+                            </p>
+                          ) : cert.expires_at ? (
+                            <p className="mt-2 text-xs text-gray-500">
+                              Valid until {new Date(cert.expires_at).toLocaleDateString()}
+                            </p>
+                          ) : null}
                         </div>
-                        <Award className="w-6 h-6 text-amber-600 flex-shrink-0" />
+                        <Award className={`w-6 h-6 flex-shrink-0 ${inactive ? 'text-gray-400' : 'text-amber-600'}`} />
                       </div>
                       <Button
                         size="sm"
                         onClick={() => downloadCertificate(cert)}
-                        disabled={!cert.certificate_url}
+                        disabled={!cert.certificate_url || cert.status === 'revoked'}
                         className={`w-full mt-2 transition-all ${
-                          cert.certificate_url 
+                          cert.certificate_url && cert.status !== 'revoked'
                             ? 'bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 text-white shadow-md hover:shadow-lg' 
                             : 'bg-gray-200 text-gray-500 cursor-not-allowed'
                         }`}
                       >
-                        {!cert.certificate_url ? (
+                        {cert.status === 'revoked' ? (
+                          <>
+                            <XCircle className="w-4 h-4 mr-2" />
+                            Certificate Revoked
+                          </>
+                        ) : !cert.certificate_url ? (
                           <>
                             <FileText className="w-4 h-4 mr-2" />
                             Awaiting Certificate
@@ -672,8 +803,21 @@ export function Dashboard({ profile }: DashboardProps) {
                           </>
                         )}
                       </Button>
+                      {(cert.status === 'expiring' || cert.status === 'expired') && cert.serial && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => renewCertificate(cert)}
+                          disabled={renewingSerial === cert.serial}
+                          className="w-full mt-2"
+                        >
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          {renewingSerial === cert.serial ? 'Renewing...' : 'Renew Certificate'}
+                        </Button>
+                      )}
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </Card>
@@ -732,6 +876,12 @@ export function Dashboard({ profile }: DashboardProps) {
 
           {/* Sidebar */}
           <div className="space-y-4 sm:space-y-6 lg:space-y-8">
+            {/* Check-in codes for upcoming drills and sessions */}
+            <CheckInPasses userId={profile.id} />
+
+            {/* Surveys on completed drills, sessions and modules */}
+            <FeedbackPrompts userId={profile.id} />
+
             {/* Badges */}
             <Card className="p-3 xs:p-4 sm:p-6 hover:shadow-lg transition-all duration-300">
               <div className="flex items-center gap-1.5 xs:gap-2 mb-3 xs:mb-4">
@@ -7,11 +7,23 @@ import { Textarea } from './ui/textarea';
 import { X, Loader2, Plus, Edit, Trash2 } from 'lucide-react';
 import { createDrill, updateDrill, deleteDrill, getDrillContent } from '@/lib/drills-utils';
 import type { DrillWithUserStatus } from '@/lib/drills-utils';
+import {
+  cleanQuestionAnswers,
+  drillStepQuestion,
+  validateQuestionAnswers,
+  type AnswerKey,
+  type DrillQuestionContent,
+  type GradableQuestion,
+  type QuestionType
+} from '@/lib/question-types';
+import { QuestionAnswerEditor } from './QuestionAnswerEditor';
 
 interface DrillFormModalProps {
   drill?: DrillWithUserStatus | null;
   onClose: () => void;
   onSuccess: () => void;
+  // Instructors can edit an assigned drill's details but not its type, and can't delete it
+  isAdmin?: boolean;
 }
 
 interface DrillPage {
@@ -20,16 +32,20 @@ interface DrillPage {
   title: string;
   content: string;
   question?: string;
+  questionType?: QuestionType;
   options?: string[];
   correctAnswer?: number;
+  answerKey?: AnswerKey | null;
   explanation?: string;
+  // Alternative versions of the question; each run gets one of them or this one
+  variants?: DrillQuestionContent[];
   points?: number;
 }
 
 const CATEGORIES = ['Life-Saving', 'Basic First Aid', 'Environmental', 'Medical Emergencies', 'Survival Skills', 'Trauma Care'];
 const DIFFICULTIES = ['Beginner', 'Intermediate', 'Advanced'];
 
-export function DrillFormModal({ drill, onClose, onSuccess }: DrillFormModalProps) {
+export function DrillFormModal({ drill, onClose, onSuccess, isAdmin = true }: DrillFormModalProps) {
   const isEditing = !!drill;
   
   const [formData, setFormData] = useState({
@@ -43,7 +59,6 @@ export function DrillFormModal({ drill, onClose, onSuccess }: DrillFormModalProp
     location: drill?.location || '',
     date: drill?.date || '',
     time: '',
-    capacity: drill?.capacity ?? 20,
     requireCompletion: false
   });
 
@@ -87,9 +102,9 @@ export function DrillFormModal({ drill, onClose, onSuccess }: DrillFormModalProp
         }
       }
 
-      // Parse participants to get just the number
-      let participantsNum = '';
-      if (drill.participants) {
+      // Physical drills enforce capacity; older drills only have the participants text
+      let participantsNum = drill.type === 'Physical' && drill.capacity ? String(drill.capacity) : '';
+      if (!participantsNum && drill.participants) {
         const match = drill.participants.match(/\d+/);
         if (match) {
           participantsNum = match[0];
@@ -121,9 +136,12 @@ export function DrillFormModal({ drill, onClose, onSuccess }: DrillFormModalProp
         title: item.step_title,
         content: item.step_description,
         question: item.content?.question || '',
+        questionType: item.content?.questionType || 'single_choice',
         options: item.content?.options || [],
         correctAnswer: typeof item.content?.correctAnswer === 'number' ? item.content.correctAnswer : undefined,
+        answerKey: item.content?.answerKey || null,
         explanation: item.content?.explanation || '',
+        variants: item.content?.variants || [],
         points: item.points || 0
       }));
       setPages(loadedPages);
@@ -207,7 +225,8 @@ export function DrillFormModal({ drill, onClose, onSuccess }: DrillFormModalProp
         sanitizedData.location = sanitizeLocation(formData.location) || '';
         sanitizedData.date = formData.date || '';
         sanitizedData.time = formattedTime || '';
-        sanitizedData.capacity = isNaN(formData.capacity) ? 20 : Number(formData.capacity);
+        // Registrations beyond this go on the waitlist
+        sanitizedData.capacity = Math.max(participantsNum, 1);
         // Clear virtual drill fields
         sanitizedData.points = 0;
       }
@@ -334,6 +353,7 @@ export function DrillFormModal({ drill, onClose, onSuccess }: DrillFormModalProp
                 value={formData.type}
                 onChange={(e) => setFormData({ ...formData, type: e.target.value })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={!isAdmin}
                 required
               >
                 <option value="Virtual">Virtual</option>
@@ -548,48 +568,26 @@ export function DrillFormModal({ drill, onClose, onSuccess }: DrillFormModalProp
                 </div>
               </div>
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
-                <div>
-                  <Label htmlFor="location" className="text-sm sm:text-base">Location *</Label>
-                  <Input
-                    id="location"
-                    value={formData.location}
-                    onChange={(e) => setFormData({ ...formData, location: sanitizeLocation(e.target.value) })}
-                    placeholder="e.g., Community Center, Room 201"
-                    className="text-sm sm:text-base"
-                    required
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Only letters, numbers, spaces, commas, periods, and hyphens allowed
-                  </p>
-                </div>
-
-                <div>
-                  <Label htmlFor="capacity" className="text-sm sm:text-base">Capacity</Label>
-                  <Input
-                    id="capacity"
-                    type="number"
-                    min="1"
-                    value={formData.capacity || ''}
-                    onChange={(e) => {
-                      const val = e.target.value;
-                      if (val === '') {
-                        setFormData({ ...formData, capacity: 20 });
-                      } else {
-                        const num = parseInt(val);
-                        setFormData({ ...formData, capacity: num >= 1 ? num : 1 });
-                      }
-                    }}
-                    className="text-sm sm:text-base"
-                  />
-                </div>
+              <div>
+                <Label htmlFor="location" className="text-sm sm:text-base">Location *</Label>
+                <Input
+                  id="location"
+                  value={formData.location}
+                  onChange={(e) => setFormData({ ...formData, location: sanitizeLocation(e.target.value) })}
+                  placeholder="e.g., Community Center, Room 201"
+                  className="text-sm sm:text-base"
+                  required
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Only letters, numbers, spaces, commas, periods, and hyphens allowed
+                </p>
               </div>
             </>
           )}
 
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 pt-3 sm:pt-4 border-t">
-            {isEditing && (
+            {isEditing && isAdmin && (
               <Button
                 type="button"
                 onClick={handleDelete}
@@ -662,26 +660,29 @@ function PageEditor({
   onClose: () => void;
 }) {
   const [pageData, setPageData] = useState<DrillPage>(page);
+  const question = drillStepQuestion(pageData);
 
-  const handleAddOption = () => {
+  const variants = pageData.variants || [];
+
+  const handleQuestionChange = (changes: GradableQuestion) => {
     setPageData({
       ...pageData,
-      options: [...(pageData.options || []), '']
+      questionType: changes.question_type,
+      options: changes.options,
+      correctAnswer: changes.correct_answer,
+      answerKey: changes.answer_key
     });
   };
 
-  const handleUpdateOption = (index: number, value: string) => {
-    const newOptions = [...(pageData.options || [])];
-    newOptions[index] = value;
-    setPageData({ ...pageData, options: newOptions });
-  };
+  const setVariants = (next: DrillQuestionContent[]) => setPageData({ ...pageData, variants: next });
 
-  const handleRemoveOption = (index: number) => {
-    setPageData({
-      ...pageData,
-      options: (pageData.options || []).filter((_, i) => i !== index)
-    });
-  };
+  const updateVariant = (index: number, changes: DrillQuestionContent) =>
+    setVariants(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+
+  const addVariant = () => setVariants([
+    ...variants,
+    { question: '', questionType: 'single_choice', options: ['', ''], correctAnswer: 0, answerKey: null, explanation: '' }
+  ]);
 
   const handleSave = () => {
     if (!pageData.title || !pageData.content) {
@@ -690,19 +691,43 @@ function PageEditor({
     }
 
     if (pageData.type === 'question') {
-      if (!pageData.question || !pageData.options || pageData.options.length < 2) {
-        alert('Questions must have a question text and at least 2 options');
-        return;
-      }
-      if (typeof pageData.correctAnswer !== 'number') {
-        alert('Please select the correct answer');
+      if (!pageData.question) {
+        alert('Questions must have a question text');
         return;
       }
-      // Validate that all options are filled
-      if (pageData.options.some(opt => !opt || opt.trim() === '')) {
-        alert('All answer options must be filled in');
+      try {
+        validateQuestionAnswers(question, 'This question');
+        variants.forEach((variant, index) => {
+          if (!variant.question?.trim()) {
+            throw new Error(`Variant ${index + 1} needs a question.`);
+          }
+          validateQuestionAnswers(drillStepQuestion(variant), `Variant ${index + 1}`);
+        });
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Please complete the answer');
         return;
       }
+
+      const cleaned = cleanQuestionAnswers(question);
+      onSave({
+        ...pageData,
+        questionType: cleaned.question_type,
+        options: cleaned.options,
+        correctAnswer: cleaned.correct_answer,
+        answerKey: cleaned.answer_key,
+        variants: variants.map(variant => {
+          const cleanedVariant = cleanQuestionAnswers(drillStepQuestion(variant));
+          return {
+            question: variant.question?.trim() || '',
+            questionType: cleanedVariant.question_type,
+            options: cleanedVariant.options,
+            correctAnswer: cleanedVariant.correct_answer,
+            answerKey: cleanedVariant.answer_key,
+            explanation: variant.explanation?.trim() || ''
+          };
+        })
+      });
+      return;
     }
 
     console.log('Saving page with data:', pageData);
@@ -767,53 +792,12 @@ function PageEditor({
               </div>
 
               <div>
-                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 mb-2">
-                  <Label className="text-sm sm:text-base">Answer Options * (minimum 2)</Label>
-                  <Button
-                    type="button"
-                    size="sm"
-                    onClick={handleAddOption}
-                    className="bg-blue-600 hover:bg-blue-700 text-white w-full sm:w-auto text-xs sm:text-sm"
-                  >
-                    <Plus className="w-3 h-3 mr-1" />
-                    Add Option
-                  </Button>
-                </div>
-                
-                <div className="space-y-2">
-                  {(pageData.options || []).map((option, index) => (
-                    <div key={index} className="flex flex-col sm:flex-row gap-2">
-                      <div className="flex gap-2 flex-1">
-                        <input
-                          type="radio"
-                          name="correctAnswer"
-                          checked={pageData.correctAnswer === index}
-                          onChange={() => setPageData({ ...pageData, correctAnswer: index })}
-                          className="mt-3 flex-shrink-0"
-                        />
-                        <Input
-                          value={option}
-                          onChange={(e) => handleUpdateOption(index, e.target.value)}
-                          placeholder={`Option ${index + 1}`}
-                          className="flex-1 text-sm sm:text-base"
-                        />
-                      </div>
-                      <Button
-                        type="button"
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleRemoveOption(index)}
-                        className="text-red-600 w-full sm:w-auto text-xs sm:text-sm"
-                      >
-                        <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-0" />
-                        <span className="sm:hidden">Remove</span>
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-                <p className="text-xs text-gray-500 mt-1">
-                  Select the radio button next to the correct answer
-                </p>
+                <Label className="text-sm sm:text-base">Answer *</Label>
+                <QuestionAnswerEditor
+                  question={question}
+                  name={`page-${pageData.id}`}
+                  onChange={handleQuestionChange}
+                />
               </div>
 
               <div>
@@ -827,6 +811,61 @@ function PageEditor({
                 />
               </div>
 
+              <div className="space-y-3">
+                <div>
+                  <Label className="text-sm sm:text-base">Variants</Label>
+                  <p className="text-xs text-gray-500">
+                    Other versions of this question. Each run of the drill gets one of them or the question
+                    above at random, with the answer options shuffled.
+                  </p>
+                </div>
+
+                {variants.map((variant, index) => (
+                  <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                    <div className="flex items-start gap-2">
+                      <span className="text-sm font-medium text-gray-500 pt-2">{index + 1}.</span>
+                      <Textarea
+                        value={variant.question || ''}
+                        onChange={(e) => updateVariant(index, { question: e.target.value })}
+                        rows={2}
+                        placeholder="Question"
+                        className="flex-1 text-sm sm:text-base"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                        className="p-1 text-red-500 hover:text-red-700"
+                        title="Remove variant"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <QuestionAnswerEditor
+                      question={drillStepQuestion(variant)}
+                      name={`page-${pageData.id}-variant-${index}`}
+                      onChange={(changes) => updateVariant(index, {
+                        questionType: changes.question_type,
+                        options: changes.options,
+                        correctAnswer: changes.correct_answer,
+                        answerKey: changes.answer_key
+                      })}
+                    />
+                    <Textarea
+                      value={variant.explanation || ''}
+                      onChange={(e) => updateVariant(index, { explanation: e.target.value })}
+                      rows={2}
+                      placeholder="Explain why this is the correct answer..."
+                      className="text-sm sm:text-base"
+                    />
+                  </div>
+                ))}
+
+                <Button type="button" size="sm" variant="outline" onClick={addVariant}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Variant
+                </Button>
+              </div>
+
               <div>
                 <Label className="text-sm sm:text-base">Points for Correct Answer</Label>
                 <Input
@@ -5,7 +5,7 @@ import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Alert, AlertDescription } from './ui/alert';
-import { Target, Clock, MapPin, Calendar, CheckCircle, Play, TrendingUp, Loader2, ClipboardList, Plus, Edit, RefreshCw, AlertCircle, Inbox, Activity, Lock, BookOpen } from 'lucide-react';
+import { Target, Clock, MapPin, Calendar, CalendarPlus, CheckCircle, Play, TrendingUp, Loader2, ClipboardList, Plus, Edit, RefreshCw, AlertCircle, Inbox, Activity, Lock, BookOpen, Users, UserCheck } from 'lucide-react';
 import {
   getDrillsWithUserStatus,
   startVirtualDrill,
@@ -21,6 +21,10 @@ import {
 import { InteractiveDrillInterface } from './InteractiveDrillInterface';
 import { DrillFormModal } from './DrillFormModal';
 import { AdminDrillRegistrations } from './AdminDrillRegistration';
+import { CalendarFeedButton } from './CalendarFeedButton';
+import { InstructorAssignmentModal } from './InstructorAssignmentModal';
+import { getEventCalendarUrl } from '@/lib/calendar-utils';
+import { getAssignedEventIds } from '@/lib/instructor-utils';
 
 interface DrillsPageProps {
   profile: Profile;
@@ -53,15 +57,21 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
-  const [activeDrill, setActiveDrill] = useState<{ id: string; title: string; userDrillId: string; isRetry: boolean } | null>(null);
+  const [activeDrill, setActiveDrill] = useState<{ id: string; title: string; isRetry: boolean } | null>(null);
   const [showAdminView, setShowAdminView] = useState(false);
   const [showDrillForm, setShowDrillForm] = useState(false);
   const [editingDrill, setEditingDrill] = useState<DrillWithUserStatus | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [hasModuleAccess, setHasModuleAccess] = useState<boolean>(false);
   const [checkingAccess, setCheckingAccess] = useState(true);
+  const [assignedDrillIds, setAssignedDrillIds] = useState<string[]>([]);
+  const [assigningDrill, setAssigningDrill] = useState<DrillWithUserStatus | null>(null);
   const isMountedRef = useRef(true);
   const isAdmin = profile.role === 'admin';
+  const isInstructor = profile.role === 'instructor';
+  // Instructors manage only the drills an admin assigned them to
+  const canManageDrill = (drill: DrillWithUserStatus) => isAdmin || assignedDrillIds.includes(drill.id);
+  const canManageRegistrations = isAdmin || assignedDrillIds.length > 0;
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -69,6 +79,13 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
     return () => { isMountedRef.current = false; };
   }, [profile.id]);
 
+  useEffect(() => {
+    if (!isInstructor) return;
+    getAssignedEventIds(profile.id)
+      .then(assigned => { if (isMountedRef.current) setAssignedDrillIds(assigned.drill); })
+      .catch(() => setError('Failed to load your assigned drills.'));
+  }, [profile.id, isInstructor]);
+
   useEffect(() => {
     if (error) {
       const timer = setTimeout(() => setError(null), 5000);
@@ -79,8 +96,8 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
   const checkModuleAccess = async () => {
     try {
       setCheckingAccess(true);
-      // Admins always have access
-      if (isAdmin) {
+      // Admins and instructors always have access
+      if (isAdmin || isInstructor) {
         setHasModuleAccess(true);
         await loadData();
       } else {
@@ -160,10 +177,8 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
     try {
       setActionLoading(drillId);
       setError(null);
-      const drill = drills.find(d => d.id === drillId);
-      const isRetry = drill?.userDrill?.status === 'completed';
-      const userDrill = await startVirtualDrill(profile.id, drillId);
-      setActiveDrill({ id: drillId, title: drillTitle, userDrillId: userDrill.id, isRetry });
+      const run = await startVirtualDrill(drillId);
+      setActiveDrill({ id: drillId, title: drillTitle, isRetry: run.isRetry });
       setActionLoading(null);
     } catch (error: any) {
       console.error('Error starting drill:', error);
@@ -197,13 +212,12 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
     }
   };
 
-  const handleDrillComplete = async (score: number, timeSpent: string) => {
+  const handleDrillComplete = async () => {
     if (!activeDrill) return;
     try {
-      const drill = drills.find(d => d.id === activeDrill.id);
-      const previousBestScore = drill?.userDrill?.score || 0;
-      await completeVirtualDrill(profile.id, activeDrill.id, score, timeSpent, activeDrill.isRetry);
-      if (!activeDrill.isRetry && score > previousBestScore) {
+      // Scored on the server from the answers given during the run
+      const result = await completeVirtualDrill(activeDrill.id);
+      if (result.pointsAwarded > 0) {
         const { data: updatedProfile } = await supabase.from('profiles').select('*').eq('id', profile.id).single();
         if (updatedProfile) Object.assign(profile, updatedProfile);
       }
@@ -302,7 +316,7 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
     );
   }
 
-  if (showAdminView && isAdmin) {
+  if (showAdminView && canManageRegistrations) {
     return (
       <div>
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -375,15 +389,16 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
         <InteractiveDrillInterface
           drillId={activeDrill.id}
           drillTitle={activeDrill.title}
-          userId={profile.id}
-          userDrillId={activeDrill.userDrillId}
           isRetry={activeDrill.isRetry}
           onComplete={handleDrillComplete}
           onExit={handleDrillExit}
         />
       )}
       {showDrillForm && (
-        <DrillFormModal drill={editingDrill} onClose={handleDrillFormClose} onSuccess={handleDrillFormSuccess} />
+        <DrillFormModal drill={editingDrill} onClose={handleDrillFormClose} onSuccess={handleDrillFormSuccess} isAdmin={isAdmin} />
+      )}
+      {assigningDrill && (
+        <InstructorAssignmentModal kind="drill" eventId={assigningDrill.id} title={assigningDrill.title} onClose={() => setAssigningDrill(null)} />
       )}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-8">
         <div className="mb-6 sm:mb-8 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
@@ -396,7 +411,8 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
               <RefreshCw className={`w-4 h-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
               Refresh
             </Button>
-            {isAdmin && activeTab === 'physical' && (
+            <CalendarFeedButton />
+            {canManageRegistrations && activeTab === 'physical' && (
               <Button onClick={() => setShowAdminView(true)} variant="outline" className="border-indigo-600 text-indigo-700 hover:bg-indigo-50 font-medium">
                 <ClipboardList className="w-4 h-4 mr-2" />
                 Manage Registrations
@@ -565,6 +581,8 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
               ) : (
                 physicalDrills.map(drill => {
                   const isRegistered = drill.userDrill?.status === 'pending' || drill.userDrill?.status === 'approved';
+                  const isWaitlisted = drill.userDrill?.status === 'waitlisted';
+                  const isFull = drill.capacity != null && drill.seatsTaken != null && drill.seatsTaken >= drill.capacity;
                   const isLoading = actionLoading === drill.id;
                   return (
                     <Card key={drill.id} className="p-4 sm:p-6 hover:shadow-lg transition-shadow duration-200">
@@ -576,7 +594,17 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
                               {drill.userDrill?.status === 'approved' ? 'Approved' : 'Pending'}
                             </Badge>
                           )}
+                          {!isAdmin && isWaitlisted && (
+                            <Badge className="text-xs sm:text-sm font-semibold bg-slate-100 text-slate-800 border-slate-200">
+                              Waitlist{drill.userDrill?.waitlistPosition ? ` #${drill.userDrill.waitlistPosition}` : ''}
+                            </Badge>
+                          )}
                           {isAdmin && (
+                            <Button size="sm" variant="outline" onClick={(e) => { e.stopPropagation(); setAssigningDrill(drill); }} className="h-8 px-2 hover:bg-gray-50 font-medium">
+                              <UserCheck className="w-4 h-4 mr-1" />Instructors
+                            </Button>
+                          )}
+                          {canManageDrill(drill) && (
                             <Button size="sm" variant="outline" onClick={(e) => { e.stopPropagation(); handleEditDrill(drill); }} className="h-8 px-2 hover:bg-gray-50 font-medium">
                               <Edit className="w-4 h-4 mr-1" />Edit
                             </Button>
@@ -599,6 +627,16 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
                             <Clock className="w-3 h-3 sm:w-4 sm:h-4" />
                             <span>{drill.duration}</span>
                           </div>
+                          {drill.capacity != null && (
+                            <div className="flex items-center gap-1">
+                              <Users className="w-3 h-3 sm:w-4 sm:h-4" />
+                              <span>
+                                {isFull
+                                  ? `Full${drill.waitlistLength ? ` - ${drill.waitlistLength} waiting` : ''}`
+                                  : `${drill.capacity - (drill.seatsTaken ?? 0)} of ${drill.capacity} spots left`}
+                              </span>
+                            </div>
+                          )}
                         </div>
                         <div className="flex items-center justify-between pt-2">
                           <Badge className={`text-xs font-semibold ${drill.difficulty === 'Beginner' ? 'bg-green-100 text-green-800 border-green-200' : drill.difficulty === 'Intermediate' ? 'bg-blue-100 text-blue-800 border-blue-200' : 'bg-purple-100 text-purple-800 border-purple-200'}`}>{drill.difficulty}</Badge>
@@ -608,10 +646,16 @@ export function DrillsPage({ profile, onNavigate }: DrillsPageProps) {
                       {isAdmin ? (
                         <Button disabled className="w-full text-sm sm:text-base font-semibold bg-gray-100 text-gray-500 cursor-not-allowed">Admin - Cannot Register</Button>
                       ) : (
-                        <Button onClick={() => handleRegisterPhysicalDrill(drill.id)} disabled={isRegistered || isLoading} className={`w-full text-sm sm:text-base font-semibold transition-all ${isRegistered ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-indigo-600 hover:bg-indigo-700 text-white'}`}>
-                          {isLoading ? (<><Loader2 className="w-4 h-4 mr-2 animate-spin" />Processing...</>) : isRegistered ? (drill.userDrill?.status === 'approved' ? 'Approved' : 'Pending Approval') : ('Register')}
+                        <Button onClick={() => handleRegisterPhysicalDrill(drill.id)} disabled={isRegistered || isWaitlisted || isLoading} className={`w-full text-sm sm:text-base font-semibold transition-all ${isRegistered || isWaitlisted ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-indigo-600 hover:bg-indigo-700 text-white'}`}>
+                          {isLoading ? (<><Loader2 className="w-4 h-4 mr-2 animate-spin" />Processing...</>) : isRegistered ? (drill.userDrill?.status === 'approved' ? 'Approved' : 'Pending Approval') : isWaitlisted ? `On Waitlist${drill.userDrill?.waitlistPosition ? ` (#${drill.userDrill.waitlistPosition})` : ''}` : isFull ? 'Join Waitlist' : 'Register'}
                         </Button>
                       )}
+                      {drill.date && (canManageDrill(drill) || drill.userDrill?.status === 'approved') && (
+                        <a href={getEventCalendarUrl('drill', drill.id)} download className="mt-2 flex items-center justify-center gap-1 text-xs sm:text-sm text-indigo-700 hover:text-indigo-900 font-medium">
+                          <CalendarPlus className="w-4 h-4" />
+                          Add to Calendar
+                        </a>
+                      )}
                     </Card>
                   );
                 })
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { Card } from './ui/card';
+import { Loader2, MessageSquare, Star, TrendingUp } from 'lucide-react';
+import {
+  LIKERT_LABELS,
+  getFeedbackResults,
+  type FeedbackGroupResult,
+  type FeedbackQuestionResult,
+  type FeedbackResults,
+  type FeedbackSurvey,
+  type FeedbackTrendPoint
+} from '@/lib/feedback-utils';
+
+interface FeedbackResultsPanelProps {
+  surveys: FeedbackSurvey[];
+  // Only this organization's sessions, without the per-organization table
+  organizationId?: string;
+}
+
+// Text answers shown per question
+const MAX_TEXT_ANSWERS = 20;
+
+function formatRating(rating: number | null): string {
+  return rating === null ? '–' : rating.toFixed(1);
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+}
+
+/**
+ * Monthly average rating as bars, oldest first
+ */
+function TrendBars({ trend, compact = false }: { trend: FeedbackTrendPoint[]; compact?: boolean }) {
+  if (trend.length === 0) return <span className="text-xs text-gray-400">No data</span>;
+
+  return (
+    <div className={`flex items-end gap-1 ${compact ? 'h-8' : 'h-24'}`}>
+      {trend.map(point => (
+        <div
+          key={point.month}
+          className="flex flex-col items-center justify-end h-full"
+          title={`${formatMonth(point.month)}: ${formatRating(point.averageRating)} from ${point.responses} response${point.responses === 1 ? '' : 's'}`}
+        >
+          <div
+            className={`${compact ? 'w-2' : 'w-8'} bg-red-500 rounded-t`}
+            style={{ height: `${((point.averageRating ?? 0) / 5) * 100}%` }}
+          />
+          {!compact && <span className="text-[10px] text-gray-500 mt-1">{formatMonth(point.month)}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function GroupTable({ title, groups }: { title: string; groups: FeedbackGroupResult[] }) {
+  return (
+    <Card className="p-4 sm:p-6">
+      <h3 className="text-base sm:text-lg font-semibold mb-3">{title}</h3>
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-600">No responses yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Name</th>
+                <th className="py-2 pr-4 font-medium text-right">Responses</th>
+                <th className="py-2 pr-4 font-medium text-right">Rating</th>
+                <th className="py-2 font-medium">Trend</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(group => (
+                <tr key={group.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium text-gray-900">{group.name}</td>
+                  <td className="py-2 pr-4 text-right">{group.responses}</td>
+                  <td className="py-2 pr-4 text-right">{formatRating(group.averageRating)}</td>
+                  <td className="py-2"><TrendBars trend={group.trend} compact /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function QuestionResult({ result, index }: { result: FeedbackQuestionResult; index: number }) {
+  const { question } = result;
+  const labels = question.type === 'likert' ? LIKERT_LABELS : question.options || [];
+  const most = Math.max(1, ...result.counts);
+
+  return (
+    <Card className="p-4 sm:p-6">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <p className="text-sm font-medium text-gray-900">{index + 1}. {question.prompt}</p>
+        <span className="text-xs text-gray-500 flex-shrink-0">
+          {result.answered} answer{result.answered === 1 ? '' : 's'}
+          {result.average !== null && ` · avg ${formatRating(result.average)}`}
+        </span>
+      </div>
+
+      {question.type === 'text' ? (
+        result.texts.length === 0 ? (
+          <p className="text-sm text-gray-600">No answers yet</p>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {result.texts.slice(0, MAX_TEXT_ANSWERS).map((answer, i) => (
+              <div key={i} className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-800 whitespace-pre-wrap">{answer.text}</p>
+                <p className="text-xs text-gray-500 mt-1">{new Date(answer.createdAt).toLocaleDateString()}</p>
+              </div>
+            ))}
+          </div>
+        )
+      ) : (
+        <div className="space-y-1.5">
+          {labels.map((label, i) => (
+            <div key={label} className="flex items-center gap-2 text-xs sm:text-sm">
+              <span className="w-28 sm:w-36 flex-shrink-0 truncate text-gray-700">{label}</span>
+              <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-red-500" style={{ width: `${(result.counts[i] / most) * 100}%` }} />
+              </div>
+              <span className="w-8 text-right text-gray-600">{result.counts[i]}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * Aggregated feedback the viewer can see, for one survey or all of them, with
+ * ratings and trends per instructor and per organization. Never shows who
+ * answered.
+ */
+export function FeedbackResultsPanel({ surveys, organizationId }: FeedbackResultsPanelProps) {
+  const [surveyId, setSurveyId] = useState('');
+  const [results, setResults] = useState<FeedbackResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getFeedbackResults(surveyId || null, { organizationId })
+      .then(loaded => {
+        setResults(loaded);
+        setError(null);
+      })
+      .catch(() => setError('Failed to load feedback'));
+  }, [surveyId, organizationId]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <label htmlFor="feedback-survey" className="text-sm font-medium text-gray-700">Results for</label>
+        <select
+          id="feedback-survey"
+          value={surveyId}
+          onChange={(e) => setSurveyId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm sm:min-w-64"
+        >
+          <option value="">All surveys</option>
+          {surveys.map(survey => (
+            <option key={survey.id} value={survey.id}>{survey.title}{survey.is_active ? '' : ' (closed)'}</option>
+          ))}
+        </select>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !results ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-red-600" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+            <Card className="p-4 sm:p-6">
+              <div className="flex items-center gap-3">
+                <MessageSquare className="w-5 h-5 text-gray-500" />
+                <div>
+                  <p className="text-xs sm:text-sm text-gray-600">Responses</p>
+                  <p className="text-xl sm:text-2xl font-semibold">{results.responses}</p>
+                </div>
+              </div>
+            </Card>
+            <Card className="p-4 sm:p-6">
+              <div className="flex items-center gap-3">
+                <Star className="w-5 h-5 text-amber-500" />
+                <div>
+                  <p className="text-xs sm:text-sm text-gray-600">Average rating (1–5)</p>
+                  <p className="text-xl sm:text-2xl font-semibold">{formatRating(results.averageRating)}</p>
+                </div>
+              </div>
+            </Card>
+            <Card className="p-4 sm:p-6">
+              <div className="flex items-center gap-3 mb-2">
+                <TrendingUp className="w-5 h-5 text-green-600" />
+                <p className="text-xs sm:text-sm text-gray-600">Rating by month</p>
+              </div>
+              <TrendBars trend={results.trend} />
+            </Card>
+          </div>
+
+          <div className={`grid grid-cols-1 ${organizationId ? '' : 'lg:grid-cols-2'} gap-4`}>
+            <GroupTable title="By Instructor" groups={results.byInstructor} />
+            {!organizationId && <GroupTable title="By Organization" groups={results.byOrganization} />}
+          </div>
+
+          {results.questions.map((result, index) => (
+            <QuestionResult key={result.question.id} result={result} index={index} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
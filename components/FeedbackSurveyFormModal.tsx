@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2, X } from 'lucide-react';
+import {
+  FEEDBACK_TARGET_LABELS,
+  createFeedbackSurvey,
+  getFeedbackTargets,
+  updateFeedbackSurvey,
+  type FeedbackQuestion,
+  type FeedbackQuestionType,
+  type FeedbackSurvey,
+  type FeedbackTarget,
+  type FeedbackTargetKind
+} from '@/lib/feedback-utils';
+
+interface FeedbackSurveyFormModalProps {
+  survey?: FeedbackSurvey | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const QUESTION_TYPE_LABELS: Record<FeedbackQuestionType, string> = {
+  likert: 'Rating (strongly disagree to strongly agree)',
+  choice: 'Multiple choice',
+  text: 'Free text'
+};
+
+// Answers are stored under the question id, so ids never change once created
+function newQuestion(type: FeedbackQuestionType = 'likert'): FeedbackQuestion {
+  return {
+    id: `q${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    type,
+    prompt: '',
+    ...(type === 'choice' && { options: ['', ''] }),
+    required: type !== 'text'
+  };
+}
+
+export function FeedbackSurveyFormModal({ survey, onClose, onSuccess }: FeedbackSurveyFormModalProps) {
+  const isEditing = !!survey;
+
+  const [formData, setFormData] = useState({
+    title: survey?.title || '',
+    description: survey?.description || '',
+    targetKind: survey?.target_kind || ('session' as FeedbackTargetKind),
+    targetId: survey?.target_id || ''
+  });
+  const [questions, setQuestions] = useState<FeedbackQuestion[]>(() => survey?.questions || [newQuestion()]);
+  const [targets, setTargets] = useState<FeedbackTarget[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    getFeedbackTargets(formData.targetKind)
+      .then(setTargets)
+      .catch(() => setTargets([]));
+  }, [formData.targetKind]);
+
+  const updateQuestion = (index: number, changes: Partial<FeedbackQuestion>) => {
+    setQuestions(current => current.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const changeType = (index: number, type: FeedbackQuestionType) => {
+    updateQuestion(index, {
+      type,
+      options: type === 'choice' ? questions[index].options || ['', ''] : undefined
+    });
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    setQuestions(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLoading(true);
+
+      const payload = {
+        title: formData.title,
+        description: formData.description,
+        questions,
+        target_kind: formData.targetKind,
+        target_id: formData.targetId || null,
+        is_active: survey?.is_active ?? true
+      };
+
+      if (isEditing && survey) {
+        await updateFeedbackSurvey(survey.id, payload);
+      } else {
+        await createFeedbackSurvey(payload);
+      }
+
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error saving survey:', error);
+      alert('Error saving survey: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[60] flex items-center justify-center p-4 overflow-y-auto">
+      <Card className="w-full max-w-2xl bg-white p-6 my-8 relative z-[61]">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-semibold">
+            {isEditing ? 'Edit Survey' : 'New Survey'}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="survey-title">Title *</Label>
+            <Input
+              id="survey-title"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              required
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="survey-description">Introduction</Label>
+            <Textarea
+              id="survey-description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="survey-target-kind">Asked After</Label>
+              <select
+                id="survey-target-kind"
+                value={formData.targetKind}
+                onChange={(e) => setFormData({ ...formData, targetKind: e.target.value as FeedbackTargetKind, targetId: '' })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                disabled={isEditing}
+              >
+                {(Object.keys(FEEDBACK_TARGET_LABELS) as FeedbackTargetKind[]).map(kind => (
+                  <option key={kind} value={kind}>{FEEDBACK_TARGET_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="survey-target">Which One</Label>
+              <select
+                id="survey-target"
+                value={formData.targetId}
+                onChange={(e) => setFormData({ ...formData, targetId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                disabled={isEditing}
+              >
+                <option value="">All, completed from now on</option>
+                {targets.map(target => (
+                  <option key={target.id} value={target.id}>{target.title}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Questions</Label>
+            {questions.map((question, index) => (
+              <div key={question.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-500">{index + 1}.</span>
+                  <select
+                    value={question.type}
+                    onChange={(e) => changeType(index, e.target.value as FeedbackQuestionType)}
+                    className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                    aria-label={`Question ${index + 1} type`}
+                  >
+                    {(Object.keys(QUESTION_TYPE_LABELS) as FeedbackQuestionType[]).map(type => (
+                      <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => moveQuestion(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveQuestion(index, 1)}
+                    disabled={index === questions.length - 1}
+                    className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setQuestions(current => current.filter((_, i) => i !== index))}
+                    className="p-1 text-red-500 hover:text-red-700"
+                    title="Remove question"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <Input
+                  placeholder={question.type === 'likert' ? 'e.g. The instructor explained things clearly' : 'Question'}
+                  value={question.prompt}
+                  onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                />
+
+                {question.type === 'choice' && (
+                  <div className="space-y-2 pl-4">
+                    {(question.options || []).map((option, optionIndex) => (
+                      <div key={optionIndex} className="flex items-center gap-2">
+                        <Input
+                          placeholder={`Option ${optionIndex + 1}`}
+                          value={option}
+                          onChange={(e) => updateQuestion(index, {
+                            options: (question.options || []).map((value, i) => (i === optionIndex ? e.target.value : value))
+                          })}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => updateQuestion(index, {
+                            options: (question.options || []).filter((_, i) => i !== optionIndex)
+                          })}
+                          className="p-1 text-gray-500 hover:text-red-600"
+                          title="Remove option"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => updateQuestion(index, { options: [...(question.options || []), ''] })}
+                      className="text-sm text-red-600 hover:text-red-700"
+                    >
+                      + Add option
+                    </button>
+                  </div>
+                )}
+
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={question.required}
+                    onChange={(e) => updateQuestion(index, { required: e.target.checked })}
+                  />
+                  Required
+                </label>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(QUESTION_TYPE_LABELS) as FeedbackQuestionType[]).map(type => (
+                <Button
+                  key={type}
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setQuestions(current => [...current, newQuestion(type)])}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  {type === 'likert' ? 'Rating' : type === 'choice' ? 'Multiple choice' : 'Free text'}
+                </Button>
+              ))}
+            </div>
+            {isEditing && (
+              <p className="text-xs text-gray-500">
+                Rewording a question that already has answers keeps them; remove it and add a new one to start afresh.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading} className="bg-red-600 hover:bg-red-700 text-white">
+              {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isEditing ? 'Save Survey' : 'Create Survey'}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
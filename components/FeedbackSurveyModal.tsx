@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { Loader2, Send, X } from 'lucide-react';
+import {
+  FEEDBACK_TARGET_LABELS,
+  LIKERT_LABELS,
+  submitFeedback,
+  type FeedbackAnswers,
+  type PendingFeedback
+} from '@/lib/feedback-utils';
+
+interface FeedbackSurveyModalProps {
+  pending: PendingFeedback;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+/**
+ * Answer a feedback survey about a completed session, drill or module
+ */
+export function FeedbackSurveyModal({ pending, onClose, onSubmitted }: FeedbackSurveyModalProps) {
+  const { survey } = pending;
+  const [answers, setAnswers] = useState<FeedbackAnswers>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setAnswer = (questionId: string, value: number | string) => {
+    setAnswers(current => ({ ...current, [questionId]: value }));
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      await submitFeedback(pending, answers);
+      onSubmitted();
+      onClose();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Failed to send feedback');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex items-start justify-between gap-4 p-4 sm:p-6 border-b">
+          <div className="min-w-0">
+            <h2 className="text-lg sm:text-xl font-bold text-gray-900">{survey.title}</h2>
+            <p className="text-sm text-gray-600 truncate">
+              {FEEDBACK_TARGET_LABELS[pending.targetKind]}: {pending.targetTitle}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 sm:p-6 space-y-6">
+          {survey.description && <p className="text-sm text-gray-700">{survey.description}</p>}
+
+          {survey.questions.map((question, index) => (
+            <div key={question.id}>
+              <p className="text-sm font-medium text-gray-900 mb-2">
+                {index + 1}. {question.prompt}
+                {question.required && <span className="text-red-600"> *</span>}
+              </p>
+
+              {question.type === 'likert' && (
+                <div className="grid grid-cols-5 gap-1 sm:gap-2">
+                  {LIKERT_LABELS.map((label, point) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => setAnswer(question.id, point + 1)}
+                      className={`flex flex-col items-center gap-1 p-2 border rounded-lg text-center transition-colors ${
+                        answers[question.id] === point + 1
+                          ? 'border-red-600 bg-red-50 text-red-700'
+                          : 'border-gray-200 hover:bg-gray-50 text-gray-700'
+                      }`}
+                    >
+                      <span className="text-base font-semibold">{point + 1}</span>
+                      <span className="text-[10px] sm:text-xs leading-tight">{label}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {question.type === 'choice' && (
+                <div className="space-y-2">
+                  {(question.options || []).map(option => (
+                    <label
+                      key={option}
+                      className={`flex items-center gap-3 px-3 py-2 border rounded-lg cursor-pointer ${
+                        answers[question.id] === option ? 'border-gray-900 bg-gray-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name={question.id}
+                        checked={answers[question.id] === option}
+                        onChange={() => setAnswer(question.id, option)}
+                      />
+                      <span className="text-sm text-gray-900">{option}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {question.type === 'text' && (
+                <Textarea
+                  value={(answers[question.id] as string | undefined) || ''}
+                  onChange={(e) => setAnswer(question.id, e.target.value)}
+                  rows={3}
+                  maxLength={2000}
+                />
+              )}
+            </div>
+          ))}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 sm:p-6 border-t">
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Later
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+            Send Feedback
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { X } from 'lucide-react';
+import { RichContent } from './RichContent';
 
 interface TutorialFormData {
   title: string;
@@ -335,49 +336,11 @@ function RichTextEditor({ value, onChange }: { value: string; onChange: (value:
           <div className="mt-2">
             <p className="text-xs font-semibold text-gray-700 mb-2">Preview:</p>
             <div className="p-3 sm:p-4 bg-gray-50 rounded-lg border max-h-64 overflow-y-auto">
-              <style dangerouslySetInnerHTML={{ __html: `
-                .preview-content h2 {
-                  font-size: 1.5rem;
-                  font-weight: 700;
-                  margin-top: 1.5rem;
-                  margin-bottom: 0.75rem;
-                  color: #1f2937;
-                  border-bottom: 2px solid #ef4444;
-                  padding-bottom: 0.5rem;
-                }
-                .preview-content h2:first-child { margin-top: 0; }
-                .preview-content h3 {
-                  font-size: 1.25rem;
-                  font-weight: 600;
-                  margin-top: 1.25rem;
-                  margin-bottom: 0.5rem;
-                  color: #374151;
-                }
-                .preview-content p {
-                  margin-bottom: 1rem;
-                  line-height: 1.75;
-                  color: #4b5563;
-                }
-                .preview-content ul, .preview-content ol {
-                  margin-bottom: 1rem;
-                  padding-left: 1.5rem;
-                  line-height: 1.75;
-                }
-                .preview-content ul { list-style-type: disc; }
-                .preview-content ol { list-style-type: decimal; }
-                .preview-content li {
-                  margin-bottom: 0.5rem;
-                  color: #4b5563;
-                }
-                .preview-content strong {
-                  font-weight: 600;
-                  color: #1f2937;
-                }
-              `}} />
-              <div 
-                className="preview-content text-sm sm:text-base"
-                dangerouslySetInnerHTML={{ __html: blocksToHtml(blocks) || '<p class="text-gray-400">Preview will appear here...</p>' }}
-              />
+              {blocks.some(block => block.content.trim()) ? (
+                <RichContent content={blocksToHtml(blocks)} className="text-sm sm:text-base" />
+              ) : (
+                <p className="text-gray-400">Preview will appear here...</p>
+              )}
             </div>
           </div>
         </>
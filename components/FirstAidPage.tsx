@@ -12,6 +12,7 @@ import {
   getTutorialStats,
   type Tutorial 
 } from '@/lib/first-aid-utils';
+import { RichContent } from './RichContent';
 import { CertificateManagement } from './first-aid/CertificateManagement';
 import { 
   Heart, Search, BookOpen, Video, FileText, Clock, X, CheckCircle, 
@@ -142,7 +143,7 @@ export function FirstAidPage({ profile }: FirstAidPageProps) {
 
   const categories = ['All', 'Life-Saving', 'Basic First Aid', 'Environmental', 
                       'Medical Emergencies', 'Survival Skills', 'Trauma Care'];
-  const isAdmin = profile.role === 'admin' || profile.role === 'instructor';
+  const isAdmin = profile.role === 'admin';
 
   // Load YouTube IFrame API
   useEffect(() => {
@@ -383,44 +384,7 @@ export function FirstAidPage({ profile }: FirstAidPageProps) {
                 )}
 
                 {selectedTutorial.content && (
-                  <div className="mb-6 prose max-w-none">
-                    <style dangerouslySetInnerHTML={{ __html: `
-                      .prose h2 {
-                        font-size: 1.5rem;
-                        font-weight: 700;
-                        margin-top: 1.5rem;
-                        margin-bottom: 0.75rem;
-                        color: #1f2937;
-                        border-bottom: 2px solid #ef4444;
-                        padding-bottom: 0.5rem;
-                      }
-                      .prose h2:first-child { margin-top: 0; }
-                      .prose h3 {
-                        font-size: 1.25rem;
-                        font-weight: 600;
-                        margin-top: 1.25rem;
-                        margin-bottom: 0.5rem;
-                        color: #374151;
-                      }
-                      .prose p {
-                        margin-bottom: 1rem;
-                        line-height: 1.75;
-                        color: #4b5563;
-                      }
-                      .prose ul, .prose ol {
-                        margin-bottom: 1rem;
-                        padding-left: 1.5rem;
-                        line-height: 1.75;
-                      }
-                      .prose ul { list-style-type: disc; }
-                      .prose ol { list-style-type: decimal; }
-                      .prose li {
-                        margin-bottom: 0.5rem;
-                        color: #4b5563;
-                      }
-                    `}} />
-                    <div dangerouslySetInnerHTML={{ __html: selectedTutorial.content }} />
-                  </div>
+                  <RichContent content={selectedTutorial.content} className="mb-6 max-w-none" />
                 )}
 
                 <div className="mt-6 pt-6 border-t border-gray-200 flex gap-3">
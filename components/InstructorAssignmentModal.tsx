@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Loader2, UserCheck, X } from 'lucide-react';
+import {
+  getEventInstructorIds,
+  getInstructors,
+  setEventInstructors,
+  type AssignableEventKind,
+  type InstructorOption
+} from '@/lib/instructor-utils';
+
+interface InstructorAssignmentModalProps {
+  kind: AssignableEventKind;
+  eventId: string;
+  title: string;
+  onClose: () => void;
+}
+
+/**
+ * Choose which instructors manage a drill or session (platform admins, and
+ * organization admins for their sessions). Assigned instructors can edit it
+ * and handle its registrations and check-in.
+ */
+export function InstructorAssignmentModal({ kind, eventId, title, onClose }: InstructorAssignmentModalProps) {
+  const [instructors, setInstructors] = useState<InstructorOption[] | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getInstructors(), getEventInstructorIds(kind, eventId)])
+      .then(([loaded, assigned]) => {
+        setInstructors(loaded);
+        setSelected(assigned);
+      })
+      .catch(() => setError('Failed to load instructors'));
+  }, [kind, eventId]);
+
+  const toggle = (id: string) => {
+    setSelected(current => current.includes(id) ? current.filter(selectedId => selectedId !== id) : [...current, id]);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await setEventInstructors(kind, eventId, selected);
+      onClose();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to update instructors');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full shadow-2xl">
+        <div className="flex items-start justify-between gap-4 p-4 sm:p-6 border-b">
+          <div className="min-w-0">
+            <h2 className="text-lg sm:text-xl font-bold text-gray-900">Instructors</h2>
+            <p className="text-sm text-gray-600 truncate">{title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 max-h-[50vh] overflow-y-auto">
+          {!instructors ? (
+            error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+              </div>
+            )
+          ) : instructors.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No instructors available. Set a user&apos;s role to instructor in the profiles table to assign them; an organization&apos;s sessions can only be assigned to its members.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-xs text-gray-500 mb-3">
+                Assigned instructors can edit this {kind}, approve registrations, run check-in and record completions.
+              </p>
+              {instructors.map(instructor => (
+                <label
+                  key={instructor.id}
+                  className={`flex items-center gap-3 px-3 py-2 border rounded-lg cursor-pointer ${
+                    selected.includes(instructor.id) ? 'border-gray-900 bg-gray-50' : 'border-gray-200'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(instructor.id)}
+                    onChange={() => toggle(instructor.id)}
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{instructor.full_name || instructor.email}</p>
+                    {instructor.full_name && <p className="text-xs text-gray-500 truncate">{instructor.email}</p>}
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+          {instructors && error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 sm:p-6 border-t">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !instructors}
+            className="bg-gray-900 hover:bg-gray-800 text-white"
+          >
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserCheck className="w-4 h-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,53 +1,50 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Progress } from './ui/progress';
 import { Badge } from './ui/badge';
 import { AlertCircle, CheckCircle, XCircle, Clock, Award, Info } from 'lucide-react';
-import { supabase } from '@/lib/supabase';
-
-interface DrillContent {
-  id: string;
-  drill_id: string;
-  step_number: number;
-  step_title: string;
-  step_description: string;
-  step_type: string;
-  content: any;
-  points: number;
-  time_limit: number | null;
-}
+import { getDrillSteps, submitDrillAnswer, type DrillStep } from '@/lib/drills-utils';
+import {
+  drillStepQuestion,
+  initialResponse,
+  isAnswered,
+  type QuestionResponse
+} from '@/lib/question-types';
+import { QuestionResponseInput } from './QuestionResponseInput';
+
+// Question steps come without their answers until they're answered
+type DrillContent = DrillStep & { content: any };
+
+const startingResponse = (step: DrillContent) => initialResponse(drillStepQuestion(step.content));
 
 interface InteractiveDrillProps {
   drillId: string;
   drillTitle: string;
-  userId: string;
-  userDrillId: string;
   isRetry: boolean;
-  onComplete: (score: number, timeSpent: string) => void;
+  // The run is scored on the server from the answers given
+  onComplete: () => void;
   onExit: () => void;
 }
 
 export function InteractiveDrillInterface({ 
   drillId, 
   drillTitle, 
-  userId, 
-  userDrillId,
   isRetry,
   onComplete,
   onExit 
 }: InteractiveDrillProps) {
   const [steps, setSteps] = useState<DrillContent[]>([]);
   const [currentStep, setCurrentStep] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [response, setResponse] = useState<QuestionResponse>(-1);
   const [showResult, setShowResult] = useState(false);
-  const [isCorrect, setIsCorrect] = useState(false);
+  // Share of the step's points earned, 0 to 1
+  const [credit, setCredit] = useState(0);
   const [totalPoints, setTotalPoints] = useState(0);
   const [earnedPoints, setEarnedPoints] = useState(0);
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
-  const [startTime] = useState(Date.now());
   const [loading, setLoading] = useState(true);
-  const [attempts, setAttempts] = useState<any[]>([]);
+  const [submitting, setSubmitting] = useState(false);
 
   // Prevent page close/refresh during drill
   useEffect(() => {
@@ -61,61 +58,27 @@ export function InteractiveDrillInterface({
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, []);
 
-  // Load drill content
-  useEffect(() => {
-    loadDrillContent();
-  }, [drillId]);
-
-  // Timer countdown
-  useEffect(() => {
-    if (timeRemaining === null || timeRemaining <= 0) return;
-
-    const timer = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev === null || prev <= 1) {
-          // Time's up - auto submit
-          if (!showResult) {
-            handleSubmitAnswer();
-          }
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, [timeRemaining, showResult]);
-
-  const loadDrillContent = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('drill_content')
-        .select('*')
-        .eq('drill_id', drillId)
-        .order('step_number', { ascending: true });
-
-      if (error) throw error;
-
-      console.log('Loaded drill content:', data);
+  const handleNext = useCallback(() => {
+    if (currentStep < steps.length - 1) {
+      // Set timer for next step
+      const nextStep = steps[currentStep + 1];
 
-      setSteps(data || []);
+      setCurrentStep(prev => prev + 1);
+      setResponse(startingResponse(nextStep));
+      setShowResult(false);
       
-      // Calculate total possible points
-      const total = data?.reduce((sum, step) => sum + (step.points || 0), 0) || 0;
-      setTotalPoints(total);
-
-      // Set timer for first step if applicable
-      if (data && data[0]?.time_limit) {
-        setTimeRemaining(data[0].time_limit);
+      if (nextStep?.time_limit) {
+        setTimeRemaining(nextStep.time_limit);
+      } else {
+        setTimeRemaining(null);
       }
-    } catch (error) {
-      console.error('Error loading drill content:', error);
-    } finally {
-      setLoading(false);
+    } else {
+      // Drill complete
+      onComplete();
     }
-  };
+  }, [currentStep, steps, onComplete]);
 
-  const handleSubmitAnswer = async () => {
+  const handleSubmitAnswer = useCallback(async () => {
     const step = steps[currentStep];
     
     if (step.step_type === 'info' || step.step_type === 'action') {
@@ -124,86 +87,98 @@ export function InteractiveDrillInterface({
       return;
     }
 
-    const content = step.content;
-    
-    // Handle both camelCase and snake_case for compatibility
-    const correctAnswerIndex = content.correctAnswer !== undefined 
-      ? content.correctAnswer 
-      : content.correct_answer;
-    
-    console.log('=== ANSWER VALIDATION ===');
-    console.log('Content:', content);
-    console.log('Correct answer index:', correctAnswerIndex);
-    console.log('Selected answer:', selectedAnswer);
-    console.log('Correct answer type:', typeof correctAnswerIndex);
-    console.log('Selected answer type:', typeof selectedAnswer);
-    
-    const correct = selectedAnswer === correctAnswerIndex;
-    console.log('Is correct?', correct);
-    console.log('========================');
-    
-    setIsCorrect(correct);
-    setShowResult(true);
-
-    // Award points if correct (only for tracking, actual points awarded on completion)
-    const pointsEarned = correct ? step.points : 0;
-    setEarnedPoints(prev => prev + pointsEarned);
+    if (submitting) return;
+    setSubmitting(true);
 
-    // Log attempt
     try {
-      const attempt = {
-        user_drill_id: userDrillId,
-        step_number: step.step_number,
-        user_answer: { selected: selectedAnswer },
-        is_correct: correct,
-        points_earned: pointsEarned,
-        time_spent: step.time_limit ? (step.time_limit - (timeRemaining || 0)) : null
-      };
-
-      const { error } = await supabase
-        .from('drill_attempts')
-        .insert(attempt);
-
-      if (error) throw error;
-
-      setAttempts(prev => [...prev, attempt]);
+      // Graded and recorded on the server, which sends back the answer and explanation
+      const grade = await submitDrillAnswer(
+        drillId,
+        step.step_number,
+        response,
+        step.time_limit ? (step.time_limit - (timeRemaining || 0)) : null
+      );
+
+      setSteps(prev => prev.map(candidate => (
+        candidate.step_number === grade.stepNumber ? { ...candidate, content: grade.content } : candidate
+      )));
+      setResponse(grade.response);
+      setCredit(grade.score);
+      setShowResult(true);
+
+      // Only for tracking, actual points awarded on completion
+      setEarnedPoints(prev => prev + grade.pointsEarned);
     } catch (error) {
       console.error('Error logging attempt:', error);
+      alert(error instanceof Error ? error.message : 'Failed to submit answer. Please try again.');
+    } finally {
+      setSubmitting(false);
     }
-  };
+  }, [steps, currentStep, submitting, drillId, response, timeRemaining, handleNext]);
 
-  const handleNext = () => {
-    if (currentStep < steps.length - 1) {
-      setCurrentStep(prev => prev + 1);
-      setSelectedAnswer(null);
-      setShowResult(false);
+  const loadDrillContent = useCallback(async () => {
+    try {
+      const data: DrillContent[] = await getDrillSteps(drillId);
+
+      setSteps(data);
       
-      // Set timer for next step
-      const nextStep = steps[currentStep + 1];
-      if (nextStep?.time_limit) {
-        setTimeRemaining(nextStep.time_limit);
-      } else {
-        setTimeRemaining(null);
+      // Calculate total possible points
+      const total = data?.reduce((sum, step) => sum + (step.points || 0), 0) || 0;
+      setTotalPoints(total);
+
+      // A resumed run picks up after its last answered step
+      const lastAnswered = data.reduce((last, step, index) => (step.answer ? index : last), -1);
+      setEarnedPoints(data.reduce((sum, step) => sum + (step.answer?.pointsEarned || 0), 0));
+
+      if (lastAnswered === data.length - 1) {
+        // Everything was answered; show the last answer so the run can be completed
+        const answer = data[lastAnswered].answer!;
+        setCurrentStep(lastAnswered);
+        setResponse(answer.response);
+        setCredit(answer.score);
+        setShowResult(true);
+        return;
       }
-    } else {
-      // Drill complete
-      finishDrill();
+
+      const first = data[lastAnswered + 1];
+      setCurrentStep(lastAnswered + 1);
+      if (first) setResponse(startingResponse(first));
+
+      // Set timer for first step if applicable
+      if (first?.time_limit) {
+        setTimeRemaining(first.time_limit);
+      }
+    } catch (error) {
+      console.error('Error loading drill content:', error);
+    } finally {
+      setLoading(false);
     }
-  };
+  }, [drillId]);
 
-  const finishDrill = () => {
-    const totalTime = Math.floor((Date.now() - startTime) / 1000);
-    const minutes = Math.floor(totalTime / 60);
-    const seconds = totalTime % 60;
-    const timeSpent = `${minutes}m ${seconds}s`;
-    
-    // Calculate percentage score
-    const scorePercentage = totalPoints > 0 
-      ? Math.round((earnedPoints / totalPoints) * 100) 
-      : 0;
+  // Load drill content
+  useEffect(() => {
+    loadDrillContent();
+  }, [loadDrillContent]);
 
-    onComplete(scorePercentage, timeSpent);
-  };
+  // Timer countdown
+  useEffect(() => {
+    if (timeRemaining === null || timeRemaining <= 0) return;
+
+    const timer = setInterval(() => {
+      setTimeRemaining(prev => {
+        if (prev === null || prev <= 1) {
+          // Time's up - auto submit
+          if (!showResult && !submitting) {
+            handleSubmitAnswer();
+          }
+          return 0;
+        }
+        return prev - 1;
+      });
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [timeRemaining, showResult, submitting, handleSubmitAnswer]);
 
   if (loading) {
     return (
@@ -236,10 +211,8 @@ export function InteractiveDrillInterface({
   const currentStepData = steps[currentStep];
   const progress = ((currentStep + 1) / steps.length) * 100;
   
-  // Handle both camelCase and snake_case
-  const correctAnswerIndex = currentStepData.content?.correctAnswer !== undefined
-    ? currentStepData.content.correctAnswer
-    : currentStepData.content?.correct_answer;
+  const currentQuestion = drillStepQuestion(currentStepData.content);
+  const isCorrect = credit === 1;
 
   return (
     <div className="fixed inset-0 bg-gray-900 bg-opacity-50 z-50 flex items-center justify-center p-4">
@@ -310,40 +283,17 @@ export function InteractiveDrillInterface({
                 {currentStepData.content.question}
               </p>
               
-              <div className="space-y-2">
-                {currentStepData.content.options.map((option: string, index: number) => (
-                  <button
-                    key={index}
-                    onClick={() => !showResult && setSelectedAnswer(index)}
-                    disabled={showResult}
-                    className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
-                      showResult
-                        ? index === correctAnswerIndex
-                          ? 'border-green-500 bg-green-50 text-gray-900'
-                          : index === selectedAnswer
-                          ? 'border-red-500 bg-red-50 text-gray-900'
-                          : 'border-gray-200 bg-gray-50 text-gray-700'
-                        : selectedAnswer === index
-                        ? 'border-red-600 bg-red-50 text-gray-900'
-                        : 'border-gray-300 bg-white hover:border-red-300 text-gray-900'
-                    }`}
-                  >
-                    <div className="flex items-center justify-between">
-                      <span>{option}</span>
-                      {showResult && index === correctAnswerIndex && (
-                        <CheckCircle className="w-5 h-5 text-green-600" />
-                      )}
-                      {showResult && index === selectedAnswer && index !== correctAnswerIndex && (
-                        <XCircle className="w-5 h-5 text-red-600" />
-                      )}
-                    </div>
-                  </button>
-                ))}
-              </div>
+              <QuestionResponseInput
+                question={currentQuestion}
+                response={response}
+                showResult={showResult}
+                disabled={showResult}
+                onChange={setResponse}
+              />
 
               {showResult && (
                 <div className={`mt-4 p-4 rounded-lg ${
-                  isCorrect ? 'bg-green-50 border-2 border-green-200' : 'bg-red-50 border-2 border-red-200'
+                  isCorrect ? 'bg-green-50 border-2 border-green-200' : credit > 0 ? 'bg-amber-50 border-2 border-amber-200' : 'bg-red-50 border-2 border-red-200'
                 }`}>
                   <div className="flex items-start gap-2">
                     {isCorrect ? (
@@ -352,15 +302,15 @@ export function InteractiveDrillInterface({
                       <XCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
                     )}
                     <div>
-                      <p className={`font-semibold ${isCorrect ? 'text-green-900' : 'text-red-900'}`}>
-                        {isCorrect ? 'Correct!' : 'Incorrect'}
+                      <p className={`font-semibold ${isCorrect ? 'text-green-900' : credit > 0 ? 'text-amber-900' : 'text-red-900'}`}>
+                        {isCorrect ? 'Correct!' : credit > 0 ? 'Partly correct' : 'Incorrect'}
                       </p>
                       <p className="text-sm text-gray-800 mt-1">
                         {currentStepData.content.explanation}
                       </p>
-                      {isCorrect && !isRetry && (
+                      {credit > 0 && !isRetry && (
                         <p className="text-sm font-medium text-green-700 mt-2">
-                          +{currentStepData.points} points
+                          +{Math.round((currentStepData.points || 0) * credit)} points
                         </p>
                       )}
                     </div>
@@ -420,8 +370,9 @@ export function InteractiveDrillInterface({
               <Button
                 onClick={handleSubmitAnswer}
                 disabled={
+                  submitting ||
                   (currentStepData.step_type === 'question' || currentStepData.step_type === 'decision') && 
-                  selectedAnswer === null
+                  !isAnswered(currentQuestion, response)
                 }
                 className="bg-red-600 hover:bg-red-700 text-white px-6"
               >
@@ -2,16 +2,23 @@
 
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
+import { completeModule, MODULE_PASS_SCORE } from '@/lib/modules-utils';
+import {
+  getLessonQuiz,
+  MAX_QUIZ_ATTEMPTS,
+  submitLessonQuiz,
+  type LessonQuizQuestion
+} from '@/lib/lesson-utils';
+import { initialResponse, isAnswered, type QuestionResponse } from '@/lib/question-types';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Progress } from './ui/progress';
 import { Badge } from './ui/badge';
+import { LessonArticle, QuizQuestionCard } from './lessons/LessonContent';
 import {
   ArrowLeft,
   ArrowRight,
   CheckCircle,
-  BookOpen,
-  Clock,
   Trophy,
   X,
   RotateCcw
@@ -27,16 +34,6 @@ interface Lesson {
   duration: string;
 }
 
-interface QuizQuestion {
-  id: string;
-  lesson_id: string;
-  question: string;
-  options: string[];
-  correct_answer: number;
-  explanation: string;
-  order_number: number;
-}
-
 interface LessonScore {
   lessonId: string;
   score: number;
@@ -62,9 +59,9 @@ export function LessonViewer({
 }: LessonViewerProps) {
   const [lessons, setLessons] = useState<Lesson[]>([]);
   const [currentLessonIndex, setCurrentLessonIndex] = useState(0);
-  const [quizQuestions, setQuizQuestions] = useState<QuizQuestion[]>([]);
+  const [quizQuestions, setQuizQuestions] = useState<LessonQuizQuestion[]>([]);
   const [showQuiz, setShowQuiz] = useState(false);
-  const [selectedAnswers, setSelectedAnswers] = useState<number[]>([]);
+  const [responses, setResponses] = useState<QuestionResponse[]>([]);
   const [quizSubmitted, setQuizSubmitted] = useState(false);
   const [lessonScores, setLessonScores] = useState<Map<string, LessonScore>>(new Map());
   const [loading, setLoading] = useState(true);
@@ -125,59 +122,6 @@ export function LessonViewer({
     }
   };
 
-  const saveProgress = async () => {
-    try {
-      for (const [lessonId, score] of lessonScores.entries()) {
-        const { data: existing, error: selectError } = await supabase
-          .from('user_lesson_progress')
-          .select('id')
-          .eq('user_id', userId)
-          .eq('lesson_id', lessonId)
-          .maybeSingle();
-
-        if (selectError) {
-          console.error('Error checking lesson progress:', selectError);
-          continue;
-        }
-
-        const progressData = {
-          completed: score.attempts >= 3 || score.score >= 70,
-          quiz_score: score.score,
-          attempts: score.attempts,
-          completed_at: new Date().toISOString()
-        };
-
-        if (existing) {
-          const { error: updateError } = await supabase
-            .from('user_lesson_progress')
-            .update(progressData)
-            .eq('user_id', userId)
-            .eq('lesson_id', lessonId);
-
-          if (updateError) {
-            console.error('Error updating lesson progress:', updateError);
-          }
-        } else {
-          const { error: insertError } = await supabase
-            .from('user_lesson_progress')
-            .insert({
-              user_id: userId,
-              lesson_id: lessonId,
-              ...progressData
-            });
-
-          if (insertError) {
-            console.error('Error inserting lesson progress:', insertError);
-          }
-        }
-      }
-
-      await saveCurrentPosition();
-    } catch (error) {
-      console.error('Error saving progress:', error);
-    }
-  };
-
   useEffect(() => {
     loadLessons();
     checkModuleCompletion();
@@ -323,16 +267,11 @@ export function LessonViewer({
     try {
       if (!lessonId) return;
 
-      const { data, error } = await supabase
-        .from('quiz_questions')
-        .select('*')
-        .eq('lesson_id', lessonId)
-        .order('order_number', { ascending: true });
-
-      if (error) throw error;
+      // Without the answers; they come back with the grade
+      const quiz = await getLessonQuiz(lessonId);
       
-      setQuizQuestions(data || []);
-      setSelectedAnswers(new Array(data?.length || 0).fill(-1));
+      setQuizQuestions(quiz.questions);
+      setResponses(quiz.questions.map(question => initialResponse(question)));
       setQuizSubmitted(false);
       setShowQuiz(false);
     } catch (error) {
@@ -347,7 +286,7 @@ export function LessonViewer({
 
   const canTakeQuiz = () => {
     const currentScore = getCurrentLessonScore();
-    return !currentScore || currentScore.attempts < 3;
+    return !currentScore || currentScore.attempts < MAX_QUIZ_ATTEMPTS;
   };
 
   const handleNextLesson = () => {
@@ -359,7 +298,7 @@ export function LessonViewer({
 
     if (quizQuestions.length > 0 && !quizSubmitted && !isReviewMode) {
       if (!canTakeQuiz()) {
-        alert('You have used all 3 attempts for this quiz. Moving to next lesson...');
+        alert(`You have used all ${MAX_QUIZ_ATTEMPTS} attempts for this quiz. Moving to next lesson...`);
         moveToNextLesson();
       } else {
         setShowQuiz(true);
@@ -372,13 +311,8 @@ export function LessonViewer({
   const moveToNextLesson = async () => {
     if (isProcessing) return;
 
-    const currentScore = getCurrentLessonScore();
-
     if (lessons[currentLessonIndex]) {
-      await markLessonComplete(
-        lessons[currentLessonIndex].id,
-        currentScore?.score || 0
-      );
+      await markLessonComplete(lessons[currentLessonIndex].id);
     }
 
     if (currentLessonIndex < lessons.length - 1) {
@@ -387,12 +321,13 @@ export function LessonViewer({
       if (isReviewMode) {
         handleClose();
       } else {
-        await completeModule();
+        await finishModule();
       }
     }
   };
 
-  const markLessonComplete = async (lessonId: string, score: number) => {
+  // The quiz score and attempts are only written by the grading API
+  const markLessonComplete = async (lessonId: string) => {
     try {
       const { data: existing, error: selectError } = await supabase
         .from('user_lesson_progress')
@@ -408,7 +343,6 @@ export function LessonViewer({
 
       const progressData = {
         completed: true,
-        quiz_score: score,
         completed_at: new Date().toISOString()
       };
 
@@ -441,23 +375,7 @@ export function LessonViewer({
     }
   };
 
-  const calculateOverallScore = () => {
-    if (lessonScores.size === 0) return 0;
-
-    let totalScore = 0;
-    let countedLessons = 0;
-
-    lessonScores.forEach(score => {
-      if (score.attempts > 0) {
-        totalScore += score.score;
-        countedLessons++;
-      }
-    });
-
-    return countedLessons === 0 ? 0 : Math.round(totalScore / countedLessons);
-  };
-
-  const completeModule = async () => {
+  const finishModule = async () => {
     if (isProcessing) {
       return;
     }
@@ -465,201 +383,17 @@ export function LessonViewer({
     setIsProcessing(true);
 
     try {
-      const overallScore = calculateOverallScore();
-
-      const { data: existingCompletion, error: checkError } = await supabase
-        .from('user_modules')
-        .select('completed, score')
-        .eq('user_id', userId)
-        .eq('module_id', moduleId)
-        .maybeSingle();
-
-      if (checkError) {
-        console.error('Error checking completion:', checkError);
-        throw new Error('Failed to check module completion status');
-      }
+      // Scored from the graded quizzes, with the points awarded, on the server
+      const completion = await completeModule(moduleId);
+      setModuleCompleted(true);
 
-      if (existingCompletion?.completed) {
+      if (!completion.newlyCompleted) {
         alert('✅ This module is already completed! Your progress has been saved.');
-        setModuleCompleted(true);
         setIsReviewMode(true);
-        setIsProcessing(false);
-        onComplete();
-        return;
-      }
-
-      const { data: moduleData, error: moduleError } = await supabase
-        .from('modules')
-        .select('title')
-        .eq('id', moduleId)
-        .single();
-
-      if (moduleError) {
-        console.error('Error fetching module:', moduleError);
-        throw new Error('Failed to fetch module information');
-      }
-
-      const moduleTitleText = moduleData?.title || 'Module';
-
-      let earnedPoints = 0;
-      let badgeMessage = '';
-      
-      if (overallScore >= 50) {
-        const allQuizQuestions: { [lessonId: string]: number } = {};
-        for (const lesson of lessons) {
-          const { data: questions, error: questionsError } = await supabase
-            .from('quiz_questions')
-            .select('id')
-            .eq('lesson_id', lesson.id);
-
-          if (questionsError) {
-            console.error('Error fetching questions:', questionsError);
-          }
-          allQuizQuestions[lesson.id] = questions?.length || 0;
-        }
-
-        let totalCorrect = 0;
-        let totalQuestions = 0;
-
-        lessonScores.forEach((score, lessonId) => {
-          const questionCount = allQuizQuestions[lessonId] || 0;
-          const correctAnswers = Math.round((score.score / 100) * questionCount);
-          totalCorrect += correctAnswers;
-          totalQuestions += questionCount;
-        });
-
-        earnedPoints = totalQuestions > 0
-          ? Math.round((totalCorrect / totalQuestions) * modulePoints)
-          : 0;
-
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select('points')
-          .eq('id', userId)
-          .single();
-
-        if (profileError) {
-          console.error('Error fetching profile:', profileError);
-          throw new Error('Failed to fetch user profile');
-        }
-
-        const currentPoints = profileData?.points || 0;
-        const newPoints = currentPoints + earnedPoints;
-
-        const { error: pointsError } = await supabase
-          .from('profiles')
-          .update({ points: newPoints })
-          .eq('id', userId);
-
-        if (pointsError) {
-          console.error('Error updating points:', pointsError);
-          throw new Error('Failed to update points');
-        }
-
-        const { error: logError } = await supabase
-          .from('activity_log')
-          .insert({
-            user_id: userId,
-            action: 'Completed Module',
-            item: moduleTitleText,
-            points: earnedPoints
-          });
-
-        if (logError) {
-          console.error('Error logging activity:', logError);
-        }
-
-        const badgeName = `${moduleTitleText} Master`;
-        const { data: existingBadge, error: badgeCheckError } = await supabase
-          .from('activity_log')
-          .select('id')
-          .eq('user_id', userId)
-          .eq('action', 'Earned Badge')
-          .eq('item', badgeName)
-          .maybeSingle();
-
-        if (badgeCheckError) {
-          console.error('Error checking badge:', badgeCheckError);
-        }
-
-        if (!existingBadge) {
-          const { error: badgeError } = await supabase
-            .from('activity_log')
-            .insert({
-              user_id: userId,
-              action: 'Earned Badge',
-              item: badgeName,
-              points: 50
-            });
-
-          if (badgeError) {
-            console.error('Error awarding badge:', badgeError);
-          } else {
-            const { error: badgePointsError } = await supabase
-              .from('profiles')
-              .update({ points: newPoints + 50 })
-              .eq('id', userId);
-
-            if (badgePointsError) {
-              console.error('Error updating badge points:', badgePointsError);
-            } else {
-              badgeMessage = ` You also earned the "${badgeName}" badge (+50 bonus points)!`;
-            }
-          }
-        }
+      } else if (completion.score >= MODULE_PASS_SCORE) {
+        alert(`🎉 Module completed! Overall score: ${completion.score}%. You earned ${completion.pointsEarned} out of ${completion.modulePoints} points!`);
       } else {
-        const { error: logError } = await supabase
-          .from('activity_log')
-          .insert({
-            user_id: userId,
-            action: 'Completed Module',
-            item: moduleTitleText,
-            points: 0
-          });
-
-        if (logError) {
-          console.error('Error logging activity:', logError);
-        }
-      }
-
-      if (existingCompletion) {
-        const { error: updateError } = await supabase
-          .from('user_modules')
-          .update({
-            completed: true,
-            score: overallScore,
-            completed_at: new Date().toISOString()
-          })
-          .eq('user_id', userId)
-          .eq('module_id', moduleId);
-
-        if (updateError) {
-          console.error('Error updating module:', updateError);
-          throw new Error('Failed to mark module as completed');
-        }
-      } else {
-        const { error: insertError } = await supabase
-          .from('user_modules')
-          .insert({
-            user_id: userId,
-            module_id: moduleId,
-            completed: true,
-            score: overallScore,
-            completed_at: new Date().toISOString()
-          });
-
-        if (insertError) {
-          console.error('Error inserting module:', insertError);
-          throw new Error('Failed to mark module as completed');
-        }
-      }
-
-      setModuleCompleted(true);
-      
-      if (overallScore >= 50) {
-        alert(`🎉 Module completed! Overall score: ${overallScore}%. You earned ${earnedPoints} out of ${modulePoints} points!${badgeMessage}`);
-      } else {
-        alert(`✅ Module completed! Overall score: ${overallScore}%. Since your score is below 50%, no points were awarded. You can review the lessons anytime to improve your understanding.`);
+        alert(`✅ Module completed! Overall score: ${completion.score}%. Since your score is below ${MODULE_PASS_SCORE}%, no points were awarded. You can review the lessons anytime to improve your understanding.`);
       }
       
       onComplete();
@@ -678,108 +412,66 @@ export function LessonViewer({
     }
     setLastActionTime(now);
 
-    let correct = 0;
-    quizQuestions.forEach((question, index) => {
-      if (selectedAnswers[index] === question.correct_answer) {
-        correct++;
-      }
-    });
-
-    const score = Math.round((correct / quizQuestions.length) * 100);
     const currentLessonId = lessons[currentLessonIndex].id;
-    const currentScore = lessonScores.get(currentLessonId);
-
-    const newScore: LessonScore = {
-      lessonId: currentLessonId,
-      score: score,
-      attempts: (currentScore?.attempts || 0) + 1
-    };
 
-    if (currentScore && currentScore.score > score) {
-      newScore.score = currentScore.score;
+    let grade;
+    try {
+      grade = await submitLessonQuiz(
+        currentLessonId,
+        Object.fromEntries(quizQuestions.map((question, index) => [question.id, responses[index]]))
+      );
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to submit quiz. Please try again.');
+      return;
     }
 
     const newScores = new Map(lessonScores);
-    newScores.set(currentLessonId, newScore);
+    newScores.set(currentLessonId, {
+      lessonId: currentLessonId,
+      score: grade.bestScore,
+      attempts: grade.attempts
+    });
     setLessonScores(newScores);
 
+    // The graded questions carry the answers and explanations
+    setQuizQuestions(grade.questions);
+    setResponses(grade.responses);
     setQuizSubmitted(true);
     
-    await markLessonComplete(currentLessonId, newScore.score);
-    
     if (currentLessonIndex === lessons.length - 1 && !isReviewMode) {
       setTimeout(async () => {
-        await completeModule();
+        await finishModule();
       }, 1500);
     }
   };
 
-  const handleResetQuiz = () => {
+  const handleResetQuiz = async () => {
     const currentLessonId = lessons[currentLessonIndex].id;
     const currentScore = lessonScores.get(currentLessonId);
 
-    if (!currentScore || currentScore.attempts < 3) {
-      setSelectedAnswers(new Array(quizQuestions.length).fill(-1));
-      setQuizSubmitted(false);
+    if (!currentScore || currentScore.attempts < MAX_QUIZ_ATTEMPTS) {
+      // Fetch the questions again, as the graded ones carry the answers
+      await loadQuizQuestions(currentLessonId);
+      setShowQuiz(true);
     } else {
-      alert('You have already used all 3 attempts for this quiz.');
+      alert(`You have already used all ${MAX_QUIZ_ATTEMPTS} attempts for this quiz.`);
     }
   };
 
-  const handleAnswerSelect = (questionIndex: number, answerIndex: number) => {
+  const handleResponseChange = (questionIndex: number, response: QuestionResponse) => {
     if (!quizSubmitted && !isReviewMode) {
-      const newAnswers = [...selectedAnswers];
-      newAnswers[questionIndex] = answerIndex;
-      setSelectedAnswers(newAnswers);
+      const newResponses = [...responses];
+      newResponses[questionIndex] = response;
+      setResponses(newResponses);
     }
   };
 
   const handleClose = async () => {
-    await saveProgress();
+    // Quiz scores are recorded when they're graded; only the position is left to save
+    await saveCurrentPosition();
     onClose();
   };
 
-  const formatContent = (content: string) => {
-    const lines = content.split('\n');
-    return lines.map((line, index) => {
-      if (line.startsWith('# ')) {
-        return <h1 key={index} className="text-2xl sm:text-3xl font-bold mt-6 mb-4 text-gray-900">{line.slice(2)}</h1>;
-      }
-      if (line.startsWith('## ')) {
-        return <h2 key={index} className="text-xl sm:text-2xl font-bold mt-5 mb-3 text-gray-900">{line.slice(3)}</h2>;
-      }
-      if (line.startsWith('### ')) {
-        return <h3 key={index} className="text-lg sm:text-xl font-semibold mt-4 mb-2 text-gray-900">{line.slice(4)}</h3>;
-      }
-
-      if (line.includes('**')) {
-        const parts = line.split('**');
-        return (
-          <p key={index} className="mb-2 text-sm sm:text-base text-gray-800">
-            {parts.map((part, i) => i % 2 === 0 ? part : <strong key={i} className="font-bold">{part}</strong>)}
-          </p>
-        );
-      }
-
-      if (line.trim().startsWith('- ')) {
-        return <li key={index} className="ml-6 mb-1 text-sm sm:text-base text-gray-800">{line.slice(2)}</li>;
-      }
-      if (line.match(/^\d+\./)) {
-        return <li key={index} className="ml-6 mb-1 list-decimal text-sm sm:text-base text-gray-800">{line.replace(/^\d+\.\s*/, '')}</li>;
-      }
-
-      if (line.includes('✓') || line.includes('□') || line.includes('❌')) {
-        return <p key={index} className="mb-2 ml-4 text-sm sm:text-base text-gray-800">{line}</p>;
-      }
-
-      if (line.trim() === '') {
-        return <div key={index} className="h-2"></div>;
-      }
-
-      return <p key={index} className="mb-2 text-sm sm:text-base text-gray-800">{line}</p>;
-    });
-  };
-
   if (loading) {
     return (
       <div className="fixed inset-0 bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center z-50 p-4">
@@ -809,7 +501,7 @@ export function LessonViewer({
   const currentLesson = lessons[currentLessonIndex];
   const progress = ((currentLessonIndex + 1) / lessons.length) * 100;
   const currentScore = getCurrentLessonScore();
-  const attemptsRemaining = 3 - (currentScore?.attempts || 0);
+  const attemptsRemaining = MAX_QUIZ_ATTEMPTS - (currentScore?.attempts || 0);
   const completedLessonsCount = Array.from(lessonScores.values()).filter(s => s.attempts > 0).length;
   const progressPercent = lessons.length > 0 ? (completedLessonsCount / lessons.length) * 100 : 0;
 
@@ -847,32 +539,14 @@ export function LessonViewer({
 
         <div className="p-4 sm:p-6 lg:p-8 bg-white max-h-[50vh] sm:max-h-[60vh] overflow-y-auto">
           {!showQuiz ? (
-            <div>
-              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-6">
-                <div className="flex flex-wrap items-center gap-2">
-                  <Badge variant="outline" className="flex items-center gap-1 bg-blue-50 text-blue-700 border-blue-200 text-xs">
-                    <BookOpen className="w-3 h-3" />
-                    Lesson {currentLesson.order_number}
-                  </Badge>
-                  <Badge variant="outline" className="flex items-center gap-1 bg-purple-50 text-purple-700 border-purple-200 text-xs">
-                    <Clock className="w-3 h-3" />
-                    {currentLesson.duration}
-                  </Badge>
-                </div>
-                {currentScore && (
-                  <Badge className="bg-green-100 text-green-700 border-green-200 text-xs">
-                    Best Score: {currentScore.score}% ({currentScore.attempts}/3 attempts)
-                  </Badge>
-                )}
-              </div>
-
-              <h3 className="text-2xl sm:text-3xl font-bold mb-3 text-gray-900">{currentLesson.title}</h3>
-              <p className="text-gray-600 text-base sm:text-lg mb-6 pb-4 border-b-2 border-gray-200">{currentLesson.description}</p>
-
-              <div className="prose max-w-none">
-                {formatContent(currentLesson.content)}
-              </div>
-            </div>
+            <LessonArticle
+              lesson={currentLesson}
+              aside={currentScore && (
+                <Badge className="bg-green-100 text-green-700 border-green-200 text-xs">
+                  Best Score: {currentScore.score}% ({currentScore.attempts}/{MAX_QUIZ_ATTEMPTS} attempts)
+                </Badge>
+              )}
+            />
           ) : (
             <div>
               <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-4">
@@ -893,68 +567,15 @@ export function LessonViewer({
 
               <div className="space-y-4 sm:space-y-6">
                 {quizQuestions.map((question, qIndex) => (
-                  <Card key={question.id} className="p-4 sm:p-6 bg-gray-50 border-2 border-gray-200">
-                    <h4 className="font-semibold mb-4 text-gray-900 text-base sm:text-lg">
-                      Question {qIndex + 1}: {question.question}
-                    </h4>
-
-                    <div className="space-y-2 sm:space-y-3">
-                      {question.options.map((option, oIndex) => {
-                        const isSelected = selectedAnswers[qIndex] === oIndex;
-                        const isCorrect = oIndex === question.correct_answer;
-                        const showResult = quizSubmitted || isReviewMode;
-
-                        let buttonClass = 'w-full text-left p-3 sm:p-4 rounded-lg border-2 transition-all ';
-
-                        if (showResult) {
-                          if (isCorrect) {
-                            buttonClass += 'border-green-500 bg-green-50 shadow-md';
-                          } else if (isSelected && !isCorrect) {
-                            buttonClass += 'border-red-500 bg-red-50 shadow-md';
-                          } else {
-                            buttonClass += 'border-gray-300 bg-white';
-                          }
-                        } else {
-                          buttonClass += isSelected
-                            ? 'border-red-600 bg-red-50 shadow-md'
-                            : 'border-gray-300 bg-white hover:border-red-400 hover:bg-red-50';
-                        }
-
-                        return (
-                          <button
-                            key={oIndex}
-                            onClick={() => handleAnswerSelect(qIndex, oIndex)}
-                            disabled={quizSubmitted || isReviewMode}
-                            className={buttonClass}
-                          >
-                            <div className="flex items-center gap-2 sm:gap-3">
-                              <div className={`w-5 h-5 sm:w-6 sm:h-6 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${isSelected ? 'border-red-600 bg-red-100' : 'border-gray-400'
-                                }`}>
-                                {showResult && isCorrect && (
-                                  <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5 text-green-600" />
-                                )}
-                                {showResult && isSelected && !isCorrect && (
-                                  <X className="w-4 h-4 sm:w-5 sm:h-5 text-red-600" />
-                                )}
-                                {!showResult && isSelected && (
-                                  <div className="w-2.5 h-2.5 sm:w-3 sm:h-3 rounded-full bg-red-600"></div>
-                                )}
-                              </div>
-                              <span className="text-sm sm:text-base text-gray-900 font-medium">{option}</span>
-                            </div>
-                          </button>
-                        );
-                      })}
-                    </div>
-
-                    {(quizSubmitted || isReviewMode) && (
-                      <div className="mt-4 p-3 sm:p-4 bg-blue-50 border-l-4 border-blue-500 rounded">
-                        <p className="text-xs sm:text-sm text-blue-900">
-                          <strong className="font-bold">Explanation:</strong> {question.explanation}
-                        </p>
-                      </div>
-                    )}
-                  </Card>
+                  <QuizQuestionCard
+                    key={question.id}
+                    question={question}
+                    index={qIndex}
+                    response={responses[qIndex]}
+                    showResult={quizSubmitted || isReviewMode}
+                    disabled={quizSubmitted || isReviewMode}
+                    onChange={(response) => handleResponseChange(qIndex, response)}
+                  />
                 ))}
               </div>
 
@@ -965,7 +586,7 @@ export function LessonViewer({
                       <h4 className="font-bold text-lg sm:text-xl mb-1 text-gray-900">Quiz Complete!</h4>
                       <p className="text-sm sm:text-base text-gray-700">
                         You scored <strong className="text-red-600">{currentScore?.score}%</strong> on this lesson
-                        ({currentScore?.attempts}/3 attempts used)
+                        ({currentScore?.attempts}/{MAX_QUIZ_ATTEMPTS} attempts used)
                       </p>
                     </div>
                     <div className="flex items-center gap-3">
@@ -1033,7 +654,7 @@ export function LessonViewer({
                   </Button>
                   <Button
                     onClick={handleQuizSubmit}
-                    disabled={selectedAnswers.includes(-1) || isProcessing}
+                    disabled={!quizQuestions.every((question, index) => isAnswered(question, responses[index])) || isProcessing}
                     className="bg-red-600 hover:bg-red-700 text-white flex items-center gap-2 shadow-md flex-1 sm:flex-initial text-sm"
                   >
                     {isProcessing ? 'Processing...' :
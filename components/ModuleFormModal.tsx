@@ -35,7 +35,6 @@ export function ModuleFormModal({ module, onClose, onSuccess }: ModuleFormModalP
     difficulty: module?.difficulty || 'Beginner',
     duration: module?.duration || '',
     points: module?.points || 0,
-    lessons: module?.lessons || 0,
     locked: module?.locked || false
   });
 
@@ -56,7 +55,6 @@ export function ModuleFormModal({ module, onClose, onSuccess }: ModuleFormModalP
         difficulty: formData.difficulty,
         duration: formData.duration.trim(),
         points: isNaN(formData.points) || formData.points === null ? 0 : Number(formData.points),
-        lessons: isNaN(formData.lessons) || formData.lessons === null ? 0 : Number(formData.lessons),
         locked: formData.locked
       };
       
@@ -189,16 +187,13 @@ export function ModuleFormModal({ module, onClose, onSuccess }: ModuleFormModalP
             </div>
 
             <div>
-              <Label htmlFor="lessons">Number of Lessons *</Label>
+              <Label htmlFor="lessons">Number of Lessons</Label>
               <Input
                 id="lessons"
-                type="number"
-                min="0"
-                value={formData.lessons || ''}
-                onChange={(e) => setFormData({ ...formData, lessons: parseInt(e.target.value) || 0 })}
-                required
-                disabled={!isEditing}
+                value={module?.lessons ?? 0}
+                disabled
               />
+              <p className="text-xs text-gray-500 mt-1">Counted automatically. Use Edit Lessons to add or remove lessons.</p>
             </div>
           </div>
 
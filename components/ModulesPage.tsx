@@ -8,9 +8,10 @@ import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { Button } from './ui/button';
-import { BookOpen, Clock, Trophy, CheckCircle, Lock, Play, RefreshCw, Edit, X, Sparkles, ChevronDown, ChevronUp, Users } from 'lucide-react';
+import { BookOpen, Clock, Trophy, CheckCircle, Lock, Play, RefreshCw, Edit, X, Sparkles, ChevronDown, ChevronUp, Users, FileText } from 'lucide-react';
 import { LessonViewer } from './LessonViewer';
 import { ModuleFormModal } from './ModuleFormModal';
+import { ModuleLessonsWorkspace } from './lessons/ModuleLessonsWorkspace';
 
 interface ModulesPageProps {
   profile: Profile;
@@ -137,6 +138,7 @@ export function ModulesPage({ profile }: ModulesPageProps) {
   const [activeModule, setActiveModule] = useState<Module | null>(null);
   const [showModuleForm, setShowModuleForm] = useState(false);
   const [editingModule, setEditingModule] = useState<Module | null>(null);
+  const [authoringModule, setAuthoringModule] = useState<Module | null>(null);
   const [moduleUsers, setModuleUsers] = useState<Map<string, UserModuleData[]>>(new Map());
   const [viewingUsersModule, setViewingUsersModule] = useState<Module | null>(null);
   const [animateCards, setAnimateCards] = useState(false);
@@ -392,6 +394,16 @@ export function ModulesPage({ profile }: ModulesPageProps) {
         />
       )}
 
+      {authoringModule && (
+        <ModuleLessonsWorkspace
+          module={authoringModule}
+          onClose={(changed) => {
+            setAuthoringModule(null);
+            if (changed) handleRefresh();
+          }}
+        />
+      )}
+
       {/* Users Performance Modal */}
       {viewingUsersModule && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4 overflow-y-auto">
@@ -788,11 +800,12 @@ export function ModulesPage({ profile }: ModulesPageProps) {
                   </div>
 
                   {isAdmin ? (
-                    <Button 
-                      className="w-full text-xs sm:text-sm bg-gray-100 text-gray-600 cursor-not-allowed font-semibold"
-                      disabled
+                    <Button
+                      className="w-full text-xs sm:text-sm bg-gray-900 hover:bg-gray-800 text-white font-semibold"
+                      onClick={() => setAuthoringModule(module)}
                     >
-                      Admin View Only
+                      <FileText className="w-4 h-4 mr-2" />
+                      Edit Lessons
                     </Button>
                   ) : (
                     <Button 
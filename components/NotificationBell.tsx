@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Bell, Settings, X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import {
+  getInAppNotifications,
+  markNotificationsRead,
+  type InAppNotification
+} from '@/lib/notification-utils';
+
+interface NotificationBellProps {
+  userId: string;
+  onOpenSettings: () => void;
+}
+
+function timeAgo(timestamp: string): string {
+  const minutes = Math.round((Date.now() - new Date(timestamp).getTime()) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * In-app notifications (event reminders) with an unread count. New ones
+ * arrive live; opening the list marks them read.
+ */
+export function NotificationBell({ userId, onOpenSettings }: NotificationBellProps) {
+  const [notifications, setNotifications] = useState<InAppNotification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    getInAppNotifications(userId)
+      .then(setNotifications)
+      .catch(() => setNotifications([]));
+
+    const subscription = supabase
+      .channel(`user_notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'user_notifications',
+          filter: `user_id=eq.${userId}`
+        },
+        (payload) => {
+          setNotifications(current => [payload.new as InAppNotification, ...current]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [userId]);
+
+  const unread = notifications.filter(notification => !notification.read_at).length;
+
+  const handleOpen = () => {
+    setOpen(!open);
+    if (!open && unread > 0) {
+      markNotificationsRead(userId)
+        .then(() => {
+          const readAt = new Date().toISOString();
+          setNotifications(current => current.map(notification => ({ ...notification, read_at: notification.read_at || readAt })));
+        })
+        .catch(() => {});
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleOpen}
+        className="relative p-2 rounded-xl hover:bg-gray-100 transition-all"
+        aria-label={unread > 0 ? `Notifications (${unread} unread)` : 'Notifications'}
+      >
+        <Bell className="w-5 h-5 text-gray-700" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-50 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white border border-gray-200 rounded-lg shadow-lg">
+          <div className="flex items-center justify-between gap-2 px-4 py-3 border-b">
+            <p className="text-sm font-semibold text-gray-900">Notifications</p>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  setOpen(false);
+                  onOpenSettings();
+                }}
+                className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800"
+              >
+                <Settings className="w-3 h-3" />
+                Reminder settings
+              </button>
+              <button onClick={() => setOpen(false)} className="text-gray-500 hover:text-gray-700">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications yet</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {notifications.map(notification => (
+                <li key={notification.id} className={`px-4 py-3 ${notification.read_at ? '' : 'bg-emerald-50/60'}`}>
+                  <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                  {notification.body && <p className="text-xs text-gray-600 mt-0.5">{notification.body}</p>}
+                  <p className="text-[11px] text-gray-400 mt-1">{timeAgo(notification.created_at)}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,597 @@
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Building2, Loader2, Plus, Trash2, UserPlus, LogOut, Users, BarChart3, Palette, MessageSquare } from 'lucide-react';
+import type { Organization, Profile } from '@/lib/supabase';
+import {
+  addOrganizationMember,
+  createOrganization,
+  deleteOrganization,
+  getMemberships,
+  getOrganizationMembers,
+  getOrganizationReport,
+  getOrganizations,
+  removeOrganizationMember,
+  setOrganizationMemberRole,
+  updateOrganization,
+  type OrganizationDetails,
+  type OrganizationMemberDetails,
+  type OrganizationReport,
+  type OrganizationRole
+} from '@/lib/organization-utils';
+import { getFeedbackSurveys, type FeedbackSurvey } from '@/lib/feedback-utils';
+import { FeedbackResultsPanel } from '@/components/FeedbackResultsPanel';
+
+interface OrganizationsPageProps {
+  profile: Profile;
+}
+
+type DetailTab = 'members' | 'report' | 'feedback' | 'branding';
+
+const errorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback;
+
+/**
+ * The organizations a user belongs to. Their admins manage members, branding
+ * and see their sessions' figures here; platform admins see and create every
+ * organization.
+ */
+export function OrganizationsPage({ profile }: OrganizationsPageProps) {
+  const isPlatformAdmin = profile.role === 'admin';
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [roles, setRoles] = useState<Record<string, OrganizationRole>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    Promise.all([isPlatformAdmin ? getOrganizations() : null, getMemberships(profile.id)])
+      .then(([all, memberships]) => {
+        const visible = all ?? memberships.map(membership => membership.organization);
+        setOrganizations(visible);
+        setRoles(Object.fromEntries(memberships.map(membership => [membership.organization.id, membership.role])));
+        setSelectedId(current => visible.some(org => org.id === current) ? current : visible[0]?.id ?? null);
+      })
+      .catch(error => alert(errorMessage(error, 'Failed to load organizations')))
+      .finally(() => setLoading(false));
+  }, [profile.id, isPlatformAdmin, reloadKey]);
+
+  const reload = () => setReloadKey(key => key + 1);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+
+    try {
+      setCreating(true);
+      const organization = await createOrganization({
+        name: newName,
+        logo_url: null,
+        brand_color: null,
+        certificate_signatory: null,
+        certificate_signatory_title: null
+      });
+      setNewName('');
+      setSelectedId(organization.id);
+      reload();
+    } catch (error) {
+      alert(errorMessage(error, 'Failed to create organization'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const selected = organizations.find(org => org.id === selectedId) || null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-8">
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl font-bold mb-2">Organizations</h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          {isPlatformAdmin
+            ? 'Partner training providers, their admins and members'
+            : 'The training providers you belong to'}
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-gray-500" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            {isPlatformAdmin && (
+              <Card className="p-4">
+                <div className="flex gap-2">
+                  <Input
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="New organization name"
+                  />
+                  <Button
+                    onClick={handleCreate}
+                    disabled={creating || !newName.trim()}
+                    className="bg-gray-900 hover:bg-gray-800 text-white"
+                  >
+                    {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                  </Button>
+                </div>
+              </Card>
+            )}
+
+            {organizations.length === 0 ? (
+              <Card className="p-6 text-center text-sm text-gray-600">
+                <Building2 className="w-8 h-8 mx-auto mb-2 text-gray-400" />
+                You don&apos;t belong to any organizations yet. An organization&apos;s admins can add you by email.
+              </Card>
+            ) : (
+              organizations.map(org => (
+                <button
+                  key={org.id}
+                  onClick={() => setSelectedId(org.id)}
+                  className={`w-full text-left p-4 rounded-xl border transition-all flex items-center gap-3 ${
+                    org.id === selectedId ? 'border-gray-900 bg-white shadow-md' : 'border-gray-200 bg-white hover:border-gray-400'
+                  }`}
+                >
+                  <OrganizationLogo organization={org} />
+                  <div className="min-w-0 flex-1">
+                    <p className="font-semibold truncate">{org.name}</p>
+                    {roles[org.id] && (
+                      <p className="text-xs text-gray-500">{roles[org.id] === 'admin' ? 'Admin' : 'Member'}</p>
+                    )}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          <div className="lg:col-span-2">
+            {selected && (
+              <OrganizationDetailsCard
+                key={selected.id}
+                organization={selected}
+                canAdminister={isPlatformAdmin || roles[selected.id] === 'admin'}
+                isPlatformAdmin={isPlatformAdmin}
+                isMember={!!roles[selected.id]}
+                currentUserId={profile.id}
+                onChanged={reload}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function OrganizationLogo({ organization }: { organization: Organization }) {
+  if (organization.logo_url) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img src={organization.logo_url} alt="" className="w-10 h-10 rounded-lg object-contain bg-gray-50 flex-shrink-0" />
+    );
+  }
+
+  return (
+    <div
+      className="w-10 h-10 rounded-lg flex items-center justify-center text-white font-bold flex-shrink-0"
+      style={{ backgroundColor: organization.brand_color || '#111827' }}
+    >
+      {organization.name[0]?.toUpperCase()}
+    </div>
+  );
+}
+
+interface OrganizationDetailsCardProps {
+  organization: Organization;
+  canAdminister: boolean;
+  isPlatformAdmin: boolean;
+  isMember: boolean;
+  currentUserId: string;
+  onChanged: () => void;
+}
+
+function OrganizationDetailsCard({
+  organization,
+  canAdminister,
+  isPlatformAdmin,
+  isMember,
+  currentUserId,
+  onChanged
+}: OrganizationDetailsCardProps) {
+  const [tab, setTab] = useState<DetailTab>('members');
+  const [leaving, setLeaving] = useState(false);
+
+  const handleLeave = async () => {
+    if (!confirm(`Leave ${organization.name}?`)) return;
+
+    try {
+      setLeaving(true);
+      await removeOrganizationMember(organization.id, currentUserId);
+      onChanged();
+    } catch (error) {
+      alert(errorMessage(error, 'Failed to leave organization'));
+      setLeaving(false);
+    }
+  };
+
+  const tabs: { id: DetailTab; label: string; icon: typeof Users }[] = [
+    { id: 'members', label: 'Members', icon: Users },
+    { id: 'report', label: 'Report', icon: BarChart3 },
+    { id: 'feedback', label: 'Feedback', icon: MessageSquare },
+    { id: 'branding', label: 'Branding', icon: Palette }
+  ];
+
+  return (
+    <Card className="p-4 sm:p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3 min-w-0">
+          <OrganizationLogo organization={organization} />
+          <h2 className="text-xl font-semibold truncate">{organization.name}</h2>
+        </div>
+        {isMember && (
+          <Button variant="outline" size="sm" onClick={handleLeave} disabled={leaving}>
+            {leaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LogOut className="w-4 h-4 mr-2" />}
+            Leave
+          </Button>
+        )}
+      </div>
+
+      {!canAdminister ? (
+        <p className="text-sm text-gray-600">
+          You&apos;re a member of {organization.name}. Its sessions are listed under Community.
+        </p>
+      ) : (
+        <>
+          <div className="border-b border-gray-200 mb-4">
+            <nav className="-mb-px flex space-x-6">
+              {tabs.map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => setTab(id)}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm transition-colors flex items-center gap-2 ${
+                    tab === id
+                      ? 'border-gray-900 text-gray-900'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </nav>
+          </div>
+
+          {tab === 'members' && <MembersPanel organizationId={organization.id} currentUserId={currentUserId} />}
+          {tab === 'report' && <ReportPanel organizationId={organization.id} />}
+          {tab === 'feedback' && <FeedbackPanel organizationId={organization.id} />}
+          {tab === 'branding' && (
+            <BrandingPanel organization={organization} isPlatformAdmin={isPlatformAdmin} onChanged={onChanged} />
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
+
+function MembersPanel({ organizationId, currentUserId }: { organizationId: string; currentUserId: string }) {
+  const [members, setMembers] = useState<OrganizationMemberDetails[] | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('member');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    getOrganizationMembers(organizationId)
+      .then(setMembers)
+      .catch(error => alert(errorMessage(error, 'Failed to load members')));
+  }, [organizationId, reloadKey]);
+
+  const run = async (key: string, action: () => Promise<void>, fallback: string) => {
+    try {
+      setBusy(key);
+      await action();
+      setReloadKey(current => current + 1);
+    } catch (error) {
+      alert(errorMessage(error, fallback));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleAdd = () => run('add', async () => {
+    await addOrganizationMember(organizationId, email, role);
+    setEmail('');
+  }, 'Failed to add member');
+
+  if (!members) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email of a LifeCraft account"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as OrganizationRole)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+        >
+          <option value="member">Member</option>
+          <option value="admin">Admin</option>
+        </select>
+        <Button
+          onClick={handleAdd}
+          disabled={busy !== null || !email.trim()}
+          className="bg-gray-900 hover:bg-gray-800 text-white"
+        >
+          {busy === 'add' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserPlus className="w-4 h-4 mr-2" />}
+          Add
+        </Button>
+      </div>
+
+      {members.length === 0 ? (
+        <p className="text-sm text-gray-600">No members yet.</p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {members.map(member => (
+            <div key={member.user_id} className="flex items-center gap-3 p-3">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">
+                  {member.full_name || member.email}
+                  {member.user_id === currentUserId && <span className="text-gray-500 font-normal"> (you)</span>}
+                </p>
+                {member.full_name && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+              </div>
+              <select
+                value={member.role}
+                onChange={(e) => run(
+                  member.user_id,
+                  () => setOrganizationMemberRole(organizationId, member.user_id, e.target.value as OrganizationRole),
+                  'Failed to change role'
+                )}
+                disabled={busy !== null}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+              >
+                <option value="member">Member</option>
+                <option value="admin">Admin</option>
+              </select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  if (!confirm(`Remove ${member.full_name || member.email} from this organization?`)) return;
+                  run(member.user_id, () => removeOrganizationMember(organizationId, member.user_id), 'Failed to remove member');
+                }}
+                disabled={busy !== null}
+                className="h-8 w-8 p-0"
+                title="Remove"
+              >
+                {busy === member.user_id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FeedbackPanel({ organizationId }: { organizationId: string }) {
+  const [surveys, setSurveys] = useState<FeedbackSurvey[] | null>(null);
+
+  useEffect(() => {
+    getFeedbackSurveys()
+      .then(setSurveys)
+      .catch(error => alert(errorMessage(error, 'Failed to load surveys')));
+  }, []);
+
+  if (!surveys) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  return <FeedbackResultsPanel surveys={surveys} organizationId={organizationId} />;
+}
+
+function ReportPanel({ organizationId }: { organizationId: string }) {
+  const [report, setReport] = useState<OrganizationReport | null>(null);
+
+  useEffect(() => {
+    getOrganizationReport(organizationId)
+      .then(setReport)
+      .catch(error => alert(errorMessage(error, 'Failed to load report')));
+  }, [organizationId]);
+
+  if (!report) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  const totals = report.sessions.reduce(
+    (sum, session) => ({
+      confirmed: sum.confirmed + session.confirmed,
+      completed: sum.completed + session.completed,
+      certificates: sum.certificates + session.certificates
+    }),
+    { confirmed: 0, completed: 0, certificates: 0 }
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {[
+          ['Members', report.memberCount],
+          ['Sessions', report.sessions.length],
+          ['Completed', totals.completed],
+          ['Certificates', totals.certificates]
+        ].map(([label, value]) => (
+          <div key={label} className="p-3 bg-gray-50 rounded-lg text-center">
+            <p className="text-2xl font-bold">{value}</p>
+            <p className="text-xs text-gray-600">{label}</p>
+          </div>
+        ))}
+      </div>
+
+      {report.sessions.length === 0 ? (
+        <p className="text-sm text-gray-600">No sessions yet. Create them from the Community page.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-3 font-medium">Session</th>
+                <th className="py-2 px-2 font-medium text-right">Confirmed</th>
+                <th className="py-2 px-2 font-medium text-right">Pending</th>
+                <th className="py-2 px-2 font-medium text-right">Waitlist</th>
+                <th className="py-2 px-2 font-medium text-right">Checked in</th>
+                <th className="py-2 px-2 font-medium text-right">Completed</th>
+                <th className="py-2 pl-2 font-medium text-right">Certificates</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.sessions.map(session => (
+                <tr key={session.id} className="border-b last:border-0">
+                  <td className="py-2 pr-3">
+                    <p className="font-medium">{session.title}</p>
+                    <p className="text-xs text-gray-500">{new Date(session.date).toLocaleDateString()}</p>
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    {session.confirmed}
+                    <span className="text-gray-400">/{session.capacity}</span>
+                  </td>
+                  <td className="py-2 px-2 text-right">{session.pending}</td>
+                  <td className="py-2 px-2 text-right">{session.waitlisted}</td>
+                  <td className="py-2 px-2 text-right">{session.checkedIn}</td>
+                  <td className="py-2 px-2 text-right">{session.completed}</td>
+                  <td className="py-2 pl-2 text-right">{session.certificates}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface BrandingPanelProps {
+  organization: Organization;
+  isPlatformAdmin: boolean;
+  onChanged: () => void;
+}
+
+function BrandingPanel({ organization, isPlatformAdmin, onChanged }: BrandingPanelProps) {
+  const [form, setForm] = useState<OrganizationDetails>({
+    name: organization.name,
+    logo_url: organization.logo_url,
+    brand_color: organization.brand_color,
+    certificate_signatory: organization.certificate_signatory,
+    certificate_signatory_title: organization.certificate_signatory_title
+  });
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const field = (key: keyof OrganizationDetails) => ({
+    value: form[key] || '',
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [key]: e.target.value || null })
+  });
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await updateOrganization(organization.id, { ...form, name: form.name || '' });
+      onChanged();
+    } catch (error) {
+      alert(errorMessage(error, 'Failed to save organization'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete ${organization.name}? Its sessions stay on LifeCraft without an organization.`)) return;
+
+    try {
+      setDeleting(true);
+      await deleteOrganization(organization.id);
+      onChanged();
+    } catch (error) {
+      alert(errorMessage(error, 'Failed to delete organization'));
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="space-y-1 text-sm font-medium text-gray-700">
+          Name
+          <Input {...field('name')} />
+        </label>
+        <label className="space-y-1 text-sm font-medium text-gray-700">
+          Logo URL
+          <Input {...field('logo_url')} placeholder="https://..." />
+        </label>
+        <label className="space-y-1 text-sm font-medium text-gray-700">
+          Brand colour
+          <div className="flex gap-2">
+            <input
+              type="color"
+              value={form.brand_color || '#111827'}
+              onChange={(e) => setForm({ ...form, brand_color: e.target.value })}
+              className="h-9 w-12 border border-gray-300 rounded-md bg-white"
+            />
+            <Input {...field('brand_color')} placeholder="#b91c1c" />
+          </div>
+        </label>
+        <div />
+        <label className="space-y-1 text-sm font-medium text-gray-700">
+          Certificate signatory
+          <Input {...field('certificate_signatory')} placeholder="Dr. Maria Santos" />
+        </label>
+        <label className="space-y-1 text-sm font-medium text-gray-700">
+          Signatory title
+          <Input {...field('certificate_signatory_title')} placeholder="Chapter Administrator" />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Certificates for this organization&apos;s certified sessions show its name, colour and signatory.
+      </p>
+
+      <div className="flex justify-between gap-2">
+        {isPlatformAdmin ? (
+          <Button variant="outline" onClick={handleDelete} disabled={deleting || saving}>
+            {deleting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+            Delete
+          </Button>
+        ) : <div />}
+        <Button
+          onClick={handleSave}
+          disabled={saving || deleting || !form.name?.trim()}
+          className="bg-gray-900 hover:bg-gray-800 text-white"
+        >
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
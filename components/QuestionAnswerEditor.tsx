@@ -0,0 +1,273 @@
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import {
+  QUESTION_TYPE_LABELS,
+  QUESTION_TYPES,
+  questionType,
+  TRUE_FALSE_OPTIONS,
+  type AnswerKey,
+  type GradableQuestion,
+  type QuestionType
+} from '@/lib/question-types';
+
+interface QuestionAnswerEditorProps {
+  question: GradableQuestion;
+  // Keeps radio groups of different questions apart
+  name: string;
+  onChange: (changes: GradableQuestion) => void;
+}
+
+const HAS_OPTIONS: QuestionType[] = ['single_choice', 'multiple_choice', 'ordering', 'matching'];
+
+/**
+ * The question type and its answer: options and the correct one(s), the
+ * right order, pairs, a number or accepted text. Used by lesson and drill
+ * authoring; the question text and explanation stay with each form.
+ */
+export function QuestionAnswerEditor({ question, name, onChange }: QuestionAnswerEditorProps) {
+  const type = questionType(question);
+  const key = question.answer_key || {};
+
+  const update = (changes: Partial<GradableQuestion>) => onChange({ ...question, ...changes });
+  const updateKey = (changes: AnswerKey) => update({ answer_key: { ...key, ...changes } });
+
+  const changeType = (next: QuestionType) => {
+    const options = HAS_OPTIONS.includes(next) && question.options.length < 2
+      ? [...question.options, '', ''].slice(0, Math.max(2, question.options.length))
+      : question.options;
+    const defaults: Record<QuestionType, AnswerKey | null> = {
+      single_choice: null,
+      true_false: null,
+      ordering: null,
+      multiple_choice: { correct_answers: [] },
+      matching: { matches: options.map((_, index) => key.matches?.[index] || '') },
+      numeric: { tolerance: 0 },
+      short_text: { accepted: [''] }
+    };
+    onChange({
+      question_type: next,
+      options: next === 'true_false' ? TRUE_FALSE_OPTIONS : options,
+      correct_answer: 0,
+      answer_key: defaults[next]
+    });
+  };
+
+  const setOption = (index: number, value: string) =>
+    update({ options: question.options.map((option, i) => (i === index ? value : option)) });
+
+  const addOption = () => {
+    update({
+      options: [...question.options, ''],
+      ...(type === 'matching' && { answer_key: { ...key, matches: [...(key.matches || []), ''] } })
+    });
+  };
+
+  const removeOption = (index: number) => {
+    const correct = question.correct_answer;
+    update({
+      options: question.options.filter((_, i) => i !== index),
+      // Keep pointing at the same answers
+      correct_answer: index < correct ? correct - 1 : index === correct ? 0 : correct,
+      answer_key: type === 'multiple_choice'
+        ? { correct_answers: (key.correct_answers || []).filter(i => i !== index).map(i => (i > index ? i - 1 : i)) }
+        : type === 'matching'
+          ? { matches: (key.matches || []).filter((_, i) => i !== index) }
+          : question.answer_key
+    });
+  };
+
+  const moveOption = (index: number, offset: number) => {
+    const options = [...question.options];
+    [options[index], options[index + offset]] = [options[index + offset], options[index]];
+    update({ options });
+  };
+
+  const toggleCorrect = (index: number) => {
+    const correct = key.correct_answers || [];
+    updateKey({ correct_answers: correct.includes(index) ? correct.filter(i => i !== index) : [...correct, index] });
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={type}
+        onChange={(e) => changeType(e.target.value as QuestionType)}
+        className="w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+        aria-label="Question type"
+      >
+        {QUESTION_TYPES.map(value => (
+          <option key={value} value={value}>{QUESTION_TYPE_LABELS[value]}</option>
+        ))}
+      </select>
+
+      {type === 'true_false' && (
+        <div className="flex gap-4">
+          {TRUE_FALSE_OPTIONS.map((option, index) => (
+            <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name={`${name}-correct`}
+                checked={question.correct_answer === index}
+                onChange={() => update({ correct_answer: index })}
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {HAS_OPTIONS.includes(type) && (
+        <>
+          {question.options.map((option, index) => (
+            <div key={index} className="flex items-center gap-2">
+              {type === 'single_choice' && (
+                <input
+                  type="radio"
+                  name={`${name}-correct`}
+                  checked={question.correct_answer === index}
+                  onChange={() => update({ correct_answer: index })}
+                  title="Correct answer"
+                />
+              )}
+              {type === 'multiple_choice' && (
+                <input
+                  type="checkbox"
+                  checked={(key.correct_answers || []).includes(index)}
+                  onChange={() => toggleCorrect(index)}
+                  title="Correct answer"
+                />
+              )}
+              {type === 'ordering' && (
+                <span className="w-5 text-sm text-gray-500 text-right">{index + 1}.</span>
+              )}
+              <Input
+                placeholder={type === 'matching' ? `Item ${index + 1}` : type === 'ordering' ? `Step ${index + 1}` : `Answer ${index + 1}`}
+                value={option}
+                onChange={(e) => setOption(index, e.target.value)}
+              />
+              {type === 'matching' && (
+                <Input
+                  placeholder="Matches with"
+                  value={key.matches?.[index] || ''}
+                  onChange={(e) => updateKey({
+                    matches: question.options.map((_, i) => (i === index ? e.target.value : key.matches?.[i] || ''))
+                  })}
+                />
+              )}
+              {type === 'ordering' && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => moveOption(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveOption(index, 1)}
+                    disabled={index === question.options.length - 1}
+                    className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              <button
+                type="button"
+                onClick={() => removeOption(index)}
+                disabled={question.options.length <= 2}
+                className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                title="Remove"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={addOption}
+            className="text-sm text-red-600 hover:text-red-700"
+          >
+            {type === 'matching' ? '+ Add pair' : type === 'ordering' ? '+ Add step' : '+ Add answer'}
+          </button>
+          <p className="text-xs text-gray-500">
+            {type === 'single_choice' && 'Select the correct answer with the circle beside it.'}
+            {type === 'multiple_choice' && 'Tick every correct answer. Each wrong pick cancels out a right one.'}
+            {type === 'ordering' && 'Enter the steps in the right order; students see them shuffled. Credit for each step in place.'}
+            {type === 'matching' && 'Students pick each item’s match from a list of all matches. Credit for each right pair.'}
+          </p>
+        </>
+      )}
+
+      {type === 'numeric' && (
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <Label className="text-xs">Correct number</Label>
+            <Input
+              type="number"
+              step="any"
+              value={key.value ?? ''}
+              onChange={(e) => updateKey({ value: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Tolerance (±)</Label>
+            <Input
+              type="number"
+              step="any"
+              min="0"
+              value={key.tolerance ?? 0}
+              onChange={(e) => updateKey({ tolerance: e.target.value === '' ? 0 : Number(e.target.value) })}
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Unit</Label>
+            <Input
+              placeholder="e.g., cm"
+              value={key.unit || ''}
+              onChange={(e) => updateKey({ unit: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      {type === 'short_text' && (
+        <>
+          {(key.accepted || []).map((answer, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                placeholder={index === 0 ? 'Accepted answer' : 'Also accepted'}
+                value={answer}
+                onChange={(e) => updateKey({
+                  accepted: (key.accepted || []).map((value, i) => (i === index ? e.target.value : value))
+                })}
+              />
+              <button
+                type="button"
+                onClick={() => updateKey({ accepted: (key.accepted || []).filter((_, i) => i !== index) })}
+                disabled={(key.accepted || []).length <= 1}
+                className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                title="Remove"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => updateKey({ accepted: [...(key.accepted || []), ''] })}
+            className="text-sm text-red-600 hover:text-red-700"
+          >
+            + Add accepted answer
+          </button>
+          <p className="text-xs text-gray-500">Capitals, extra spaces and punctuation at the end are ignored.</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { Input } from './ui/input';
+import { ArrowDown, ArrowUp, CheckCircle, X } from 'lucide-react';
+import {
+  describeCorrectAnswer,
+  questionType,
+  scoreResponse,
+  TRUE_FALSE_OPTIONS,
+  type GradableQuestion,
+  type QuestionResponse
+} from '@/lib/question-types';
+
+interface QuestionResponseInputProps {
+  question: GradableQuestion;
+  response: QuestionResponse;
+  // Marks right and wrong answers and shows the right answer where it isn't visible
+  showResult: boolean;
+  disabled: boolean;
+  onChange: (response: QuestionResponse) => void;
+}
+
+const resultBorder = (correct: boolean) => (correct ? 'border-green-500 bg-green-50' : 'border-red-500 bg-red-50');
+
+/**
+ * How a student answers a quiz question of any type. Used by lesson quizzes,
+ * the authoring preview and virtual drills.
+ */
+export function QuestionResponseInput({ question, response, showResult, disabled, onChange }: QuestionResponseInputProps) {
+  const type = questionType(question);
+
+  if (type === 'single_choice' || type === 'true_false' || type === 'multiple_choice') {
+    return (
+      <ChoiceOptions
+        question={question}
+        options={type === 'true_false' ? TRUE_FALSE_OPTIONS : question.options}
+        response={response}
+        showResult={showResult}
+        disabled={disabled}
+        onChange={onChange}
+      />
+    );
+  }
+
+  const score = scoreResponse(question, response);
+
+  return (
+    <div className="space-y-3">
+      {type === 'ordering' && (
+        <OrderingList
+          question={question}
+          order={Array.isArray(response) ? response : question.options.map((_, index) => index)}
+          showResult={showResult}
+          disabled={disabled}
+          onChange={onChange}
+        />
+      )}
+      {type === 'matching' && (
+        <MatchingRows
+          question={question}
+          picks={Array.isArray(response) ? response : question.options.map(() => -1)}
+          showResult={showResult}
+          disabled={disabled}
+          onChange={onChange}
+        />
+      )}
+      {(type === 'numeric' || type === 'short_text') && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={typeof response === 'string' ? response : ''}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            inputMode={type === 'numeric' ? 'decimal' : 'text'}
+            placeholder={type === 'numeric' ? 'Enter a number' : 'Type your answer'}
+            className={`text-sm sm:text-base border-2 ${showResult ? resultBorder(score === 1) : 'border-gray-300'}`}
+          />
+          {type === 'numeric' && question.answer_key?.unit && (
+            <span className="text-sm sm:text-base text-gray-700">{question.answer_key.unit}</span>
+          )}
+        </div>
+      )}
+
+      {showResult && score < 1 && (
+        <p className="text-xs sm:text-sm text-gray-800">
+          <strong className="font-bold">Correct answer:</strong> {describeCorrectAnswer(question)}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ChoiceOptions({
+  question,
+  options,
+  response,
+  showResult,
+  disabled,
+  onChange
+}: {
+  question: GradableQuestion;
+  options: string[];
+  response: QuestionResponse;
+  showResult: boolean;
+  disabled: boolean;
+  onChange: (response: QuestionResponse) => void;
+}) {
+  const multiple = questionType(question) === 'multiple_choice';
+  const picked = multiple ? (Array.isArray(response) ? response : []) : [response as number];
+  const correct = multiple ? question.answer_key?.correct_answers || [] : [question.correct_answer];
+
+  const handleSelect = (index: number) => {
+    if (!multiple) {
+      onChange(index);
+      return;
+    }
+    onChange(picked.includes(index) ? picked.filter(i => i !== index) : [...picked, index]);
+  };
+
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      {multiple && !showResult && (
+        <p className="text-xs sm:text-sm text-gray-600">Select all that apply.</p>
+      )}
+      {options.map((option, oIndex) => {
+        const isSelected = picked.includes(oIndex);
+        const isCorrect = correct.includes(oIndex);
+
+        let buttonClass = 'w-full text-left p-3 sm:p-4 rounded-lg border-2 transition-all ';
+
+        if (showResult) {
+          if (isCorrect) {
+            buttonClass += 'border-green-500 bg-green-50 shadow-md';
+          } else if (isSelected && !isCorrect) {
+            buttonClass += 'border-red-500 bg-red-50 shadow-md';
+          } else {
+            buttonClass += 'border-gray-300 bg-white';
+          }
+        } else {
+          buttonClass += isSelected
+            ? 'border-red-600 bg-red-50 shadow-md'
+            : 'border-gray-300 bg-white hover:border-red-400 hover:bg-red-50';
+        }
+
+        return (
+          <button
+            key={oIndex}
+            onClick={() => handleSelect(oIndex)}
+            disabled={disabled}
+            className={buttonClass}
+          >
+            <div className="flex items-center gap-2 sm:gap-3">
+              <div className={`w-5 h-5 sm:w-6 sm:h-6 ${multiple ? 'rounded-md' : 'rounded-full'} border-2 flex items-center justify-center flex-shrink-0 ${isSelected ? 'border-red-600 bg-red-100' : 'border-gray-400'
+                }`}>
+                {showResult && isCorrect && (
+                  <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5 text-green-600" />
+                )}
+                {showResult && isSelected && !isCorrect && (
+                  <X className="w-4 h-4 sm:w-5 sm:h-5 text-red-600" />
+                )}
+                {!showResult && isSelected && (
+                  <div className={`w-2.5 h-2.5 sm:w-3 sm:h-3 ${multiple ? 'rounded-sm' : 'rounded-full'} bg-red-600`}></div>
+                )}
+              </div>
+              <span className="text-sm sm:text-base text-gray-900 font-medium">{option}</span>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function OrderingList({
+  question,
+  order,
+  showResult,
+  disabled,
+  onChange
+}: {
+  question: GradableQuestion;
+  order: number[];
+  showResult: boolean;
+  disabled: boolean;
+  onChange: (response: QuestionResponse) => void;
+}) {
+  const move = (position: number, offset: number) => {
+    const next = [...order];
+    [next[position], next[position + offset]] = [next[position + offset], next[position]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {!showResult && (
+        <p className="text-xs sm:text-sm text-gray-600">Use the arrows to put these in the right order.</p>
+      )}
+      {order.map((optionIndex, position) => (
+        <div
+          key={optionIndex}
+          className={`flex items-center gap-3 p-3 rounded-lg border-2 ${showResult ? resultBorder(optionIndex === position) : 'border-gray-300 bg-white'}`}
+        >
+          <span className="w-6 h-6 rounded-full bg-gray-900 text-white text-xs font-bold flex items-center justify-center flex-shrink-0">
+            {position + 1}
+          </span>
+          <span className="flex-1 text-sm sm:text-base text-gray-900 font-medium">{question.options[optionIndex]}</span>
+          {!disabled && (
+            <div className="flex flex-col">
+              <button
+                type="button"
+                onClick={() => move(position, -1)}
+                disabled={position === 0}
+                className="p-0.5 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(position, 1)}
+                disabled={position === order.length - 1}
+                className="p-0.5 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function MatchingRows({
+  question,
+  picks,
+  showResult,
+  disabled,
+  onChange
+}: {
+  question: GradableQuestion;
+  picks: number[];
+  showResult: boolean;
+  disabled: boolean;
+  onChange: (response: QuestionResponse) => void;
+}) {
+  const matches = question.answer_key?.matches || [];
+  // Alphabetical, so the list doesn't give the pairs away
+  const choices = [...new Set(matches)].sort((a, b) => a.localeCompare(b));
+
+  return (
+    <div className="space-y-2">
+      {question.options.map((option, index) => {
+        const pick = picks[index];
+        const correct = pick >= 0 && matches[pick] === matches[index];
+        return (
+          <div
+            key={index}
+            className={`flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg border-2 ${showResult ? resultBorder(correct) : 'border-gray-300 bg-white'}`}
+          >
+            <span className="flex-1 text-sm sm:text-base text-gray-900 font-medium">{option}</span>
+            <select
+              value={pick >= 0 ? matches[pick] : ''}
+              onChange={(e) => onChange(picks.map((value, i) => (i === index ? matches.indexOf(e.target.value) : value)))}
+              disabled={disabled}
+              className="sm:w-1/2 px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+            >
+              <option value="">Choose a match…</option>
+              {choices.map(choice => (
+                <option key={choice} value={choice}>{choice}</option>
+              ))}
+            </select>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Bell, Loader2, X } from 'lucide-react';
+import {
+  describeOffset,
+  getReminderSettings,
+  saveReminderPreferences,
+  type ReminderSettings
+} from '@/lib/reminder-utils';
+
+interface ReminderPreferencesModalProps {
+  onClose: () => void;
+}
+
+/**
+ * When and how the user is reminded about their approved drills and sessions
+ */
+export function ReminderPreferencesModal({ onClose }: ReminderPreferencesModalProps) {
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [offsets, setOffsets] = useState<number[]>([]);
+  const [email, setEmail] = useState(true);
+  const [inApp, setInApp] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getReminderSettings()
+      .then(loaded => {
+        setSettings(loaded);
+        setOffsets(loaded.preferences.offsetsHours);
+        setEmail(loaded.preferences.email);
+        setInApp(loaded.preferences.inApp);
+      })
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'Failed to load reminder preferences'));
+  }, []);
+
+  const toggleOffset = (hours: number) => {
+    setOffsets(current => current.includes(hours)
+      ? current.filter(offset => offset !== hours)
+      : [...current, hours]);
+  };
+
+  const save = async (reset = false) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await saveReminderPreferences(reset ? null : { offsetsHours: offsets, email, inApp });
+      onClose();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save reminder preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const atLimit = settings !== null && offsets.length >= settings.maxOffsets;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100] p-4">
+      <div className="bg-white rounded-2xl max-w-md w-full shadow-2xl">
+        <div className="flex items-start justify-between gap-4 p-4 sm:p-6 border-b">
+          <div className="flex items-center gap-2">
+            <Bell className="w-5 h-5 text-emerald-600" />
+            <h2 className="text-lg sm:text-xl font-bold text-gray-900">Event Reminders</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-5">
+          {!settings ? (
+            error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+              </div>
+            )
+          ) : (
+            <>
+              <div>
+                <p className="text-sm font-medium text-gray-900 mb-1">Remind me before physical drills and community sessions</p>
+                <p className="text-xs text-gray-500 mb-3">
+                  Choose up to {settings.maxOffsets}. Leave all unchecked to turn reminders off.
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {settings.choices.map(hours => {
+                    const checked = offsets.includes(hours);
+                    return (
+                      <label
+                        key={hours}
+                        className={`flex items-center gap-2 px-3 py-2 border rounded-lg text-sm ${
+                          checked ? 'border-emerald-500 bg-emerald-50' : 'border-gray-200'
+                        } ${!checked && atLimit ? 'opacity-50' : 'cursor-pointer'}`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          disabled={!checked && atLimit}
+                          onChange={() => toggleOffset(hours)}
+                        />
+                        {describeOffset(hours)} before
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-900">Send reminders by</p>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={email} onChange={(e) => setEmail(e.target.checked)} />
+                  Email
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={inApp} onChange={(e) => setInApp(e.target.checked)} />
+                  Notifications in LifeCraft
+                </label>
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 p-4 sm:p-6 border-t">
+          <button
+            onClick={() => save(true)}
+            disabled={saving || !settings || settings.preferences.isDefault}
+            className="text-xs text-gray-500 hover:text-gray-800 disabled:opacity-50"
+          >
+            Use defaults
+          </button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => save()}
+              disabled={saving || !settings}
+              className="bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white"
+            >
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Ban, Loader2 } from 'lucide-react';
+import { revokeCertificate } from '@/lib/certificate-utils';
+
+interface RevokeCertificateButtonProps {
+  serial: string;
+  holderName: string;
+  onRevoked: () => void | Promise<void>;
+}
+
+/**
+ * Admin action: asks for a reason, then revokes the certificate
+ */
+export function RevokeCertificateButton({ serial, holderName, onRevoked }: RevokeCertificateButtonProps) {
+  const [revoking, setRevoking] = useState(false);
+
+  const handleRevoke = async () => {
+    const reason = window.prompt(`Revoke certificate ${serial} for ${holderName}?\n\nReason (shown on the verification page):`);
+    if (reason === null) return;
+
+    if (!reason.trim()) {
+      alert('A reason is required to revoke a certificate.');
+      return;
+    }
+
+    setRevoking(true);
+    try {
+      await revokeCertificate(serial, reason.trim());
+      await onRevoked();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to revoke certificate. Please try again.');
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={handleRevoke}
+      disabled={revoking}
+      className="text-red-600 border-red-200 hover:bg-red-50"
+    >
+      {revoking ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : (
+        <>
+          <Ban className="w-4 h-4 sm:mr-1" />
+          <span className="hidden sm:inline text-xs">Revoke</span>
+        </>
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,151 @@
+import type { ReactNode } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkBreaks from 'remark-breaks';
+import remarkDirective from 'remark-directive';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize from 'rehype-sanitize';
+import { AlertOctagon, AlertTriangle, Info, Lightbulb } from 'lucide-react';
+import { getVideoEmbed, remarkContentBlocks, richContentSchema, type CalloutKind } from '@/lib/rich-content';
+
+interface RichContentProps {
+  content: string;
+  className?: string;
+}
+
+const CALLOUT_STYLES: Record<CalloutKind, { label: string; icon: typeof Info; className: string }> = {
+  note: { label: 'Note', icon: Info, className: 'bg-blue-50 border-blue-500 text-blue-900' },
+  tip: { label: 'Tip', icon: Lightbulb, className: 'bg-green-50 border-green-500 text-green-900' },
+  warning: { label: 'Warning', icon: AlertTriangle, className: 'bg-amber-50 border-amber-500 text-amber-900' },
+  danger: { label: 'Danger', icon: AlertOctagon, className: 'bg-red-50 border-red-500 text-red-900' }
+};
+
+function Callout({ kind, title, children }: { kind: CalloutKind; title?: string; children: ReactNode }) {
+  const { label, icon: Icon, className } = CALLOUT_STYLES[kind];
+  return (
+    <div role="note" className={`my-4 p-3 sm:p-4 border-l-4 rounded ${className}`}>
+      <p className="flex items-center gap-2 font-bold text-sm sm:text-base mb-1">
+        <Icon className="w-4 h-4 flex-shrink-0" />
+        {title || label}
+      </p>
+      <div className="text-sm sm:text-base [&_p]:text-inherit [&_li]:text-inherit">{children}</div>
+    </div>
+  );
+}
+
+function Video({ src, title }: { src: string; title?: string }) {
+  const embed = getVideoEmbed(src);
+  if (!embed) {
+    return (
+      <p className="mb-2 text-sm sm:text-base text-gray-800">
+        {/^https?:\/\//i.test(src)
+          ? <a href={src} target="_blank" rel="noopener noreferrer" className="text-red-600 underline">{title || src}</a>
+          : title || src}
+      </p>
+    );
+  }
+
+  return (
+    <figure className="my-4">
+      <div className="relative w-full bg-gray-900 rounded-lg overflow-hidden aspect-video">
+        {embed.kind === 'iframe' ? (
+          <iframe
+            src={embed.src}
+            title={title || 'Video'}
+            className="absolute inset-0 w-full h-full"
+            allow="accelerometer; encrypted-media; gyroscope; picture-in-picture; fullscreen"
+            allowFullScreen
+            loading="lazy"
+          />
+        ) : (
+          <video src={embed.src} controls preload="metadata" className="absolute inset-0 w-full h-full" />
+        )}
+      </div>
+      {title && <figcaption className="mt-2 text-xs sm:text-sm text-gray-600 text-center">{title}</figcaption>}
+    </figure>
+  );
+}
+
+const components: Components = {
+  h1: ({ children }) => <h1 className="text-2xl sm:text-3xl font-bold mt-6 mb-4 text-gray-900">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-xl sm:text-2xl font-bold mt-5 mb-3 text-gray-900">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-lg sm:text-xl font-semibold mt-4 mb-2 text-gray-900">{children}</h3>,
+  h4: ({ children }) => <h4 className="text-base sm:text-lg font-semibold mt-4 mb-2 text-gray-900">{children}</h4>,
+  p: ({ children }) => <p className="mb-3 text-sm sm:text-base text-gray-800 leading-relaxed">{children}</p>,
+  strong: ({ children }) => <strong className="font-bold">{children}</strong>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-red-600 underline hover:text-red-700">{children}</a>
+  ),
+  ul: ({ className, children }) => (
+    <ul className={`mb-3 space-y-1 text-sm sm:text-base text-gray-800 ${className === 'contains-task-list' ? 'pl-1' : 'ml-6 list-disc'}`}>{children}</ul>
+  ),
+  ol: ({ children, start }) => (
+    <ol start={start} className="mb-3 ml-6 list-decimal space-y-1 text-sm sm:text-base text-gray-800">{children}</ol>
+  ),
+  li: ({ className, children }) => (
+    <li className={className === 'task-list-item' ? 'list-none flex items-start gap-2 [&>input]:mt-1.5' : undefined}>{children}</li>
+  ),
+  input: ({ type, checked }) => type === 'checkbox'
+    ? <input type="checkbox" checked={!!checked} readOnly className="w-4 h-4 accent-red-600 flex-shrink-0" />
+    : null,
+  blockquote: ({ children }) => (
+    <blockquote className="my-4 pl-4 border-l-4 border-gray-300 italic text-gray-700">{children}</blockquote>
+  ),
+  code: ({ className, children }) => (
+    <code className={`${className || ''} px-1 py-0.5 rounded bg-gray-100 font-mono text-[0.9em] text-gray-900`}>{children}</code>
+  ),
+  pre: ({ children }) => (
+    <pre className="my-4 p-3 sm:p-4 rounded-lg bg-gray-900 text-gray-100 overflow-x-auto text-sm [&>code]:bg-transparent [&>code]:p-0 [&>code]:text-gray-100">{children}</pre>
+  ),
+  img: ({ src, alt }) => {
+    if (typeof src !== 'string' || !src) return null;
+    // Authors link images from anywhere, so next/image's host allowlist doesn't fit
+    // eslint-disable-next-line @next/next/no-img-element
+    return <img src={src} alt={alt || ''} loading="lazy" className="my-4 max-w-full h-auto rounded-lg border border-gray-200" />;
+  },
+  hr: () => <hr className="my-6 border-gray-200" />,
+  table: ({ children }) => (
+    <div className="my-4 overflow-x-auto">
+      <table className="min-w-full text-sm sm:text-base border border-gray-200">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => <th style={style} className="px-3 py-2 bg-gray-50 border border-gray-200 text-left font-semibold text-gray-900">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="px-3 py-2 border border-gray-200 text-gray-800">{children}</td>,
+  div: ({ node, children }) => {
+    const properties = node?.properties || {};
+    const title = typeof properties.title === 'string' ? properties.title : undefined;
+    if (typeof properties.dataVideo === 'string') {
+      return <Video src={properties.dataVideo} title={title} />;
+    }
+    if (typeof properties.dataCallout === 'string' && properties.dataCallout in CALLOUT_STYLES) {
+      return <Callout kind={properties.dataCallout as CalloutKind} title={title}>{children}</Callout>;
+    }
+    if (properties.dataSteps !== undefined) {
+      return (
+        <div className="my-4 [&_ol]:ml-0 [&_ol]:list-none [&_ol]:space-y-3 [&_ol]:[counter-reset:step] [&_ol>li]:relative [&_ol>li]:pl-10 [&_ol>li]:min-h-7 [&_ol>li]:[counter-increment:step] [&_ol>li]:before:content-[counter(step)] [&_ol>li]:before:absolute [&_ol>li]:before:left-0 [&_ol>li]:before:top-0 [&_ol>li]:before:w-7 [&_ol>li]:before:h-7 [&_ol>li]:before:rounded-full [&_ol>li]:before:bg-red-600 [&_ol>li]:before:text-white [&_ol>li]:before:text-sm [&_ol>li]:before:font-bold [&_ol>li]:before:flex [&_ol>li]:before:items-center [&_ol>li]:before:justify-center">
+          {children}
+        </div>
+      );
+    }
+    return <div>{children}</div>;
+  }
+};
+
+/**
+ * Lesson and tutorial bodies: sanitized Markdown with callouts, step lists,
+ * checklists, images and video (see lib/rich-content). Single line breaks are
+ * kept, as lessons were written line by line.
+ */
+export function RichContent({ content, className }: RichContentProps) {
+  return (
+    <div className={className}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkBreaks, remarkDirective, remarkContentBlocks]}
+        rehypePlugins={[rehypeRaw, [rehypeSanitize, richContentSchema]]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -5,28 +5,26 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
 import { X, Loader2 } from 'lucide-react';
-import { createSession, updateSession, deleteSession, type SessionWithStats } from '@/lib/community-utils';
+import { createSession, createSessionSeries, updateSession, deleteSession, type SessionWithStats } from '@/lib/community-utils';
+import type { Organization } from '@/lib/supabase';
+import { expandRecurrence } from '@/lib/session-recurrence';
+import { SessionRecurrenceFields, NO_RECURRENCE, toRecurrenceRule, type RecurrenceFormValue } from './SessionRecurrenceFields';
 
 interface SessionFormModalProps {
   session?: SessionWithStats | null;
+  // The organizations the user can publish sessions for
+  organizations: Organization[];
   onClose: () => void;
   onSuccess: () => void;
 }
 
-const ORGANIZATIONS = [
-  'Red Cross',
-  'LGUs',
-  'Educational Institutions',
-  'Disaster Agencies'
-];
-
-export function SessionFormModal({ session, onClose, onSuccess }: SessionFormModalProps) {
+export function SessionFormModal({ session, organizations, onClose, onSuccess }: SessionFormModalProps) {
   const isEditing = !!session;
   
   const [formData, setFormData] = useState({
     title: session?.title || '',
     description: session?.description || '',
-    organization: session?.organization || '',
+    organization_id: session?.organization_id || '',
     category: session?.category || 'Medical',
     level: session?.level || 'Beginner',
     date: session?.date || '',
@@ -57,6 +55,7 @@ export function SessionFormModal({ session, onClose, onSuccess }: SessionFormMod
   };
 
   const [timeInputs, setTimeInputs] = useState(parseExistingTime(session?.time || ''));
+  const [recurrence, setRecurrence] = useState<RecurrenceFormValue>(NO_RECURRENCE);
 
   // Get tomorrow's date in YYYY-MM-DD format
   const getTomorrowDate = () => {
@@ -81,8 +80,8 @@ export function SessionFormModal({ session, onClose, onSuccess }: SessionFormMod
       newErrors.title = 'Title is required';
     }
 
-    if (!formData.organization) {
-      newErrors.organization = 'Organization is required';
+    if (!formData.organization_id) {
+      newErrors.organization_id = 'Organization is required';
     }
 
     if (!formData.date) {
@@ -112,6 +111,17 @@ export function SessionFormModal({ session, onClose, onSuccess }: SessionFormMod
       newErrors.capacity = 'Capacity must be at least 1';
     }
 
+    const rule = toRecurrenceRule(recurrence, formData.date);
+    if (rule && rule.frequency !== 'dates' && !rule.endDate) {
+      newErrors.recurrence = 'Pick the date the series ends';
+    } else if (rule) {
+      try {
+        expandRecurrence(rule);
+      } catch (error) {
+        newErrors.recurrence = error instanceof Error ? error.message : 'Invalid schedule';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -146,8 +156,13 @@ export function SessionFormModal({ session, onClose, onSuccess }: SessionFormMod
     try {
       setLoading(true);
       
+      const rule = toRecurrenceRule(recurrence, formData.date);
+
       if (isEditing && session) {
         await updateSession(session.id, formData);
+      } else if (rule) {
+        // The first date comes from the rule
+        await createSessionSeries(formData, rule);
       } else {
         await createSession(formData as any);
       }
@@ -218,18 +233,18 @@ export function SessionFormModal({ session, onClose, onSuccess }: SessionFormMod
               <Label htmlFor="organization" className="text-sm sm:text-base">Organization *</Label>
               <select
                 id="organization"
-                value={formData.organization}
-                onChange={(e) => setFormData({ ...formData, organization: e.target.value })}
+                value={formData.organization_id}
+                onChange={(e) => setFormData({ ...formData, organization_id: e.target.value })}
                 className={`w-full px-2 sm:px-3 py-2 border rounded-md text-sm sm:text-base ${
-                  errors.organization ? 'border-red-500' : 'border-gray-300'
+                  errors.organization_id ? 'border-red-500' : 'border-gray-300'
                 }`}
               >
                 <option value="">Select Organization</option>
-                {ORGANIZATIONS.map(org => (
-                  <option key={org} value={org}>{org}</option>
+                {organizations.map(org => (
+                  <option key={org.id} value={org.id}>{org.name}</option>
                 ))}
               </select>
-              {errors.organization && <p className="text-red-500 text-xs sm:text-sm mt-1">{errors.organization}</p>}
+              {errors.organization_id && <p className="text-red-500 text-xs sm:text-sm mt-1">{errors.organization_id}</p>}
             </div>
 
             <div>
@@ -418,6 +433,15 @@ export function SessionFormModal({ session, onClose, onSuccess }: SessionFormMod
             </div>
           </div>
 
+          {!isEditing && (
+            <SessionRecurrenceFields
+              value={recurrence}
+              startDate={formData.date}
+              onChange={setRecurrence}
+              error={errors.recurrence}
+            />
+          )}
+
           <div>
             <Label htmlFor="location" className="text-sm sm:text-base">Location *</Label>
             <Input
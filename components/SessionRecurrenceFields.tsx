@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  expandRecurrence,
+  type RecurrenceFrequency,
+  type RecurrenceRule
+} from '@/lib/session-recurrence';
+
+export interface RecurrenceFormValue {
+  repeat: 'none' | RecurrenceFrequency;
+  // Last possible date for weekly, biweekly and monthly series
+  until: string;
+  // Extra dates for a 'dates' series
+  dates: string[];
+}
+
+export const NO_RECURRENCE: RecurrenceFormValue = { repeat: 'none', until: '', dates: [] };
+
+/**
+ * Build the rule for a series starting on startDate, or null for a one-off session
+ */
+export function toRecurrenceRule(value: RecurrenceFormValue, startDate: string): RecurrenceRule | null {
+  switch (value.repeat) {
+    case 'none':
+      return null;
+    case 'dates':
+      return { frequency: 'dates', dates: [...new Set([startDate, ...value.dates].filter(Boolean))].sort() };
+    default:
+      return { frequency: value.repeat, startDate, endDate: value.until };
+  }
+}
+
+export function fromRecurrenceRule(rule: RecurrenceRule): { value: RecurrenceFormValue; startDate: string } {
+  if (rule.frequency === 'dates') {
+    return { value: { repeat: 'dates', until: '', dates: rule.dates.slice(1) }, startDate: rule.dates[0] };
+  }
+  return { value: { repeat: rule.frequency, until: rule.endDate, dates: [] }, startDate: rule.startDate };
+}
+
+interface SessionRecurrenceFieldsProps {
+  value: RecurrenceFormValue;
+  // First date of the series
+  startDate: string;
+  onChange: (value: RecurrenceFormValue) => void;
+  // Existing series can change their rule but not stop repeating
+  allowNone?: boolean;
+  error?: string;
+}
+
+const REPEAT_OPTIONS: { value: RecurrenceFormValue['repeat']; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every other week' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'dates', label: 'On specific dates' }
+];
+
+export function SessionRecurrenceFields({ value, startDate, onChange, allowNone = true, error }: SessionRecurrenceFieldsProps) {
+  const [newDate, setNewDate] = useState('');
+
+  const preview = useMemo(() => {
+    const rule = toRecurrenceRule(value, startDate);
+    if (!rule || !startDate || (rule.frequency !== 'dates' && !value.until)) return null;
+    try {
+      const dates = expandRecurrence(rule);
+      return { dates, error: null };
+    } catch (previewError) {
+      return { dates: [], error: previewError instanceof Error ? previewError.message : 'Invalid schedule' };
+    }
+  }, [value, startDate]);
+
+  const addDate = () => {
+    if (!newDate || newDate === startDate || value.dates.includes(newDate)) return;
+    onChange({ ...value, dates: [...value.dates, newDate].sort() });
+    setNewDate('');
+  };
+
+  return (
+    <div className="space-y-3 p-4 border border-gray-200 rounded-lg bg-gray-50">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label htmlFor="repeat" className="text-sm font-medium text-gray-700">
+            Repeats
+          </label>
+          <select
+            id="repeat"
+            value={value.repeat}
+            onChange={(e) => onChange({ ...value, repeat: e.target.value as RecurrenceFormValue['repeat'] })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent bg-white"
+          >
+            {REPEAT_OPTIONS.filter(option => allowNone || option.value !== 'none').map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {(value.repeat === 'weekly' || value.repeat === 'biweekly' || value.repeat === 'monthly') && (
+          <div className="space-y-2">
+            <label htmlFor="repeat-until" className="text-sm font-medium text-gray-700">
+              Until <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="repeat-until"
+              type="date"
+              min={startDate || undefined}
+              value={value.until}
+              onChange={(e) => onChange({ ...value, until: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent bg-white"
+            />
+          </div>
+        )}
+
+        {value.repeat === 'dates' && (
+          <div className="space-y-2">
+            <label htmlFor="repeat-date" className="text-sm font-medium text-gray-700">
+              Add a date
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="repeat-date"
+                type="date"
+                value={newDate}
+                onChange={(e) => setNewDate(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent bg-white"
+              />
+              <button
+                type="button"
+                onClick={addDate}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white hover:bg-gray-100"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {value.repeat === 'dates' && value.dates.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.dates.map(date => (
+            <span key={date} className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-white border border-gray-300 rounded-full">
+              {date}
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, dates: value.dates.filter(d => d !== date) })}
+                className="text-gray-500 hover:text-gray-900"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {preview && !preview.error && (
+        <p className="text-xs text-gray-600">
+          {preview.dates.length} session{preview.dates.length === 1 ? '' : 's'}
+          {preview.dates.length > 0 && `, ${preview.dates[0]} to ${preview.dates[preview.dates.length - 1]}`}
+        </p>
+      )}
+      {(error || preview?.error) && <p className="text-sm text-red-600">{error || preview?.error}</p>}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import { requestPasswordReset } from '@/lib/notification-utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -66,19 +67,12 @@ export default function LoginPage({ onSwitchToRegister }: LoginPageProps) {
     setLoading(true);
 
     try {
-      const { error } = await supabase.auth.resetPasswordForEmail(resetEmail, {
-        redirectTo: `${window.location.origin}/auth/reset-password`,
-      });
-
-      if (error) {
-        setError(error.message || 'Failed to send reset email. Please try again.');
-        setLoading(false);
-        return;
-      }
+      // Sent through the app's notification service rather than Supabase's mailer
+      await requestPasswordReset(resetEmail);
       setResetSent(true);
-    } catch (err: any) {
+    } catch (err) {
       console.log('Password reset error caught:', err);
-      setError('Failed to send reset email. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to send reset email. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { QrCode, ChevronDown, ChevronUp, CheckCircle } from 'lucide-react';
+import { getCheckInPasses, type CheckInPass } from '@/lib/check-in-utils';
+
+interface CheckInPassesProps {
+  userId: string;
+}
+
+// Venues often have poor signal, so the last loaded passes are kept on the device
+function cacheKey(userId: string): string {
+  return `lifecraft:check-in-passes:${userId}`;
+}
+
+function loadCachedPasses(userId: string): CheckInPass[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(localStorage.getItem(cacheKey(userId)) || '[]');
+  } catch {
+    localStorage.removeItem(cacheKey(userId));
+    return [];
+  }
+}
+
+/**
+ * QR check-in codes for the user's approved, upcoming drills and sessions.
+ * Renders nothing when there are none.
+ */
+export function CheckInPasses({ userId }: CheckInPassesProps) {
+  const [passes, setPasses] = useState<CheckInPass[]>(() => loadCachedPasses(userId));
+  const [openPass, setOpenPass] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCheckInPasses()
+      .then(loaded => {
+        setPasses(loaded);
+        localStorage.setItem(cacheKey(userId), JSON.stringify(loaded));
+      })
+      .catch(error => console.warn('Check-in passes unavailable, showing cached codes:', error));
+  }, [userId]);
+
+  if (passes.length === 0) return null;
+
+  return (
+    <Card className="p-3 xs:p-4 sm:p-6 hover:shadow-lg transition-all duration-300">
+      <div className="flex items-center gap-1.5 xs:gap-2 mb-3 xs:mb-4">
+        <div className="w-8 h-8 bg-gradient-to-br from-gray-700 to-gray-900 rounded-lg flex items-center justify-center">
+          <QrCode className="w-4 h-4 sm:w-5 sm:h-5 text-white flex-shrink-0" />
+        </div>
+        <h2 className="text-base xs:text-lg sm:text-xl font-bold text-gray-900">Check-in Codes</h2>
+      </div>
+
+      <div className="space-y-2">
+        {passes.map(pass => {
+          const isOpen = openPass === pass.registrationId;
+          return (
+            <div key={pass.registrationId} className="border border-gray-200 rounded-lg">
+              <button
+                onClick={() => setOpenPass(isOpen ? null : pass.registrationId)}
+                className="w-full flex items-center justify-between gap-2 p-3 text-left hover:bg-gray-50 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{pass.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {pass.date && new Date(`${pass.date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    {pass.time && ` · ${pass.time}`}
+                  </p>
+                </div>
+                {pass.checkedInAt ? (
+                  <Badge className="bg-green-100 text-green-700 border-green-200 text-xs flex-shrink-0">
+                    <CheckCircle className="w-3 h-3 mr-1" />
+                    Checked in
+                  </Badge>
+                ) : isOpen ? (
+                  <ChevronUp className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                ) : (
+                  <ChevronDown className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                )}
+              </button>
+
+              {isOpen && (
+                <div className="px-3 pb-3 text-center">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={pass.qrDataUrl} alt={`Check-in code for ${pass.title}`} className="w-48 h-48 mx-auto" />
+                  <p className="text-xs text-gray-500 mt-2">Show this code to the instructor when you arrive.</p>
+                  {pass.location && <p className="text-xs text-gray-500">📍 {pass.location}</p>}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
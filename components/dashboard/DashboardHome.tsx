@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { supabase, type Profile, type Module, type UserModule } from '@/lib/supabase';
+import { authorizedFetch } from '@/lib/api-client';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
@@ -93,7 +94,7 @@ export default function DashboardHome({ profile }: DashboardHomeProps) {
       }));
 
       // Call AI recommendation API
-      const response = await fetch('/api/ai-recommendations', {
+      const response = await authorizedFetch('/api/ai-recommendations', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
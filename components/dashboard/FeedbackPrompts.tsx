@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { MessageSquare } from 'lucide-react';
+import { FeedbackSurveyModal } from '@/components/FeedbackSurveyModal';
+import { FEEDBACK_TARGET_LABELS, getPendingFeedback, type PendingFeedback } from '@/lib/feedback-utils';
+
+interface FeedbackPromptsProps {
+  userId: string;
+}
+
+function promptKey(pending: PendingFeedback): string {
+  return `${pending.survey.id}:${pending.targetId}`;
+}
+
+/**
+ * Feedback surveys waiting on the user for sessions, drills and modules
+ * they've completed. Renders nothing when there are none.
+ */
+export function FeedbackPrompts({ userId }: FeedbackPromptsProps) {
+  const [prompts, setPrompts] = useState<PendingFeedback[]>([]);
+  const [answering, setAnswering] = useState<PendingFeedback | null>(null);
+
+  const loadPrompts = useCallback(() => {
+    getPendingFeedback(userId)
+      .then(setPrompts)
+      .catch(error => console.warn('Feedback surveys unavailable:', error));
+  }, [userId]);
+
+  useEffect(() => {
+    loadPrompts();
+  }, [loadPrompts]);
+
+  if (prompts.length === 0) return null;
+
+  return (
+    <Card className="p-3 xs:p-4 sm:p-6 hover:shadow-lg transition-all duration-300 border-red-100">
+      <div className="flex items-center gap-1.5 xs:gap-2 mb-1">
+        <div className="w-8 h-8 bg-gradient-to-br from-red-500 to-rose-600 rounded-lg flex items-center justify-center">
+          <MessageSquare className="w-4 h-4 sm:w-5 sm:h-5 text-white flex-shrink-0" />
+        </div>
+        <h2 className="text-base xs:text-lg sm:text-xl font-bold text-gray-900">Share Your Feedback</h2>
+      </div>
+      <p className="text-xs sm:text-sm text-gray-600 mb-3 xs:mb-4">
+        Tell us how your training went; it takes a minute.
+      </p>
+
+      <div className="space-y-2">
+        {prompts.map(pending => (
+          <div key={promptKey(pending)} className="flex items-center justify-between gap-2 p-3 border border-gray-200 rounded-lg">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{pending.targetTitle}</p>
+              <p className="text-xs text-gray-500 truncate">
+                {FEEDBACK_TARGET_LABELS[pending.targetKind]} · {pending.survey.title}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => setAnswering(pending)}
+              className="bg-red-600 hover:bg-red-700 text-white flex-shrink-0"
+            >
+              Start
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {answering && (
+        <FeedbackSurveyModal
+          pending={answering}
+          onClose={() => setAnswering(null)}
+          onSubmitted={loadPrompts}
+        />
+      )}
+    </Card>
+  );
+}
@@ -4,7 +4,8 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Award, Loader2, Download, ChevronDown, ChevronUp } from 'lucide-react';
 import { getCompletedUsersByTutorial, type Tutorial } from '@/lib/first-aid-utils';
-import { generateFirstAidCertificate } from './CertificatePDF';
+import { downloadCertificate, issueCertificate } from '@/lib/certificate-utils';
+import { RevokeCertificateButton } from '@/components/RevokeCertificateButton';
 
 interface CertificateManagementProps {
   tutorials: Tutorial[];
@@ -58,8 +59,11 @@ export function CertificateManagement({ tutorials }: CertificateManagementProps)
     setGeneratingCert(certKey);
 
     try {
-      await generateFirstAidCertificate(user, tutorial);
+      // user.id is the user_tutorial_progress row
+      const { url } = await issueCertificate('first_aid', user.id);
+      await downloadCertificate(url, user.profiles?.full_name || 'Unknown User', tutorial.title);
       alert('Certificate generated successfully!');
+      loadCompletedUsers();
     } catch (error) {
       console.error('Error generating certificate:', error);
       alert('Failed to generate certificate.');
@@ -147,24 +151,33 @@ export function CertificateManagement({ tutorials }: CertificateManagementProps)
                             Completed: {new Date(user.completion_date).toLocaleDateString()}
                           </p>
                         </div>
-                        <Button
-                          onClick={() => handleGenerateCertificate(user, tutorial)}
-                          disabled={isGenerating}
-                          className="bg-purple-600 hover:bg-purple-700 text-white ml-3"
-                          size="sm"
-                        >
-                          {isGenerating ? (
-                            <>
-                              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
-                              <span className="text-xs">Generating...</span>
-                            </>
-                          ) : (
-                            <>
-                              <Download className="w-4 h-4 mr-1" />
-                              <span className="text-xs">Generate</span>
-                            </>
+                        <div className="flex items-center gap-2 ml-3">
+                          {user.certificate_url && user.certificate_serial && (
+                            <RevokeCertificateButton
+                              serial={user.certificate_serial}
+                              holderName={user.profiles?.full_name || 'Unknown User'}
+                              onRevoked={loadCompletedUsers}
+                            />
                           )}
-                        </Button>
+                          <Button
+                            onClick={() => handleGenerateCertificate(user, tutorial)}
+                            disabled={isGenerating}
+                            className="bg-purple-600 hover:bg-purple-700 text-white"
+                            size="sm"
+                          >
+                            {isGenerating ? (
+                              <>
+                                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                                <span className="text-xs">Generating...</span>
+                              </>
+                            ) : (
+                              <>
+                                <Download className="w-4 h-4 mr-1" />
+                                <span className="text-xs">Generate</span>
+                              </>
+                            )}
+                          </Button>
+                        </div>
                       </div>
                     );
                   })}
@@ -9,9 +9,12 @@ import { ModulesPage } from '@/components/ModulesPage';
 import { DrillsPage } from '@/components/DrillsPage';
 import { FirstAidPage } from '@/components/FirstAidPage';
 import { CommunityTraining } from '@/components/CommunityTraining';
+import { OrganizationsPage } from '@/components/OrganizationsPage';
 import { AdminPortal } from '@/components/AdminPortal';
+import { NotificationBell } from '@/components/NotificationBell';
+import { ReminderPreferencesModal } from '@/components/ReminderPreferencesModal';
 
-type Page = 'dashboard' | 'modules' | 'drills' | 'firstaid' | 'community' | 'admin';
+type Page = 'dashboard' | 'modules' | 'drills' | 'firstaid' | 'community' | 'organizations' | 'admin';
 
 interface DashboardLayoutProps {
   user: User;
@@ -25,6 +28,7 @@ const NAV_ITEMS = {
     { id: 'drills', label: 'Drills', icon: '🎯', showFor: ['student', 'admin', 'instructor'] },
     { id: 'firstaid', label: 'First Aid', icon: '🏥', showFor: ['student', 'admin', 'instructor'] },
     { id: 'community', label: 'Community', icon: '👥', showFor: ['student', 'admin', 'instructor'] },
+    { id: 'organizations', label: 'Organizations', icon: '🏢', showFor: ['student', 'admin', 'instructor'] },
   ],
   admin: [
     { id: 'admin', label: 'Admin', icon: '⚙️', showFor: ['admin', 'instructor'] },
@@ -40,6 +44,7 @@ export default function DashboardLayout({ user }: DashboardLayoutProps) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
+  const [showReminderSettings, setShowReminderSettings] = useState(false);
 
   // Load profile on mount and subscribe to changes
   useEffect(() => {
@@ -66,11 +71,13 @@ export default function DashboardLayout({ user }: DashboardLayoutProps) {
     };
   }, [user.id]);
 
-  // Redirect admin/instructor users from dashboard to admin page
+  // Redirect admins to the admin page and instructors to the sessions they teach
   useEffect(() => {
-    if (profile && (profile.role === 'admin' || profile.role === 'instructor')) {
-      if (currentPage === 'dashboard') {
+    if (profile && currentPage === 'dashboard') {
+      if (profile.role === 'admin') {
         setCurrentPage('admin');
+      } else if (profile.role === 'instructor') {
+        setCurrentPage('community');
       }
     }
   }, [profile, currentPage]);
@@ -181,7 +188,7 @@ export default function DashboardLayout({ user }: DashboardLayoutProps) {
 
   if (!profile) return null;
 
-  const isAdmin = profile.role === 'admin' || profile.role === 'instructor';
+  const isStaff = profile.role === 'admin' || profile.role === 'instructor';
   const isStudent = profile.role === 'student';
   const navItems = getNavItems();
 
@@ -228,6 +235,10 @@ export default function DashboardLayout({ user }: DashboardLayoutProps) {
         </div>
       )}
 
+      {showReminderSettings && (
+        <ReminderPreferencesModal onClose={() => setShowReminderSettings(false)} />
+      )}
+
       {/* Navigation Bar */}
       <nav className="bg-white/80 backdrop-blur-lg shadow-sm border-b border-gray-200 sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -263,6 +274,11 @@ export default function DashboardLayout({ user }: DashboardLayoutProps) {
               </div>
             </div>
 
+            {/* Notifications - one bell for desktop and mobile, next to the right side */}
+            <div className="ml-auto mr-2 md:mr-4 flex items-center">
+              <NotificationBell userId={user.id} onOpenSettings={() => setShowReminderSettings(true)} />
+            </div>
+
             {/* Right side - User Info and Actions */}
             <div className="hidden md:flex items-center gap-4">
               {/* Points Badge (Students only) */}
@@ -283,7 +299,7 @@ export default function DashboardLayout({ user }: DashboardLayoutProps) {
                     {profile.full_name || user.email}
                   </div>
                   <div className="text-xs text-gray-600 font-medium">
-                    {isAdmin ? profile.role.charAt(0).toUpperCase() + profile.role.slice(1) : profile.rank}
+                    {isStaff ? profile.role.charAt(0).toUpperCase() + profile.role.slice(1) : profile.rank}
                   </div>
                 </div>
                 <button
@@ -342,7 +358,7 @@ export default function DashboardLayout({ user }: DashboardLayoutProps) {
                     {profile.full_name || user.email}
                   </div>
                   <div className="text-xs text-gray-600 font-medium">
-                    {isAdmin ? profile.role.charAt(0).toUpperCase() + profile.role.slice(1) : profile.rank}
+                    {isStaff ? profile.role.charAt(0).toUpperCase() + profile.role.slice(1) : profile.rank}
                   </div>
                 </div>
               </div>
@@ -388,7 +404,8 @@ export default function DashboardLayout({ user }: DashboardLayoutProps) {
         {currentPage === 'drills' && <DrillsPage profile={profile} />}
         {currentPage === 'firstaid' && <FirstAidPage profile={profile} />}
         {currentPage === 'community' && <CommunityTraining profile={profile} />}
-        {currentPage === 'admin' && isAdmin && <AdminPortal profile={profile} />}
+        {currentPage === 'organizations' && <OrganizationsPage profile={profile} />}
+        {currentPage === 'admin' && isStaff && <AdminPortal profile={profile} />}
       </main>
     </div>
   );
@@ -0,0 +1,86 @@
+import type { ReactNode } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { BookOpen, Clock } from 'lucide-react';
+import type { Lesson, QuizQuestion } from '@/lib/supabase';
+import type { QuestionResponse } from '@/lib/question-types';
+import { RichContent } from '@/components/RichContent';
+import { QuestionResponseInput } from '@/components/QuestionResponseInput';
+
+/**
+ * How lessons and quiz questions look to students. Shared by the lesson
+ * viewer and the authoring preview so the preview can't drift from it.
+ */
+
+export type LessonDisplay = Pick<Lesson, 'title' | 'description' | 'content' | 'order_number' | 'duration'>;
+export type QuizQuestionDisplay = Pick<
+  QuizQuestion,
+  'question' | 'question_type' | 'options' | 'correct_answer' | 'answer_key' | 'explanation'
+>;
+
+interface LessonArticleProps {
+  lesson: LessonDisplay;
+  // Shown opposite the lesson badges, e.g. the student's best score
+  aside?: ReactNode;
+}
+
+export function LessonArticle({ lesson, aside }: LessonArticleProps) {
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline" className="flex items-center gap-1 bg-blue-50 text-blue-700 border-blue-200 text-xs">
+            <BookOpen className="w-3 h-3" />
+            Lesson {lesson.order_number}
+          </Badge>
+          <Badge variant="outline" className="flex items-center gap-1 bg-purple-50 text-purple-700 border-purple-200 text-xs">
+            <Clock className="w-3 h-3" />
+            {lesson.duration}
+          </Badge>
+        </div>
+        {aside}
+      </div>
+
+      <h3 className="text-2xl sm:text-3xl font-bold mb-3 text-gray-900">{lesson.title}</h3>
+      <p className="text-gray-600 text-base sm:text-lg mb-6 pb-4 border-b-2 border-gray-200">{lesson.description}</p>
+
+      <RichContent content={lesson.content} className="max-w-none" />
+    </div>
+  );
+}
+
+interface QuizQuestionCardProps {
+  question: QuizQuestionDisplay;
+  index: number;
+  response: QuestionResponse;
+  // Marks the correct answer and shows the explanation
+  showResult: boolean;
+  disabled: boolean;
+  onChange: (response: QuestionResponse) => void;
+}
+
+export function QuizQuestionCard({ question, index, response, showResult, disabled, onChange }: QuizQuestionCardProps) {
+  return (
+    <Card className="p-4 sm:p-6 bg-gray-50 border-2 border-gray-200">
+      <h4 className="font-semibold mb-4 text-gray-900 text-base sm:text-lg">
+        Question {index + 1}: {question.question}
+      </h4>
+
+      <QuestionResponseInput
+        question={question}
+        response={response}
+        showResult={showResult}
+        disabled={disabled}
+        onChange={onChange}
+      />
+
+      {showResult && question.explanation && (
+        <div className="mt-4 p-3 sm:p-4 bg-blue-50 border-l-4 border-blue-500 rounded">
+          <p className="text-xs sm:text-sm text-blue-900">
+            <strong className="font-bold">Explanation:</strong> {question.explanation}
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+}
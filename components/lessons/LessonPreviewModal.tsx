@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ArrowRight, CheckCircle, RotateCcw, X } from 'lucide-react';
+import { initialResponse, isAnswered, type QuestionResponse } from '@/lib/question-types';
+import { LessonArticle, QuizQuestionCard, type LessonDisplay, type QuizQuestionDisplay } from './LessonContent';
+
+interface LessonPreviewModalProps {
+  moduleTitle: string;
+  lesson: LessonDisplay;
+  questions: QuizQuestionDisplay[];
+  onClose: () => void;
+}
+
+/**
+ * A lesson and its quiz as students see them in the lesson viewer, including
+ * unsaved edits. Answers are only checked here; nothing is recorded.
+ */
+export function LessonPreviewModal({ moduleTitle, lesson, questions, onClose }: LessonPreviewModalProps) {
+  const [showQuiz, setShowQuiz] = useState(false);
+  const [responses, setResponses] = useState<QuestionResponse[]>(() => questions.map(question => initialResponse(question)));
+  const [checked, setChecked] = useState(false);
+
+  const resetQuiz = () => {
+    setResponses(questions.map(question => initialResponse(question)));
+    setChecked(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center z-[70] p-2 sm:p-4 overflow-y-auto">
+      <Card className="w-full max-w-5xl my-4 sm:my-8 bg-white shadow-2xl rounded-xl overflow-hidden">
+        <div className="bg-gradient-to-r from-red-600 to-orange-600 text-white p-4 sm:p-6">
+          <div className="flex items-start sm:items-center justify-between gap-3 sm:gap-4">
+            <div className="flex-1 min-w-0">
+              <h2 className="text-xl sm:text-2xl font-bold mb-1 truncate">{moduleTitle}</h2>
+              <p className="text-red-100 text-xs sm:text-sm">
+                Lesson {lesson.order_number}
+                <Badge className="ml-2 bg-white text-red-600 text-xs">Preview</Badge>
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onClose}
+              className="bg-white text-red-600 hover:bg-red-50 border-0 text-xs sm:text-sm"
+            >
+              <X className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-1" />
+              <span className="hidden sm:inline">Close Preview</span>
+            </Button>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 lg:p-8 bg-white max-h-[50vh] sm:max-h-[60vh] overflow-y-auto">
+          {!showQuiz ? (
+            <LessonArticle lesson={lesson} />
+          ) : (
+            <div>
+              <div className="mb-4">
+                <h3 className="text-xl sm:text-2xl font-bold text-gray-900">Lesson Quiz</h3>
+                <p className="text-sm sm:text-base text-gray-600">Test your knowledge before moving forward</p>
+              </div>
+
+              <div className="space-y-4 sm:space-y-6">
+                {questions.map((question, qIndex) => (
+                  <QuizQuestionCard
+                    key={qIndex}
+                    question={question}
+                    index={qIndex}
+                    response={responses[qIndex]}
+                    showResult={checked}
+                    disabled={checked}
+                    onChange={(response) => setResponses(current =>
+                      current.map((answer, i) => (i === qIndex ? response : answer)))}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="border-t-2 border-gray-200 p-4 sm:p-6 bg-gray-50 flex flex-col sm:flex-row items-center justify-between gap-3">
+          <Button
+            variant="outline"
+            onClick={() => setShowQuiz(false)}
+            disabled={!showQuiz}
+            className="flex items-center gap-2 border-2 w-full sm:w-auto text-sm"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Lesson
+          </Button>
+
+          {!showQuiz ? (
+            <Button
+              onClick={() => setShowQuiz(true)}
+              disabled={questions.length === 0}
+              className="bg-red-600 hover:bg-red-700 text-white flex items-center gap-2 shadow-md w-full sm:w-auto text-sm"
+            >
+              {questions.length > 0 ? 'Take Quiz' : 'No Quiz'}
+              <ArrowRight className="w-4 h-4" />
+            </Button>
+          ) : checked ? (
+            <Button
+              onClick={resetQuiz}
+              variant="outline"
+              className="flex items-center gap-2 border-2 w-full sm:w-auto text-sm"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Try Again
+            </Button>
+          ) : (
+            <Button
+              onClick={() => setChecked(true)}
+              disabled={!questions.every((question, index) => isAnswered(question, responses[index]))}
+              className="bg-red-600 hover:bg-red-700 text-white flex items-center gap-2 shadow-md w-full sm:w-auto text-sm"
+            >
+              Submit Quiz
+              <CheckCircle className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,568 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowDown, ArrowUp, Eye, GripVertical, Library, Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import {
+  createLesson,
+  deleteLesson,
+  getModuleLessons,
+  getModuleQuestionBank,
+  reorderLessons,
+  saveModuleQuestionBank,
+  updateLesson,
+  type LessonInput,
+  type LessonWithQuestions,
+  type QuizQuestion,
+  type QuizQuestionInput
+} from '@/lib/lesson-utils';
+import { LessonPreviewModal } from './LessonPreviewModal';
+import { QuizQuestionsEditor } from './QuizQuestionsEditor';
+
+interface ModuleLessonsWorkspaceProps {
+  module: { id: string; title: string };
+  // Called on close if anything was saved, to refresh the lesson count
+  onClose: (changed: boolean) => void;
+}
+
+// The lesson being edited, a new one, or the module's question bank
+type Selection = string | 'new' | 'bank' | null;
+
+const EMPTY_LESSON: LessonInput = {
+  title: '',
+  description: '',
+  content: '',
+  duration: '',
+  quiz_question_count: null,
+  quiz_uses_module_bank: false
+};
+
+function questionInputs(questions: QuizQuestion[]): QuizQuestionInput[] {
+  return questions.map(({ id, question, question_type, options, correct_answer, answer_key, explanation, topic, difficulty }) =>
+    ({ id, question, question_type, options, correct_answer, answer_key, explanation, topic, difficulty }));
+}
+
+/**
+ * Write a module's lessons, quizzes and question bank: add, edit, delete, drag
+ * into order and preview as students see them (admins)
+ */
+export function ModuleLessonsWorkspace({ module, onClose }: ModuleLessonsWorkspaceProps) {
+  const [lessons, setLessons] = useState<LessonWithQuestions[] | null>(null);
+  const [bank, setBank] = useState<QuizQuestion[]>([]);
+  const [selection, setSelection] = useState<Selection>(null);
+  const [dirty, setDirty] = useState(false);
+  const [changed, setChanged] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [reordering, setReordering] = useState(false);
+
+  const loadLessons = useCallback(() => getModuleLessons(module.id)
+    .then(loaded => {
+      setLessons(loaded);
+      return loaded;
+    })
+    .catch(error => {
+      alert(error instanceof Error ? error.message : 'Failed to load lessons');
+      setLessons(current => current || []);
+      return null;
+    }), [module.id]);
+
+  const loadBank = useCallback(() => getModuleQuestionBank(module.id)
+    .then(setBank)
+    .catch(error => alert(error instanceof Error ? error.message : 'Failed to load the question bank')), [module.id]);
+
+  useEffect(() => {
+    loadLessons().then(loaded => {
+      if (loaded?.length) setSelection(loaded[0].id);
+    });
+    loadBank();
+  }, [loadLessons, loadBank]);
+
+  const confirmDiscard = () => !dirty || confirm('Discard your unsaved changes?');
+
+  const select = (next: Selection) => {
+    if (next === selection || !confirmDiscard()) return;
+    setDirty(false);
+    setSelection(next);
+  };
+
+  const handleClose = () => {
+    if (confirmDiscard()) onClose(changed);
+  };
+
+  const saveOrder = async (ordered: LessonWithQuestions[]) => {
+    try {
+      setReordering(true);
+      await reorderLessons(module.id, ordered.map(lesson => lesson.id));
+      setChanged(true);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to reorder lessons');
+    } finally {
+      setReordering(false);
+      await loadLessons();
+    }
+  };
+
+  const moveLesson = (from: number, to: number, persist: boolean) => {
+    if (!lessons || from === to || to < 0 || to >= lessons.length) return;
+    const ordered = [...lessons];
+    const [moved] = ordered.splice(from, 1);
+    ordered.splice(to, 0, moved);
+    // Renumbered locally straight away; saveOrder makes it stick
+    const renumbered = ordered.map((lesson, index) => ({ ...lesson, order_number: index + 1 }));
+    setLessons(renumbered);
+    if (persist) saveOrder(renumbered);
+  };
+
+  const handleSaved = async (lessonId: string | null) => {
+    setDirty(false);
+    setChanged(true);
+    const loaded = await loadLessons();
+    // A new lesson is selected once it's saved, at the end of the list
+    if (loaded && !lessonId) setSelection(loaded[loaded.length - 1]?.id ?? null);
+  };
+
+  const handleBankSaved = async () => {
+    setDirty(false);
+    setChanged(true);
+    await loadBank();
+  };
+
+  const handleDeleted = async () => {
+    setDirty(false);
+    setChanged(true);
+    setSelection(null);
+    await loadLessons();
+  };
+
+  const selected = lessons?.find(lesson => lesson.id === selection) || null;
+  const topics = [...new Set([...(lessons || []).flatMap(lesson => lesson.quiz_questions), ...bank]
+    .map(question => question.topic?.trim())
+    .filter((topic): topic is string => !!topic))].sort((a, b) => a.localeCompare(b));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-2 sm:p-4">
+      <div className="bg-white rounded-2xl w-full max-w-6xl h-[95vh] flex flex-col shadow-2xl">
+        <div className="flex items-start justify-between gap-4 p-4 sm:p-6 border-b">
+          <div className="min-w-0">
+            <h2 className="text-lg sm:text-xl font-bold text-gray-900">Edit Lessons</h2>
+            <p className="text-sm text-gray-600 truncate">{module.title}</p>
+          </div>
+          <button onClick={handleClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!lessons ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 animate-spin text-red-600" />
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+            <div className="md:w-72 flex-shrink-0 border-b md:border-b-0 md:border-r flex flex-col max-h-[30vh] md:max-h-none">
+              <div className="flex items-center justify-between px-4 py-3">
+                <span className="text-sm font-medium text-gray-700">
+                  {lessons.length} lesson{lessons.length === 1 ? '' : 's'}
+                </span>
+                {reordering && <Loader2 className="w-4 h-4 animate-spin text-gray-500" />}
+              </div>
+
+              <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-1">
+                {lessons.map((lesson, index) => (
+                  <div
+                    key={lesson.id}
+                    draggable={!reordering}
+                    onDragStart={() => setDragIndex(index)}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      if (dragIndex !== null && dragIndex !== index) {
+                        moveLesson(dragIndex, index, false);
+                        setDragIndex(index);
+                      }
+                    }}
+                    onDrop={(e) => e.preventDefault()}
+                    onDragEnd={() => {
+                      setDragIndex(null);
+                      saveOrder(lessons);
+                    }}
+                    onClick={() => select(lesson.id)}
+                    className={`group flex items-center gap-2 px-2 py-2 rounded-lg cursor-pointer border ${
+                      selection === lesson.id ? 'border-gray-900 bg-gray-50' : 'border-transparent hover:bg-gray-50'
+                    } ${dragIndex === index ? 'opacity-50' : ''}`}
+                  >
+                    <GripVertical className="w-4 h-4 text-gray-400 flex-shrink-0 cursor-grab" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {lesson.order_number}. {lesson.title}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {lesson.quiz_questions.length} quiz question{lesson.quiz_questions.length === 1 ? '' : 's'}
+                        {lesson.quiz_uses_module_bank && ' + bank'}
+                        {lesson.quiz_question_count !== null && `, ${lesson.quiz_question_count} per attempt`}
+                      </p>
+                    </div>
+                    <div className="flex flex-col opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          moveLesson(index, index - 1, true);
+                        }}
+                        disabled={index === 0 || reordering}
+                        className="text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ArrowUp className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          moveLesson(index, index + 1, true);
+                        }}
+                        disabled={index === lessons.length - 1 || reordering}
+                        className="text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="p-3 border-t space-y-2">
+                <Button
+                  onClick={() => select('new')}
+                  variant="outline"
+                  size="sm"
+                  className={`w-full ${selection === 'new' ? 'border-gray-900' : ''}`}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Lesson
+                </Button>
+                <Button
+                  onClick={() => select('bank')}
+                  variant="outline"
+                  size="sm"
+                  className={`w-full ${selection === 'bank' ? 'border-gray-900' : ''}`}
+                >
+                  <Library className="w-4 h-4 mr-2" />
+                  Question Bank ({bank.length})
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto">
+              {selection === 'bank' ? (
+                <QuestionBankEditor
+                  // Starts over from the saved bank once it's loaded or saved
+                  key={bank.map(question => question.id).join()}
+                  moduleId={module.id}
+                  bank={bank}
+                  topics={topics}
+                  onDirty={() => setDirty(true)}
+                  onSaved={handleBankSaved}
+                />
+              ) : selection === 'new' || selected ? (
+                <LessonEditor
+                  key={selection}
+                  moduleId={module.id}
+                  moduleTitle={module.title}
+                  lesson={selected}
+                  nextOrderNumber={lessons.length + 1}
+                  bankSize={bank.length}
+                  topics={topics}
+                  onDirty={() => setDirty(true)}
+                  onSaved={() => handleSaved(selected?.id ?? null)}
+                  onDeleted={handleDeleted}
+                />
+              ) : (
+                <div className="h-full flex items-center justify-center p-6 text-center">
+                  <p className="text-sm text-gray-600">
+                    {lessons.length === 0
+                      ? 'This module has no lessons yet. Add the first one to get started.'
+                      : 'Choose a lesson to edit, or drag lessons to reorder them.'}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface LessonEditorProps {
+  moduleId: string;
+  moduleTitle: string;
+  // null for a new lesson
+  lesson: LessonWithQuestions | null;
+  nextOrderNumber: number;
+  // Questions in the module's bank, which the lesson can draw from too
+  bankSize: number;
+  topics: string[];
+  onDirty: () => void;
+  onSaved: () => void;
+  onDeleted: () => void;
+}
+
+function LessonEditor({
+  moduleId,
+  moduleTitle,
+  lesson,
+  nextOrderNumber,
+  bankSize,
+  topics,
+  onDirty,
+  onSaved,
+  onDeleted
+}: LessonEditorProps) {
+  const [formData, setFormData] = useState<LessonInput>(() => lesson
+    ? {
+      title: lesson.title,
+      description: lesson.description || '',
+      content: lesson.content,
+      duration: lesson.duration || '',
+      quiz_question_count: lesson.quiz_question_count,
+      quiz_uses_module_bank: lesson.quiz_uses_module_bank
+    }
+    : EMPTY_LESSON);
+  const [questions, setQuestions] = useState<QuizQuestionInput[]>(() => lesson ? questionInputs(lesson.quiz_questions) : []);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+
+  const updateForm = (changes: Partial<LessonInput>) => {
+    setFormData(current => ({ ...current, ...changes }));
+    onDirty();
+  };
+
+  const setQuestionList = (next: QuizQuestionInput[]) => {
+    setQuestions(next);
+    onDirty();
+  };
+
+  const poolSize = questions.length + (formData.quiz_uses_module_bank ? bankSize : 0);
+  const perAttempt = Math.min(formData.quiz_question_count ?? poolSize, poolSize);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      if (lesson) {
+        await updateLesson(lesson, formData, questions);
+      } else {
+        await createLesson(moduleId, formData, questions);
+      }
+      onSaved();
+    } catch (error) {
+      alert('Error saving lesson: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!lesson || !confirm(`Delete "${lesson.title}"? Its quiz and everyone's progress on it are deleted too.`)) {
+      return;
+    }
+
+    try {
+      setDeleting(true);
+      await deleteLesson(lesson);
+      onDeleted();
+    } catch (error) {
+      alert('Error deleting lesson: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 sm:p-6 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="md:col-span-3">
+          <Label htmlFor="lesson-title">Lesson Title *</Label>
+          <Input
+            id="lesson-title"
+            value={formData.title}
+            onChange={(e) => updateForm({ title: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="lesson-duration">Duration</Label>
+          <Input
+            id="lesson-duration"
+            placeholder="e.g., 10 min"
+            value={formData.duration}
+            onChange={(e) => updateForm({ duration: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="lesson-description">Summary</Label>
+        <Input
+          id="lesson-description"
+          value={formData.description || ''}
+          onChange={(e) => updateForm({ description: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="lesson-content">Content *</Label>
+        <Textarea
+          id="lesson-content"
+          value={formData.content}
+          onChange={(e) => updateForm({ content: e.target.value })}
+          rows={14}
+          className="font-mono text-sm"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Markdown: # headings, **bold**, - lists, - [ ] checklists, [links](https://…), ![images](https://…) and tables.
+          Blocks: :::tip, :::note, :::warning or :::danger callouts and :::steps lists, each closed with :::,
+          and ::video{'{'}src=&quot;https://youtu.be/…&quot;{'}'} for video. Use Preview to check the result.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Quiz</Label>
+          <span className="text-xs text-gray-500">
+            {poolSize === 0
+              ? 'No quiz: students go straight to the next lesson'
+              : `${perAttempt} of ${poolSize} question${poolSize === 1 ? '' : 's'} per attempt`}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="lesson-quiz-count" className="font-normal">Questions per attempt</Label>
+            <Input
+              id="lesson-quiz-count"
+              type="number"
+              min="1"
+              placeholder="All"
+              value={formData.quiz_question_count ?? ''}
+              onChange={(e) => updateForm({ quiz_question_count: e.target.value === '' ? null : parseInt(e.target.value) })}
+              className="w-24"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.quiz_uses_module_bank}
+              onChange={(e) => updateForm({ quiz_uses_module_bank: e.target.checked })}
+            />
+            Also draw from the module&apos;s question bank ({bankSize})
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">
+          Each attempt draws its questions at random, spread over their topics and difficulties, and
+          shuffles the answer options.
+        </p>
+
+        <QuizQuestionsEditor name="question" questions={questions} topics={topics} onChange={setQuestionList} />
+      </div>
+
+      <div className="flex flex-wrap gap-2 pt-4 border-t">
+        {lesson && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleDelete}
+            disabled={saving || deleting}
+            className="text-red-600 border-red-300 hover:bg-red-50"
+          >
+            {deleting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+            Delete
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setPreviewing(true)}
+          className="ml-auto"
+        >
+          <Eye className="w-4 h-4 mr-2" />
+          Preview
+        </Button>
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || deleting}
+          className="bg-red-600 hover:bg-red-700 text-white"
+        >
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          {lesson ? 'Save Lesson' : 'Add Lesson'}
+        </Button>
+      </div>
+
+      {previewing && (
+        <LessonPreviewModal
+          moduleTitle={moduleTitle}
+          lesson={{ ...formData, order_number: lesson?.order_number ?? nextOrderNumber }}
+          questions={questions}
+          onClose={() => setPreviewing(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface QuestionBankEditorProps {
+  moduleId: string;
+  bank: QuizQuestion[];
+  topics: string[];
+  onDirty: () => void;
+  onSaved: () => void;
+}
+
+/**
+ * The module's question bank, which lessons can draw quiz questions from
+ */
+function QuestionBankEditor({ moduleId, bank, topics, onDirty, onSaved }: QuestionBankEditorProps) {
+  const [questions, setQuestions] = useState<QuizQuestionInput[]>(() => questionInputs(bank));
+  const [saving, setSaving] = useState(false);
+
+  const setQuestionList = (next: QuizQuestionInput[]) => {
+    setQuestions(next);
+    onDirty();
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await saveModuleQuestionBank(moduleId, questions, bank);
+      onSaved();
+    } catch (error) {
+      alert('Error saving question bank: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 sm:p-6 space-y-4">
+      <div>
+        <h3 className="text-base font-semibold text-gray-900">Question Bank</h3>
+        <p className="text-sm text-gray-600">
+          Questions shared by the module&apos;s lessons. A lesson draws from them when its quiz is set
+          to use the bank.
+        </p>
+      </div>
+
+      <QuizQuestionsEditor name="bank-question" questions={questions} topics={topics} onChange={setQuestionList} />
+
+      <div className="flex pt-4 border-t">
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="ml-auto bg-red-600 hover:bg-red-700 text-white"
+        >
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Save Bank
+        </Button>
+      </div>
+    </div>
+  );
+}
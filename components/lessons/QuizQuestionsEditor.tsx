@@ -0,0 +1,143 @@
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import type { QuizQuestionInput } from '@/lib/lesson-utils';
+import { QUESTION_DIFFICULTIES, QUESTION_DIFFICULTY_LABELS, type QuestionDifficulty } from '@/lib/question-types';
+import { QuestionAnswerEditor } from '@/components/QuestionAnswerEditor';
+
+interface QuizQuestionsEditorProps {
+  // Distinguishes the form fields of several lists on one page
+  name: string;
+  questions: QuizQuestionInput[];
+  // Topics already used in the module, offered as suggestions
+  topics: string[];
+  onChange: (questions: QuizQuestionInput[]) => void;
+}
+
+export function emptyQuestion(): QuizQuestionInput {
+  return {
+    question: '',
+    question_type: 'single_choice',
+    options: ['', ''],
+    correct_answer: 0,
+    answer_key: null,
+    explanation: '',
+    topic: null,
+    difficulty: 'medium'
+  };
+}
+
+/**
+ * An editable list of quiz questions: text, answer, explanation, topic and
+ * difficulty, in order (admins)
+ */
+export function QuizQuestionsEditor({ name, questions, topics, onChange }: QuizQuestionsEditorProps) {
+  const updateQuestion = (index: number, changes: Partial<QuizQuestionInput>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    const next = [...questions];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <datalist id={`${name}-topics`}>
+        {topics.map(topic => <option key={topic} value={topic} />)}
+      </datalist>
+
+      {questions.map((question, index) => (
+        <div key={question.id || `new-${index}`} className="border border-gray-200 rounded-lg p-3 space-y-2">
+          <div className="flex items-start gap-2">
+            <span className="text-sm font-medium text-gray-500 pt-2">{index + 1}.</span>
+            <Textarea
+              placeholder="Question"
+              value={question.question}
+              onChange={(e) => updateQuestion(index, { question: e.target.value })}
+              rows={2}
+              className="flex-1"
+            />
+            <div className="flex flex-col">
+              <button
+                type="button"
+                onClick={() => moveQuestion(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveQuestion(index, 1)}
+                disabled={index === questions.length - 1}
+                className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(questions.filter((_, i) => i !== index))}
+                className="p-1 text-red-500 hover:text-red-700"
+                title="Remove question"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="pl-5 flex flex-wrap gap-2">
+            <Input
+              placeholder="Topic"
+              list={`${name}-topics`}
+              value={question.topic || ''}
+              onChange={(e) => updateQuestion(index, { topic: e.target.value })}
+              className="flex-1 min-w-[10rem]"
+            />
+            <select
+              value={question.difficulty}
+              onChange={(e) => updateQuestion(index, { difficulty: e.target.value as QuestionDifficulty })}
+              className="px-3 py-2 border rounded-md text-sm"
+              aria-label="Difficulty"
+            >
+              {QUESTION_DIFFICULTIES.map(difficulty => (
+                <option key={difficulty} value={difficulty}>{QUESTION_DIFFICULTY_LABELS[difficulty]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="pl-5">
+            <QuestionAnswerEditor
+              question={question}
+              name={`${name}-${index}`}
+              onChange={(changes) => updateQuestion(index, changes)}
+            />
+          </div>
+
+          <div className="pl-5">
+            <Textarea
+              placeholder="Explanation, shown after the quiz is submitted"
+              value={question.explanation}
+              onChange={(e) => updateQuestion(index, { explanation: e.target.value })}
+              rows={2}
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => onChange([...questions, emptyQuestion()])}
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add Question
+      </Button>
+    </div>
+  );
+}
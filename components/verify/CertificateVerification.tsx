@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Heart, CheckCircle, XCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { fetchCertificateVerification, type CertificateKind, type CertificateVerificationResult } from '@/lib/certificate-utils';
+
+const KIND_LABELS: Record<CertificateKind, string> = {
+  drill: 'Physical Drill',
+  community_session: 'Community Training Session',
+  first_aid: 'First Aid Training'
+};
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+}
+
+export default function CertificateVerification() {
+  const { serial } = useParams<{ serial: string }>();
+  const [result, setResult] = useState<CertificateVerificationResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        setResult(await fetchCertificateVerification(serial));
+      } catch {
+        setError('We could not check this certificate right now. Please try again later.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    verify();
+  }, [serial]);
+
+  const certificate = result?.certificate;
+
+  let status: { icon: React.ReactNode; title: string; message: string; tone: string };
+  if (error) {
+    status = {
+      icon: <AlertCircle className="w-8 h-8 text-amber-600" />,
+      title: 'Verification Unavailable',
+      message: error,
+      tone: 'bg-amber-100'
+    };
+  } else if (!certificate) {
+    status = {
+      icon: <XCircle className="w-8 h-8 text-red-600" />,
+      title: 'Certificate Not Found',
+      message: `No LifeCraft certificate has the serial number ${serial}. Check the number and try again.`,
+      tone: 'bg-red-100'
+    };
+  } else if (certificate.revoked) {
+    status = {
+      icon: <XCircle className="w-8 h-8 text-red-600" />,
+      title: 'Certificate Revoked',
+      message: `This certificate was revoked on ${formatDate(certificate.revokedAt!)} and is no longer valid.`,
+      tone: 'bg-red-100'
+    };
+  } else if (certificate.status === 'expired') {
+    status = {
+      icon: <AlertCircle className="w-8 h-8 text-amber-600" />,
+      title: 'Certificate Expired',
+      message: `This certificate expired on ${formatDate(certificate.expiresAt!)} and is no longer current.`,
+      tone: 'bg-amber-100'
+    };
+  } else if (!certificate.signatureValid) {
+    status = {
+      icon: <AlertCircle className="w-8 h-8 text-red-600" />,
+      title: 'Certificate Could Not Be Verified',
+      message: 'The record for this serial number failed its integrity check. Please contact LifeCraft.',
+      tone: 'bg-red-100'
+    };
+  } else {
+    status = {
+      icon: <CheckCircle className="w-8 h-8 text-green-600" />,
+      title: 'Valid Certificate',
+      message: 'This certificate was issued by LifeCraft and is genuine.',
+      tone: 'bg-green-100'
+    };
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-teal-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center gap-2 mb-6">
+          <Heart className="w-7 h-7 text-emerald-600" />
+          <span className="text-2xl font-bold text-gray-800">LifeCraft</span>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-emerald-600 mr-2" />
+              <span className="text-gray-600">Checking certificate...</span>
+            </div>
+          ) : (
+            <>
+              <div className="text-center">
+                <div className={`inline-flex items-center justify-center w-16 h-16 ${status.tone} rounded-full mb-4`}>
+                  {status.icon}
+                </div>
+                <h2 className="text-2xl font-semibold mb-3 text-gray-800">{status.title}</h2>
+                <p className="text-gray-600 mb-6">{status.message}</p>
+              </div>
+
+              {certificate && (
+                <dl className="space-y-3 text-sm border-t pt-6">
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-500">Holder</dt>
+                    <dd className="font-medium text-gray-800 text-right">{certificate.holderName}</dd>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-500">Course</dt>
+                    <dd className="font-medium text-gray-800 text-right">{certificate.courseTitle}</dd>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-500">Type</dt>
+                    <dd className="text-gray-800 text-right">{KIND_LABELS[certificate.kind]}</dd>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-500">Issued</dt>
+                    <dd className="text-gray-800 text-right">{formatDate(certificate.issuedAt)}</dd>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-500">Expires</dt>
+                    <dd className="text-gray-800 text-right">
+                      {certificate.expiresAt ? formatDate(certificate.expiresAt) : 'Does not expire'}
+                    </dd>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-500">Serial</dt>
+                    <dd className="font-mono text-gray-800 text-right">{certificate.serial}</dd>
+                  </div>
+                  {certificate.revoked && certificate.revokedReason && (
+                    <div className="flex justify-between gap-4">
+                      <dt className="text-gray-500">Reason</dt>
+                      <dd className="text-gray-800 text-right">{certificate.revokedReason}</dd>
+                    </div>
+                  )}
+                </dl>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * Runs once when the Next.js server starts. With QUEUE_DRIVER=memory there is
+ * no separate worker process, so the server runs the job consumers, the
+ * notification outbox poller and the reminder scheduler itself.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.QUEUE_DRIVER !== 'memory') {
+    return;
+  }
+
+  const { getQueueDriver } = await import('./lib/queue');
+  const { startJobConsumers } = await import('./worker/registry');
+
+  const { startOutboxPoller } = await import('./worker/notificationOutbox');
+  const { startReminderScheduler } = await import('./worker/reminderScheduler');
+
+  await startJobConsumers(getQueueDriver());
+  startOutboxPoller();
+  startReminderScheduler();
+  console.log('✅ [Queue] In-process job consumers started (memory driver)');
+}
@@ -1,4 +1,9 @@
 import { supabase } from './supabase';
+import { authorizedFetch } from './api-client';
+import { JobStillRunningError, waitForJob } from './job-utils';
+
+// How long the admin portal waits to hear whether an email went out
+const EMAIL_DELIVERY_WAIT_MS = 20_000;
 
 export interface ParticipantStats {
   id: string;
@@ -62,6 +67,7 @@ export interface CompletedParticipant {
   email: string;
   completed_at: string;
   certificate_url?: string;
+  certificate_serial?: string;
 }
 
 export async function getDashboardStats(): Promise<AdminDashboardStats> {
@@ -391,6 +397,7 @@ export async function getCertifiedDrills(): Promise<CertifiedDrill[]> {
             drill_id,
             completed_at,
             certificate_url,
+            certificate_serial,
             profiles!user_drills_user_id_fkey (
               full_name,
               email
@@ -407,7 +414,8 @@ export async function getCertifiedDrills(): Promise<CertifiedDrill[]> {
           full_name: user.profiles?.full_name || 'Unknown',
           email: user.profiles?.email || 'No email',
           completed_at: user.completed_at,
-          certificate_url: user.certificate_url
+          certificate_url: user.certificate_url,
+          certificate_serial: user.certificate_serial
         }));
 
         return {
@@ -430,43 +438,21 @@ export async function getCertifiedDrills(): Promise<CertifiedDrill[]> {
 }
 
 /**
- * Store certificate URL (data URI) after generation - MOBILE COMPATIBLE
- * This function now stores base64 data URIs instead of blob URLs
- */
-export async function storeCertificateUrl(
-  userDrillId: string,
-  certificateDataUri: string
-): Promise<boolean> {
-  try {
-    const { error } = await supabase
-      .from('user_drills')
-      .update({ certificate_url: certificateDataUri })
-      .eq('id', userDrillId);
-
-    if (error) {
-      console.error('Error storing certificate data URI:', error);
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Error storing certificate data URI:', error);
-    return false;
-  }
-}
-
-/**
- * NEW FUNCTION: Send email notification when certificate is awarded
+ * Send the certificate-issued email for a drill. Goes through the
+ * notification outbox, so a failed send is retried server-side. Waits a
+ * little for the worker's first attempt; queued is true if it hasn't
+ * gone out yet (it is still retried).
  */
 export async function sendCompletionNotification(
   email: string,
   fullName: string,
   drillTitle: string,
   drillDate?: string,
-  drillLocation?: string
-): Promise<{ success: boolean; error?: string }> {
+  drillLocation?: string,
+  certificateSerial?: string
+): Promise<{ success: boolean; queued?: boolean; error?: string }> {
   try {
-    const response = await fetch('/api/send-completion-notification', {
+    const response = await authorizedFetch('/api/send-completion-notification', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -476,7 +462,8 @@ export async function sendCompletionNotification(
         fullName,
         drillTitle,
         drillDate,
-        drillLocation
+        drillLocation,
+        certificateSerial
       })
     });
 
@@ -487,9 +474,54 @@ export async function sendCompletionNotification(
       return { success: false, error: data.error || 'Failed to send notification' };
     }
 
-    return { success: true };
+    // No job means the outbox poller sends it
+    if (!data.jobId) {
+      return { success: true, queued: true };
+    }
+
+    try {
+      const { status } = await waitForJob<{ status: string }>(data.jobId, { timeoutMs: EMAIL_DELIVERY_WAIT_MS });
+      return { success: true, queued: status !== 'sent' };
+    } catch (error) {
+      if (error instanceof JobStillRunningError) {
+        return { success: true, queued: true };
+      }
+      throw error;
+    }
   } catch (error: any) {
     console.error('Error sending completion notification:', error);
     return { success: false, error: error.message || 'Network error' };
   }
-}
\ No newline at end of file
+}
+/**
+ * Export a drill's registration report as a PDF (admin only). The worker
+ * renders it; this waits for the job and then downloads the file.
+ */
+export async function exportDrillReport(drillId: string): Promise<void> {
+  try {
+    const response = await authorizedFetch(`/api/drills/${drillId}/report`, { method: 'POST' });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to start report');
+    }
+
+    const { filename } = await waitForJob<{ filename: string }>(data.jobId);
+
+    const fileResponse = await authorizedFetch(`/api/jobs/${data.jobId}/file`, { cache: 'no-store' });
+    if (!fileResponse.ok) {
+      throw new Error(`Report download failed with status ${fileResponse.status}`);
+    }
+    const objectUrl = URL.createObjectURL(await fileResponse.blob());
+
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+  } catch (error) {
+    console.error('Error exporting drill report:', error);
+    throw error;
+  }
+}
@@ -1,3 +1,5 @@
+import { authorizedFetch } from './api-client';
+
 export interface AIRecommendation {
   moduleId?: string;
   title?: string;
@@ -13,7 +15,7 @@ export interface AIRecommendation {
  */
 export async function fetchAIRecommendations(userId: string): Promise<AIRecommendation[]> {
   try {
-    const response = await fetch('/api/ai-recommendations', {
+    const response = await authorizedFetch('/api/ai-recommendations', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
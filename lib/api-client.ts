@@ -0,0 +1,16 @@
+import { supabase } from './supabase';
+
+/**
+ * fetch() wrapper for our own /api routes that attaches the current
+ * Supabase access token so the server can identify the caller.
+ */
+export async function authorizedFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const headers = new Headers(init.headers);
+  if (session?.access_token) {
+    headers.set('Authorization', `Bearer ${session.access_token}`);
+  }
+
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,422 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { awardPoints, pointsIdempotencyKey } from './points-ledger';
+
+/**
+ * Single badge engine shared by the worker and the API routes.
+ *
+ * Badge definitions live in the `badges` table; each row carries a
+ * declarative `rule` (JSON) that is evaluated against a user's stats.
+ * Examples:
+ *   { "type": "metric", "metric": "completedModules", "op": ">=", "value": 3 }
+ *   { "type": "metric", "metric": "bestDrillScore", "op": "==", "value": 100 }
+ *   { "type": "category_complete", "category": "Medical" }
+ *   { "type": "category_complete" }                          // any category
+ *   { "type": "module_completed", "moduleId": "...", "minScore": 50 }
+ *   { "type": "all", "rules": [ ... ] } / { "type": "any", "rules": [ ... ] }
+ */
+
+export const BADGE_METRICS = [
+  'completedModules',
+  'averageModuleScore',
+  'bestModuleScore',
+  'completedDrills',
+  'bestDrillScore',
+  'points'
+] as const;
+
+export type BadgeMetric = typeof BADGE_METRICS[number];
+
+export const BADGE_OPERATORS = ['>=', '>', '==', '<=', '<'] as const;
+
+export type BadgeOperator = typeof BADGE_OPERATORS[number];
+
+export type BadgeRule =
+  | { type: 'metric'; metric: BadgeMetric; op: BadgeOperator; value: number }
+  | { type: 'category_complete'; category?: string }
+  | { type: 'module_completed'; moduleId: string; minScore?: number }
+  | { type: 'all'; rules: BadgeRule[] }
+  | { type: 'any'; rules: BadgeRule[] };
+
+export interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  rule: BadgeRule;
+  points: number;
+  active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface BadgeStats {
+  completedModules: number;
+  averageModuleScore: number;
+  bestModuleScore: number;
+  completedDrills: number;
+  bestDrillScore: number;
+  points: number;
+  moduleScores: Record<string, number>;
+  categoryProgress: Record<string, { completed: number; total: number }>;
+}
+
+export interface AwardedBadge {
+  name: string;
+  description: string | null;
+  icon: string | null;
+  points: number;
+}
+
+// Bonus points a badge can carry
+export const MAX_BADGE_POINTS = 1000;
+
+export function isValidBadgePoints(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_BADGE_POINTS;
+}
+
+export class BadgeRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BadgeRuleError';
+  }
+}
+
+/**
+ * Validate untrusted JSON (admin input, DB rows) into a BadgeRule
+ */
+export function parseBadgeRule(input: unknown, path: string = 'rule'): BadgeRule {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new BadgeRuleError(`${path} must be an object`);
+  }
+
+  const rule = input as Record<string, unknown>;
+
+  switch (rule.type) {
+    case 'metric': {
+      if (!BADGE_METRICS.includes(rule.metric as BadgeMetric)) {
+        throw new BadgeRuleError(`${path}.metric must be one of: ${BADGE_METRICS.join(', ')}`);
+      }
+      if (!BADGE_OPERATORS.includes(rule.op as BadgeOperator)) {
+        throw new BadgeRuleError(`${path}.op must be one of: ${BADGE_OPERATORS.join(' ')}`);
+      }
+      if (typeof rule.value !== 'number' || !Number.isFinite(rule.value)) {
+        throw new BadgeRuleError(`${path}.value must be a number`);
+      }
+      return {
+        type: 'metric',
+        metric: rule.metric as BadgeMetric,
+        op: rule.op as BadgeOperator,
+        value: rule.value
+      };
+    }
+
+    case 'category_complete': {
+      if (rule.category !== undefined && typeof rule.category !== 'string') {
+        throw new BadgeRuleError(`${path}.category must be a string`);
+      }
+      return rule.category
+        ? { type: 'category_complete', category: rule.category as string }
+        : { type: 'category_complete' };
+    }
+
+    case 'module_completed': {
+      if (typeof rule.moduleId !== 'string' || !rule.moduleId) {
+        throw new BadgeRuleError(`${path}.moduleId is required`);
+      }
+      if (rule.minScore !== undefined && typeof rule.minScore !== 'number') {
+        throw new BadgeRuleError(`${path}.minScore must be a number`);
+      }
+      return {
+        type: 'module_completed',
+        moduleId: rule.moduleId,
+        ...(typeof rule.minScore === 'number' ? { minScore: rule.minScore } : {})
+      };
+    }
+
+    case 'all':
+    case 'any': {
+      if (!Array.isArray(rule.rules) || rule.rules.length === 0) {
+        throw new BadgeRuleError(`${path}.rules must be a non-empty array`);
+      }
+      return {
+        type: rule.type,
+        rules: rule.rules.map((child, index) => parseBadgeRule(child, `${path}.rules[${index}]`))
+      };
+    }
+
+    default:
+      throw new BadgeRuleError(
+        `${path}.type must be one of: metric, category_complete, module_completed, all, any`
+      );
+  }
+}
+
+function compare(actual: number, op: BadgeOperator, expected: number): boolean {
+  switch (op) {
+    case '>=': return actual >= expected;
+    case '>': return actual > expected;
+    case '==': return actual === expected;
+    case '<=': return actual <= expected;
+    case '<': return actual < expected;
+  }
+}
+
+/**
+ * Evaluate a rule against pre-computed stats (pure, no I/O)
+ */
+export function evaluateBadgeRule(rule: BadgeRule, stats: BadgeStats): boolean {
+  switch (rule.type) {
+    case 'metric':
+      return compare(stats[rule.metric], rule.op, rule.value);
+
+    case 'category_complete': {
+      const isComplete = (progress?: { completed: number; total: number }) =>
+        !!progress && progress.total > 0 && progress.completed >= progress.total;
+
+      if (rule.category) {
+        return isComplete(stats.categoryProgress[rule.category]);
+      }
+      return Object.values(stats.categoryProgress).some(isComplete);
+    }
+
+    case 'module_completed': {
+      const score = stats.moduleScores[rule.moduleId];
+      if (score === undefined) return false;
+      return score >= (rule.minScore ?? 0);
+    }
+
+    case 'all':
+      return rule.rules.every(child => evaluateBadgeRule(child, stats));
+
+    case 'any':
+      return rule.rules.some(child => evaluateBadgeRule(child, stats));
+  }
+}
+
+/**
+ * Load badge definitions; retired badges are skipped unless asked for
+ */
+export async function loadBadgeDefinitions(
+  supabase: SupabaseClient,
+  options: { includeRetired?: boolean } = {}
+): Promise<BadgeDefinition[]> {
+  let query = supabase
+    .from('badges')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (!options.includeRetired) {
+    query = query.eq('active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[Badge Engine] Error loading badge definitions:', error);
+    throw new Error('Failed to load badge definitions');
+  }
+
+  const definitions: BadgeDefinition[] = [];
+  for (const row of data || []) {
+    try {
+      definitions.push({ ...row, rule: parseBadgeRule(row.rule) });
+    } catch (error) {
+      // A bad rule should not block every other badge
+      console.error(`[Badge Engine] Skipping badge "${row.name}" with invalid rule:`, error);
+    }
+  }
+
+  return definitions;
+}
+
+/**
+ * Gather everything the rules can reference for one user
+ */
+export async function collectBadgeStats(supabase: SupabaseClient, userId: string): Promise<BadgeStats> {
+  const [modulesResult, allModulesResult, drillsResult, profileResult] = await Promise.all([
+    supabase
+      .from('user_modules')
+      .select('score, module_id, modules(category)')
+      .eq('user_id', userId)
+      .eq('completed', true),
+    supabase
+      .from('modules')
+      .select('id, category'),
+    supabase
+      .from('user_drills')
+      .select('drill_id, score')
+      .eq('user_id', userId)
+      .eq('status', 'completed'),
+    supabase
+      .from('profiles')
+      .select('points')
+      .eq('id', userId)
+      .single()
+  ]);
+
+  if (modulesResult.error) {
+    console.error('[Badge Engine] Error fetching completed modules:', modulesResult.error);
+  }
+  if (allModulesResult.error) {
+    console.error('[Badge Engine] Error fetching all modules:', allModulesResult.error);
+  }
+  if (drillsResult.error) {
+    console.error('[Badge Engine] Error fetching completed drills:', drillsResult.error);
+  }
+  if (profileResult.error) {
+    console.error('[Badge Engine] Error fetching profile:', profileResult.error);
+  }
+
+  const completedModules = (modulesResult.data || []) as unknown as Array<{
+    score: number | null;
+    module_id: string;
+    modules: { category: string | null } | null;
+  }>;
+
+  const moduleScores: Record<string, number> = {};
+  for (const m of completedModules) {
+    moduleScores[m.module_id] = m.score || 0;
+  }
+
+  const scores = completedModules.map(m => m.score || 0).filter(s => s > 0);
+  const averageModuleScore = scores.length > 0
+    ? scores.reduce((a, b) => a + b, 0) / scores.length
+    : 0;
+
+  const categoryProgress: BadgeStats['categoryProgress'] = {};
+  for (const m of allModulesResult.data || []) {
+    const category = m.category || 'Unknown';
+    categoryProgress[category] ??= { completed: 0, total: 0 };
+    categoryProgress[category].total += 1;
+  }
+  for (const m of completedModules) {
+    const category = m.modules?.category || 'Unknown';
+    categoryProgress[category] ??= { completed: 0, total: 0 };
+    categoryProgress[category].completed += 1;
+  }
+
+  const completedDrills = drillsResult.data || [];
+  const drillScores = completedDrills.map(d => d.score || 0);
+
+  return {
+    completedModules: completedModules.length,
+    averageModuleScore,
+    bestModuleScore: scores.length > 0 ? Math.max(...scores) : 0,
+    completedDrills: new Set(completedDrills.map(d => d.drill_id)).size,
+    bestDrillScore: drillScores.length > 0 ? Math.max(...drillScores) : 0,
+    points: profileResult.data?.points || 0,
+    moduleScores,
+    categoryProgress
+  };
+}
+
+interface EarnedBadgeRow {
+  source_type: 'badge' | 'legacy';
+  source_id: string | null;
+  activity_log: { action: string; item: string | null } | null;
+}
+
+/**
+ * Names of badges the user already holds. Only awards in points_ledger count
+ * (written by the service role alone), never activity_log rows on their own;
+ * badges from before the ledger are its 'legacy' rows.
+ */
+export async function getEarnedBadgeNames(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('points_ledger')
+    .select('source_type, source_id, created_at, activity_log ( action, item )')
+    .eq('user_id', userId)
+    .in('source_type', ['badge', 'legacy'])
+    .order('created_at', { ascending: false })
+    .returns<EarnedBadgeRow[]>();
+
+  if (error) {
+    console.error('[Badge Engine] Error fetching earned badges:', error);
+    throw new Error('Failed to fetch earned badges');
+  }
+
+  const rows = data || [];
+  const badgeIds = rows
+    .filter(row => row.source_type === 'badge' && row.source_id)
+    .map(row => row.source_id as string);
+
+  const namesById = new Map<string, string>();
+  if (badgeIds.length > 0) {
+    const { data: badges, error: badgeError } = await supabase
+      .from('badges')
+      .select('id, name')
+      .in('id', [...new Set(badgeIds)]);
+
+    if (badgeError) {
+      console.error('[Badge Engine] Error fetching earned badges:', badgeError);
+      throw new Error('Failed to fetch earned badges');
+    }
+    for (const badge of badges || []) {
+      namesById.set(badge.id, badge.name);
+    }
+  }
+
+  const names = rows.map(row => {
+    if (row.source_type === 'badge') {
+      return namesById.get(row.source_id as string) ?? row.activity_log?.item;
+    }
+    return row.activity_log?.action === 'Earned Badge' ? row.activity_log.item : null;
+  });
+
+  return [...new Set(names.filter((name): name is string => !!name))];
+}
+
+/**
+ * Evaluate every active badge for a user and award the ones newly earned
+ */
+export async function awardEligibleBadges(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ newBadges: AwardedBadge[]; allBadges: string[] }> {
+  const [definitions, earned] = await Promise.all([
+    loadBadgeDefinitions(supabase),
+    getEarnedBadgeNames(supabase, userId)
+  ]);
+
+  const currentBadges = new Set(earned);
+  const stats = await collectBadgeStats(supabase, userId);
+  const newBadges: AwardedBadge[] = [];
+
+  for (const badge of definitions) {
+    if (currentBadges.has(badge.name) || !evaluateBadgeRule(badge.rule, stats)) {
+      continue;
+    }
+
+    // The badge award and its bonus points go through the ledger, so two
+    // workers evaluating the same user can't award a badge twice
+    let awarded: boolean;
+    try {
+      ({ awarded } = await awardPoints(supabase, {
+        userId,
+        amount: badge.points,
+        sourceType: 'badge',
+        sourceId: badge.id,
+        idempotencyKey: pointsIdempotencyKey('badge', badge.id, userId),
+        action: 'Earned Badge',
+        item: badge.name
+      }));
+    } catch (error) {
+      console.error(`[Badge Engine] Failed to award badge ${badge.name}:`, error);
+      continue;
+    }
+
+    currentBadges.add(badge.name);
+    if (!awarded) {
+      continue;
+    }
+
+    newBadges.push({
+      name: badge.name,
+      description: badge.description,
+      icon: badge.icon,
+      points: badge.points
+    });
+  }
+
+  return { newBadges, allBadges: [...currentBadges] };
+}
@@ -0,0 +1,151 @@
+import { authorizedFetch } from './api-client';
+import { waitForJob } from './job-utils';
+import type { AwardedBadge, BadgeDefinition, BadgeRule } from './badge-engine';
+
+export type { AwardedBadge, BadgeDefinition, BadgeRule };
+
+// Result of a finished badge_check job
+export interface BadgeCheckResult {
+  newBadges: AwardedBadge[];
+}
+
+// Badge checks start from the module and drill pages; the dashboard picks them up from here
+const PENDING_BADGE_CHECK_KEY = 'pending_badge_check';
+const POLL_INTERVAL_MS = 2000;
+
+export interface BadgeInput {
+  name: string;
+  description?: string | null;
+  icon?: string | null;
+  points?: number;
+  rule: BadgeRule;
+}
+
+/**
+ * Ask the server to re-evaluate the current user's badges.
+ * Fire-and-forget: badge processing runs in the worker. Returns the job id,
+ * which is also kept for the dashboard (see getPendingBadgeCheck), or null if
+ * the check couldn't be queued.
+ */
+export async function requestBadgeCheck(moduleId?: string): Promise<string | null> {
+  try {
+    const response = await authorizedFetch('/api/process-badge', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ moduleId })
+    });
+
+    if (!response.ok) {
+      console.warn('Badge check could not be queued:', response.status);
+      return null;
+    }
+
+    const data = await response.json();
+    if (data.jobId) {
+      try {
+        sessionStorage.setItem(PENDING_BADGE_CHECK_KEY, data.jobId);
+      } catch {}
+    }
+
+    return data.jobId || null;
+  } catch (error) {
+    console.warn('Badge check could not be queued (non-critical):', error);
+    return null;
+  }
+}
+
+/**
+ * The most recent badge check the dashboard hasn't reported yet, if any
+ */
+export function getPendingBadgeCheck(): string | null {
+  try {
+    return sessionStorage.getItem(PENDING_BADGE_CHECK_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function clearPendingBadgeCheck(jobId: string): void {
+  try {
+    // A newer check may have replaced it in the meantime
+    if (sessionStorage.getItem(PENDING_BADGE_CHECK_KEY) === jobId) {
+      sessionStorage.removeItem(PENDING_BADGE_CHECK_KEY);
+    }
+  } catch {}
+}
+
+/**
+ * Poll a badge check until the worker finishes it. Resolves with the badges
+ * it awarded; throws if the job failed or expired, or the signal is aborted.
+ */
+export async function waitForBadgeCheck(jobId: string, signal?: AbortSignal): Promise<BadgeCheckResult> {
+  const result = await waitForJob<BadgeCheckResult | null>(jobId, { intervalMs: POLL_INTERVAL_MS, signal });
+  return { newBadges: result?.newBadges || [] };
+}
+
+/**
+ * Get badge definitions (admin view includes retired badges)
+ */
+export async function fetchBadgeDefinitions(includeRetired: boolean = false): Promise<BadgeDefinition[]> {
+  const response = await authorizedFetch(`/api/badges${includeRetired ? '?includeRetired=true' : ''}`, {
+    cache: 'no-store'
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load badges');
+  }
+
+  return data.badges || [];
+}
+
+/**
+ * Create badge (admin only)
+ */
+export async function createBadge(badge: BadgeInput): Promise<BadgeDefinition> {
+  const response = await authorizedFetch('/api/badges', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(badge)
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to create badge');
+  }
+
+  return data.badge;
+}
+
+/**
+ * Update badge (admin only)
+ */
+export async function updateBadge(
+  badgeId: string,
+  badge: Partial<BadgeInput> & { active?: boolean }
+): Promise<BadgeDefinition> {
+  const response = await authorizedFetch(`/api/badges/${badgeId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(badge)
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update badge');
+  }
+
+  return data.badge;
+}
+
+/**
+ * Retire badge (admin only) - users keep badges they already earned
+ */
+export async function retireBadge(badgeId: string): Promise<void> {
+  const response = await authorizedFetch(`/api/badges/${badgeId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to retire badge');
+  }
+}
@@ -0,0 +1,60 @@
+import { authorizedFetch } from './api-client';
+import { fetchJobStatus, type JobProgress } from './job-utils';
+import type { BulkRegistrationAction, BulkRegistrationKind } from './jobs';
+import type { BulkActionSummary, BulkRowOutcome, BulkRowResult } from './bulk-registrations';
+
+export type { BulkActionSummary, BulkRegistrationAction, BulkRegistrationKind, BulkRowOutcome, BulkRowResult, JobProgress };
+
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Queue approve, decline, complete or issue_certificates for many drill or
+ * session registrations at once. Returns the job id; see waitForBulkRegistrationAction.
+ */
+export async function startBulkRegistrationAction(
+  kind: BulkRegistrationKind,
+  action: BulkRegistrationAction,
+  registrationIds: string[]
+): Promise<string> {
+  try {
+    const response = await authorizedFetch(`/api/registrations/${kind}/bulk`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, registrationIds })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to start bulk action');
+    }
+
+    return data.jobId;
+  } catch (error) {
+    console.error('Error starting bulk action:', error);
+    throw error;
+  }
+}
+
+/**
+ * Poll a bulk action until the worker finishes it, reporting progress on the
+ * way. Resolves with the per-registration results.
+ */
+export async function waitForBulkRegistrationAction(
+  jobId: string,
+  onProgress: (progress: JobProgress | null) => void
+): Promise<BulkActionSummary> {
+  for (;;) {
+    const job = await fetchJobStatus(jobId);
+    if (!job) {
+      throw new Error('The bulk action expired before it finished. Refresh to see where it got to.');
+    }
+
+    if (job.state === 'done') return job.result as BulkActionSummary;
+    if (job.state === 'failed') {
+      throw new Error(job.error || 'The bulk action failed');
+    }
+
+    onProgress(job.progress);
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
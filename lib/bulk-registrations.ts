@@ -0,0 +1,362 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BulkRegistrationAction, BulkRegistrationKind, BulkRegistrationPayload } from './jobs';
+import type { JobProgress } from './job-status';
+import { PermanentJobError } from './queue';
+import { getManagedEventIds } from './permissions';
+import type { UserRole } from './request-auth';
+import { setDrillRegistrationStatus } from './drill-registrations';
+import { setSessionRegistrationStatus } from './session-registrations';
+import { getVerificationUrl, issueCertificate, type CertificateKind } from './certificates';
+import {
+  getUserRecipient,
+  queueNotification,
+  type NotificationTemplateData,
+  type NotificationTemplateName
+} from './notifications';
+import { joined } from './supabase-joins';
+
+/**
+ * Bulk approve, decline, complete and certify for the admin registration
+ * screens, run by the worker as registration_bulk_action jobs. Every
+ * registration is handled on its own: one that fails is reported with the
+ * reason and the rest carry on. Registrations already in the target state are
+ * skipped, so a retried job picks up where the last attempt stopped.
+ */
+
+export type BulkRowOutcome = 'succeeded' | 'skipped' | 'failed';
+
+export interface BulkRowResult {
+  registrationId: string;
+  participant: string | null;
+  outcome: BulkRowOutcome;
+  message: string | null;
+}
+
+export interface BulkActionSummary {
+  kind: BulkRegistrationKind;
+  action: BulkRegistrationAction;
+  succeeded: number;
+  skipped: number;
+  failed: number;
+  rows: BulkRowResult[];
+}
+
+interface BulkSource {
+  table: string;
+  eventTable: string;
+  eventColumn: string;
+  profileJoin: string;
+  eventColumns: string;
+  // Registrations holding an approved seat
+  approvedStatuses: string[];
+  certificateKind: CertificateKind;
+  completedAction: string;
+}
+
+const BULK_SOURCES: Record<BulkRegistrationKind, BulkSource> = {
+  drill: {
+    table: 'user_drills',
+    eventTable: 'drills',
+    eventColumn: 'drill_id',
+    profileJoin: 'profiles!user_drills_user_id_fkey ( full_name, email )',
+    eventColumns: 'id, title, date, time, location',
+    approvedStatuses: ['approved'],
+    certificateKind: 'drill',
+    completedAction: 'Completed physical drill'
+  },
+  session: {
+    table: 'user_community_sessions',
+    eventTable: 'community_sessions',
+    eventColumn: 'session_id',
+    profileJoin: 'profiles:user_id ( full_name, email )',
+    eventColumns: 'id, title, date, time, location, certified',
+    approvedStatuses: ['registered', 'approved'],
+    certificateKind: 'community_session',
+    completedAction: 'Completed community session'
+  }
+};
+
+interface BulkEvent {
+  id: string;
+  title: string;
+  date: string | null;
+  time: string | null;
+  location: string | null;
+  certified?: boolean;
+}
+
+interface BulkRegistration {
+  id: string;
+  user_id: string;
+  status: string;
+  certificate_serial: string | null;
+  event_id: string;
+  profiles: { full_name: string | null; email: string | null } | { full_name: string | null; email: string | null }[] | null;
+}
+
+type RowOutcome = Pick<BulkRowResult, 'outcome' | 'message'>;
+
+interface BulkContext {
+  supabase: SupabaseClient;
+  kind: BulkRegistrationKind;
+  source: BulkSource;
+  registration: BulkRegistration;
+  event: BulkEvent;
+}
+
+function succeeded(message: string | null = null): RowOutcome {
+  return { outcome: 'succeeded', message };
+}
+
+function skipped(message: string): RowOutcome {
+  return { outcome: 'skipped', message };
+}
+
+function failed(message: string): RowOutcome {
+  return { outcome: 'failed', message };
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Email a participant through the outbox; the worker's poller delivers it.
+ * The registration change stands even if the email can't be queued.
+ */
+async function notify<K extends Exclude<NotificationTemplateName, 'password_reset'>>(
+  supabase: SupabaseClient,
+  template: K,
+  userId: string,
+  data: Omit<NotificationTemplateData[K], 'fullName'>
+): Promise<void> {
+  try {
+    const recipient = await getUserRecipient(supabase, userId);
+    if (!recipient) return;
+
+    await queueNotification(
+      supabase,
+      template,
+      { fullName: recipient.fullName || 'LifeCraft member', ...data } as NotificationTemplateData[K],
+      { to: recipient.email, userId, deliver: false }
+    );
+  } catch (error) {
+    console.error(`[Bulk Registrations] Error queueing ${template} notification:`, error);
+  }
+}
+
+function eventDetails(event: BulkEvent) {
+  return {
+    sessionTitle: event.title,
+    sessionDate: event.date,
+    sessionTime: event.time,
+    location: event.location
+  };
+}
+
+async function notifyPromoted(context: BulkContext, userIds: string[]): Promise<void> {
+  for (const userId of userIds) {
+    await notify(context.supabase, 'waitlist_promoted', userId, eventDetails(context.event));
+  }
+}
+
+async function setStatus(context: BulkContext, status: 'approved' | 'declined'): Promise<void> {
+  const { supabase, kind, registration } = context;
+
+  const promoted = kind === 'drill'
+    ? await setDrillRegistrationStatus(supabase, registration.id, status)
+    : await setSessionRegistrationStatus(supabase, registration.id, status === 'approved' ? 'registered' : status);
+
+  await notifyPromoted(context, promoted.map(row => row.userId));
+}
+
+async function approve(context: BulkContext): Promise<RowOutcome> {
+  const { supabase, kind, source, registration, event } = context;
+
+  if (source.approvedStatuses.includes(registration.status)) return skipped('Already approved');
+  if (registration.status !== 'pending') {
+    return failed(`Only pending registrations can be approved (this one is ${registration.status})`);
+  }
+
+  await setStatus(context, 'approved');
+  if (kind === 'session') {
+    await notify(supabase, 'registration_approved', registration.user_id, eventDetails(event));
+  }
+  return succeeded();
+}
+
+async function decline(context: BulkContext): Promise<RowOutcome> {
+  const { supabase, kind, registration, event } = context;
+
+  if (registration.status === 'declined') return skipped('Already declined');
+  if (registration.status !== 'pending' && registration.status !== 'waitlisted') {
+    return failed(`Only pending or waitlisted registrations can be declined (this one is ${registration.status})`);
+  }
+
+  await setStatus(context, 'declined');
+  if (kind === 'session') {
+    await notify(supabase, 'registration_declined', registration.user_id, { ...eventDetails(event), reason: null });
+  }
+  return succeeded();
+}
+
+async function certify(context: BulkContext): Promise<string> {
+  const { supabase, source, registration, event } = context;
+
+  const certificate = await issueCertificate(supabase, source.certificateKind, registration.id);
+  await notify(supabase, 'certificate_issued', registration.user_id, {
+    courseTitle: event.title,
+    date: event.date,
+    location: event.location,
+    serial: certificate.serial,
+    verificationUrl: getVerificationUrl(certificate.serial)
+  });
+  return certificate.serial;
+}
+
+/**
+ * Certified sessions are certified on completion, like the single
+ * "Complete & Certify"; drill certificates are a separate step.
+ */
+async function complete(context: BulkContext): Promise<RowOutcome> {
+  const { supabase, kind, source, registration, event } = context;
+
+  if (registration.status === 'completed') return skipped('Already completed');
+  if (!source.approvedStatuses.includes(registration.status)) {
+    return failed(`Only approved registrations can be completed (this one is ${registration.status})`);
+  }
+  if (kind === 'session' && !event.certified) {
+    return failed('This session is not a certified training session.');
+  }
+
+  const { error } = await supabase
+    .from(source.table)
+    .update({ status: 'completed', completed_at: new Date().toISOString() })
+    .eq('id', registration.id);
+
+  if (error) throw new Error(`Failed to mark as completed: ${error.message}`);
+
+  try {
+    await supabase
+      .from('activity_log')
+      .insert({ user_id: registration.user_id, action: source.completedAction, item: event.id, points: 0 });
+  } catch (logError) {
+    console.warn('Activity log failed (non-critical):', logError);
+  }
+
+  if (kind === 'drill') return succeeded();
+
+  try {
+    return succeeded(`Certificate ${await certify(context)} issued`);
+  } catch (certificateError) {
+    return failed(`Completed, but the certificate wasn't issued: ${errorMessage(certificateError, 'unknown error')}`);
+  }
+}
+
+async function issueCertificates(context: BulkContext): Promise<RowOutcome> {
+  const { registration } = context;
+
+  if (registration.certificate_serial) return skipped(`Certificate ${registration.certificate_serial} already issued`);
+  if (registration.status !== 'completed') {
+    return failed(`Only completed registrations can be certified (this one is ${registration.status})`);
+  }
+
+  return succeeded(`Certificate ${await certify(context)} issued`);
+}
+
+const BULK_ACTIONS: Record<BulkRegistrationAction, (context: BulkContext) => Promise<RowOutcome>> = {
+  approve,
+  decline,
+  complete,
+  issue_certificates: issueCertificates
+};
+
+async function loadRequester(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, role')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load requester: ${error.message}`);
+  // Retrying won't bring a deleted account back
+  if (!data) throw new PermanentJobError(`Requester ${userId} not found`);
+  return data as { id: string; role: UserRole };
+}
+
+async function loadRegistrations(supabase: SupabaseClient, source: BulkSource, registrationIds: string[]) {
+  const { data, error } = await supabase
+    .from(source.table)
+    .select(`id, user_id, status, certificate_serial, event_id:${source.eventColumn}, ${source.profileJoin}`)
+    .in('id', registrationIds);
+
+  if (error) throw new Error(`Failed to load registrations: ${error.message}`);
+  return new Map(((data || []) as unknown as BulkRegistration[]).map(row => [row.id, row]));
+}
+
+async function loadEvents(supabase: SupabaseClient, source: BulkSource, eventIds: string[]) {
+  if (eventIds.length === 0) return new Map<string, BulkEvent>();
+
+  const { data, error } = await supabase
+    .from(source.eventTable)
+    .select(source.eventColumns)
+    .in('id', eventIds);
+
+  if (error) throw new Error(`Failed to load events: ${error.message}`);
+  return new Map(((data || []) as unknown as BulkEvent[]).map(event => [event.id, event]));
+}
+
+/**
+ * Apply one action to each registration in order, reporting progress after
+ * every row. Stops between rows once signal is aborted; the job is then
+ * retried and skips what was already done. Needs a service-role client.
+ */
+export async function runBulkRegistrationAction(
+  supabase: SupabaseClient,
+  payload: BulkRegistrationPayload,
+  options: { signal?: AbortSignal; onProgress?: (progress: JobProgress) => Promise<void> } = {}
+): Promise<BulkActionSummary> {
+  const { kind, action, registrationIds } = payload;
+  const source = BULK_SOURCES[kind];
+
+  const requester = await loadRequester(supabase, payload.userId);
+  const managed = await getManagedEventIds(supabase, requester);
+  const registrations = await loadRegistrations(supabase, source, registrationIds);
+  const events = await loadEvents(supabase, source, [...new Set([...registrations.values()].map(row => row.event_id))]);
+
+  const summary: BulkActionSummary = { kind, action, succeeded: 0, skipped: 0, failed: 0, rows: [] };
+  const total = registrationIds.length;
+
+  for (const registrationId of registrationIds) {
+    options.signal?.throwIfAborted();
+
+    const registration = registrations.get(registrationId);
+    const event = registration ? events.get(registration.event_id) : undefined;
+    const profile = joined(registration?.profiles);
+    const participant = profile?.full_name || profile?.email || null;
+
+    let result: RowOutcome;
+    if (!registration || !event) {
+      result = failed('Registration not found');
+    } else if (!managed.all && !managed[kind].includes(event.id)) {
+      // Reported like a missing row, as the API does for events the user doesn't manage
+      result = failed('Registration not found');
+    } else {
+      try {
+        result = await BULK_ACTIONS[action]({ supabase, kind, source, registration, event });
+      } catch (error) {
+        result = failed(errorMessage(error, 'Unexpected error'));
+      }
+    }
+
+    summary[result.outcome]++;
+    summary.rows.push({ registrationId, participant, ...result });
+    await options.onProgress?.({ processed: summary.rows.length, total });
+  }
+
+  console.log(
+    `✅ [Bulk Registrations] ${action} on ${total} ${kind} registration(s): ` +
+    `${summary.succeeded} succeeded, ${summary.skipped} skipped, ${summary.failed} failed`
+  );
+  return summary;
+}
@@ -0,0 +1,31 @@
+import { authorizedFetch } from './api-client';
+import type { CalendarEventKind } from './calendar/ics';
+
+/**
+ * Download link for one drill or session as an .ics file
+ */
+export function getEventCalendarUrl(kind: CalendarEventKind, id: string): string {
+  return `/api/calendar/events/${kind}/${id}`;
+}
+
+/**
+ * The signed-in user's private calendar feed URL. rotate: true replaces it and
+ * the previous URL stops working.
+ */
+export async function getCalendarFeedUrl({ rotate = false }: { rotate?: boolean } = {}): Promise<string> {
+  try {
+    const response = await authorizedFetch('/api/calendar/token', {
+      method: rotate ? 'POST' : 'GET'
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to load calendar feed');
+    }
+
+    return result.url;
+  } catch (error) {
+    console.error('Error loading calendar feed URL:', error);
+    throw error;
+  }
+}
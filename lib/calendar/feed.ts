@@ -0,0 +1,229 @@
+import { randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserRole } from '../request-auth';
+import { getManagedEventIds } from '../permissions';
+import type { CalendarEvent, CalendarEventKind } from './ics';
+import { joined } from '../supabase-joins';
+
+/**
+ * Calendar feeds. Each user has one secret feed token; the feed lists their
+ * approved drill and session registrations (cancelled ones as cancelled
+ * events), for admins the full schedule and for organization admins and
+ * instructors the events they manage.
+ * All lookups need a service-role client.
+ */
+
+export interface CalendarFeedOwner {
+  id: string;
+  role: UserRole;
+  fullName: string | null;
+}
+
+interface ScheduleRow {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  date: string | null;
+  time: string | null;
+  schedule_sequence: number | null;
+  updated_at: string | null;
+}
+
+const EVENT_COLUMNS = 'id, title, description, location, date, time, schedule_sequence, updated_at';
+
+// Past events stay in the feed this long so recent history isn't wiped from calendars
+const FEED_HISTORY_DAYS = 90;
+
+// Seat-holding registrations that made it past approval
+const LISTED_DRILL_STATUSES = ['approved', 'completed'];
+const LISTED_SESSION_STATUSES = ['registered', 'approved', 'completed'];
+
+function historyCutoff(): string {
+  return new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function appBaseUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+export function getCalendarFeedUrl(token: string): string {
+  return `${appBaseUrl()}/api/calendar/feed/${token}.ics`;
+}
+
+function toEvent(
+  kind: CalendarEventKind,
+  row: ScheduleRow,
+  cancelled = false
+): CalendarEvent | null {
+  if (!row.date) return null;
+
+  const sequence = row.schedule_sequence ?? 0;
+  return {
+    kind,
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    location: row.location,
+    date: row.date,
+    time: row.time,
+    // A cancellation has to outrank the confirmed version already in the calendar
+    sequence: cancelled ? sequence + 1 : sequence,
+    status: cancelled ? 'CANCELLED' : 'CONFIRMED',
+    lastModified: row.updated_at
+  };
+}
+
+/**
+ * The user's feed token, created on first use. rotate: true replaces it,
+ * which breaks every existing subscription to the old URL.
+ */
+export async function getFeedToken(
+  supabase: SupabaseClient,
+  userId: string,
+  { rotate = false }: { rotate?: boolean } = {}
+): Promise<string> {
+  if (!rotate) {
+    const { data: existing, error } = await supabase
+      .from('calendar_feed_tokens')
+      .select('token')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load calendar feed token: ${error.message}`);
+    if (existing) return existing.token;
+  }
+
+  const token = randomBytes(24).toString('base64url');
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .upsert({ user_id: userId, token, created_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+  if (error) throw new Error(`Failed to save calendar feed token: ${error.message}`);
+  return token;
+}
+
+/**
+ * Resolve a feed token to its owner, or null for unknown tokens
+ */
+export async function findFeedOwner(supabase: SupabaseClient, token: string): Promise<CalendarFeedOwner | null> {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('user_id, profiles:user_id (role, full_name)')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to look up calendar feed token: ${error.message}`);
+
+  const profile = joined(data?.profiles as { role: UserRole; full_name: string | null } | { role: UserRole; full_name: string | null }[] | null);
+  if (!data || !profile) return null;
+
+  return { id: data.user_id, role: profile.role, fullName: profile.full_name };
+}
+
+async function getRegisteredEvents(supabase: SupabaseClient, userId: string): Promise<CalendarEvent[]> {
+  const cutoff = historyCutoff();
+
+  const [drills, sessions] = await Promise.all([
+    supabase
+      .from('user_drills')
+      .select(`status, drills:drill_id (${EVENT_COLUMNS}, type)`)
+      .eq('user_id', userId)
+      .in('status', [...LISTED_DRILL_STATUSES, 'cancelled']),
+    supabase
+      .from('user_community_sessions')
+      .select(`status, community_sessions:session_id (${EVENT_COLUMNS})`)
+      .eq('user_id', userId)
+      .in('status', [...LISTED_SESSION_STATUSES, 'cancelled'])
+  ]);
+
+  if (drills.error) throw new Error(`Failed to load drill registrations: ${drills.error.message}`);
+  if (sessions.error) throw new Error(`Failed to load session registrations: ${sessions.error.message}`);
+
+  const events: (CalendarEvent | null)[] = [];
+
+  for (const registration of drills.data || []) {
+    const drill = joined(registration.drills as (ScheduleRow & { type: string }) | (ScheduleRow & { type: string })[] | null);
+    if (!drill || drill.type !== 'Physical' || !drill.date || drill.date < cutoff) continue;
+    events.push(toEvent('drill', drill, registration.status === 'cancelled'));
+  }
+
+  for (const registration of sessions.data || []) {
+    const session = joined(registration.community_sessions as ScheduleRow | ScheduleRow[] | null);
+    if (!session || !session.date || session.date < cutoff) continue;
+    events.push(toEvent('session', session, registration.status === 'cancelled'));
+  }
+
+  return events.filter((event): event is CalendarEvent => event !== null);
+}
+
+/**
+ * The physical drills and community sessions the owner manages, if any
+ */
+async function getManagedEvents(supabase: SupabaseClient, owner: CalendarFeedOwner): Promise<CalendarEvent[]> {
+  const cutoff = historyCutoff();
+  const managed = await getManagedEventIds(supabase, owner);
+  if (!managed.all && managed.drill.length === 0 && managed.session.length === 0) return [];
+
+  let drillQuery = supabase
+    .from('drills')
+    .select(EVENT_COLUMNS)
+    .eq('type', 'Physical')
+    .gte('date', cutoff);
+  let sessionQuery = supabase
+    .from('community_sessions')
+    .select(EVENT_COLUMNS)
+    .gte('date', cutoff);
+
+  if (!managed.all) {
+    drillQuery = drillQuery.in('id', managed.drill);
+    sessionQuery = sessionQuery.in('id', managed.session);
+  }
+
+  const [drills, sessions] = await Promise.all([drillQuery, sessionQuery]);
+
+  if (drills.error) throw new Error(`Failed to load drills: ${drills.error.message}`);
+  if (sessions.error) throw new Error(`Failed to load sessions: ${sessions.error.message}`);
+
+  return [
+    ...(drills.data || []).map(row => toEvent('drill', row as ScheduleRow)),
+    ...(sessions.data || []).map(row => toEvent('session', row as ScheduleRow))
+  ].filter((event): event is CalendarEvent => event !== null);
+}
+
+/**
+ * Events for a user's feed, oldest first. Where a managed event is also one
+ * the user registered for, the managed (always confirmed) version wins.
+ */
+export async function getFeedEvents(supabase: SupabaseClient, owner: CalendarFeedOwner): Promise<CalendarEvent[]> {
+  const events = new Map<string, CalendarEvent>();
+
+  for (const event of await getRegisteredEvents(supabase, owner.id)) {
+    events.set(`${event.kind}:${event.id}`, event);
+  }
+
+  for (const event of await getManagedEvents(supabase, owner)) {
+    events.set(`${event.kind}:${event.id}`, event);
+  }
+
+  return [...events.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * A single drill or session for an .ics download, or null if it doesn't exist
+ * or has no date
+ */
+export async function getCalendarEvent(
+  supabase: SupabaseClient,
+  kind: CalendarEventKind,
+  id: string
+): Promise<CalendarEvent | null> {
+  const { data, error } = await supabase
+    .from(kind === 'drill' ? 'drills' : 'community_sessions')
+    .select(EVENT_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load ${kind}: ${error.message}`);
+  return data ? toEvent(kind, data as ScheduleRow) : null;
+}
@@ -0,0 +1,195 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for drill and session schedules.
+ *
+ * Events carry a stable UID per drill/session, so a downloaded .ics and the
+ * subscribed feed describe the same event, and calendar apps apply later
+ * versions (higher SEQUENCE) as updates: a reschedule bumps the sequence, a
+ * cancelled registration is sent as STATUS:CANCELLED.
+ */
+
+export type CalendarEventKind = 'drill' | 'session';
+
+export interface CalendarEvent {
+  kind: CalendarEventKind;
+  id: string;
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  // YYYY-MM-DD
+  date: string;
+  // Free text as entered by admins, e.g. "9:00 AM - 5:00 PM"
+  time?: string | null;
+  sequence: number;
+  status: 'CONFIRMED' | 'CANCELLED';
+  url?: string | null;
+  lastModified?: string | null;
+}
+
+interface ClockTime {
+  hour: number;
+  minute: number;
+}
+
+const PRODID = '-//LifeCraft//Training Calendar//EN';
+
+// Session times are typed by hand; events without a readable start are all-day
+const TIME_RANGE = /^\s*(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?\s*(?:-|–|to)\s*(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?\s*$/i;
+const SINGLE_TIME = /^\s*(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?\s*$/i;
+
+function toClock(hourText: string, minuteText: string | undefined, period: string | undefined): ClockTime | null {
+  let hour = parseInt(hourText, 10);
+  const minute = minuteText ? parseInt(minuteText, 10) : 0;
+  if (minute > 59) return null;
+
+  if (period) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (period.toUpperCase() === 'PM' ? 12 : 0);
+  } else if (hour > 23) {
+    return null;
+  }
+  return { hour, minute };
+}
+
+/**
+ * Start and end clock times from text like "9:00 AM - 5:00 PM", "13:00-15:30"
+ * or "9 AM". A bare number is a length (drills store "90 minutes"), not a time.
+ */
+export function parseTimeRange(time: string | null | undefined): { start: ClockTime; end: ClockTime } | null {
+  if (!time) return null;
+
+  const range = time.match(TIME_RANGE);
+  if (range) {
+    // "9 - 11 AM": the end's period applies to both
+    const startPeriod = range[3] || range[6];
+    if (!startPeriod && !range[2]) return null;
+    const start = toClock(range[1], range[2], startPeriod);
+    const end = toClock(range[4], range[5], range[6] || range[3]);
+    if (!start || !end) return null;
+    return { start, end };
+  }
+
+  const single = time.match(SINGLE_TIME);
+  if (single && (single[2] || single[3])) {
+    const start = toClock(single[1], single[2], single[3]);
+    if (!start) return null;
+    // One hour by default
+    return { start, end: { hour: Math.min(start.hour + 1, 23), minute: start.minute } };
+  }
+
+  return null;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function formatLocalDateTime(date: string, clock: ClockTime): string {
+  return `${formatDate(date)}T${pad(clock.hour)}${pad(clock.minute)}00`;
+}
+
+function formatUtc(value: Date): string {
+  return value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function nextDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets, continuation lines starting with a space
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+export function getEventUid(kind: CalendarEventKind, id: string): string {
+  return `${kind}-${id}@lifecraft`;
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+  const times = parseTimeRange(event.time);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event.kind, event.id)}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    `SUMMARY:${escapeText(event.status === 'CANCELLED' ? `Cancelled: ${event.title}` : event.title)}`
+  ];
+
+  if (times) {
+    // Floating local times, as entered
+    lines.push(`DTSTART:${formatLocalDateTime(event.date, times.start)}`);
+    const endDate = times.end.hour * 60 + times.end.minute > times.start.hour * 60 + times.start.minute
+      ? event.date
+      : nextDay(event.date);
+    lines.push(`DTEND:${formatLocalDateTime(endDate, times.end)}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`);
+  }
+
+  const description = [event.description, !times && event.time ? `Time: ${event.time}` : null]
+    .filter(Boolean)
+    .join('\n');
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(new Date(event.lastModified))}`);
+  if (event.status === 'CANCELLED') lines.push('TRANSP:TRANSPARENT');
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize events into a VCALENDAR document (CRLF line endings)
+ */
+export function buildCalendar(events: CalendarEvent[], { name }: { name?: string } = {}): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    // Hint for subscribed feeds; apps poll at their own pace otherwise
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
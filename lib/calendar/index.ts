@@ -0,0 +1,22 @@
+/**
+ * iCalendar output for drills and community sessions: ics serializes events,
+ * feed picks the events for a user's token-protected subscription URL.
+ * Server-only; client code goes through lib/calendar-utils.ts.
+ */
+
+export {
+  buildCalendar,
+  escapeText,
+  getEventUid,
+  parseTimeRange,
+  type CalendarEvent,
+  type CalendarEventKind
+} from './ics';
+export {
+  findFeedOwner,
+  getCalendarEvent,
+  getCalendarFeedUrl,
+  getFeedEvents,
+  getFeedToken,
+  type CalendarFeedOwner
+} from './feed';
@@ -0,0 +1,153 @@
+import { authorizedFetch } from './api-client';
+import { waitForJob } from './job-utils';
+import type { CertificateKind } from './certificates/templates';
+import type { CertificateVerification } from './certificates/verification';
+import type { CertificateStatus } from './certificates/status';
+import type { CertificateRenewal } from './certificates';
+
+export type { CertificateKind, CertificateVerification, CertificateStatus, CertificateRenewal };
+
+export interface IssuedCertificateInfo {
+  serial: string;
+  url: string;
+  checksum: string;
+}
+
+/**
+ * Ask the server to render and store a certificate (admin only). The worker
+ * renders it; this waits for the job to finish.
+ * recordId is the user_drills, user_community_sessions or user_tutorial_progress id.
+ */
+export async function issueCertificate(kind: CertificateKind, recordId: string): Promise<IssuedCertificateInfo> {
+  try {
+    const response = await authorizedFetch('/api/certificates', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ kind, recordId })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to issue certificate');
+    }
+
+    return await waitForJob<IssuedCertificateInfo>(data.jobId);
+  } catch (error) {
+    console.error('Error issuing certificate:', error);
+    throw error;
+  }
+}
+
+/**
+ * Revoke a certificate (admin only). The serial keeps verifying as revoked.
+ */
+export async function revokeCertificate(serial: string, reason: string): Promise<void> {
+  try {
+    const response = await authorizedFetch(`/api/certificates/${encodeURIComponent(serial)}/revoke`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ reason })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to revoke certificate');
+    }
+  } catch (error) {
+    console.error('Error revoking certificate:', error);
+    throw error;
+  }
+}
+
+/**
+ * Renew an expiring or expired certificate: enrolls the holder in the next
+ * matching drill or session (pending approval), or reopens the tutorial
+ */
+export async function renewCertificate(serial: string): Promise<CertificateRenewal> {
+  try {
+    const response = await authorizedFetch(`/api/certificates/${encodeURIComponent(serial)}/renew`, {
+      method: 'POST'
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to renew certificate');
+    }
+
+    return data.renewal;
+  } catch (error) {
+    console.error('Error renewing certificate:', error);
+    throw error;
+  }
+}
+
+/**
+ * Download a stored certificate. Works for storage URLs and for the
+ * data URIs saved by older versions of the app.
+ */
+export async function downloadCertificate(
+  certificateUrl: string,
+  userName: string,
+  title: string
+): Promise<void> {
+  try {
+    const sanitizedTitle = title.replace(/[^a-z0-9]/gi, '_');
+    const sanitizedName = userName.replace(/[^a-z0-9]/gi, '_');
+    const dateStr = new Date().toISOString().split('T')[0];
+    const filename = `LifeCraft_Certificate_${sanitizedName}_${sanitizedTitle}_${dateStr}.pdf`;
+
+    // Fetch first so the download attribute also applies to cross-origin storage URLs
+    const response = await fetch(certificateUrl);
+    if (!response.ok) {
+      throw new Error(`Certificate download failed with status ${response.status}`);
+    }
+    const objectUrl = URL.createObjectURL(await response.blob());
+
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = filename;
+
+    // For iOS Safari compatibility
+    link.setAttribute('target', '_blank');
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+  } catch (error) {
+    console.error('Error downloading certificate:', error);
+    throw new Error('Failed to download certificate. Please try again.');
+  }
+}
+
+export interface CertificateVerificationResult {
+  certificate: CertificateVerification;
+  valid: boolean;
+}
+
+/**
+ * Public lookup behind /verify/[serial]. Returns null for unknown serials.
+ */
+export async function fetchCertificateVerification(serial: string): Promise<CertificateVerificationResult | null> {
+  try {
+    const response = await fetch(`/api/verify/${encodeURIComponent(serial)}`, { cache: 'no-store' });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to verify certificate');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error verifying certificate:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,542 @@
+import { createHash } from 'crypto';
+import QRCode from 'qrcode';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CERTIFICATE_KINDS, renderCertificate, type CertificateData, type CertificateKind } from './templates';
+import { getCertificateStorage } from './storage';
+import { createSerial, getVerificationUrl, signCertificate } from './verification';
+import { CERTIFICATE_EXPIRY_WARNING_DAYS, getCertificateExpiry, getCertificateStatus } from './status';
+import { registerForDrill } from '../drill-registrations';
+import { reserveSessionSeat } from '../session-registrations';
+import { joined } from '../supabase-joins';
+
+export { CERTIFICATE_KINDS, renderCertificate } from './templates';
+export type { CertificateBranding, CertificateData, CertificateKind } from './templates';
+export {
+  CERTIFICATE_BUCKET,
+  LocalCertificateStorage,
+  SupabaseCertificateStorage,
+  getCertificateStorage,
+  readLocalCertificate,
+  setCertificateStorage,
+  type CertificateStorage,
+  type CertificateStorageName
+} from './storage';
+export {
+  createSerial,
+  getVerificationUrl,
+  normalizeSerial,
+  signCertificate,
+  verifyCertificate,
+  type CertificateVerification
+} from './verification';
+export {
+  CERTIFICATE_EXPIRY_WARNING_DAYS,
+  CERTIFICATE_VALIDITY_MONTHS,
+  getCertificateExpiry,
+  getCertificateStatus,
+  type CertificateStatus
+} from './status';
+
+/**
+ * Server-side certificate service: loads the completion record, renders the
+ * template for its kind, stores the PDF and records the URL, checksum and
+ * serial on the row. Re-issuing replaces the file but keeps the serial, issue
+ * date and expiry - unless the certificate expired or the training was
+ * completed again (a renewal), which starts a new certificate.
+ */
+
+export class CertificateError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'CertificateError';
+  }
+}
+
+export interface IssuedCertificate {
+  kind: CertificateKind;
+  recordId: string;
+  userId: string;
+  serial: string;
+  expiresAt: string | null;
+  url: string;
+  checksum: string;
+}
+
+export interface CertificateRenewal {
+  kind: CertificateKind;
+  serial: string;
+  // The drill, community session or tutorial the holder was enrolled in
+  targetId: string;
+  title: string;
+  date: string | null;
+}
+
+interface CertificateRecord {
+  serial: string;
+  kind: CertificateKind;
+  record_id: string;
+  user_id: string;
+  course_title: string;
+  issued_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+// What a source loads; the service adds the issue date and verification mark
+type Unissued<D> = D extends CertificateData ? Omit<D, 'issuedAt' | 'verification'> : never;
+type CertificateContent = Unissued<CertificateData>;
+
+interface CertificateSource {
+  // Table holding the completion record and its certificate_url / certificate_checksum / certificate_serial
+  table: string;
+  load(supabase: SupabaseClient, recordId: string): Promise<{
+    userId: string;
+    completedAt: string | null;
+    data: CertificateContent;
+  }>;
+  // Enroll the holder in training that earns a replacement certificate
+  renew(supabase: SupabaseClient, certificate: CertificateRecord): Promise<Omit<CertificateRenewal, 'kind' | 'serial'>>;
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+async function logRenewal(supabase: SupabaseClient, userId: string, action: string, item: string): Promise<void> {
+  try {
+    await supabase
+      .from('activity_log')
+      .insert({ user_id: userId, action, item, points: 0 });
+  } catch (logError) {
+    console.warn('Activity log failed (non-critical):', logError);
+  }
+}
+
+const CERTIFICATE_SOURCES: Record<CertificateKind, CertificateSource> = {
+  drill: {
+    table: 'user_drills',
+    async load(supabase, recordId) {
+      const { data: record, error } = await supabase
+        .from('user_drills')
+        .select(`
+          user_id,
+          status,
+          completed_at,
+          profiles!user_drills_user_id_fkey ( full_name ),
+          drills:drill_id ( title, date, time, location, instructor )
+        `)
+        .eq('id', recordId)
+        .maybeSingle();
+
+      if (error) throw new Error(`Failed to load drill registration: ${error.message}`);
+      if (!record) throw new CertificateError('Drill registration not found', 404);
+      if (record.status !== 'completed') throw new CertificateError('Drill has not been completed');
+
+      const drill = joined(record.drills);
+      const profile = joined(record.profiles);
+
+      return {
+        userId: record.user_id,
+        completedAt: record.completed_at,
+        data: {
+          kind: 'drill',
+          recipientName: profile?.full_name || 'Participant',
+          title: drill?.title || 'Physical Drill',
+          date: drill?.date || record.completed_at,
+          time: drill?.time || 'Not specified',
+          location: drill?.location || 'Not specified',
+          instructor: drill?.instructor || 'LifeCraft Instructor'
+        }
+      };
+    },
+
+    async renew(supabase, certificate) {
+      const { data: record } = await supabase
+        .from('user_drills')
+        .select('drill_id')
+        .eq('id', certificate.record_id)
+        .maybeSingle();
+
+      if (!record) throw new CertificateError('Drill registration not found', 404);
+
+      const { data: drill, error } = await supabase
+        .from('drills')
+        .select('id, title, date')
+        .eq('title', certificate.course_title)
+        .eq('type', 'Physical')
+        .gte('date', today())
+        .neq('id', record.drill_id)
+        .order('date', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw new Error(`Failed to find a drill to renew with: ${error.message}`);
+      if (!drill) throw new CertificateError('No upcoming drill is scheduled for this certificate yet', 409);
+
+      // Same capacity check as signing up from the drills page: pending, or waitlisted when full
+      const { data: existing } = await supabase
+        .from('user_drills')
+        .select('status')
+        .eq('user_id', certificate.user_id)
+        .eq('drill_id', drill.id)
+        .maybeSingle();
+
+      if (!existing || existing.status === 'cancelled') {
+        const registration = await registerForDrill(supabase, certificate.user_id, drill.id);
+        await logRenewal(
+          supabase,
+          certificate.user_id,
+          registration.status === 'waitlisted' ? 'Joined drill waitlist' : 'Registered for drill',
+          drill.id
+        );
+      }
+
+      return { targetId: drill.id, title: drill.title, date: drill.date };
+    }
+  },
+
+  community_session: {
+    table: 'user_community_sessions',
+    async load(supabase, recordId) {
+      const { data: record, error } = await supabase
+        .from('user_community_sessions')
+        .select(`
+          user_id,
+          status,
+          completed_at,
+          profiles:user_id ( full_name ),
+          community_sessions:session_id (
+            title, date, time, location, organization, instructor, certified,
+            organizations:organization_id ( name, brand_color, certificate_signatory, certificate_signatory_title )
+          )
+        `)
+        .eq('id', recordId)
+        .maybeSingle();
+
+      if (error) throw new Error(`Failed to load session registration: ${error.message}`);
+      if (!record) throw new CertificateError('Registration not found', 404);
+
+      const session = joined(record.community_sessions);
+      const profile = joined(record.profiles);
+      const organization = joined(session?.organizations);
+
+      if (!session?.certified) throw new CertificateError('This session is not a certified training session.');
+      if (record.status !== 'completed') throw new CertificateError('Session has not been completed');
+
+      return {
+        userId: record.user_id,
+        completedAt: record.completed_at,
+        data: {
+          kind: 'community_session',
+          recipientName: profile?.full_name || 'Participant',
+          title: session.title,
+          date: session.date,
+          time: session.time,
+          location: session.location,
+          instructor: session.instructor || 'LifeCraft Instructor',
+          organization: session.organization || 'LifeCraft Community',
+          branding: organization ? {
+            name: organization.name,
+            color: organization.brand_color,
+            signatory: organization.certificate_signatory,
+            signatoryTitle: organization.certificate_signatory_title
+          } : null
+        }
+      };
+    },
+
+    async renew(supabase, certificate) {
+      const { data: record } = await supabase
+        .from('user_community_sessions')
+        .select('session_id')
+        .eq('id', certificate.record_id)
+        .maybeSingle();
+
+      if (!record) throw new CertificateError('Registration not found', 404);
+
+      const { data: sessions, error } = await supabase
+        .from('community_sessions')
+        .select('id, title, date')
+        .eq('title', certificate.course_title)
+        .eq('certified', true)
+        .gte('date', today())
+        .neq('id', record.session_id)
+        .order('date', { ascending: true });
+
+      if (error) throw new Error(`Failed to find a session to renew with: ${error.message}`);
+
+      for (const session of sessions || []) {
+        const { data: existing } = await supabase
+          .from('user_community_sessions')
+          .select('status')
+          .eq('user_id', certificate.user_id)
+          .eq('session_id', session.id)
+          .maybeSingle();
+
+        if (!existing || existing.status === 'cancelled') {
+          // Renewals look for a free seat rather than queueing behind a full session
+          const reservation = await reserveSessionSeat(supabase, certificate.user_id, session.id, { joinWaitlist: false });
+          if (reservation.status === 'full') continue;
+
+          await logRenewal(supabase, certificate.user_id, 'Registered for community session', session.id);
+        } else if (existing.status === 'waitlisted' || existing.status === 'declined') {
+          continue;
+        }
+
+        return { targetId: session.id, title: session.title, date: session.date };
+      }
+
+      throw new CertificateError('No upcoming session with free seats is scheduled for this certificate yet', 409);
+    }
+  },
+
+  first_aid: {
+    table: 'user_tutorial_progress',
+    async load(supabase, recordId) {
+      const { data: progress, error } = await supabase
+        .from('user_tutorial_progress')
+        .select('user_id, tutorial_id, completed, completion_date')
+        .eq('id', recordId)
+        .maybeSingle();
+
+      if (error) throw new Error(`Failed to load tutorial progress: ${error.message}`);
+      if (!progress) throw new CertificateError('Tutorial progress not found', 404);
+      if (!progress.completed) throw new CertificateError('Tutorial has not been completed');
+
+      const [{ data: tutorial }, { data: profile }] = await Promise.all([
+        supabase
+          .from('first_aid_tutorials')
+          .select('id, title, category, difficulty, duration')
+          .eq('id', progress.tutorial_id)
+          .maybeSingle(),
+        supabase
+          .from('profiles')
+          .select('full_name')
+          .eq('id', progress.user_id)
+          .maybeSingle()
+      ]);
+
+      if (!tutorial) throw new CertificateError('Tutorial not found', 404);
+
+      return {
+        userId: progress.user_id,
+        completedAt: progress.completion_date,
+        data: {
+          kind: 'first_aid',
+          recipientName: profile?.full_name || 'Unknown User',
+          title: tutorial.title,
+          category: tutorial.category,
+          difficulty: tutorial.difficulty,
+          duration: tutorial.duration,
+          completedAt: progress.completion_date || new Date().toISOString()
+        }
+      };
+    },
+
+    async renew(supabase, certificate) {
+      const { data: progress, error } = await supabase
+        .from('user_tutorial_progress')
+        .select('tutorial_id')
+        .eq('id', certificate.record_id)
+        .maybeSingle();
+
+      if (error) throw new Error(`Failed to load tutorial progress: ${error.message}`);
+      if (!progress) throw new CertificateError('Tutorial progress not found', 404);
+
+      // Tutorials are self-paced: re-enrolling means taking it again
+      const { error: resetError } = await supabase
+        .from('user_tutorial_progress')
+        .update({ completed: false, completion_date: null })
+        .eq('id', certificate.record_id);
+
+      if (resetError) throw new Error(`Failed to reset tutorial progress: ${resetError.message}`);
+      await logRenewal(supabase, certificate.user_id, 'Started tutorial renewal', progress.tutorial_id);
+
+      return { targetId: progress.tutorial_id, title: certificate.course_title, date: null };
+    }
+  }
+};
+
+export function isCertificateKind(value: unknown): value is CertificateKind {
+  return CERTIFICATE_KINDS.includes(value as CertificateKind);
+}
+
+export function certificateChecksum(file: Buffer): string {
+  return createHash('sha256').update(file).digest('hex');
+}
+
+const CERTIFICATE_COLUMNS = 'serial, kind, record_id, user_id, course_title, issued_at, expires_at, revoked_at';
+
+async function getCertificateBySerial(supabase: SupabaseClient, serial: string): Promise<CertificateRecord> {
+  const { data, error } = await supabase
+    .from('certificates')
+    .select(CERTIFICATE_COLUMNS)
+    .eq('serial', serial)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to look up certificate: ${error.message}`);
+  if (!data) throw new CertificateError('Certificate not found', 404);
+  return data as CertificateRecord;
+}
+
+/**
+ * Render, store and record the certificate for one completion record
+ * (user_drills / user_community_sessions / user_tutorial_progress id).
+ * Needs a service-role client.
+ */
+export async function issueCertificate(
+  supabase: SupabaseClient,
+  kind: CertificateKind,
+  recordId: string
+): Promise<IssuedCertificate> {
+  const source = CERTIFICATE_SOURCES[kind];
+  const { userId, completedAt, data } = await source.load(supabase, recordId);
+
+  const { data: current, error: lookupError } = await supabase
+    .from('certificates')
+    .select(CERTIFICATE_COLUMNS)
+    .eq('kind', kind)
+    .eq('record_id', recordId)
+    .is('revoked_at', null)
+    .order('issued_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lookupError) {
+    throw new Error(`Failed to look up certificate: ${lookupError.message}`);
+  }
+
+  const reuse = current
+    && getCertificateStatus({ expiresAt: current.expires_at, revokedAt: null }) !== 'expired'
+    && !(completedAt && new Date(completedAt) > new Date(current.issued_at));
+
+  const issuedAt = reuse ? new Date(current.issued_at) : new Date();
+  const expiresAt = reuse
+    ? (current.expires_at ? new Date(current.expires_at) : null)
+    : getCertificateExpiry(kind, issuedAt);
+  const serial = reuse ? current.serial : createSerial(kind, issuedAt);
+  const verificationUrl = getVerificationUrl(serial);
+
+  // Signed over the same fields the verification page shows
+  const signature = signCertificate({
+    serial,
+    kind,
+    recordId,
+    userId,
+    holderName: data.recipientName,
+    courseTitle: data.title,
+    issuedAt: issuedAt.toISOString(),
+    expiresAt: expiresAt ? expiresAt.toISOString() : null
+  });
+
+  const file = renderCertificate({
+    ...data,
+    issuedAt,
+    verification: {
+      serial,
+      url: verificationUrl,
+      expiresAt,
+      qrDataUrl: await QRCode.toDataURL(verificationUrl, { margin: 1, width: 256 })
+    }
+  } as CertificateData);
+  const checksum = certificateChecksum(file);
+  const url = await getCertificateStorage().put(`${kind}/${recordId}.pdf`, file);
+
+  const row = {
+    serial,
+    kind,
+    record_id: recordId,
+    user_id: userId,
+    holder_name: data.recipientName,
+    course_title: data.title,
+    issued_at: issuedAt.toISOString(),
+    expires_at: expiresAt ? expiresAt.toISOString() : null,
+    signature,
+    file_url: url,
+    checksum
+  };
+
+  const { error: registryError } = reuse
+    ? await supabase.from('certificates').update(row).eq('serial', serial)
+    : await supabase.from('certificates').insert(row);
+
+  if (registryError) {
+    throw new Error(`Failed to record certificate: ${registryError.message}`);
+  }
+
+  const { error } = await supabase
+    .from(source.table)
+    .update({ certificate_url: url, certificate_checksum: checksum, certificate_serial: serial })
+    .eq('id', recordId);
+
+  if (error) {
+    throw new Error(`Failed to record certificate: ${error.message}`);
+  }
+
+  return { kind, recordId, userId, serial, expiresAt: row.expires_at, url, checksum };
+}
+
+/**
+ * Revoke a certificate (admin only). The serial keeps verifying as revoked;
+ * the completion row loses its download link so it can be issued again.
+ */
+export async function revokeCertificate(
+  supabase: SupabaseClient,
+  serial: string,
+  options: { reason: string; revokedBy: string }
+): Promise<void> {
+  const certificate = await getCertificateBySerial(supabase, serial);
+  if (certificate.revoked_at) {
+    throw new CertificateError('Certificate is already revoked', 409);
+  }
+
+  const { error } = await supabase
+    .from('certificates')
+    .update({
+      revoked_at: new Date().toISOString(),
+      revoked_reason: options.reason,
+      revoked_by: options.revokedBy
+    })
+    .eq('serial', serial);
+
+  if (error) {
+    throw new Error(`Failed to revoke certificate: ${error.message}`);
+  }
+
+  const { error: unlinkError } = await supabase
+    .from(CERTIFICATE_SOURCES[certificate.kind].table)
+    .update({ certificate_url: null, certificate_checksum: null })
+    .eq('id', certificate.record_id)
+    .eq('certificate_serial', serial);
+
+  if (unlinkError) {
+    throw new Error(`Failed to unlink revoked certificate: ${unlinkError.message}`);
+  }
+}
+
+/**
+ * Re-enroll the holder in matching training so they can earn a replacement.
+ * Only certificates that are expiring or expired can be renewed. Pass userId
+ * to require that the certificate belongs to that user.
+ */
+export async function renewCertificate(
+  supabase: SupabaseClient,
+  serial: string,
+  options: { userId?: string } = {}
+): Promise<CertificateRenewal> {
+  const certificate = await getCertificateBySerial(supabase, serial);
+  if (options.userId && certificate.user_id !== options.userId) {
+    throw new CertificateError('Certificate not found', 404);
+  }
+
+  const status = getCertificateStatus({ expiresAt: certificate.expires_at, revokedAt: certificate.revoked_at });
+  if (status === 'revoked') {
+    throw new CertificateError('Revoked certificates cannot be renewed');
+  }
+  if (status === 'valid') {
+    throw new CertificateError(`Certificates can be renewed from ${CERTIFICATE_EXPIRY_WARNING_DAYS} days before they expire`);
+  }
+
+  const enrollment = await CERTIFICATE_SOURCES[certificate.kind].renew(supabase, certificate);
+  return { kind: certificate.kind, serial, ...enrollment };
+}
@@ -0,0 +1,50 @@
+import type { CertificateKind } from './templates';
+
+/**
+ * Certificate lifetime rules. No server dependencies, so the dashboard uses
+ * the same status logic as the verification API.
+ */
+
+export type CertificateStatus = 'valid' | 'expiring' | 'expired' | 'revoked';
+
+// How long each kind of certificate stays valid (null: never expires)
+export const CERTIFICATE_VALIDITY_MONTHS: Record<CertificateKind, number | null> = {
+  drill: 12,
+  community_session: 24,
+  first_aid: 24
+};
+
+// Holders are warned, and may renew, this long before expiry
+export const CERTIFICATE_EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getCertificateExpiry(kind: CertificateKind, issuedAt: Date): Date | null {
+  const months = CERTIFICATE_VALIDITY_MONTHS[kind];
+  if (months === null) return null;
+
+  const expiresAt = new Date(issuedAt);
+  expiresAt.setUTCMonth(expiresAt.getUTCMonth() + months);
+  return expiresAt;
+}
+
+export function getCertificateStatus(
+  certificate: { expiresAt: string | null; revokedAt: string | null },
+  now = new Date()
+): CertificateStatus {
+  if (certificate.revokedAt) return 'revoked';
+  if (!certificate.expiresAt) return 'valid';
+
+  const remaining = new Date(certificate.expiresAt).getTime() - now.getTime();
+  if (remaining <= 0) return 'expired';
+  if (remaining <= CERTIFICATE_EXPIRY_WARNING_DAYS * DAY_MS) return 'expiring';
+  return 'valid';
+}
+
+/**
+ * Whole days until expiry (negative once expired), or null if it never expires
+ */
+export function getDaysUntilExpiry(expiresAt: string | null, now = new Date()): number | null {
+  if (!expiresAt) return null;
+  return Math.ceil((new Date(expiresAt).getTime() - now.getTime()) / DAY_MS);
+}
@@ -0,0 +1,109 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { getSupabaseAdmin } from '../supabase-admin';
+
+/**
+ * Where rendered certificates live. Objects are addressed by a relative key
+ * such as `drill/<user_drills.id>.pdf`; the database only keeps the URL.
+ */
+export interface CertificateStorage {
+  readonly name: CertificateStorageName;
+  // Stores (or replaces) the file and returns the URL to save
+  put(key: string, file: Buffer): Promise<string>;
+}
+
+export type CertificateStorageName = 'supabase' | 'local';
+
+export const CERTIFICATE_BUCKET = 'certificates';
+
+// Served by app/api/certificates/files/[...key]/route.ts
+export const LOCAL_CERTIFICATE_URL_PREFIX = '/api/certificates/files/';
+
+/**
+ * Supabase Storage bucket (public read, service-role write)
+ */
+export class SupabaseCertificateStorage implements CertificateStorage {
+  readonly name = 'supabase' as const;
+
+  async put(key: string, file: Buffer): Promise<string> {
+    const bucket = getSupabaseAdmin().storage.from(CERTIFICATE_BUCKET);
+
+    const { error } = await bucket.upload(key, file, {
+      contentType: 'application/pdf',
+      upsert: true
+    });
+    if (error) {
+      throw new Error(`Failed to upload certificate: ${error.message}`);
+    }
+
+    return bucket.getPublicUrl(key).data.publicUrl;
+  }
+}
+
+/**
+ * Local directory for development. Files are served through an API route
+ * rather than public/, which Next only reads at build time.
+ */
+export class LocalCertificateStorage implements CertificateStorage {
+  readonly name = 'local' as const;
+
+  constructor(private readonly root = getLocalCertificateDir()) {}
+
+  async put(key: string, file: Buffer): Promise<string> {
+    const target = resolveLocalCertificatePath(key, this.root);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, file);
+    return LOCAL_CERTIFICATE_URL_PREFIX + key;
+  }
+}
+
+export function getLocalCertificateDir(): string {
+  return path.resolve(process.env.CERTIFICATE_LOCAL_DIR || '.certificates');
+}
+
+/**
+ * Absolute path for a key; throws if the key escapes the storage directory
+ */
+export function resolveLocalCertificatePath(key: string, root = getLocalCertificateDir()): string {
+  const target = path.resolve(root, key);
+  if (!target.startsWith(root + path.sep)) {
+    throw new Error(`Invalid certificate key: ${key}`);
+  }
+  return target;
+}
+
+export async function readLocalCertificate(key: string): Promise<Buffer | null> {
+  try {
+    return await readFile(resolveLocalCertificatePath(key));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * CERTIFICATE_STORAGE picks the backend; object storage in production,
+ * the local filesystem otherwise
+ */
+export function getCertificateStorageName(): CertificateStorageName {
+  const configured = process.env.CERTIFICATE_STORAGE;
+  if (configured === 'supabase' || configured === 'local') return configured;
+  return process.env.NODE_ENV === 'production' ? 'supabase' : 'local';
+}
+
+let storage: CertificateStorage | null = null;
+
+export function getCertificateStorage(): CertificateStorage {
+  if (!storage) {
+    storage = getCertificateStorageName() === 'supabase'
+      ? new SupabaseCertificateStorage()
+      : new LocalCertificateStorage();
+  }
+  return storage;
+}
+
+/**
+ * Replace the storage backend (test harnesses, local tooling)
+ */
+export function setCertificateStorage(next: CertificateStorage): void {
+  storage = next;
+}
@@ -0,0 +1,427 @@
+import { jsPDF } from 'jspdf';
+
+/**
+ * Certificate templates. Each kind is a layout on a shared A4 landscape frame;
+ * rendering is pure (data in, PDF bytes out) so it runs the same in API
+ * routes and the worker.
+ */
+
+export type CertificateKind = 'drill' | 'community_session' | 'first_aid';
+
+export const CERTIFICATE_KINDS: CertificateKind[] = ['drill', 'community_session', 'first_aid'];
+
+export interface CertificateVerificationMark {
+  serial: string;
+  url: string;
+  expiresAt: Date | null;
+  // PNG data URL of a QR code for `url`
+  qrDataUrl: string;
+}
+
+interface CertificateBase {
+  recipientName: string;
+  title: string;
+  issuedAt: Date;
+  verification: CertificateVerificationMark;
+}
+
+export interface DrillCertificateData extends CertificateBase {
+  kind: 'drill';
+  date: string;
+  time: string;
+  location: string;
+  instructor: string;
+}
+
+// The organization that ran a session, for its name, colour and signatory
+export interface CertificateBranding {
+  name: string;
+  // Hex colour such as #b91c1c
+  color: string | null;
+  signatory: string | null;
+  signatoryTitle: string | null;
+}
+
+export interface CommunitySessionCertificateData extends CertificateBase {
+  kind: 'community_session';
+  date: string;
+  time: string;
+  location: string;
+  instructor: string;
+  organization: string;
+  branding?: CertificateBranding | null;
+}
+
+export interface FirstAidCertificateData extends CertificateBase {
+  kind: 'first_aid';
+  category: string | null;
+  difficulty: string | null;
+  duration: string | null;
+  completedAt: string;
+}
+
+export type CertificateData =
+  | DrillCertificateData
+  | CommunitySessionCertificateData
+  | FirstAidCertificateData;
+
+type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+type Rgb = [number, number, number];
+
+const BLACK: Rgb = [0, 0, 0];
+
+interface TextStyle {
+  size: number;
+  style?: FontStyle;
+  font?: 'helvetica' | 'times';
+  gray?: number;
+}
+
+function formatDate(value: string | Date, options: Intl.DateTimeFormatOptions = {}): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    ...options
+  });
+}
+
+function hexToRgb(hex: string | null | undefined): Rgb {
+  const match = hex?.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : BLACK;
+}
+
+function setStyle(doc: jsPDF, { size, style = 'normal', font = 'helvetica', gray = 0 }: TextStyle): void {
+  doc.setFontSize(size);
+  doc.setFont(font, style);
+  doc.setTextColor(gray, gray, gray);
+}
+
+function centered(doc: jsPDF, text: string | string[], y: number, style: TextStyle): void {
+  setStyle(doc, style);
+  doc.text(text, doc.internal.pageSize.getWidth() / 2, y, { align: 'center' });
+}
+
+/**
+ * Outer heavy border plus a thin inner one, `inset` mm apart
+ */
+function drawFrame(doc: jsPDF, margin: number, inset: number, color: Rgb = BLACK): void {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setDrawColor(...color);
+  doc.setLineWidth(2);
+  doc.rect(margin, margin, pageWidth - margin * 2, pageHeight - margin * 2);
+  doc.setLineWidth(0.5);
+  doc.rect(margin + inset, margin + inset, pageWidth - (margin + inset) * 2, pageHeight - (margin + inset) * 2);
+}
+
+/**
+ * Recipient name with an underline sized to the text
+ */
+function drawRecipient(doc: jsPDF, name: string, y: number, style: TextStyle): void {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  centered(doc, name, y, style);
+
+  const nameWidth = doc.getTextWidth(name) + 20;
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.3);
+  doc.line((pageWidth - nameWidth) / 2, y + 2, (pageWidth + nameWidth) / 2, y + 2);
+}
+
+/**
+ * Signature line with a caption underneath, centred on x
+ */
+function drawSignature(doc: jsPDF, x: number, y: number, width: number, lines: [TextStyle & { text: string }, TextStyle & { text: string }]): void {
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.5);
+  doc.line(x - width / 2, y, x + width / 2, y);
+
+  lines.forEach((line, index) => {
+    setStyle(doc, line);
+    doc.text(line.text, x, y + 5 + index * 5, { align: 'center' });
+  });
+}
+
+/**
+ * QR code in the bottom-right corner with the serial, expiry and verification URL beside it
+ */
+function drawVerification(doc: jsPDF, { serial, url, expiresAt, qrDataUrl }: CertificateVerificationMark): void {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const size = 22;
+  const x = pageWidth - 18 - size;
+  const y = pageHeight - 18 - size;
+
+  doc.addImage(qrDataUrl, 'PNG', x, y, size, size);
+
+  setStyle(doc, { size: 8, style: 'bold' });
+  doc.text(`Serial: ${serial}`, x - 3, pageHeight - 27, { align: 'right' });
+  setStyle(doc, { size: 7, gray: 80 });
+  doc.text(expiresAt ? `Valid until ${formatDate(expiresAt)}` : 'Does not expire', x - 3, pageHeight - 23, { align: 'right' });
+  doc.text(`Verify at ${url}`, x - 3, pageHeight - 19, { align: 'right' });
+}
+
+function renderDrill(doc: jsPDF, data: DrillCertificateData): void {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  drawFrame(doc, 5, 5);
+  centered(doc, 'LifeCraft Training Program', 25, { size: 14, style: 'bold' });
+  centered(doc, 'Certificate of Completion', 50, { size: 40, style: 'bold', font: 'times' });
+
+  doc.setLineWidth(0.8);
+  doc.line(50, 55, pageWidth - 50, 55);
+
+  centered(doc, 'This certificate is proudly presented to', 72, { size: 14 });
+  drawRecipient(doc, data.recipientName, 90, { size: 32, style: 'bolditalic', font: 'times' });
+  centered(doc, 'for successfully completing the physical drill training', 106, { size: 14 });
+
+  setStyle(doc, { size: 22, style: 'bold' });
+  const titleLines = doc.splitTextToSize(data.title, pageWidth - 80);
+  centered(doc, titleLines, 120, { size: 22, style: 'bold' });
+
+  const detailsY = 120 + titleLines.length * 9 + 8;
+  const drillDate = formatDate(data.date, { weekday: 'long' });
+  centered(doc, `Conducted on ${drillDate} at ${data.time}`, detailsY, { size: 12 });
+  centered(doc, `Location: ${data.location}`, detailsY + 7, { size: 12 });
+  centered(doc, `Lead Instructor: ${data.instructor}`, detailsY + 14, { size: 12 });
+
+  const footerY = pageHeight - 42;
+  drawSignature(doc, 72.5, footerY, 55, [
+    { text: 'Instructor', size: 10, style: 'bold' },
+    { text: data.instructor, size: 10 }
+  ]);
+  drawSignature(doc, pageWidth - 72.5, footerY, 55, [
+    { text: 'Program Director', size: 10, style: 'bold' },
+    { text: 'LifeCraft Administration', size: 10 }
+  ]);
+
+  centered(doc, `Certificate issued on ${formatDate(data.issuedAt)}`, pageHeight - 22, { size: 9, style: 'italic', gray: 60 });
+  centered(doc, '~ LifeCraft ~', pageHeight - 15, { size: 11, style: 'bold' });
+}
+
+function drawHeart(doc: jsPDF, x: number, y: number, color: Rgb = BLACK): void {
+  const path = [
+    [x - 4, y - 2], [x - 7, y - 5], [x - 7, y - 8], [x - 5, y - 10], [x - 2, y - 10], [x, y - 8],
+    [x + 2, y - 10], [x + 5, y - 10], [x + 7, y - 8], [x + 7, y - 5], [x + 4, y - 2], [x, y + 3], [x - 4, y - 2]
+  ];
+
+  doc.setLineWidth(1.5);
+  doc.setDrawColor(...color);
+  for (let i = 0; i < path.length - 1; i++) {
+    doc.line(path[i][0], path[i][1], path[i + 1][0], path[i + 1][1]);
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max - 3) + '...' : text;
+}
+
+/**
+ * Sessions run by an organization carry its name, colour and signatory, with
+ * LifeCraft credited underneath
+ */
+function renderCommunitySession(doc: jsPDF, data: CommunitySessionCertificateData): void {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const branding = data.branding;
+  const accent = hexToRgb(branding?.color);
+
+  drawFrame(doc, 5, 3, accent);
+  drawHeart(doc, pageWidth / 2, 25, accent);
+
+  let yPos = 33;
+  if (branding) {
+    centered(doc, truncate(branding.name, 40), yPos, { size: 28, style: 'bold' });
+    yPos += 7;
+    centered(doc, 'Community Training Program with LifeCraft', yPos, { size: 14, gray: 60 });
+  } else {
+    centered(doc, 'LifeCraft', yPos, { size: 32, style: 'bold' });
+    yPos += 7;
+    centered(doc, 'Community Training Program', yPos, { size: 14, gray: 60 });
+  }
+
+  yPos += 18;
+  centered(doc, 'CERTIFICATE OF COMPLETION', yPos, { size: 26, style: 'bold' });
+  yPos += 6;
+  doc.setLineWidth(0.5);
+  doc.line((pageWidth - 100) / 2, yPos, (pageWidth + 100) / 2, yPos);
+
+  yPos += 13;
+  centered(doc, 'This is to certify that', yPos, { size: 12, gray: 60 });
+  yPos += 11;
+  drawRecipient(doc, data.recipientName, yPos, { size: 28, style: 'bold' });
+  yPos += 13;
+  centered(doc, 'has successfully completed the training session', yPos, { size: 12, gray: 60 });
+
+  yPos += 9;
+  setStyle(doc, { size: 18, style: 'bold' });
+  const titleLines = doc.splitTextToSize(data.title, pageWidth - 60);
+  centered(doc, titleLines, yPos, { size: 18, style: 'bold' });
+  yPos += titleLines.length * 7 + 7;
+
+  // Details box with an accent bar
+  const boxWidth = 200;
+  const boxX = (pageWidth - boxWidth) / 2;
+  doc.setFillColor(245, 245, 245);
+  doc.roundedRect(boxX, yPos, boxWidth, 28, 2, 2, 'F');
+  doc.setFillColor(...accent);
+  doc.roundedRect(boxX, yPos, 2, 28, 1, 1, 'F');
+
+  const detail = (label: string, value: string, x: number, valueX: number, y: number) => {
+    setStyle(doc, { size: 10, gray: 60 });
+    doc.text(label, x, y);
+    setStyle(doc, { size: 10, style: 'bold' });
+    doc.text(value, valueX, y);
+  };
+
+  yPos += 7;
+  detail('Date:', formatDate(data.date), boxX + 8, boxX + 25, yPos);
+  detail('Time:', data.time, boxX + 110, boxX + 128, yPos);
+  yPos += 6;
+  detail('Location:', truncate(data.location, 60), boxX + 8, boxX + 30, yPos);
+  yPos += 6;
+  detail('Organization:', truncate(data.organization, 55), boxX + 8, boxX + 38, yPos);
+
+  const signatureY = pageHeight - 35;
+  drawSignature(doc, pageWidth / 2 - 52.5, signatureY, 65, [
+    { text: data.instructor, size: 11, style: 'bold' },
+    { text: 'Instructor', size: 9, gray: 60 }
+  ]);
+  // The organization's signatory takes the date's place, which moves below
+  if (branding?.signatory) {
+    drawSignature(doc, pageWidth / 2 + 52.5, signatureY, 65, [
+      { text: truncate(branding.signatory, 32), size: 11, style: 'bold' },
+      { text: truncate(branding.signatoryTitle || branding.name, 40), size: 9, gray: 60 }
+    ]);
+    centered(doc, `Issued on ${formatDate(data.issuedAt)}`, pageHeight - 20, { size: 9, gray: 60 });
+  } else {
+    drawSignature(doc, pageWidth / 2 + 52.5, signatureY, 65, [
+      { text: formatDate(data.issuedAt), size: 11, style: 'bold' },
+      { text: 'Date Issued', size: 9, gray: 60 }
+    ]);
+  }
+
+  centered(doc, 'This certificate verifies successful completion of community training requirements.', pageHeight - 15, { size: 8, style: 'italic', gray: 80 });
+}
+
+function renderFirstAid(doc: jsPDF, data: FirstAidCertificateData): void {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const centerX = pageWidth / 2;
+
+  drawFrame(doc, 10, 5);
+
+  // Corner decorations
+  const cornerSize = 15;
+  doc.setLineWidth(1);
+  for (const x of [15, pageWidth - 15]) {
+    for (const y of [15, pageHeight - 15]) {
+      doc.line(x, y, x + (x === 15 ? cornerSize : -cornerSize), y);
+      doc.line(x, y, x, y + (y === 15 ? cornerSize : -cornerSize));
+    }
+  }
+
+  let yPos = 35;
+  centered(doc, 'LifeCraft', yPos, { size: 40, style: 'bold' });
+  yPos += 10;
+  centered(doc, 'Emergency Preparedness & First Aid Training', yPos, { size: 14, style: 'italic', gray: 80 });
+
+  yPos += 22;
+  centered(doc, 'CERTIFICATE OF COMPLETION', yPos, { size: 32, style: 'bold' });
+
+  yPos += 5;
+  const lineWidth = 100;
+  doc.setLineWidth(0.8);
+  doc.line(centerX - lineWidth / 2, yPos, centerX + lineWidth / 2, yPos);
+  doc.circle(centerX, yPos, 1.5, 'F');
+  doc.circle(centerX - lineWidth / 2, yPos, 1, 'F');
+  doc.circle(centerX + lineWidth / 2, yPos, 1, 'F');
+
+  yPos += 15;
+  centered(doc, 'This is to certify that', yPos, { size: 13, style: 'italic', gray: 60 });
+  yPos += 14;
+  drawRecipient(doc, data.recipientName, yPos, { size: 36, style: 'bolditalic', font: 'times' });
+  yPos += 14;
+  centered(doc, 'has successfully completed the training course', yPos, { size: 13, style: 'italic', gray: 60 });
+  yPos += 13;
+  centered(doc, data.title, yPos, { size: 24, style: 'bold' });
+
+  // Category / difficulty / duration table
+  yPos += 18;
+  const boxWidth = 140;
+  const boxX = (pageWidth - boxWidth) / 2;
+  doc.setLineWidth(0.5);
+  doc.rect(boxX, yPos, boxWidth, 30);
+  doc.line(boxX, yPos + 10, boxX + boxWidth, yPos + 10);
+  doc.line(boxX, yPos + 20, boxX + boxWidth, yPos + 20);
+  doc.line(centerX, yPos, centerX, yPos + 30);
+
+  yPos += 7;
+  const rows: [string, string | null][] = [
+    ['Category:', data.category],
+    ['Difficulty:', data.difficulty],
+    ['Duration:', data.duration]
+  ];
+  rows.forEach(([label, value], index) => {
+    setStyle(doc, { size: 11, style: 'bold' });
+    doc.text(label, boxX + 5, yPos + index * 10);
+    setStyle(doc, { size: 11 });
+    doc.text(value || 'N/A', centerX + 5, yPos + index * 10);
+  });
+
+  yPos += 33;
+  const completionDate = formatDate(data.completedAt);
+  centered(doc, `Awarded on ${completionDate}`, yPos, { size: 12, gray: 40 });
+
+  yPos += 18;
+  drawSignature(doc, centerX - 45, yPos, 60, [
+    { text: 'Authorized Signature', size: 10, gray: 80 },
+    { text: 'LifeCraft Training', size: 11, style: 'bold' }
+  ]);
+  drawSignature(doc, centerX + 45, yPos, 60, [
+    { text: 'Date of Issue', size: 10, gray: 80 },
+    { text: completionDate, size: 11, style: 'bold' }
+  ]);
+
+  // Seal
+  const sealY = yPos + 15;
+  doc.setLineWidth(1);
+  doc.circle(centerX, sealY, 8);
+  doc.setLineWidth(0.3);
+  doc.circle(centerX, sealY, 6);
+  centered(doc, 'OFFICIAL', sealY - 1, { size: 6, style: 'bold' });
+  centered(doc, 'CERTIFICATE', sealY + 2, { size: 6, style: 'bold' });
+
+  centered(doc, 'This certificate verifies completion of the training program and is valid for official records.', pageHeight - 16, { size: 7, gray: 100 });
+}
+
+/**
+ * Render a certificate to PDF bytes
+ */
+export function renderCertificate(data: CertificateData): Buffer {
+  const doc = new jsPDF({
+    orientation: 'landscape',
+    unit: 'mm',
+    format: 'a4',
+    compress: true
+  });
+
+  switch (data.kind) {
+    case 'drill':
+      renderDrill(doc, data);
+      break;
+    case 'community_session':
+      renderCommunitySession(doc, data);
+      break;
+    case 'first_aid':
+      renderFirstAid(doc, data);
+      break;
+  }
+
+  drawVerification(doc, data.verification);
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
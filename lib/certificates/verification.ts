@@ -0,0 +1,148 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CertificateKind } from './templates';
+import { getCertificateStatus, type CertificateStatus } from './status';
+
+/**
+ * Serial numbers and signatures for issued certificates. Every certificate has
+ * a row in `certificates` keyed by its serial; the HMAC covers the fields shown
+ * on the verification page, so an edited row no longer verifies.
+ */
+
+const KIND_CODES: Record<CertificateKind, string> = {
+  drill: 'DR',
+  community_session: 'CS',
+  first_aid: 'FA'
+};
+
+// Crockford base32: no I, L, O or U, so serials survive being read aloud or retyped
+const SERIAL_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const SERIAL_PATTERN = /^LC-(DR|CS|FA)-\d{4}-[0-9A-HJKMNP-TV-Z]{8}$/;
+
+export interface SignedCertificateFields {
+  serial: string;
+  kind: CertificateKind;
+  recordId: string;
+  userId: string;
+  holderName: string;
+  courseTitle: string;
+  issuedAt: string;
+  expiresAt: string | null;
+}
+
+export interface CertificateVerification {
+  serial: string;
+  kind: CertificateKind;
+  holderName: string;
+  courseTitle: string;
+  issuedAt: string;
+  expiresAt: string | null;
+  status: CertificateStatus;
+  revoked: boolean;
+  revokedAt: string | null;
+  revokedReason: string | null;
+  // False when the stored fields no longer match the signature
+  signatureValid: boolean;
+}
+
+/**
+ * New serial such as LC-DR-2026-7K3M9QXA
+ */
+export function createSerial(kind: CertificateKind, issuedAt = new Date()): string {
+  const random = Array.from(randomBytes(8), byte => SERIAL_ALPHABET[byte % 32]).join('');
+  return `LC-${KIND_CODES[kind]}-${issuedAt.getUTCFullYear()}-${random}`;
+}
+
+/**
+ * Upper-cased serial, or null if it cannot be a LifeCraft serial
+ */
+export function normalizeSerial(input: string): string | null {
+  const serial = input.trim().toUpperCase();
+  return SERIAL_PATTERN.test(serial) ? serial : null;
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.CERTIFICATE_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('CERTIFICATE_SIGNING_SECRET is not set');
+  }
+  return secret;
+}
+
+export function signCertificate(fields: SignedCertificateFields): string {
+  const payload = [
+    fields.serial,
+    fields.kind,
+    fields.recordId,
+    fields.userId,
+    fields.holderName,
+    fields.courseTitle,
+    new Date(fields.issuedAt).toISOString(),
+    // Certificates signed before expiry dates existed have no expiry line
+    ...(fields.expiresAt ? [new Date(fields.expiresAt).toISOString()] : [])
+  ].join('\n');
+
+  return createHmac('sha256', getSigningSecret()).update(payload).digest('hex');
+}
+
+export function isSignatureValid(fields: SignedCertificateFields, signature: string): boolean {
+  const expected = Buffer.from(signCertificate(fields), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Public URL printed on the certificate and encoded in its QR code
+ */
+export function getVerificationUrl(serial: string): string {
+  const base = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  return `${base}/verify/${serial}`;
+}
+
+/**
+ * Look up a certificate by serial for the public verification page.
+ * Returns null for unknown serials. Needs a service-role client.
+ */
+export async function verifyCertificate(
+  supabase: SupabaseClient,
+  serialInput: string
+): Promise<CertificateVerification | null> {
+  const serial = normalizeSerial(serialInput);
+  if (!serial) return null;
+
+  const { data, error } = await supabase
+    .from('certificates')
+    .select('serial, kind, record_id, user_id, holder_name, course_title, issued_at, expires_at, signature, revoked_at, revoked_reason')
+    .eq('serial', serial)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up certificate: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const signatureValid = isSignatureValid({
+    serial: data.serial,
+    kind: data.kind,
+    recordId: data.record_id,
+    userId: data.user_id,
+    holderName: data.holder_name,
+    courseTitle: data.course_title,
+    issuedAt: data.issued_at,
+    expiresAt: data.expires_at
+  }, data.signature);
+
+  return {
+    serial: data.serial,
+    kind: data.kind,
+    holderName: data.holder_name,
+    courseTitle: data.course_title,
+    issuedAt: data.issued_at,
+    expiresAt: data.expires_at,
+    status: getCertificateStatus({ expiresAt: data.expires_at, revokedAt: data.revoked_at }),
+    revoked: Boolean(data.revoked_at),
+    revokedAt: data.revoked_at,
+    revokedReason: data.revoked_reason,
+    signatureValid
+  };
+}
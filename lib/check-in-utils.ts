@@ -0,0 +1,213 @@
+import { authorizedFetch } from './api-client';
+import type { CheckInKind } from './check-in/codes';
+import type {
+  CheckInPass,
+  CheckInResult,
+  CheckInRoster,
+  CheckInScan,
+  CompletionSummary,
+  RosterEntry
+} from './check-in/attendance';
+
+export type { CheckInKind, CheckInPass, CheckInResult, CheckInRoster, CompletionSummary, RosterEntry };
+
+/**
+ * A roster saved on the scanning device, with the scans that haven't been
+ * uploaded yet. Scanning only needs this, so instructors can check people in
+ * without a connection and sync afterwards.
+ */
+export interface OfflineCheckIn {
+  roster: CheckInRoster;
+  pending: CheckInScan[];
+  // Scans the server turned down on sync, e.g. a registration cancelled after the download
+  rejected: CheckInResult[];
+  lastSyncedAt: string | null;
+}
+
+export type LocalScanOutcome = 'checked_in' | 'duplicate' | 'unknown';
+
+// Matches the route's per-request limit
+const SYNC_BATCH_SIZE = 500;
+
+function storageKey(kind: CheckInKind, eventId: string): string {
+  return `lifecraft:check-in:${kind}:${eventId}`;
+}
+
+export function getSavedCheckIn(kind: CheckInKind, eventId: string): OfflineCheckIn | null {
+  try {
+    const saved = localStorage.getItem(storageKey(kind, eventId));
+    return saved ? JSON.parse(saved) as OfflineCheckIn : null;
+  } catch (error) {
+    console.error('Error reading saved roster:', error);
+    return null;
+  }
+}
+
+function saveCheckIn(state: OfflineCheckIn): OfflineCheckIn {
+  localStorage.setItem(storageKey(state.roster.event.kind, state.roster.event.id), JSON.stringify(state));
+  return state;
+}
+
+export function discardSavedCheckIn(kind: CheckInKind, eventId: string): void {
+  localStorage.removeItem(storageKey(kind, eventId));
+}
+
+/**
+ * The signed-in user's check-in codes for approved, upcoming drills and sessions
+ */
+export async function getCheckInPasses(): Promise<CheckInPass[]> {
+  try {
+    const response = await authorizedFetch('/api/check-in/passes');
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to load check-in codes');
+    }
+
+    return result.passes;
+  } catch (error) {
+    console.error('Error loading check-in passes:', error);
+    throw error;
+  }
+}
+
+/**
+ * Download an event's roster and save it on this device. Scans that haven't
+ * been uploaded yet are kept and re-applied to the fresh roster.
+ */
+export async function downloadRoster(kind: CheckInKind, eventId: string): Promise<OfflineCheckIn> {
+  try {
+    const response = await authorizedFetch(`/api/check-in/${kind}/${eventId}`);
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to download roster');
+    }
+
+    const previous = getSavedCheckIn(kind, eventId);
+    let state: OfflineCheckIn = {
+      roster: result.roster,
+      pending: [],
+      rejected: previous?.rejected || [],
+      lastSyncedAt: previous?.lastSyncedAt || null
+    };
+
+    for (const scan of previous?.pending || []) {
+      state = scanCode(state, scan.code, scan.scannedAt).state;
+    }
+
+    return saveCheckIn(state);
+  } catch (error) {
+    console.error('Error downloading roster:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check a scanned code against the saved roster and, if it belongs to someone
+ * not yet checked in, queue it for upload. Works offline.
+ */
+export function scanCode(
+  state: OfflineCheckIn,
+  code: string,
+  scannedAt = new Date().toISOString()
+): { state: OfflineCheckIn; outcome: LocalScanOutcome; entry: RosterEntry | null } {
+  const trimmed = code.trim();
+  const entry = state.roster.entries.find(candidate => candidate.code === trimmed) || null;
+
+  if (!entry) {
+    return { state, outcome: 'unknown', entry: null };
+  }
+
+  if (entry.checkedInAt) {
+    return { state, outcome: 'duplicate', entry };
+  }
+
+  const checkedIn = { ...entry, checkedInAt: scannedAt };
+  const next = saveCheckIn({
+    ...state,
+    roster: {
+      ...state.roster,
+      entries: state.roster.entries.map(candidate => candidate.registrationId === entry.registrationId ? checkedIn : candidate)
+    },
+    pending: [...state.pending, { code: trimmed, scannedAt }]
+  });
+
+  return { state: next, outcome: 'checked_in', entry: checkedIn };
+}
+
+/**
+ * Upload queued scans. The server's answer wins: duplicates take the original
+ * check-in time, and rejected scans are un-checked and listed in `rejected`.
+ */
+export async function syncCheckIns(kind: CheckInKind, eventId: string): Promise<OfflineCheckIn> {
+  try {
+    let state = getSavedCheckIn(kind, eventId);
+    if (!state) {
+      throw new Error('Download the roster before syncing');
+    }
+
+    while (state.pending.length > 0) {
+      const batch = state.pending.slice(0, SYNC_BATCH_SIZE);
+      const response = await authorizedFetch(`/api/check-in/${kind}/${eventId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scans: batch })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to sync check-ins');
+      }
+
+      const outcomes = new Map((result.results as CheckInResult[]).map(outcome => [outcome.code, outcome]));
+      // Re-read in case more codes were scanned while the request was out
+      const current = getSavedCheckIn(kind, eventId) || state;
+      const rejected: CheckInResult[] = [];
+
+      const entries = current.roster.entries.map(entry => {
+        const outcome = outcomes.get(entry.code);
+        if (!outcome) return entry;
+        if (outcome.outcome === 'checked_in' || outcome.outcome === 'duplicate') {
+          return { ...entry, checkedInAt: outcome.checkedInAt };
+        }
+        rejected.push({ ...outcome, fullName: outcome.fullName || entry.fullName });
+        return { ...entry, checkedInAt: null };
+      });
+
+      state = saveCheckIn({
+        roster: { ...current.roster, entries },
+        pending: current.pending.slice(batch.length),
+        rejected: [...current.rejected, ...rejected],
+        lastSyncedAt: new Date().toISOString()
+      });
+    }
+
+    return state;
+  } catch (error) {
+    console.error('Error syncing check-ins:', error);
+    throw error;
+  }
+}
+
+/**
+ * Mark everyone checked in to the event as completed; certified sessions get
+ * their certificates issued
+ */
+export async function completeCheckedIn(kind: CheckInKind, eventId: string): Promise<CompletionSummary> {
+  try {
+    const response = await authorizedFetch(`/api/check-in/${kind}/${eventId}/complete`, {
+      method: 'POST'
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to complete checked-in registrations');
+    }
+
+    return result.summary;
+  } catch (error) {
+    console.error('Error completing checked-in registrations:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,390 @@
+import QRCode from 'qrcode';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { issueCertificate } from '../certificates';
+import { createCheckInCode, parseCheckInCode, type CheckInKind } from './codes';
+import { joined } from '../supabase-joins';
+
+/**
+ * Attendance by check-in code. Instructors download an event's roster before
+ * the event (so scanning works without a connection), scan attendees' codes,
+ * and upload the scans; the first accepted scan of a registration sets its
+ * checked_in_at and every later one is reported as a duplicate. Completing an
+ * event then marks every checked-in attendee completed, which is what
+ * certificates are issued from. All functions need a service-role client.
+ */
+
+export class CheckInError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'CheckInError';
+  }
+}
+
+export interface CheckInEvent {
+  kind: CheckInKind;
+  id: string;
+  title: string;
+  date: string | null;
+  time: string | null;
+  location: string | null;
+}
+
+export interface CheckInPass extends CheckInEvent {
+  registrationId: string;
+  code: string;
+  qrDataUrl: string;
+  checkedInAt: string | null;
+}
+
+export interface RosterEntry {
+  registrationId: string;
+  userId: string;
+  fullName: string;
+  email: string | null;
+  status: string;
+  code: string;
+  checkedInAt: string | null;
+}
+
+export interface CheckInRoster {
+  event: CheckInEvent & {
+    // Drills, and certified sessions, can be completed from their check-ins
+    canComplete: boolean;
+  };
+  entries: RosterEntry[];
+  downloadedAt: string;
+}
+
+export interface CheckInScan {
+  code: string;
+  // When the code was scanned on the device; defaults to when it's uploaded
+  scannedAt?: string;
+}
+
+export type CheckInOutcome = 'checked_in' | 'duplicate' | 'invalid' | 'wrong_event' | 'not_eligible';
+
+export interface CheckInResult {
+  code: string;
+  outcome: CheckInOutcome;
+  registrationId: string | null;
+  fullName: string | null;
+  // For duplicates, the time of the original check-in
+  checkedInAt: string | null;
+}
+
+export interface CompletionSummary {
+  completed: number;
+  certificatesIssued: number;
+  failed: { registrationId: string; error: string }[];
+}
+
+interface CheckInSource {
+  table: string;
+  eventTable: string;
+  eventColumn: string;
+  profileJoin: string;
+  // Registrations holding an approved seat
+  eligibleStatuses: string[];
+  completedAction: string;
+}
+
+const CHECK_IN_SOURCES: Record<CheckInKind, CheckInSource> = {
+  drill: {
+    table: 'user_drills',
+    eventTable: 'drills',
+    eventColumn: 'drill_id',
+    profileJoin: 'profiles!user_drills_user_id_fkey ( full_name, email )',
+    eligibleStatuses: ['approved', 'completed'],
+    completedAction: 'Completed physical drill'
+  },
+  session: {
+    table: 'user_community_sessions',
+    eventTable: 'community_sessions',
+    eventColumn: 'session_id',
+    profileJoin: 'profiles:user_id ( full_name, email )',
+    eligibleStatuses: ['registered', 'approved', 'completed'],
+    completedAction: 'Completed community session'
+  }
+};
+
+interface RegistrationRow {
+  id: string;
+  user_id: string;
+  status: string;
+  checked_in_at: string | null;
+  event_id: string;
+  profiles: { full_name: string | null; email: string | null } | { full_name: string | null; email: string | null }[] | null;
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function registrationColumns(source: CheckInSource): string {
+  return `id, user_id, status, checked_in_at, event_id:${source.eventColumn}, ${source.profileJoin}`;
+}
+
+// Device clocks drift; a scan can't be recorded as happening in the future
+function checkInTime(scannedAt: string | undefined): string {
+  const now = new Date();
+  const scanned = scannedAt ? new Date(scannedAt) : now;
+  return Number.isNaN(scanned.getTime()) || scanned > now ? now.toISOString() : scanned.toISOString();
+}
+
+async function loadEvent(supabase: SupabaseClient, kind: CheckInKind, eventId: string) {
+  const source = CHECK_IN_SOURCES[kind];
+  const { data, error } = await supabase
+    .from(source.eventTable)
+    .select(kind === 'session' ? 'id, title, date, time, location, certified' : 'id, title, date, time, location')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load ${kind}: ${error.message}`);
+  if (!data) throw new CheckInError(kind === 'drill' ? 'Drill not found' : 'Session not found', 404);
+
+  const event = data as unknown as CheckInEvent & { certified?: boolean };
+  return {
+    kind,
+    id: event.id,
+    title: event.title,
+    date: event.date,
+    time: event.time,
+    location: event.location,
+    canComplete: kind === 'drill' || Boolean(event.certified)
+  };
+}
+
+/**
+ * Check-in codes for the user's approved, upcoming drills and sessions
+ */
+export async function getCheckInPasses(supabase: SupabaseClient, userId: string): Promise<CheckInPass[]> {
+  const passes: CheckInPass[] = [];
+
+  for (const kind of ['drill', 'session'] as CheckInKind[]) {
+    const source = CHECK_IN_SOURCES[kind];
+    const columns: string = `id, status, checked_in_at, event:${source.eventColumn} ( id, title, date, time, location )`;
+    const { data, error } = await supabase
+      .from(source.table)
+      .select(columns)
+      .eq('user_id', userId)
+      .in('status', source.eligibleStatuses.filter(status => status !== 'completed'));
+
+    if (error) throw new Error(`Failed to load ${kind} registrations: ${error.message}`);
+
+    const registrations = (data || []) as unknown as {
+      id: string;
+      checked_in_at: string | null;
+      event: CheckInEvent | CheckInEvent[] | null;
+    }[];
+
+    for (const registration of registrations) {
+      const event = joined(registration.event);
+      if (!event || !event.date || event.date < today()) continue;
+
+      const code = createCheckInCode(kind, registration.id);
+      passes.push({
+        kind,
+        id: event.id,
+        title: event.title,
+        date: event.date,
+        time: event.time,
+        location: event.location,
+        registrationId: registration.id,
+        code,
+        qrDataUrl: await QRCode.toDataURL(code, { margin: 1, width: 256 }),
+        checkedInAt: registration.checked_in_at
+      });
+    }
+  }
+
+  return passes.sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+}
+
+/**
+ * Everyone with an approved seat at an event, with their codes, for offline
+ * scanning
+ */
+export async function getCheckInRoster(supabase: SupabaseClient, kind: CheckInKind, eventId: string): Promise<CheckInRoster> {
+  const source = CHECK_IN_SOURCES[kind];
+  const event = await loadEvent(supabase, kind, eventId);
+
+  const { data, error } = await supabase
+    .from(source.table)
+    .select(registrationColumns(source))
+    .eq(source.eventColumn, eventId)
+    .in('status', source.eligibleStatuses);
+
+  if (error) throw new Error(`Failed to load roster: ${error.message}`);
+
+  const entries = ((data || []) as unknown as RegistrationRow[])
+    .map(row => {
+      const profile = joined(row.profiles);
+      return {
+        registrationId: row.id,
+        userId: row.user_id,
+        fullName: profile?.full_name || 'Unknown',
+        email: profile?.email || null,
+        status: row.status,
+        code: createCheckInCode(kind, row.id),
+        checkedInAt: row.checked_in_at
+      };
+    })
+    .sort((a, b) => a.fullName.localeCompare(b.fullName));
+
+  return { event, entries, downloadedAt: new Date().toISOString() };
+}
+
+/**
+ * Record scanned codes for one event, in scan order. Each scan gets an outcome;
+ * nothing is thrown for a bad code, so one bad scan doesn't lose the rest of
+ * an offline batch.
+ */
+export async function recordCheckIns(
+  supabase: SupabaseClient,
+  kind: CheckInKind,
+  eventId: string,
+  scans: CheckInScan[],
+  checkedInBy: string
+): Promise<CheckInResult[]> {
+  const source = CHECK_IN_SOURCES[kind];
+  const parsed = scans.map(scan => ({ scan, code: parseCheckInCode(scan.code) }));
+  const registrationIds = [...new Set(
+    parsed.filter(({ code }) => code?.kind === kind).map(({ code }) => code!.registrationId)
+  )];
+
+  const registrations = new Map<string, RegistrationRow>();
+  if (registrationIds.length > 0) {
+    const { data, error } = await supabase
+      .from(source.table)
+      .select(registrationColumns(source))
+      .in('id', registrationIds);
+
+    if (error) throw new Error(`Failed to load registrations: ${error.message}`);
+    for (const row of (data || []) as unknown as RegistrationRow[]) {
+      registrations.set(row.id, row);
+    }
+  }
+
+  const results: CheckInResult[] = [];
+
+  for (const { scan, code } of parsed) {
+    const registration = code?.kind === kind ? registrations.get(code.registrationId) : undefined;
+    const result: CheckInResult = {
+      code: scan.code,
+      outcome: 'invalid',
+      registrationId: registration?.id ?? null,
+      fullName: joined(registration?.profiles)?.full_name ?? null,
+      checkedInAt: null
+    };
+
+    if (!code) {
+      results.push(result);
+      continue;
+    }
+
+    if (!registration || registration.event_id !== eventId) {
+      results.push({ ...result, outcome: 'wrong_event' });
+      continue;
+    }
+
+    if (!source.eligibleStatuses.includes(registration.status)) {
+      results.push({ ...result, outcome: 'not_eligible' });
+      continue;
+    }
+
+    if (registration.checked_in_at) {
+      results.push({ ...result, outcome: 'duplicate', checkedInAt: registration.checked_in_at });
+      continue;
+    }
+
+    // Only the first scan wins, even when two devices upload the same code at once
+    const { data: updated, error } = await supabase
+      .from(source.table)
+      .update({ checked_in_at: checkInTime(scan.scannedAt), checked_in_by: checkedInBy })
+      .eq('id', registration.id)
+      .is('checked_in_at', null)
+      .in('status', source.eligibleStatuses)
+      .select('checked_in_at');
+
+    if (error) throw new Error(`Failed to record check-in: ${error.message}`);
+
+    if (updated && updated.length > 0) {
+      registration.checked_in_at = updated[0].checked_in_at;
+      results.push({ ...result, outcome: 'checked_in', checkedInAt: registration.checked_in_at });
+      continue;
+    }
+
+    const { data: current } = await supabase
+      .from(source.table)
+      .select('status, checked_in_at')
+      .eq('id', registration.id)
+      .maybeSingle();
+
+    registration.checked_in_at = current?.checked_in_at ?? null;
+    results.push(current?.checked_in_at
+      ? { ...result, outcome: 'duplicate', checkedInAt: current.checked_in_at }
+      : { ...result, outcome: 'not_eligible' });
+  }
+
+  return results;
+}
+
+/**
+ * Mark every checked-in attendee of an event who isn't completed yet as
+ * completed, issuing certificates for certified sessions. Drill certificates
+ * are awarded from the admin portal once drills are completed.
+ */
+export async function completeCheckedIn(supabase: SupabaseClient, kind: CheckInKind, eventId: string): Promise<CompletionSummary> {
+  const source = CHECK_IN_SOURCES[kind];
+  const event = await loadEvent(supabase, kind, eventId);
+
+  if (!event.canComplete) {
+    throw new CheckInError('This session is not a certified training session.', 409);
+  }
+
+  const { data, error } = await supabase
+    .from(source.table)
+    .select('id, user_id')
+    .eq(source.eventColumn, eventId)
+    .not('checked_in_at', 'is', null)
+    .in('status', source.eligibleStatuses.filter(status => status !== 'completed'));
+
+  if (error) throw new Error(`Failed to load checked-in registrations: ${error.message}`);
+
+  const summary: CompletionSummary = { completed: 0, certificatesIssued: 0, failed: [] };
+
+  for (const registration of data || []) {
+    const { error: updateError } = await supabase
+      .from(source.table)
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', registration.id);
+
+    if (updateError) {
+      summary.failed.push({ registrationId: registration.id, error: updateError.message });
+      continue;
+    }
+    summary.completed++;
+
+    try {
+      await supabase
+        .from('activity_log')
+        .insert({ user_id: registration.user_id, action: source.completedAction, item: eventId, points: 0 });
+    } catch (logError) {
+      console.warn('Activity log failed (non-critical):', logError);
+    }
+
+    if (kind === 'session') {
+      try {
+        await issueCertificate(supabase, 'community_session', registration.id);
+        summary.certificatesIssued++;
+      } catch (certificateError) {
+        summary.failed.push({
+          registrationId: registration.id,
+          error: certificateError instanceof Error ? certificateError.message : 'Failed to issue certificate'
+        });
+      }
+    }
+  }
+
+  return summary;
+}
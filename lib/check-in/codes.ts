@@ -0,0 +1,68 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { isUuid } from '../uuid';
+
+/**
+ * Check-in codes. Each approved registration has one fixed code, printed as a
+ * QR on the user's dashboard:
+ *
+ *   LCCI1.<d|s>.<registration id>.<signature>
+ *
+ * The signature is a truncated HMAC-SHA256 keyed by CHECK_IN_SIGNING_SECRET,
+ * so codes can't be made up from a registration id. A code is only accepted
+ * once per registration; the check-in service rejects repeats.
+ */
+
+export type CheckInKind = 'drill' | 'session';
+
+export const CHECK_IN_KINDS: CheckInKind[] = ['drill', 'session'];
+
+const CODE_PREFIX = 'LCCI1';
+
+const KIND_CODES: Record<CheckInKind, string> = {
+  drill: 'd',
+  session: 's'
+};
+
+// 96 bits keeps the QR small enough to scan from a phone screen
+const SIGNATURE_LENGTH = 16;
+
+function getSigningSecret(): string {
+  const secret = process.env.CHECK_IN_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('CHECK_IN_SIGNING_SECRET is not set');
+  }
+  return secret;
+}
+
+function sign(kind: CheckInKind, registrationId: string): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`check-in:${kind}:${registrationId.toLowerCase()}`)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH);
+}
+
+export function isCheckInKind(value: unknown): value is CheckInKind {
+  return CHECK_IN_KINDS.includes(value as CheckInKind);
+}
+
+export function createCheckInCode(kind: CheckInKind, registrationId: string): string {
+  return [CODE_PREFIX, KIND_CODES[kind], registrationId.toLowerCase(), sign(kind, registrationId)].join('.');
+}
+
+/**
+ * The registration a code was issued for, or null when the code is malformed
+ * or its signature doesn't match
+ */
+export function parseCheckInCode(code: string): { kind: CheckInKind; registrationId: string } | null {
+  const [prefix, kindCode, registrationId, signature, ...rest] = code.trim().split('.');
+  if (prefix !== CODE_PREFIX || rest.length > 0 || !registrationId || !signature) return null;
+
+  const kind = CHECK_IN_KINDS.find(candidate => KIND_CODES[candidate] === kindCode);
+  if (!kind || !isUuid(registrationId)) return null;
+
+  const expected = Buffer.from(sign(kind, registrationId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  return { kind, registrationId: registrationId.toLowerCase() };
+}
@@ -0,0 +1,29 @@
+/**
+ * QR check-in for drills and community sessions: codes signs and verifies the
+ * per-registration codes, attendance builds rosters, records scans and turns
+ * check-ins into completions. Server-only; client code goes through
+ * lib/check-in-utils.ts.
+ */
+
+export {
+  CHECK_IN_KINDS,
+  createCheckInCode,
+  isCheckInKind,
+  parseCheckInCode,
+  type CheckInKind
+} from './codes';
+export {
+  CheckInError,
+  completeCheckedIn,
+  getCheckInPasses,
+  getCheckInRoster,
+  recordCheckIns,
+  type CheckInEvent,
+  type CheckInOutcome,
+  type CheckInPass,
+  type CheckInResult,
+  type CheckInRoster,
+  type CheckInScan,
+  type CompletionSummary,
+  type RosterEntry
+} from './attendance';
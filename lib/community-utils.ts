@@ -3,12 +3,31 @@
 // ============================================================================
 
 import { supabase } from './supabase';
+import { issueCertificate } from './certificate-utils';
+import { sendNotification } from './notification-utils';
+import {
+  getSessionAvailability,
+  promoteSessionWaitlist,
+  reserveSeriesSeats,
+  reserveSessionSeat,
+  setSessionRegistrationStatus,
+  type PromotedSessionRegistration,
+  type SeriesReservation,
+  type SessionReservation
+} from './session-registrations';
+import {
+  describeRecurrence,
+  expandRecurrence,
+  parseRecurrenceRule,
+  type RecurrenceRule
+} from './session-recurrence';
 
 export interface CommunitySession {
   id: string;
   title: string;
   description: string | null;
   organization: string | null;
+  organization_id: string | null;
   category: string | null;
   level: string | null;
   date: string;
@@ -18,6 +37,10 @@ export interface CommunitySession {
   capacity: number;
   certified: boolean;
   volunteer: boolean;
+  // Set on occurrences of a session series
+  series_id?: string | null;
+  series_date?: string | null;
+  overridden_fields?: string[];
   created_at: string;
   updated_at: string;
 }
@@ -25,9 +48,15 @@ export interface CommunitySession {
 export interface SessionWithStats extends CommunitySession {
   registered_count: number;
   available_spots: number;
+  waitlist_length: number;
+  series?: {
+    id: string;
+    label: string;
+  } | null;
   user_registration?: {
     id: string;
     status: string;
+    waitlist_position: number | null;
   } | null;
 }
 
@@ -37,8 +66,10 @@ export interface UserSessionRegistration {
   session_id: string;
   status: string;
   created_at: string;
+  waitlisted_at?: string | null;
   completed_at?: string | null;
   certificate_url?: string | null;
+  certificate_serial?: string | null;
   profiles?: {
     full_name?: string;
     email?: string;
@@ -62,7 +93,7 @@ export async function getSessionsWithStats(userId?: string): Promise<SessionWith
   try {
     const { data: sessions, error: sessionsError } = await supabase
       .from('community_sessions')
-      .select('*')
+      .select('*, session_series:series_id (id, recurrence)')
       .order('date', { ascending: true });
 
     if (sessionsError) {
@@ -70,13 +101,11 @@ export async function getSessionsWithStats(userId?: string): Promise<SessionWith
       throw new Error('Failed to load sessions. Please try again later.');
     }
 
-    const { data: registrations, error: regError } = await supabase
-      .from('user_community_sessions')
-      .select('session_id, status');
-
-    if (regError) {
-      console.warn('Error fetching registrations:', regError);
-    }
+    // Counted server-side with the same rule reserve_session_seat enforces
+    const availability = await getSessionAvailability(supabase).catch(error => {
+      console.warn('Error fetching session availability:', error);
+      return new Map<string, never>();
+    });
 
     let userRegistrations: UserSessionRegistration[] = [];
     if (userId) {
@@ -92,14 +121,9 @@ export async function getSessionsWithStats(userId?: string): Promise<SessionWith
       }
     }
 
-    return (sessions || []).map(session => {
-      // FIXED: Include 'completed' status in registration count
-      const sessionRegs = registrations?.filter(
-        r => r.session_id === session.id && 
-             (r.status === 'registered' || r.status === 'approved' || r.status === 'completed')
-      ) || [];
-      
-      const registered_count = sessionRegs.length;
+    return (sessions || []).map(({ session_series, ...session }) => {
+      const seats = availability.get(session.id);
+      const registered_count = seats?.seatsTaken ?? 0;
       const available_spots = Math.max(0, session.capacity - registered_count);
       
       const userReg = userRegistrations.find(r => r.session_id === session.id);
@@ -108,9 +132,15 @@ export async function getSessionsWithStats(userId?: string): Promise<SessionWith
         ...session,
         registered_count,
         available_spots,
+        waitlist_length: seats?.waitlistLength ?? 0,
+        series: session_series ? {
+          id: session_series.id,
+          label: describeRecurrence(session_series.recurrence)
+        } : null,
         user_registration: userReg ? {
           id: userReg.id,
-          status: userReg.status
+          status: userReg.status,
+          waitlist_position: seats?.myWaitlistPosition ?? null
         } : null
       };
     });
@@ -121,100 +151,33 @@ export async function getSessionsWithStats(userId?: string): Promise<SessionWith
 }
 
 /**
- * Register user for a session
+ * Register user for a session. The seat is reserved atomically; when the
+ * session is full the user joins the waitlist, or with joinWaitlist: false
+ * gets a 'full' result back and nothing is written.
  */
-export async function registerForSession(userId: string, sessionId: string): Promise<void> {
+export async function registerForSession(
+  userId: string,
+  sessionId: string,
+  { joinWaitlist = true }: { joinWaitlist?: boolean } = {}
+): Promise<SessionReservation> {
   try {
-    const { data: existing, error: checkError } = await supabase
-      .from('user_community_sessions')
-      .select('id, status')
-      .eq('user_id', userId)
-      .eq('session_id', sessionId)
-      .maybeSingle();
-
-    if (checkError) {
-      console.error('Error checking existing registration:', checkError);
-      throw new Error('Failed to check registration status. Please try again.');
-    }
-
-    if (existing) {
-      if (existing.status === 'pending') {
-        throw new Error('You have already registered for this session and your registration is pending approval.');
-      } else if (existing.status === 'registered' || existing.status === 'approved') {
-        throw new Error('You have already been approved for this session.');
-      } else if (existing.status === 'completed') {
-        throw new Error('You have already completed this session.');
-      } else if (existing.status === 'declined') {
-        throw new Error('Your previous registration for this session was declined. Please contact an administrator.');
-      } else {
-        throw new Error('You are already registered for this session.');
-      }
-    }
-
-    const { data: session, error: sessionError } = await supabase
-      .from('community_sessions')
-      .select('id, capacity, certified, title')
-      .eq('id', sessionId)
-      .single();
-
-    if (sessionError || !session) {
-      console.error('Error fetching session:', sessionError);
-      throw new Error('Session not found.');
-    }
-
-    const { count, error: countError } = await supabase
-      .from('user_community_sessions')
-      .select('*', { count: 'exact', head: true })
-      .eq('session_id', sessionId)
-      .in('status', ['registered', 'approved', 'pending', 'completed']);
-
-    if (countError) {
-      console.error('Error counting registrations:', countError);
-    }
-
-    const currentCount = count || 0;
-    if (currentCount >= session.capacity) {
-      throw new Error('This session is full. Please choose another session.');
-    }
-
-    const { error: insertError } = await supabase
-      .from('user_community_sessions')
-      .insert({
-        user_id: userId,
-        session_id: sessionId,
-        status: 'pending'
-      });
-
-    if (insertError) {
-      console.error('Error creating registration:', insertError);
-      
-      if (insertError.code === '23505') {
-        throw new Error('You are already registered for this session.');
-      }
-      
-      if (insertError.code === '42501') {
-        throw new Error('Permission denied. Please make sure you are logged in.');
-      }
-
-      if (insertError.code === '23514') {
-        throw new Error('Invalid registration status. Please contact support.');
-      }
-      
-      throw new Error(`Failed to register: ${insertError.message || 'Unknown error'}`);
-    }
+    const reservation = await reserveSessionSeat(supabase, userId, sessionId, { joinWaitlist });
+    if (reservation.status === 'full') return reservation;
 
     try {
       await supabase
         .from('activity_log')
         .insert({
           user_id: userId,
-          action: 'Registered for community session',
+          action: reservation.status === 'waitlisted' ? 'Joined session waitlist' : 'Registered for community session',
           item: sessionId,
           points: 0
         });
     } catch (logError) {
       console.warn('Failed to log activity (non-critical):', logError);
     }
+
+    return reservation;
   } catch (error) {
     console.error('Error in registerForSession:', error);
     throw error;
@@ -222,7 +185,9 @@ export async function registerForSession(userId: string, sessionId: string): Pro
 }
 
 /**
- * Get all registrations for admin
+ * Get registrations for the registration screen. Platform admins get all of
+ * them; row-level security limits organization admins to their organization's
+ * sessions and instructors to their assigned ones.
  */
 export async function getAllRegistrations(): Promise<UserSessionRegistration[]> {
   try {
@@ -266,24 +231,61 @@ export async function getAllRegistrations(): Promise<UserSessionRegistration[]>
 }
 
 /**
- * Update registration status (admin only)
+ * Update registration status (admins, the session's organization admins and
+ * instructors). Approving or declining emails the user. Declining or cancelling
+ * frees a seat, which goes to the next person on the waitlist; they're emailed
+ * too and returned.
  */
 export async function updateRegistrationStatus(
   registrationId: string,
-  status: 'pending' | 'approved' | 'declined'
-): Promise<void> {
+  status: 'pending' | 'approved' | 'declined' | 'cancelled'
+): Promise<PromotedSessionRegistration[]> {
   try {
-    const newStatus = status === 'approved' ? 'registered' : status;
-    
-    const { error } = await supabase
-      .from('user_community_sessions')
-      .update({ status: newStatus })
-      .eq('id', registrationId);
+    const promoted = await setSessionRegistrationStatus(
+      supabase,
+      registrationId,
+      status === 'approved' ? 'registered' : status
+    );
 
-    if (error) {
-      console.error('Error updating registration status:', error);
-      throw new Error('Failed to update registration. Please try again later.');
+    if (status === 'approved' || status === 'declined') {
+      const { data: registration } = await supabase
+        .from('user_community_sessions')
+        .select(`
+          *,
+          community_sessions:session_id (
+            title,
+            date,
+            time,
+            location
+          )
+        `)
+        .eq('id', registrationId)
+        .single();
+
+      if (registration?.community_sessions) {
+        const session = registration.community_sessions;
+        const details = {
+          sessionTitle: session.title,
+          sessionDate: session.date,
+          sessionTime: session.time,
+          location: session.location
+        };
+
+        // The decision stands even if the email can't be queued
+        try {
+          if (status === 'approved') {
+            await sendNotification('registration_approved', registration.user_id, details);
+          } else {
+            await sendNotification('registration_declined', registration.user_id, { ...details, reason: null });
+          }
+        } catch (notifyError) {
+          console.error('Error sending registration notification:', notifyError);
+        }
+      }
     }
+
+    await notifyPromotedRegistrations(promoted);
+    return promoted;
   } catch (error) {
     console.error('Error in updateRegistrationStatus:', error);
     throw error;
@@ -291,270 +293,38 @@ export async function updateRegistrationStatus(
 }
 
 /**
- * Generate certificate PDF and return as base64 data URI (mobile compatible)
- * BLACK AND WHITE VERSION with LifeCraft Heart Logo
- * Returns a data URI that works across all devices including mobile
+ * Email users promoted off a waitlist. The promotion stands even if an email
+ * can't be queued.
  */
-async function generateCertificateDataUri(
-  userName: string,
-  sessionTitle: string,
-  sessionDate: string,
-  sessionTime: string,
-  sessionLocation: string,
-  instructor: string,
-  organization: string
-): Promise<string> {
-  return new Promise(async (resolve, reject) => {
-    try {
-      const loadScript = () => {
-        return new Promise((res, rej) => {
-          if ((window as any).jspdf) {
-            res(true);
-            return;
-          }
-          
-          const script = document.createElement('script');
-          script.src = 'https://cdnjs.cloudflare.com/ajax/libs/jspdf/2.5.1/jspdf.umd.min.js';
-          script.onload = () => res(true);
-          script.onerror = () => rej(new Error('Failed to load PDF library'));
-          document.head.appendChild(script);
-        });
-      };
+async function notifyPromotedRegistrations(promoted: PromotedSessionRegistration[]): Promise<void> {
+  if (promoted.length === 0) return;
 
-      await loadScript();
+  const { data: session } = await supabase
+    .from('community_sessions')
+    .select('title, date, time, location')
+    .eq('id', promoted[0].sessionId)
+    .maybeSingle();
 
-      const { jsPDF } = (window as any).jspdf;
-      const doc = new jsPDF({
-        orientation: 'landscape',
-        unit: 'mm',
-        format: 'a4',
-        compress: true
-      });
+  if (!session) return;
 
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const pageHeight = doc.internal.pageSize.getHeight();
-
-      // FULL PAGE - Certificate border (no margins)
-      doc.setLineWidth(2);
-      doc.setDrawColor(0, 0, 0); // Black border
-      doc.rect(5, 5, pageWidth - 10, pageHeight - 10, 'S');
-      
-      doc.setLineWidth(0.5);
-      doc.setDrawColor(0, 0, 0);
-      doc.rect(8, 8, pageWidth - 16, pageHeight - 16, 'S');
-
-      // Draw Heart Logo (matching LifeCraft logo)
-      let yPos = 25;
-      const logoSize = 15;
-      const logoX = pageWidth / 2;
-      
-      // Heart shape using lines (simple outline)
-      doc.setLineWidth(1.5);
-      doc.setDrawColor(0, 0, 0);
-      
-      // Draw heart outline
-      const heartPath = [
-        [logoX - 4, yPos - 2],
-        [logoX - 7, yPos - 5],
-        [logoX - 7, yPos - 8],
-        [logoX - 5, yPos - 10],
-        [logoX - 2, yPos - 10],
-        [logoX, yPos - 8],
-        [logoX + 2, yPos - 10],
-        [logoX + 5, yPos - 10],
-        [logoX + 7, yPos - 8],
-        [logoX + 7, yPos - 5],
-        [logoX + 4, yPos - 2],
-        [logoX, yPos + 3],
-        [logoX - 4, yPos - 2]
-      ];
-      
-      for (let i = 0; i < heartPath.length - 1; i++) {
-        doc.line(heartPath[i][0], heartPath[i][1], heartPath[i + 1][0], heartPath[i + 1][1]);
-      }
-
-      // Logo/Header Text
-      yPos += 8;
-      doc.setFontSize(32);
-      doc.setTextColor(0, 0, 0); // Black text
-      doc.setFont('helvetica', 'bold');
-      doc.text('LifeCraft', pageWidth / 2, yPos, { align: 'center' });
-      
-      yPos += 7;
-      doc.setFontSize(14);
-      doc.setTextColor(60, 60, 60); // Dark gray
-      doc.setFont('helvetica', 'normal');
-      doc.text('Community Training Program', pageWidth / 2, yPos, { align: 'center' });
-
-      // Certificate Title
-      yPos += 18;
-      doc.setFontSize(26);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont('helvetica', 'bold');
-      doc.text('CERTIFICATE OF COMPLETION', pageWidth / 2, yPos, { align: 'center' });
-
-      // Decorative line
-      yPos += 6;
-      doc.setLineWidth(0.5);
-      doc.setDrawColor(0, 0, 0);
-      const lineWidth = 100;
-      doc.line((pageWidth - lineWidth) / 2, yPos, (pageWidth + lineWidth) / 2, yPos);
-
-      // This certifies text
-      yPos += 13;
-      doc.setFontSize(12);
-      doc.setTextColor(60, 60, 60);
-      doc.setFont('helvetica', 'normal');
-      doc.text('This is to certify that', pageWidth / 2, yPos, { align: 'center' });
-
-      // Participant name
-      yPos += 11;
-      doc.setFontSize(28);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont('helvetica', 'bold');
-      doc.text(userName, pageWidth / 2, yPos, { align: 'center' });
-
-      // Name underline
-      yPos += 2;
-      doc.setLineWidth(0.5);
-      doc.setDrawColor(0, 0, 0);
-      const nameWidth = doc.getTextWidth(userName) + 20;
-      doc.line((pageWidth - nameWidth) / 2, yPos, (pageWidth + nameWidth) / 2, yPos);
-
-      // Completion text
-      yPos += 11;
-      doc.setFontSize(12);
-      doc.setTextColor(60, 60, 60);
-      doc.setFont('helvetica', 'normal');
-      doc.text('has successfully completed the training session', pageWidth / 2, yPos, { align: 'center' });
-
-      // Training session title
-      yPos += 9;
-      doc.setFontSize(18);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont('helvetica', 'bold');
-      const titleLines = doc.splitTextToSize(sessionTitle, pageWidth - 60);
-      doc.text(titleLines, pageWidth / 2, yPos, { align: 'center' });
-      yPos += (titleLines.length * 7);
-
-      // Session details box
-      yPos += 7;
-      const boxWidth = 200;
-      const boxX = (pageWidth - boxWidth) / 2;
-      const boxHeight = 28;
-      
-      // Light gray background box
-      doc.setFillColor(245, 245, 245);
-      doc.roundedRect(boxX, yPos, boxWidth, boxHeight, 2, 2, 'F');
-      
-      // Black accent line on left
-      doc.setFillColor(0, 0, 0);
-      doc.roundedRect(boxX, yPos, 2, boxHeight, 1, 1, 'F');
-
-      yPos += 7;
-      doc.setFontSize(10);
-      doc.setTextColor(60, 60, 60);
-      doc.setFont('helvetica', 'normal');
-      
-      const dateFormatted = new Date(sessionDate).toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
+  for (const registration of promoted) {
+    try {
+      await sendNotification('waitlist_promoted', registration.userId, {
+        sessionTitle: session.title,
+        sessionDate: session.date,
+        sessionTime: session.time,
+        location: session.location
       });
-      
-      doc.text('Date:', boxX + 8, yPos);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont('helvetica', 'bold');
-      doc.text(dateFormatted, boxX + 25, yPos);
-      
-      doc.setTextColor(60, 60, 60);
-      doc.setFont('helvetica', 'normal');
-      doc.text('Time:', boxX + 110, yPos);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont('helvetica', 'bold');
-      doc.text(sessionTime, boxX + 128, yPos);
-      
-      yPos += 6;
-      doc.setTextColor(60, 60, 60);
-      doc.setFont('helvetica', 'normal');
-      doc.text('Location:', boxX + 8, yPos);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont('helvetica', 'bold');
-      const locationText = sessionLocation.length > 60 ? sessionLocation.substring(0, 57) + '...' : sessionLocation;
-      doc.text(locationText, boxX + 30, yPos);
-
-      yPos += 6;
-      doc.setTextColor(60, 60, 60);
-      doc.setFont('helvetica', 'normal');
-      doc.text('Organization:', boxX + 8, yPos);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont('helvetica', 'bold');
-      const orgText = organization.length > 55 ? organization.substring(0, 52) + '...' : organization;
-      doc.text(orgText, boxX + 38, yPos);
-
-      // Signature section - positioned at bottom
-      yPos = pageHeight - 35;
-      
-      const signatureWidth = 65;
-      const leftSigX = (pageWidth / 2) - signatureWidth - 20;
-      const rightSigX = (pageWidth / 2) + 20;
-      
-      // Instructor signature
-      doc.setLineWidth(0.3);
-      doc.setDrawColor(0, 0, 0);
-      doc.line(leftSigX, yPos, leftSigX + signatureWidth, yPos);
-      
-      yPos += 4;
-      doc.setFontSize(11);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont('helvetica', 'bold');
-      doc.text(instructor, leftSigX + (signatureWidth / 2), yPos, { align: 'center' });
-      
-      yPos += 4;
-      doc.setFontSize(9);
-      doc.setTextColor(60, 60, 60);
-      doc.setFont('helvetica', 'normal');
-      doc.text('Instructor', leftSigX + (signatureWidth / 2), yPos, { align: 'center' });
-
-      // Date signature
-      yPos = pageHeight - 35;
-      doc.setLineWidth(0.3);
-      doc.setDrawColor(0, 0, 0);
-      doc.line(rightSigX, yPos, rightSigX + signatureWidth, yPos);
-      
-      yPos += 4;
-      doc.setFontSize(11);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont('helvetica', 'bold');
-      doc.text(new Date().toLocaleDateString(), rightSigX + (signatureWidth / 2), yPos, { align: 'center' });
-      
-      yPos += 4;
-      doc.setFontSize(9);
-      doc.setTextColor(60, 60, 60);
-      doc.setFont('helvetica', 'normal');
-      doc.text('Date Issued', rightSigX + (signatureWidth / 2), yPos, { align: 'center' });
-
-      // Footer - positioned at very bottom
-      yPos = pageHeight - 15;
-      doc.setFontSize(8);
-      doc.setTextColor(80, 80, 80);
-      doc.setFont('helvetica', 'italic');
-      doc.text('This certificate verifies successful completion of community training requirements.', pageWidth / 2, yPos, { align: 'center' });
-
-      // Generate base64 data URI instead of blob (mobile compatible)
-      const pdfDataUri = doc.output('datauristring');
-      
-      resolve(pdfDataUri);
     } catch (error) {
-      console.error('Error generating certificate:', error);
-      reject(error);
+      console.error('Error sending waitlist promotion notification:', error);
     }
-  });
+  }
 }
 
 /**
- * Mark community session as completed (admin only) - for certified sessions
- * Generates certificate and stores base64 data URI in database
+ * Mark community session as completed (admins, the session's organization
+ * admins and instructors) - for certified sessions
+ * Issues the certificate through the server-side certificate service
  */
 export async function markSessionComplete(
   registrationId: string,
@@ -567,17 +337,7 @@ export async function markSessionComplete(
       .from('user_community_sessions')
       .select(`
         *,
-        profiles:user_id (
-          full_name,
-          email
-        ),
         community_sessions:session_id (
-          title,
-          date,
-          time,
-          location,
-          organization,
-          instructor,
           certified
         )
       `)
@@ -593,32 +353,12 @@ export async function markSessionComplete(
       throw new Error('This session is not a certified training session.');
     }
 
-    // Generate certificate data URI
-    const userName = registration.profiles?.full_name || 'Participant';
-    const sessionTitle = registration.community_sessions.title;
-    const sessionDate = registration.community_sessions.date;
-    const sessionTime = registration.community_sessions.time;
-    const sessionLocation = registration.community_sessions.location;
-    const instructor = registration.community_sessions.instructor || 'LifeCraft Instructor';
-    const organization = registration.community_sessions.organization || 'LifeCraft Community';
-
-    const certificateDataUri = await generateCertificateDataUri(
-      userName,
-      sessionTitle,
-      sessionDate,
-      sessionTime,
-      sessionLocation,
-      instructor,
-      organization
-    );
-
-    // Update the user_community_sessions record with completion and data URI
+    // Update the user_community_sessions record with completion
     const { error: updateError } = await supabase
       .from('user_community_sessions')
       .update({ 
         status: 'completed',
-        completed_at: new Date().toISOString(),
-        certificate_url: certificateDataUri // Store the data URI (mobile compatible)
+        completed_at: new Date().toISOString()
       })
       .eq('id', registrationId);
 
@@ -627,6 +367,9 @@ export async function markSessionComplete(
       throw new Error('Failed to mark session as complete. Please try again later.');
     }
 
+    // Rendered and stored server-side; the row gets the URL and checksum
+    await issueCertificate('community_session', registrationId);
+
     // Try to log activity
     try {
       await supabase
@@ -648,9 +391,10 @@ export async function markSessionComplete(
 }
 
 /**
- * Create new session (admin only)
+ * Create new session (platform admins, or organization admins for their
+ * organization). The organization's name is filled in from organization_id.
  */
-export async function createSession(sessionData: Omit<CommunitySession, 'id' | 'created_at' | 'updated_at'>): Promise<void> {
+export async function createSession(sessionData: Omit<CommunitySession, 'id' | 'organization' | 'created_at' | 'updated_at'>): Promise<void> {
   try {
     const { error } = await supabase
       .from('community_sessions')
@@ -667,19 +411,42 @@ export async function createSession(sessionData: Omit<CommunitySession, 'id' | '
 }
 
 /**
- * Update session (admin only)
+ * Update session (admins, the session's organization admins and instructors)
  */
 export async function updateSession(sessionId: string, sessionData: Partial<CommunitySession>): Promise<void> {
   try {
-    const { error } = await supabase
+    const { data: session, error } = await supabase
       .from('community_sessions')
       .update(sessionData)
-      .eq('id', sessionId);
+      .eq('id', sessionId)
+      .select('*, session_series:series_id (*)')
+      .single();
 
     if (error) {
       console.error('Error updating session:', error);
       throw new Error('Failed to update session. Please try again later.');
     }
+
+    // Series edits skip whatever this occurrence now does differently
+    if (session.session_series) {
+      const overridden = getOverriddenFields(session, session.session_series);
+      if (overridden.join() !== (session.overridden_fields || []).join()) {
+        const { error: overrideError } = await supabase
+          .from('community_sessions')
+          .update({ overridden_fields: overridden })
+          .eq('id', sessionId);
+
+        if (overrideError) {
+          console.error('Error recording session overrides:', overrideError);
+          throw new Error('Failed to update session. Please try again later.');
+        }
+      }
+    }
+
+    // A raised capacity opens seats for the waitlist
+    if (sessionData.capacity !== undefined) {
+      await notifyPromotedRegistrations(await promoteSessionWaitlist(supabase, sessionId));
+    }
   } catch (error) {
     console.error('Error in updateSession:', error);
     throw error;
@@ -687,7 +454,7 @@ export async function updateSession(sessionId: string, sessionData: Partial<Comm
 }
 
 /**
- * Delete session (admin only)
+ * Delete session (platform admins and the session's organization admins)
  */
 export async function deleteSession(sessionId: string): Promise<void> {
   try {
@@ -716,35 +483,262 @@ export async function deleteSession(sessionId: string): Promise<void> {
   }
 }
 
+// ============================================================================
+// Session series
+// ============================================================================
+
+// Details an occurrence shares with its series unless overridden
+export const SERIES_FIELDS = [
+  'title',
+  'description',
+  'organization_id',
+  'category',
+  'level',
+  'time',
+  'location',
+  'instructor',
+  'capacity',
+  'certified',
+  'volunteer'
+] as const;
+
+export type SeriesField = typeof SERIES_FIELDS[number];
+
+export type SessionSeriesDetails = Pick<CommunitySession, SeriesField>;
+
+export interface SessionSeries extends SessionSeriesDetails {
+  id: string;
+  recurrence: RecurrenceRule;
+  created_at: string;
+  updated_at: string;
+}
+
 /**
- * Download certificate from data URI stored in database (mobile compatible)
- * Works on all devices including iOS and Android
+ * Fields of an occurrence that differ from its series. A moved occurrence
+ * (date other than its series_date) counts 'date' as overridden.
  */
-export function downloadCertificateFromDataUri(
-  certificateDataUri: string,
-  userName: string,
-  sessionTitle: string
-): void {
+function getOverriddenFields(session: CommunitySession, series: SessionSeriesDetails): string[] {
+  const overridden: string[] = SERIES_FIELDS.filter(field => (session[field] ?? null) !== (series[field] ?? null));
+  if (session.series_date && session.date !== session.series_date) {
+    overridden.push('date');
+  }
+  return overridden;
+}
+
+function pickSeriesDetails(details: Partial<SessionSeriesDetails>): Partial<SessionSeriesDetails> {
+  return Object.fromEntries(
+    SERIES_FIELDS.filter(field => details[field] !== undefined).map(field => [field, details[field]])
+  );
+}
+
+function toOccurrence(seriesId: string, details: SessionSeriesDetails, date: string) {
+  return { ...pickSeriesDetails(details), series_id: seriesId, series_date: date, date };
+}
+
+/**
+ * Create a series and one session per date of its recurrence rule (platform
+ * admins, or organization admins for their organization)
+ */
+export async function createSessionSeries(
+  details: SessionSeriesDetails,
+  recurrence: RecurrenceRule
+): Promise<{ series: SessionSeries; sessionCount: number }> {
   try {
-    // Generate filename
-    const sanitizedTitle = sessionTitle.replace(/[^a-z0-9]/gi, '_');
-    const sanitizedName = userName.replace(/[^a-z0-9]/gi, '_');
-    const dateStr = new Date().toISOString().split('T')[0];
-    const filename = `LifeCraft_Certificate_${sanitizedName}_${sanitizedTitle}_${dateStr}.pdf`;
-    
-    // Create a temporary anchor element to trigger download
-    const link = document.createElement('a');
-    link.href = certificateDataUri;
-    link.download = filename;
-    
-    // For iOS Safari compatibility
-    link.setAttribute('target', '_blank');
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const rule = parseRecurrenceRule(recurrence);
+    const dates = expandRecurrence(rule);
+
+    const { data: series, error } = await supabase
+      .from('session_series')
+      .insert({ ...pickSeriesDetails(details), recurrence: rule })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating session series:', error);
+      throw new Error('Failed to create session series. Please try again later.');
+    }
+
+    const { error: sessionsError } = await supabase
+      .from('community_sessions')
+      .insert(dates.map(date => toOccurrence(series.id, details, date)));
+
+    if (sessionsError) {
+      console.error('Error creating series sessions:', sessionsError);
+      await supabase.from('session_series').delete().eq('id', series.id);
+      throw new Error('Failed to create session series. Please try again later.');
+    }
+
+    return { series, sessionCount: dates.length };
+  } catch (error) {
+    console.error('Error in createSessionSeries:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a series with its recurrence rule
+ */
+export async function getSessionSeries(seriesId: string): Promise<SessionSeries> {
+  try {
+    const { data, error } = await supabase
+      .from('session_series')
+      .select('*')
+      .eq('id', seriesId)
+      .single();
+
+    if (error || !data) {
+      console.error('Error fetching session series:', error);
+      throw new Error('Session series not found.');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in getSessionSeries:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a series (platform and organization admins). Every future occurrence
+ * takes the new details except for the fields it overrides. With a new
+ * recurrence rule, future occurrences whose date dropped out of the rule are
+ * deleted along with their registrations, and new dates get sessions. Past
+ * occurrences are left alone.
+ */
+export async function updateSessionSeries(
+  seriesId: string,
+  details: Partial<SessionSeriesDetails>,
+  recurrence?: RecurrenceRule
+): Promise<{ updated: number; added: number; removed: number }> {
+  try {
+    const rule = recurrence ? parseRecurrenceRule(recurrence) : undefined;
+    const changes = pickSeriesDetails(details);
+
+    const { data: series, error } = await supabase
+      .from('session_series')
+      .update(rule ? { ...changes, recurrence: rule } : changes)
+      .eq('id', seriesId)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error updating session series:', error);
+      throw new Error('Failed to update session series. Please try again later.');
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const { data: upcoming, error: upcomingError } = await supabase
+      .from('community_sessions')
+      .select('*')
+      .eq('series_id', seriesId)
+      .gte('date', today);
+
+    if (upcomingError) {
+      console.error('Error fetching series sessions:', upcomingError);
+      throw new Error('Failed to update series sessions. Please try again later.');
+    }
+
+    const futureDates = rule ? expandRecurrence(rule).filter(date => date >= today) : null;
+    let updated = 0;
+    let removed = 0;
+
+    for (const session of (upcoming || []) as CommunitySession[]) {
+      if (futureDates && session.series_date && !futureDates.includes(session.series_date)) {
+        await deleteSession(session.id);
+        removed++;
+        continue;
+      }
+
+      const overridden = new Set(session.overridden_fields || []);
+      const patch = Object.fromEntries(
+        Object.entries(changes).filter(([field]) => !overridden.has(field))
+      ) as Partial<CommunitySession>;
+
+      if (Object.keys(patch).length > 0) {
+        await updateSession(session.id, patch);
+        updated++;
+      }
+    }
+
+    let added = 0;
+    if (futureDates) {
+      // Matched on series_date, so moved occurrences aren't duplicated
+      const existing = new Set((upcoming || []).map(session => session.series_date));
+      const newDates = futureDates.filter(date => !existing.has(date));
+
+      if (newDates.length > 0) {
+        const { error: insertError } = await supabase
+          .from('community_sessions')
+          .insert(newDates.map(date => toOccurrence(seriesId, series, date)));
+
+        if (insertError) {
+          console.error('Error adding series sessions:', insertError);
+          throw new Error('Failed to add the new series dates. Please try again later.');
+        }
+        added = newDates.length;
+      }
+    }
+
+    return { updated, added, removed };
+  } catch (error) {
+    console.error('Error in updateSessionSeries:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a series with all of its sessions and their registrations (platform
+ * and organization admins)
+ */
+export async function deleteSessionSeries(seriesId: string): Promise<void> {
+  try {
+    // Sessions and their registrations cascade
+    const { error } = await supabase
+      .from('session_series')
+      .delete()
+      .eq('id', seriesId);
+
+    if (error) {
+      console.error('Error deleting session series:', error);
+      throw new Error('Failed to delete session series. Please try again later.');
+    }
   } catch (error) {
-    console.error('Error downloading certificate:', error);
-    throw new Error('Failed to download certificate. Please try again.');
+    console.error('Error in deleteSessionSeries:', error);
+    throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Register user for every upcoming session of a series they aren't already in.
+ * Each session is reserved atomically; full ones waitlist the user, or with
+ * joinWaitlist: false come back as 'full'.
+ */
+export async function registerForSeries(
+  userId: string,
+  seriesId: string,
+  { joinWaitlist = true }: { joinWaitlist?: boolean } = {}
+): Promise<SeriesReservation[]> {
+  try {
+    const reservations = await reserveSeriesSeats(supabase, userId, seriesId, { joinWaitlist });
+
+    if (reservations.some(reservation => reservation.status !== 'full')) {
+      try {
+        await supabase
+          .from('activity_log')
+          .insert({
+            user_id: userId,
+            action: 'Registered for session series',
+            item: seriesId,
+            points: 0
+          });
+      } catch (logError) {
+        console.warn('Failed to log activity (non-critical):', logError);
+      }
+    }
+
+    return reservations;
+  } catch (error) {
+    console.error('Error in registerForSeries:', error);
+    throw error;
+  }
+}
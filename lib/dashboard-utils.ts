@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { authorizedFetch } from './api-client';
+import { getCertificateStatus, type CertificateStatus } from './certificates/status';
 
 export interface DashboardStats {
   completedModules: number;
@@ -28,16 +30,23 @@ export interface UserCertificate {
   session_time?: string;
   drill_location?: string;
   session_location?: string;
+  tutorial_title?: string;
   instructor: string;
   organization: string;
   certificate_url?: string;
   completed_at: string;
-  type?: 'drill' | 'session';
+  type?: 'drill' | 'session' | 'first_aid';
+  // From the certificate registry, once a certificate has been issued
+  serial?: string;
+  expires_at?: string | null;
+  revoked_at?: string | null;
+  revoked_reason?: string | null;
+  status: CertificateStatus;
 }
 
 // Helper functions to get certificate data
 export const getCertificateTitle = (cert: UserCertificate): string => {
-  return cert.drill_title || cert.session_title || 'Untitled Certificate';
+  return cert.drill_title || cert.session_title || cert.tutorial_title || 'Untitled Certificate';
 };
 
 export const getCertificateDate = (cert: UserCertificate): string => {
@@ -52,39 +61,6 @@ export const getCertificateLocation = (cert: UserCertificate): string => {
   return cert.drill_location || cert.session_location || 'Not specified';
 };
 
-/**
- * Download certificate from data URI stored in database (mobile compatible)
- * Works on all devices including iOS and Android
- */
-export function downloadCertificateFromDataUri(
-  certificateDataUri: string,
-  userName: string,
-  sessionTitle: string
-): void {
-  try {
-    // Generate filename
-    const sanitizedTitle = sessionTitle.replace(/[^a-z0-9]/gi, '_');
-    const sanitizedName = userName.replace(/[^a-z0-9]/gi, '_');
-    const dateStr = new Date().toISOString().split('T')[0];
-    const filename = `LifeCraft_Certificate_${sanitizedName}_${sanitizedTitle}_${dateStr}.pdf`;
-    
-    // Create a temporary anchor element to trigger download
-    const link = document.createElement('a');
-    link.href = certificateDataUri;
-    link.download = filename;
-    
-    // For iOS Safari compatibility
-    link.setAttribute('target', '_blank');
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  } catch (error) {
-    console.error('Error downloading certificate:', error);
-    throw new Error('Failed to download certificate. Please try again.');
-  }
-}
-
 /**
  * Fetch REAL badges from Redis via API (NEW FUNCTION)
  */
@@ -92,7 +68,7 @@ async function fetchUserBadges(userId: string): Promise<string[]> {
   try {
     console.log(`[Dashboard Utils] Fetching badges for user: ${userId}`);
     
-    const response = await fetch(
+    const response = await authorizedFetch(
       `/api/get-badges?userId=${userId}`,
       { 
         cache: 'no-store',
@@ -219,8 +195,8 @@ export async function fetchDashboardData(userId: string): Promise<DashboardStats
 }
 
 /**
- * Fetch user certificates from completed physical drills AND certified community sessions
- * Only returns certificates for drills/sessions that have been marked as completed
+ * Fetch user certificates from completed physical drills, certified community sessions
+ * and issued first aid certificates, with their expiry / revocation status
  */
 export async function fetchUserCertificates(userId: string): Promise<UserCertificate[]> {
   try {
@@ -279,7 +255,8 @@ export async function fetchUserCertificates(userId: string): Promise<UserCertifi
             instructor: drillData?.instructor || 'LifeCraft Instructor',
             organization: 'LifeCraft',
             certificate_url: drill.certificate_url,
-            completed_at: drill.completed_at
+            completed_at: drill.completed_at,
+            status: 'valid' as const
           };
         })
       );
@@ -331,12 +308,64 @@ export async function fetchUserCertificates(userId: string): Promise<UserCertifi
         instructor: session.community_sessions.instructor || 'Community Instructor',
         organization: session.community_sessions.organization || 'LifeCraft Community',
         certificate_url: session.certificate_url,
-        completed_at: session.completed_at
+        completed_at: session.completed_at,
+        status: 'valid' as const
       }));
 
       certificates.push(...sessionCertificates);
     }
 
+    // Serial, expiry and revocation come from the certificate registry (newest first)
+    const { data: issued, error: issuedError } = await supabase
+      .from('certificates')
+      .select('serial, kind, record_id, course_title, file_url, issued_at, expires_at, revoked_at, revoked_reason')
+      .eq('user_id', userId)
+      .order('issued_at', { ascending: false });
+
+    if (issuedError) {
+      console.error('Error fetching certificate registry:', issuedError);
+    }
+
+    const latest = new Map<string, NonNullable<typeof issued>[number]>();
+    for (const row of issued || []) {
+      const key = `${row.kind}:${row.record_id}`;
+      if (!latest.has(key)) latest.set(key, row);
+    }
+
+    const withRegistry = (cert: UserCertificate, kind: string): UserCertificate => {
+      const row = latest.get(`${kind}:${cert.id}`);
+      if (!row) return cert;
+
+      return {
+        ...cert,
+        serial: row.serial,
+        expires_at: row.expires_at,
+        revoked_at: row.revoked_at,
+        revoked_reason: row.revoked_reason,
+        status: getCertificateStatus({ expiresAt: row.expires_at, revokedAt: row.revoked_at })
+      };
+    };
+
+    certificates.forEach((cert, index) => {
+      certificates[index] = withRegistry(cert, cert.type === 'drill' ? 'drill' : 'community_session');
+    });
+
+    // First aid certificates only exist in the registry
+    latest.forEach((row) => {
+      if (row.kind !== 'first_aid') return;
+
+      certificates.push(withRegistry({
+        id: row.record_id,
+        type: 'first_aid',
+        tutorial_title: row.course_title,
+        instructor: 'LifeCraft Training',
+        organization: 'LifeCraft',
+        certificate_url: row.revoked_at ? undefined : row.file_url,
+        completed_at: row.issued_at,
+        status: 'valid'
+      }, 'first_aid'));
+    });
+
     // Sort by completion date
     certificates.sort((a, b) => 
       new Date(b.completed_at).getTime() - new Date(a.completed_at).getTime()
@@ -349,11 +378,14 @@ export async function fetchUserCertificates(userId: string): Promise<UserCertifi
   }
 }
 
+/**
+ * Log an activity without points - points are only awarded on the server,
+ * through the points ledger
+ */
 export async function logActivity(
   userId: string,
   action: string,
-  item: string,
-  points: number = 0
+  item: string
 ): Promise<void> {
   try {
     const { error } = await supabase
@@ -362,7 +394,7 @@ export async function logActivity(
         user_id: userId,
         action,
         item,
-        points
+        points: 0
       }]);
 
     if (error) {
@@ -373,35 +405,6 @@ export async function logActivity(
   }
 }
 
-export async function updateUserPoints(
-  userId: string,
-  pointsToAdd: number
-): Promise<void> {
-  try {
-    const { data: profile, error: fetchError } = await supabase
-      .from('profiles')
-      .select('points')
-      .eq('id', userId)
-      .single();
-
-    if (fetchError) {
-      console.error('Error fetching profile for points update:', fetchError);
-      return;
-    }
-
-    const { error: updateError } = await supabase
-      .from('profiles')
-      .update({ points: (profile.points || 0) + pointsToAdd })
-      .eq('id', userId);
-
-    if (updateError) {
-      console.error('Error updating points:', updateError);
-    }
-  } catch (error) {
-    console.error('Error updating user points:', error);
-  }
-}
-
 export function getRankInfo(points: number) {
   if (points < 500) {
     return { 
@@ -481,10 +484,12 @@ export function getActivityIcon(action: string): string {
   }
 }
 
-export function getCertificateTypeColor(type?: 'drill' | 'session'): string {
+export function getCertificateTypeColor(type?: UserCertificate['type']): string {
+  if (type === 'first_aid') return 'bg-purple-100 text-purple-700 border-purple-200';
   return type === 'drill' ? 'bg-red-100 text-red-700 border-red-200' : 'bg-blue-100 text-blue-700 border-blue-200';
 }
 
-export function getCertificateTypeLabel(type?: 'drill' | 'session'): string {
+export function getCertificateTypeLabel(type?: UserCertificate['type']): string {
+  if (type === 'first_aid') return 'First Aid';
   return type === 'drill' ? 'Physical Drill' : 'Community Session';
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Physical drill seats. Capacity is enforced inside the `register_for_drill`
+ * and `set_drill_registration_status` SQL functions, which lock the drill row,
+ * so two people can't take the last seat at the same time. Registrations past
+ * capacity are waitlisted in arrival order and promoted to pending as seats
+ * free up.
+ */
+
+export type DrillRegistrationStatus = 'pending' | 'waitlisted';
+
+export interface DrillRegistrationResult {
+  registrationId: string;
+  status: DrillRegistrationStatus;
+  // 1-based, null unless waitlisted
+  waitlistPosition: number | null;
+}
+
+export interface PromotedRegistration {
+  registrationId: string;
+  userId: string;
+  drillId: string;
+}
+
+export interface DrillAvailability {
+  seatsTaken: number;
+  waitlistLength: number;
+  // The signed-in user's place on this drill's waitlist
+  myWaitlistPosition: number | null;
+}
+
+/**
+ * Take a seat, or a waitlist place if the drill is full. Users may only
+ * register themselves; a service-role client may register anyone.
+ */
+export async function registerForDrill(
+  supabase: SupabaseClient,
+  userId: string,
+  drillId: string
+): Promise<DrillRegistrationResult> {
+  const { data, error } = await supabase
+    .rpc('register_for_drill', { p_user_id: userId, p_drill_id: drillId })
+    .single<{ registration_id: string; registration_status: DrillRegistrationStatus; waitlist_position: number | null }>();
+
+  if (error) {
+    console.error('[Drill Registrations] Error registering:', error);
+    // The function raises user-facing messages
+    throw new Error(error.message);
+  }
+
+  return {
+    registrationId: data.registration_id,
+    status: data.registration_status,
+    waitlistPosition: data.waitlist_position
+  };
+}
+
+function toPromoted(rows: { registration_id: string; user_id: string; drill_id: string }[] | null): PromotedRegistration[] {
+  return (rows || []).map(row => ({
+    registrationId: row.registration_id,
+    userId: row.user_id,
+    drillId: row.drill_id
+  }));
+}
+
+/**
+ * Approve, decline or cancel a registration (admins or service role).
+ * Returns the waitlisted registrations promoted into the freed seats.
+ */
+export async function setDrillRegistrationStatus(
+  supabase: SupabaseClient,
+  registrationId: string,
+  status: 'approved' | 'declined' | 'cancelled'
+): Promise<PromotedRegistration[]> {
+  const { data, error } = await supabase.rpc('set_drill_registration_status', {
+    p_registration_id: registrationId,
+    p_status: status
+  });
+
+  if (error) {
+    console.error('[Drill Registrations] Error updating registration:', error);
+    throw new Error(error.message);
+  }
+
+  return toPromoted(data);
+}
+
+/**
+ * Fill any free seats from the waitlist, e.g. after a drill's capacity was raised
+ */
+export async function promoteDrillWaitlist(supabase: SupabaseClient, drillId: string): Promise<PromotedRegistration[]> {
+  const { data, error } = await supabase.rpc('promote_drill_waitlist', { p_drill_id: drillId });
+
+  if (error) {
+    console.error('[Drill Registrations] Error promoting waitlist:', error);
+    throw new Error(error.message);
+  }
+
+  return toPromoted(data);
+}
+
+/**
+ * Seats taken and waitlist length for every physical drill, keyed by drill id
+ */
+export async function getDrillAvailability(supabase: SupabaseClient): Promise<Map<string, DrillAvailability>> {
+  const { data, error } = await supabase.rpc('get_drill_availability');
+
+  if (error) {
+    console.error('[Drill Registrations] Error fetching availability:', error);
+    throw new Error(error.message);
+  }
+
+  const availability = new Map<string, DrillAvailability>();
+  for (const row of (data || []) as { drill_id: string; seats_taken: number; waitlist_length: number; my_waitlist_position: number | null }[]) {
+    availability.set(row.drill_id, {
+      seatsTaken: row.seats_taken,
+      waitlistLength: row.waitlist_length,
+      myWaitlistPosition: row.my_waitlist_position
+    });
+  }
+  return availability;
+}
@@ -0,0 +1,284 @@
+import { jsPDF } from 'jspdf';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Drill registration report, rendered by the worker (drill_report_export job)
+ * and downloaded from the admin portal. Loading needs a service-role client;
+ * rendering is pure (data in, PDF bytes out).
+ */
+
+export interface DrillReportPerformer {
+  fullName: string;
+  rank: string;
+  points: number;
+}
+
+export interface DrillReportData {
+  title: string;
+  type: string;
+  date: string | null;
+  registered: number;
+  capacity: number | null;
+  topPerformers: DrillReportPerformer[];
+  avgModuleScore: number;
+  avgDrillScore: number;
+  completionRate: number;
+  generatedAt: Date;
+}
+
+const TOP_PERFORMERS = 5;
+
+function average(values: number[]): number {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+}
+
+/**
+ * Everything the report shows. Returns null for an unknown drill.
+ */
+export async function loadDrillReport(supabase: SupabaseClient, drillId: string): Promise<DrillReportData | null> {
+  const { data: drill, error: drillError } = await supabase
+    .from('drills')
+    .select('title, type, date, capacity')
+    .eq('id', drillId)
+    .maybeSingle();
+
+  if (drillError) throw new Error(`Failed to load drill: ${drillError.message}`);
+  if (!drill) return null;
+
+  const [registrations, performers, moduleRows, drillScores] = await Promise.all([
+    supabase
+      .from('user_drills')
+      .select('*', { count: 'exact', head: true })
+      .eq('drill_id', drillId)
+      .in('status', ['pending', 'approved', 'completed']),
+    supabase
+      .from('profiles')
+      .select('full_name, rank, points')
+      .neq('role', 'admin')
+      .order('points', { ascending: false })
+      .limit(TOP_PERFORMERS),
+    supabase
+      .from('user_modules')
+      .select('completed, score'),
+    supabase
+      .from('user_drills')
+      .select('score')
+      .eq('status', 'completed')
+      .not('score', 'is', null)
+  ]);
+
+  for (const result of [registrations, performers, moduleRows, drillScores]) {
+    if (result.error) throw new Error(`Failed to load drill report: ${result.error.message}`);
+  }
+
+  const modules = moduleRows.data || [];
+  const completed = modules.filter(row => row.completed).length;
+
+  return {
+    title: drill.title,
+    type: drill.type,
+    date: drill.date,
+    registered: registrations.count || 0,
+    capacity: drill.capacity ?? null,
+    topPerformers: (performers.data || []).map(profile => ({
+      fullName: profile.full_name || 'Unknown',
+      rank: profile.rank || 'Beginner',
+      points: profile.points || 0
+    })),
+    avgModuleScore: average(modules.filter(row => row.score !== null).map(row => row.score as number)),
+    avgDrillScore: average((drillScores.data || []).map(row => row.score as number)),
+    completionRate: Math.round((completed / (modules.length || 1)) * 100),
+    generatedAt: new Date()
+  };
+}
+
+export function drillReportFilename(data: DrillReportData): string {
+  return `Drill-Report-${data.title.replace(/\s+/g, '-')}-${data.generatedAt.toISOString().split('T')[0]}.pdf`;
+}
+
+function sectionHeading(doc: jsPDF, text: string, yPos: number, pageWidth: number): void {
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text(text, 15, yPos);
+  doc.setLineWidth(0.5);
+  doc.line(15, yPos + 1, pageWidth - 15, yPos + 1);
+}
+
+export function renderDrillReport(data: DrillReportData): Buffer {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4'
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  // Header with border
+  doc.setLineWidth(2);
+  doc.setDrawColor(0, 0, 0);
+  doc.line(10, 15, pageWidth - 10, 15);
+
+  let yPos = 22;
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text('LIFECRAFT EMERGENCY RESPONSE TRAINING', pageWidth / 2, yPos, { align: 'center' });
+
+  yPos += 7;
+  doc.setFontSize(13);
+  doc.text('Physical Drill Registration Report', pageWidth / 2, yPos, { align: 'center' });
+
+  yPos += 8;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Report Generated: ${data.generatedAt.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })} at ${data.generatedAt.toLocaleTimeString('en-US')}`, pageWidth / 2, yPos, { align: 'center' });
+
+  doc.setLineWidth(2);
+  doc.line(10, yPos + 3, pageWidth - 10, yPos + 3);
+  yPos += 12;
+
+  // Drill information box
+  doc.setLineWidth(1.5);
+  doc.rect(10, yPos, pageWidth - 20, 40);
+
+  yPos += 6;
+  sectionHeading(doc, 'DRILL INFORMATION', yPos, pageWidth);
+
+  const details: [string, string][] = [
+    ['Drill Title:', data.title],
+    ['Date:', data.date ? new Date(data.date).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    }) : 'N/A'],
+    ['Type:', data.type],
+    ['Location:', 'Olongapo City']
+  ];
+
+  yPos += 1;
+  doc.setFontSize(10);
+  for (const [label, value] of details) {
+    yPos += 7;
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, 15, yPos);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, 40, yPos);
+  }
+
+  yPos += 14;
+
+  // Registration summary - side by side
+  sectionHeading(doc, 'REGISTRATION SUMMARY', yPos, pageWidth);
+  yPos += 10;
+
+  const boxWidth = (pageWidth - 30) / 2;
+  const boxHeight = 25;
+  const summary: [string, string][] = [
+    ['Total Registrations:', data.registered.toString()],
+    ['Capacity:', data.capacity ? data.capacity.toString() : 'N/A']
+  ];
+
+  doc.setLineWidth(1.5);
+  summary.forEach(([label, value], index) => {
+    const x = 10 + index * (boxWidth + 5);
+    doc.rect(x, yPos, boxWidth, boxHeight);
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, x + 5, yPos + 8);
+    doc.setFontSize(20);
+    doc.text(value, x + 5, yPos + 19);
+  });
+
+  yPos += boxHeight + 12;
+
+  // Top performers table
+  sectionHeading(doc, 'TOP PERFORMERS', yPos, pageWidth);
+  yPos += 8;
+
+  doc.setFontSize(9);
+  doc.setFillColor(220, 220, 220);
+  doc.rect(10, yPos, pageWidth - 20, 8, 'F');
+  doc.setLineWidth(1.5);
+  doc.rect(10, yPos, pageWidth - 20, 8);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Rank', 18, yPos + 5.5);
+  doc.text('Name', 45, yPos + 5.5);
+  doc.text('Status', 140, yPos + 5.5);
+  doc.text('Points', pageWidth - 30, yPos + 5.5);
+
+  yPos += 8;
+
+  doc.setFont('helvetica', 'normal');
+  data.topPerformers.forEach((performer, index) => {
+    if (yPos > pageHeight - 35) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    doc.setLineWidth(0.5);
+    doc.line(10, yPos, pageWidth - 10, yPos);
+
+    yPos += 6;
+    doc.text((index + 1).toString(), 18, yPos);
+    doc.text(performer.fullName, 45, yPos);
+    doc.text(performer.rank, 140, yPos);
+    doc.text(performer.points.toString(), pageWidth - 30, yPos);
+    yPos += 1;
+  });
+
+  doc.setLineWidth(1.5);
+  doc.line(10, yPos, pageWidth - 10, yPos);
+  yPos += 10;
+
+  // Performance metrics
+  if (yPos > pageHeight - 55) {
+    doc.addPage();
+    yPos = 20;
+  }
+
+  sectionHeading(doc, 'PERFORMANCE METRICS', yPos, pageWidth);
+  yPos += 10;
+
+  const metricsBoxWidth = (pageWidth - 40) / 3;
+  const metricsBoxHeight = 28;
+  const metrics: [string, number][] = [
+    ['Avg. Module Score', data.avgModuleScore],
+    ['Avg. Drill Score', data.avgDrillScore],
+    ['Completion Rate', data.completionRate]
+  ];
+
+  doc.setLineWidth(1.5);
+  doc.setFillColor(255, 255, 255);
+  metrics.forEach(([label, value], index) => {
+    const x = 10 + index * (metricsBoxWidth + 5);
+    doc.rect(x, yPos, metricsBoxWidth, metricsBoxHeight, 'FD');
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, x + 5, yPos + 8);
+    doc.setFontSize(24);
+    doc.text(`${value}%`, x + 5, yPos + 22);
+  });
+
+  yPos += metricsBoxHeight + 15;
+
+  // Footer
+  if (yPos > pageHeight - 20) {
+    doc.addPage();
+  }
+  yPos = pageHeight - 20;
+
+  doc.setLineWidth(0.5);
+  doc.line(10, yPos, pageWidth - 10, yPos);
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'italic');
+  doc.setTextColor(100, 100, 100);
+  doc.text('This report was generated automatically by the LifeCraft Training System', pageWidth / 2, yPos + 5, { align: 'center' });
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
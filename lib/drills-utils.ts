@@ -1,4 +1,19 @@
 import { supabase } from './supabase';
+import { requestBadgeCheck } from './badge-utils';
+import { authorizedFetch } from './api-client';
+import type { QuestionResponse } from './question-types';
+import type { DrillRunResult, DrillRunStart, DrillStep, DrillStepGrade } from './grading';
+import {
+  getDrillAvailability,
+  promoteDrillWaitlist,
+  registerForDrill,
+  setDrillRegistrationStatus,
+  type DrillRegistrationResult,
+  type PromotedRegistration
+} from './drill-registrations';
+import { sendNotification } from './notification-utils';
+
+export type { DrillRunResult, DrillRunStart, DrillStep, DrillStepGrade };
 
 export interface DrillWithUserStatus {
   id: string;
@@ -13,11 +28,15 @@ export interface DrillWithUserStatus {
   time?: string;
   location?: string;
   capacity?: number;
+  // Physical drills only
+  seatsTaken?: number;
+  waitlistLength?: number;
   userDrill?: {
     id: string;
     status: string;
     score?: number | null;
     completion_time?: string | null;
+    waitlistPosition?: number | null;
   } | null;
 }
 
@@ -82,6 +101,12 @@ export async function getDrillsWithUserStatus(userId: string): Promise<DrillWith
 
     if (userDrillsError) throw userDrillsError;
 
+    // Seat counts are informational; the drills list still loads without them
+    const availability = await getDrillAvailability(supabase).catch(error => {
+      console.error('Error getting drill availability:', error);
+      return new Map<string, never>();
+    });
+
     // Combine the data
     return (drills || []).map(drill => {
       // Find the best completed drill for this user
@@ -100,13 +125,18 @@ export async function getDrillsWithUserStatus(userId: string): Promise<DrillWith
         bestUserDrill = userDrillRecords[0] || null;
       }
 
+      const seats = availability.get(drill.id);
+
       return {
         ...drill,
+        seatsTaken: seats?.seatsTaken,
+        waitlistLength: seats?.waitlistLength,
         userDrill: bestUserDrill ? {
           id: bestUserDrill.id,
           status: bestUserDrill.status,
           score: bestUserDrill.score,
-          completion_time: bestUserDrill.completion_time
+          completion_time: bestUserDrill.completion_time,
+          waitlistPosition: bestUserDrill.status === 'waitlisted' ? seats?.myWaitlistPosition ?? null : null
         } : null
       };
     });
@@ -117,54 +147,20 @@ export async function getDrillsWithUserStatus(userId: string): Promise<DrillWith
 }
 
 /**
- * Start a virtual drill
+ * Start a virtual drill. Each start begins a new run on the server; only
+ * answers given during the run count towards its score. Until the drill is
+ * first completed, a run with answers is resumed instead.
  */
-export async function startVirtualDrill(userId: string, drillId: string) {
+export async function startVirtualDrill(drillId: string): Promise<DrillRunStart> {
   try {
-    // Check if user has completed at least one module
-    const hasCompleted = await hasCompletedModule(userId);
-    if (!hasCompleted) {
-      throw new Error('You must complete at least one module before accessing drills.');
-    }
+    const response = await authorizedFetch(`/api/drills/${drillId}/start`, { method: 'POST' });
 
-    // Check if a user_drill record already exists for this user and drill
-    const { data: existingDrill, error: fetchError } = await supabase
-      .from('user_drills')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('drill_id', drillId)
-      .maybeSingle();
-
-    if (fetchError) throw fetchError;
-
-    // If a record exists, update it to in_progress
-    if (existingDrill) {
-      const { data, error: updateError } = await supabase
-        .from('user_drills')
-        .update({
-          status: 'in_progress'
-        })
-        .eq('id', existingDrill.id)
-        .select()
-        .single();
-
-      if (updateError) throw updateError;
-      return data;
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to start drill');
     }
 
-    // Otherwise, create a new record
-    const { data, error } = await supabase
-      .from('user_drills')
-      .insert({
-        user_id: userId,
-        drill_id: drillId,
-        status: 'in_progress'
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
+    return result.run;
   } catch (error) {
     console.error('Error starting virtual drill:', error);
     throw error;
@@ -172,134 +168,74 @@ export async function startVirtualDrill(userId: string, drillId: string) {
 }
 
 /**
- * Complete a virtual drill
- * @param isRetry - If true, won't award points
+ * A virtual drill's steps, without the answers to its questions
  */
-export async function completeVirtualDrill(
-  userId: string,
-  drillId: string,
-  score: number,
-  completionTime: string,
-  isRetry: boolean = false
-) {
+export async function getDrillSteps(drillId: string): Promise<DrillStep[]> {
   try {
-    // Check if user has completed at least one module
-    const hasCompleted = await hasCompletedModule(userId);
-    if (!hasCompleted) {
-      throw new Error('You must complete at least one module before accessing drills.');
-    }
-
-    // Get the in-progress user_drill record
-    const { data: userDrills, error: fetchError } = await supabase
-      .from('user_drills')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('drill_id', drillId)
-      .eq('status', 'in_progress')
-      .order('created_at', { ascending: false })
-      .limit(1);
+    const response = await authorizedFetch(`/api/drills/${drillId}/steps`);
 
-    if (fetchError) throw fetchError;
-
-    if (!userDrills || userDrills.length === 0) {
-      throw new Error('No in-progress drill found');
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to load drill content');
     }
 
-    const userDrill = userDrills[0];
-    const previousScore = typeof userDrill.score === 'number' ? userDrill.score : 0;
-    
-    // Only update score if new score is better than previous score
-    const shouldUpdateScore = score > previousScore;
-    const finalScore = shouldUpdateScore ? score : previousScore;
-    
-    // Always update completion time if it's faster, or if there's no previous time
-    const shouldUpdateTime = !userDrill.completion_time || completionTime < userDrill.completion_time;
-    const finalTime = shouldUpdateTime ? completionTime : userDrill.completion_time;
-
-    // Update the user_drill record
-    const { error: updateError } = await supabase
-      .from('user_drills')
-      .update({
-        status: 'completed',
-        score: finalScore,
-        completion_time: finalTime,
-        completed_at: new Date().toISOString()
-      })
-      .eq('id', userDrill.id);
-
-    if (updateError) throw updateError;
-
-    // Only award points if it's not a retry AND the score improved
-    if (!isRetry && shouldUpdateScore) {
-      console.log('=== AWARDING POINTS ===');
-      console.log('Is retry:', isRetry);
-      console.log('Should update score:', shouldUpdateScore);
-      console.log('New score:', score);
-      console.log('Previous score:', previousScore);
-      
-      // Get drill points
-      const { data: drill, error: drillError } = await supabase
-        .from('drills')
-        .select('points')
-        .eq('id', drillId)
-        .single();
-
-      if (drillError) throw drillError;
-
-      console.log('Drill points from DB:', drill.points);
-
-      // Calculate points based on score
-      const pointsEarned = Math.round((drill.points || 0) * (score / 100));
-      console.log('Points earned calculation:', `${drill.points} * (${score} / 100) = ${pointsEarned}`);
+    return result.steps;
+  } catch (error) {
+    console.error('Error loading drill steps:', error);
+    throw error;
+  }
+}
 
-      // Update user points
-      const { data: profile, error: profileFetchError } = await supabase
-        .from('profiles')
-        .select('points')
-        .eq('id', userId)
-        .single();
+/**
+ * Answer a question step of the current run; graded and recorded on the
+ * server. The grade includes the step's answer and explanation.
+ * @param timeSpent - Seconds spent on the step, if it was timed
+ */
+export async function submitDrillAnswer(
+  drillId: string,
+  stepNumber: number,
+  response: QuestionResponse,
+  timeSpent: number | null
+): Promise<DrillStepGrade> {
+  try {
+    const result = await authorizedFetch(`/api/drills/${drillId}/steps/${stepNumber}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ response, timeSpent })
+    });
 
-      if (profileFetchError) throw profileFetchError;
+    const data = await result.json();
+    if (!result.ok) {
+      throw new Error(data.error || 'Failed to submit answer');
+    }
 
-      console.log('Current user points:', profile.points);
-      console.log('New user points:', (profile.points || 0) + pointsEarned);
+    return data.grade;
+  } catch (error) {
+    console.error('Error submitting drill answer:', error);
+    throw error;
+  }
+}
 
-      const { error: profileUpdateError } = await supabase
-        .from('profiles')
-        .update({ points: (profile.points || 0) + pointsEarned })
-        .eq('id', userId);
+/**
+ * Complete the current run of a virtual drill. The server scores it from the
+ * answers recorded during the run and awards points for an improved score,
+ * unless the drill was already completed before (a retry).
+ */
+export async function completeVirtualDrill(drillId: string): Promise<DrillRunResult> {
+  try {
+    const response = await authorizedFetch(`/api/drills/${drillId}/complete`, { method: 'POST' });
 
-      if (profileUpdateError) {
-        console.error('Error updating profile points:', profileUpdateError);
-        throw profileUpdateError;
-      }
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to save drill results');
+    }
 
-      console.log('Points awarded successfully!');
-
-      // Try to log activity (optional - won't fail if permissions are missing)
-      try {
-        await supabase
-          .from('activity_log')
-          .insert({
-            user_id: userId,
-            action: 'Completed drill',
-            item: `${drillId}`,
-            points: pointsEarned
-          });
-        console.log('Activity logged successfully');
-      } catch (logError) {
-        console.warn('Activity log failed (non-critical):', logError);
-      }
-      
-      console.log('======================');
-    } else {
-      console.log('=== NOT AWARDING POINTS ===');
-      console.log('Is retry:', isRetry);
-      console.log('Should update score:', shouldUpdateScore);
-      console.log('New score:', score);
-      console.log('Previous score:', previousScore);
-      console.log('===========================');
+    // Drill scores can unlock badges (e.g. "drill score == 100")
+    if (result.result.scoreImproved) {
+      await requestBadgeCheck();
     }
+
+    return result.result;
   } catch (error) {
     console.error('Error completing virtual drill:', error);
     throw error;
@@ -307,9 +243,9 @@ export async function completeVirtualDrill(
 }
 
 /**
- * Register for a physical drill
+ * Register for a physical drill. Joins the waitlist when the drill is full.
  */
-export async function registerForPhysicalDrill(userId: string, drillId: string) {
+export async function registerForPhysicalDrill(userId: string, drillId: string): Promise<DrillRegistrationResult> {
   try {
     // Check if user has completed at least one module
     const hasCompleted = await hasCompletedModule(userId);
@@ -339,55 +275,15 @@ export async function registerForPhysicalDrill(userId: string, drillId: string)
         throw new Error('You have already completed this drill.');
       } else if (existingReg.status === 'declined') {
         throw new Error('Your previous registration for this drill was declined. Please contact an administrator.');
-      } else {
+      } else if (existingReg.status === 'waitlisted') {
+        throw new Error('You are already on the waitlist for this drill.');
+      } else if (existingReg.status !== 'cancelled') {
         throw new Error('You have already registered for this drill.');
       }
     }
 
-    // Check if drill exists
-    const { data: drill, error: drillError } = await supabase
-      .from('drills')
-      .select('id, title, type')
-      .eq('id', drillId)
-      .single();
-
-    if (drillError || !drill) {
-      console.error('Error fetching drill:', drillError);
-      throw new Error('Drill not found.');
-    }
-
-    if (drill.type !== 'Physical') {
-      throw new Error('This registration is only for physical drills.');
-    }
-    
-    const { data, error } = await supabase
-      .from('user_drills')
-      .insert({
-        user_id: userId,
-        drill_id: drillId,
-        status: 'pending'
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating registration:', error);
-      
-      // Handle specific error codes
-      if (error.code === '23505') {
-        throw new Error('You have already registered for this drill.');
-      }
-      
-      if (error.code === '42501') {
-        throw new Error('Permission denied. Please make sure you are logged in.');
-      }
-
-      if (error.code === '23514') {
-        throw new Error('Invalid registration status. Please contact support.');
-      }
-      
-      throw new Error(`Failed to register: ${error.message || 'Unknown error'}`);
-    }
+    // Takes a seat or a waitlist place atomically; also checks it is a physical drill
+    const registration = await registerForDrill(supabase, userId, drillId);
 
     // Try to log activity (optional - won't fail if permissions are missing)
     try {
@@ -395,7 +291,7 @@ export async function registerForPhysicalDrill(userId: string, drillId: string)
         .from('activity_log')
         .insert({
           user_id: userId,
-          action: 'Registered for drill',
+          action: registration.status === 'waitlisted' ? 'Joined drill waitlist' : 'Registered for drill',
           item: drillId,
           points: 0
         });
@@ -403,7 +299,7 @@ export async function registerForPhysicalDrill(userId: string, drillId: string)
       console.warn('Activity log failed (non-critical):', logError);
     }
 
-    return data;
+    return registration;
   } catch (error: any) {
     console.error('Error registering for physical drill:', error);
     throw error;
@@ -482,7 +378,9 @@ export async function getUserPerformanceHistory(userId: string): Promise<Perform
 }
 
 /**
- * Get all drill registrations for admin (physical drills only)
+ * Get drill registrations for the registration screen (physical drills only).
+ * Admins get all of them; row-level security limits instructors to their
+ * assigned drills.
  */
 export async function getAllDrillRegistrations() {
   try {
@@ -495,6 +393,9 @@ export async function getAllDrillRegistrations() {
         status,
         created_at,
         completed_at,
+        waitlisted_at,
+        checked_in_at,
+        certificate_serial,
         profiles!user_drills_user_id_fkey (
           full_name,
           email
@@ -518,7 +419,7 @@ export async function getAllDrillRegistrations() {
     const physicalDrillRegistrations = (data || []).filter(
       (reg: any) => {
         return reg.drills?.type === 'Physical' && 
-               (reg.status === 'pending' || reg.status === 'approved' || reg.status === 'declined' || reg.status === 'completed');
+               (reg.status === 'pending' || reg.status === 'approved' || reg.status === 'declined' || reg.status === 'completed' || reg.status === 'waitlisted');
       }
     );
 
@@ -530,22 +431,18 @@ export async function getAllDrillRegistrations() {
 }
 
 /**
- * Update drill registration status (admin only)
+ * Update drill registration status (admins and the drill's instructors).
+ * Declining or cancelling frees a seat, which goes to the next person on the
+ * waitlist; they are emailed. Returns the promoted registrations.
  */
 export async function updateDrillRegistrationStatus(
   registrationId: string,
-  status: 'approved' | 'declined'
-): Promise<void> {
+  status: 'approved' | 'declined' | 'cancelled'
+): Promise<PromotedRegistration[]> {
   try {
-    const { error } = await supabase
-      .from('user_drills')
-      .update({ status })
-      .eq('id', registrationId);
-
-    if (error) {
-      console.error('Error updating drill registration status:', error);
-      throw new Error('Failed to update registration. Please try again later.');
-    }
+    const promoted = await setDrillRegistrationStatus(supabase, registrationId, status);
+    await notifyPromotedRegistrations(promoted);
+    return promoted;
   } catch (error) {
     console.error('Error in updateDrillRegistrationStatus:', error);
     throw error;
@@ -553,7 +450,36 @@ export async function updateDrillRegistrationStatus(
 }
 
 /**
- * Mark physical drill as completed (admin only)
+ * Email users promoted off a waitlist. The promotion stands even if an email
+ * can't be queued.
+ */
+async function notifyPromotedRegistrations(promoted: PromotedRegistration[]): Promise<void> {
+  if (promoted.length === 0) return;
+
+  const { data: drill } = await supabase
+    .from('drills')
+    .select('title, date, time, location')
+    .eq('id', promoted[0].drillId)
+    .maybeSingle();
+
+  if (!drill) return;
+
+  for (const registration of promoted) {
+    try {
+      await sendNotification('waitlist_promoted', registration.userId, {
+        sessionTitle: drill.title,
+        sessionDate: drill.date,
+        sessionTime: drill.time,
+        location: drill.location
+      });
+    } catch (error) {
+      console.error('Error sending waitlist promotion notification:', error);
+    }
+  }
+}
+
+/**
+ * Mark physical drill as completed (admins and the drill's instructors)
  */
 export async function markPhysicalDrillComplete(
   registrationId: string,
@@ -610,6 +536,7 @@ export async function createDrill(drillData: {
   location?: string;
   date?: string;
   time?: string;
+  capacity?: number | null;
   instructor?: string;
 }, pages?: any[]): Promise<void> {
   try {
@@ -640,9 +567,12 @@ export async function createDrill(drillData: {
         step_type: page.type,
         content: {
           question: page.question || null,
+          questionType: page.questionType || null,
           options: page.options || null,
           correctAnswer: typeof page.correctAnswer === 'number' ? page.correctAnswer : null,
-          explanation: page.explanation || null
+          answerKey: page.answerKey || null,
+          explanation: page.explanation || null,
+          variants: page.variants?.length ? page.variants : null
         },
         points: typeof page.points === 'number' ? page.points : 0
       }));
@@ -667,7 +597,7 @@ export async function createDrill(drillData: {
 }
 
 /**
- * Update drill (admin only)
+ * Update drill (admins and the drill's instructors)
  */
 export async function updateDrill(drillId: string, drillData: Partial<{
   title: string;
@@ -680,6 +610,7 @@ export async function updateDrill(drillId: string, drillData: Partial<{
   location?: string;
   date?: string;
   time?: string;
+  capacity?: number | null;
   instructor?: string;
 }>, pages?: any[]): Promise<void> {
   try {
@@ -697,6 +628,11 @@ export async function updateDrill(drillId: string, drillData: Partial<{
     
     console.log('Drill updated successfully');
 
+    // A raised capacity frees seats for people on the waitlist
+    if (drillData.type === 'Physical' && drillData.capacity !== undefined) {
+      await notifyPromotedRegistrations(await promoteDrillWaitlist(supabase, drillId));
+    }
+
     // If there are pages and this is a virtual drill, update them
     if (pages && drillData.type === 'Virtual') {
       console.log('Updating drill content pages:', pages);
@@ -717,9 +653,12 @@ export async function updateDrill(drillId: string, drillData: Partial<{
           step_type: page.type,
           content: {
             question: page.question || null,
+            questionType: page.questionType || null,
             options: page.options || null,
             correctAnswer: typeof page.correctAnswer === 'number' ? page.correctAnswer : null,
-            explanation: page.explanation || null
+            answerKey: page.answerKey || null,
+            explanation: page.explanation || null,
+            variants: page.variants?.length ? page.variants : null
           },
           points: typeof page.points === 'number' ? page.points : 0
         }));
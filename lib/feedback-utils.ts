@@ -0,0 +1,544 @@
+import { supabase, type FeedbackQuestion, type FeedbackResponse, type FeedbackSurvey } from './supabase';
+import { joined } from './supabase-joins';
+
+export type { FeedbackQuestion, FeedbackSurvey };
+
+export type FeedbackTargetKind = FeedbackSurvey['target_kind'];
+export type FeedbackQuestionType = FeedbackQuestion['type'];
+export type FeedbackAnswers = FeedbackResponse['answers'];
+
+export type FeedbackSurveyInput = Pick<
+  FeedbackSurvey,
+  'title' | 'description' | 'questions' | 'target_kind' | 'target_id' | 'is_active'
+>;
+
+export interface FeedbackTarget {
+  id: string;
+  title: string;
+}
+
+/**
+ * A survey a participant has yet to answer about something they completed
+ */
+export interface PendingFeedback {
+  survey: FeedbackSurvey;
+  targetKind: FeedbackTargetKind;
+  targetId: string;
+  targetTitle: string;
+  completedAt: string | null;
+}
+
+export interface FeedbackQuestionResult {
+  question: FeedbackQuestion;
+  answered: number;
+  // Likert questions
+  average: number | null;
+  // Answers per Likert point (1 to 5) or per choice option
+  counts: number[];
+  // Text questions, newest first
+  texts: { text: string; createdAt: string }[];
+}
+
+export interface FeedbackTrendPoint {
+  // YYYY-MM
+  month: string;
+  responses: number;
+  averageRating: number | null;
+}
+
+export interface FeedbackGroupResult {
+  id: string;
+  name: string;
+  responses: number;
+  averageRating: number | null;
+  trend: FeedbackTrendPoint[];
+}
+
+export interface FeedbackResults {
+  responses: number;
+  averageRating: number | null;
+  trend: FeedbackTrendPoint[];
+  // Only when the results are for one survey
+  questions: FeedbackQuestionResult[];
+  byInstructor: FeedbackGroupResult[];
+  byOrganization: FeedbackGroupResult[];
+}
+
+export const FEEDBACK_TARGET_LABELS: Record<FeedbackTargetKind, string> = {
+  session: 'Community session',
+  drill: 'Physical drill',
+  module: 'Module'
+};
+
+export const LIKERT_LABELS = ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'];
+
+const MAX_TEXT_ANSWER_LENGTH = 2000;
+
+// Months shown in a trend, ending with the latest response
+const TREND_MONTHS = 6;
+
+const TARGET_SOURCES: Record<FeedbackTargetKind, { table: string; orderBy: string }> = {
+  session: { table: 'community_sessions', orderBy: 'date' },
+  drill: { table: 'drills', orderBy: 'date' },
+  module: { table: 'modules', orderBy: 'title' }
+};
+
+/**
+ * Check a survey before saving it; throws a user-facing message
+ */
+export function validateSurvey(survey: FeedbackSurveyInput): void {
+  if (!survey.title.trim()) {
+    throw new Error('Survey title is required.');
+  }
+  if (survey.questions.length === 0) {
+    throw new Error('Add at least one question.');
+  }
+
+  const ids = new Set<string>();
+  survey.questions.forEach((question, index) => {
+    const label = `Question ${index + 1}`;
+
+    if (!question.id || ids.has(question.id)) {
+      throw new Error(`${label} needs a unique id.`);
+    }
+    ids.add(question.id);
+
+    if (!question.prompt.trim()) {
+      throw new Error(`${label} needs a prompt.`);
+    }
+    if (question.type === 'choice') {
+      const options = (question.options || []).map(option => option.trim()).filter(Boolean);
+      if (options.length < 2 || new Set(options).size !== options.length) {
+        throw new Error(`${label} needs at least two different options.`);
+      }
+    }
+  });
+}
+
+/**
+ * Check a participant's answers against the survey and drop anything it
+ * doesn't ask; throws a user-facing message
+ */
+export function validateAnswers(survey: FeedbackSurvey, answers: FeedbackAnswers): FeedbackAnswers {
+  const cleaned: FeedbackAnswers = {};
+
+  for (const question of survey.questions) {
+    const answer = answers[question.id];
+    const blank = answer === undefined || answer === null || (typeof answer === 'string' && !answer.trim());
+
+    if (blank) {
+      if (question.required) throw new Error(`Please answer "${question.prompt}".`);
+      continue;
+    }
+
+    switch (question.type) {
+      case 'likert':
+        if (typeof answer !== 'number' || !Number.isInteger(answer) || answer < 1 || answer > 5) {
+          throw new Error(`Pick a rating for "${question.prompt}".`);
+        }
+        break;
+      case 'choice':
+        if (typeof answer !== 'string' || !(question.options || []).includes(answer)) {
+          throw new Error(`Pick one of the options for "${question.prompt}".`);
+        }
+        break;
+      case 'text':
+        if (typeof answer !== 'string' || answer.trim().length > MAX_TEXT_ANSWER_LENGTH) {
+          throw new Error(`Keep "${question.prompt}" under ${MAX_TEXT_ANSWER_LENGTH} characters.`);
+        }
+        break;
+    }
+
+    cleaned[question.id] = typeof answer === 'string' ? answer.trim() : answer;
+  }
+
+  return cleaned;
+}
+
+function cleanSurvey(survey: FeedbackSurveyInput): FeedbackSurveyInput {
+  return {
+    ...survey,
+    title: survey.title.trim(),
+    description: survey.description?.trim() || null,
+    questions: survey.questions.map(question => ({
+      id: question.id,
+      type: question.type,
+      prompt: question.prompt.trim(),
+      ...(question.type === 'choice' && {
+        options: (question.options || []).map(option => option.trim()).filter(Boolean)
+      }),
+      required: question.required
+    }))
+  };
+}
+
+/**
+ * Every survey, newest first
+ */
+export async function getFeedbackSurveys(): Promise<FeedbackSurvey[]> {
+  try {
+    const { data, error } = await supabase
+      .from('feedback_surveys')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching feedback surveys:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a survey (admins only)
+ */
+export async function createFeedbackSurvey(survey: FeedbackSurveyInput): Promise<FeedbackSurvey> {
+  try {
+    validateSurvey(survey);
+
+    const { data, error } = await supabase
+      .from('feedback_surveys')
+      .insert(cleanSurvey(survey))
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error creating feedback survey:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a survey (admins only). Questions that already have answers keep
+ * them under their id.
+ */
+export async function updateFeedbackSurvey(surveyId: string, survey: FeedbackSurveyInput): Promise<FeedbackSurvey> {
+  try {
+    validateSurvey(survey);
+
+    const { data, error } = await supabase
+      .from('feedback_surveys')
+      .update(cleanSurvey(survey))
+      .eq('id', surveyId)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating feedback survey:', error);
+    throw error;
+  }
+}
+
+/**
+ * Open or close a survey (admins only). Closed surveys keep their responses.
+ */
+export async function setFeedbackSurveyActive(surveyId: string, isActive: boolean): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('feedback_surveys')
+      .update({ is_active: isActive })
+      .eq('id', surveyId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating feedback survey:', error);
+    throw new Error(`Failed to ${isActive ? 'reopen' : 'close'} survey. Please try again.`);
+  }
+}
+
+/**
+ * Sessions, drills or modules a survey can be attached to
+ */
+export async function getFeedbackTargets(kind: FeedbackTargetKind): Promise<FeedbackTarget[]> {
+  try {
+    const { table, orderBy } = TARGET_SOURCES[kind];
+    const { data, error } = await supabase
+      .from(table)
+      .select(`id, title, ${orderBy}`)
+      .order(orderBy, { ascending: kind === 'module' });
+
+    if (error) throw error;
+    return ((data || []) as unknown as FeedbackTarget[]).map(({ id, title }) => ({ id, title }));
+  } catch (error) {
+    console.error('Error fetching feedback targets:', error);
+    throw error;
+  }
+}
+
+interface Completion {
+  targetKind: FeedbackTargetKind;
+  targetId: string;
+  targetTitle: string;
+  completedAt: string | null;
+}
+
+async function getCompletions(userId: string): Promise<Completion[]> {
+  const [sessions, drills, modules] = await Promise.all([
+    supabase
+      .from('user_community_sessions')
+      .select('session_id, completed_at, community_sessions (title)')
+      .eq('user_id', userId)
+      .eq('status', 'completed'),
+    supabase
+      .from('user_drills')
+      .select('drill_id, completed_at, drills (title)')
+      .eq('user_id', userId)
+      .eq('status', 'completed'),
+    supabase
+      .from('user_modules')
+      .select('module_id, completed_at, modules (title)')
+      .eq('user_id', userId)
+      .eq('completed', true)
+  ]);
+
+  if (sessions.error) throw sessions.error;
+  if (drills.error) throw drills.error;
+  if (modules.error) throw modules.error;
+
+  return [
+    ...(sessions.data || []).map(row => ({
+      targetKind: 'session' as const,
+      targetId: row.session_id,
+      targetTitle: joined(row.community_sessions)?.title || 'Community session',
+      completedAt: row.completed_at
+    })),
+    ...(drills.data || []).map(row => ({
+      targetKind: 'drill' as const,
+      targetId: row.drill_id,
+      targetTitle: joined(row.drills)?.title || 'Physical drill',
+      completedAt: row.completed_at
+    })),
+    ...(modules.data || []).map(row => ({
+      targetKind: 'module' as const,
+      targetId: row.module_id,
+      targetTitle: joined(row.modules)?.title || 'Module',
+      completedAt: row.completed_at
+    }))
+  ];
+}
+
+function surveyCovers(survey: FeedbackSurvey, completion: Completion): boolean {
+  if (survey.target_kind !== completion.targetKind) return false;
+  if (survey.target_id) return survey.target_id === completion.targetId;
+  // Surveys for every one of a kind don't reach back to older completions
+  return !!completion.completedAt && completion.completedAt >= survey.created_at;
+}
+
+/**
+ * Open surveys a participant hasn't answered for what they've completed,
+ * most recent completion first
+ */
+export async function getPendingFeedback(userId: string): Promise<PendingFeedback[]> {
+  try {
+    const [surveys, completions, responses] = await Promise.all([
+      supabase.from('feedback_surveys').select('*').eq('is_active', true),
+      getCompletions(userId),
+      supabase.from('feedback_responses').select('survey_id, target_id').eq('user_id', userId)
+    ]);
+
+    if (surveys.error) throw surveys.error;
+    if (responses.error) throw responses.error;
+
+    const answered = new Set((responses.data || []).map(row => `${row.survey_id}:${row.target_id}`));
+
+    return ((surveys.data || []) as FeedbackSurvey[])
+      .flatMap(survey => completions
+        .filter(completion => surveyCovers(survey, completion))
+        .filter(completion => !answered.has(`${survey.id}:${completion.targetId}`))
+        .map(completion => ({ survey, ...completion })))
+      .sort((a, b) => (b.completedAt || '').localeCompare(a.completedAt || ''));
+  } catch (error) {
+    console.error('Error fetching pending feedback:', error);
+    throw error;
+  }
+}
+
+/**
+ * Answer a survey about a completed session, drill or module
+ */
+export async function submitFeedback(pending: PendingFeedback, answers: FeedbackAnswers): Promise<void> {
+  const cleaned = validateAnswers(pending.survey, answers);
+
+  const { error } = await supabase
+    .from('feedback_responses')
+    .insert({
+      survey_id: pending.survey.id,
+      target_kind: pending.targetKind,
+      target_id: pending.targetId,
+      answers: cleaned
+    });
+
+  if (error) {
+    console.error('Error submitting feedback:', error);
+    if (error.code === '23505') throw new Error('You\'ve already given feedback on this.');
+    // The trigger raises user-facing messages
+    throw new Error(error.message);
+  }
+}
+
+function average(values: number[]): number | null {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+// A response's rating is the mean of its Likert answers
+function responseRating(response: FeedbackResponse): number | null {
+  return average(
+    Object.values(response.answers).filter((value): value is number => typeof value === 'number')
+  );
+}
+
+function summarize(responses: FeedbackResponse[]) {
+  const ratings = responses.map(responseRating).filter((rating): rating is number => rating !== null);
+
+  const months = new Map<string, FeedbackResponse[]>();
+  responses.forEach(response => {
+    const month = response.created_at.slice(0, 7);
+    months.set(month, [...(months.get(month) || []), response]);
+  });
+
+  const trend = [...months.keys()].sort().slice(-TREND_MONTHS).map(month => {
+    const inMonth = months.get(month) || [];
+    return {
+      month,
+      responses: inMonth.length,
+      averageRating: average(inMonth.map(responseRating).filter((rating): rating is number => rating !== null))
+    };
+  });
+
+  return { responses: responses.length, averageRating: average(ratings), trend };
+}
+
+function summarizeQuestion(question: FeedbackQuestion, responses: FeedbackResponse[]): FeedbackQuestionResult {
+  const answers = responses
+    .map(response => ({ value: response.answers[question.id], createdAt: response.created_at }))
+    .filter(answer => answer.value !== undefined && answer.value !== '');
+
+  if (question.type === 'likert') {
+    const values = answers.map(answer => answer.value).filter((value): value is number => typeof value === 'number');
+    return {
+      question,
+      answered: values.length,
+      average: average(values),
+      counts: [1, 2, 3, 4, 5].map(point => values.filter(value => value === point).length),
+      texts: []
+    };
+  }
+
+  if (question.type === 'choice') {
+    return {
+      question,
+      answered: answers.length,
+      average: null,
+      counts: (question.options || []).map(option => answers.filter(answer => answer.value === option).length),
+      texts: []
+    };
+  }
+
+  return {
+    question,
+    answered: answers.length,
+    average: null,
+    counts: [],
+    texts: answers
+      .map(answer => ({ text: String(answer.value), createdAt: answer.createdAt }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  };
+}
+
+function groupBy(
+  responses: FeedbackResponse[],
+  keys: (response: FeedbackResponse) => string[],
+  names: Map<string, string>,
+  fallbackName: string
+): FeedbackGroupResult[] {
+  const groups = new Map<string, FeedbackResponse[]>();
+  responses.forEach(response => {
+    keys(response).forEach(key => groups.set(key, [...(groups.get(key) || []), response]));
+  });
+
+  return [...groups.entries()]
+    .map(([id, grouped]) => ({ id, name: names.get(id) || fallbackName, ...summarize(grouped) }))
+    .sort((a, b) => b.responses - a.responses || a.name.localeCompare(b.name));
+}
+
+async function getGroupNames(responses: FeedbackResponse[]) {
+  const instructorIds = [...new Set(responses.flatMap(response => response.instructor_ids))];
+  const organizationIds = [...new Set(responses.map(response => response.organization_id).filter(Boolean))] as string[];
+
+  // Profiles outside the viewer's reach come back missing and fall back to a generic name
+  const [instructors, organizations] = await Promise.all([
+    instructorIds.length
+      ? supabase.from('profiles').select('id, full_name, email').in('id', instructorIds)
+      : Promise.resolve({ data: [], error: null }),
+    organizationIds.length
+      ? supabase.from('organizations').select('id, name').in('id', organizationIds)
+      : Promise.resolve({ data: [], error: null })
+  ]);
+
+  if (instructors.error) throw instructors.error;
+  if (organizations.error) throw organizations.error;
+
+  return {
+    instructors: new Map<string, string>(
+      (instructors.data || []).map((row: { id: string; full_name: string | null; email: string }) =>
+        [row.id, row.full_name || row.email])
+    ),
+    organizations: new Map<string, string>(
+      (organizations.data || []).map((row: { id: string; name: string }) => [row.id, row.name])
+    )
+  };
+}
+
+/**
+ * Aggregated responses the viewer can see: for one survey, or every survey
+ * when surveyId is null, optionally limited to one organization's sessions.
+ * Ratings are the mean of each response's Likert answers, 1 to 5.
+ */
+export async function getFeedbackResults(
+  surveyId: string | null,
+  options: { organizationId?: string } = {}
+): Promise<FeedbackResults> {
+  try {
+    let query = supabase
+      .from('feedback_responses')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (surveyId) query = query.eq('survey_id', surveyId);
+    if (options.organizationId) query = query.eq('organization_id', options.organizationId);
+
+    const [responses, survey] = await Promise.all([
+      query,
+      surveyId
+        ? supabase.from('feedback_surveys').select('*').eq('id', surveyId).maybeSingle()
+        : Promise.resolve({ data: null, error: null })
+    ]);
+
+    if (responses.error) throw responses.error;
+    if (survey.error) throw survey.error;
+
+    const rows = (responses.data || []) as FeedbackResponse[];
+    const names = await getGroupNames(rows);
+
+    return {
+      ...summarize(rows),
+      questions: ((survey.data as FeedbackSurvey | null)?.questions || [])
+        .map(question => summarizeQuestion(question, rows)),
+      byInstructor: groupBy(rows, response => response.instructor_ids, names.instructors, 'Instructor'),
+      byOrganization: groupBy(
+        rows,
+        response => (response.organization_id ? [response.organization_id] : []),
+        names.organizations,
+        'Organization'
+      )
+    };
+  } catch (error) {
+    console.error('Error fetching feedback results:', error);
+    throw error;
+  }
+}
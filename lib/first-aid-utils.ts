@@ -444,30 +444,4 @@ export async function getCompletedUsersByTutorial(tutorialId: string): Promise<a
     console.error('Unexpected error:', error);
     return [];
   }
-}
-
-/**
- * Update certificate URL for a user's completed tutorial
- */
-export async function updateCertificateUrl(
-  userId: string, 
-  tutorialId: string, 
-  certificateUrl: string
-): Promise<boolean> {
-  try {
-    const { error } = await supabase
-      .from('user_tutorial_progress')
-      .update({ certificate_url: certificateUrl })
-      .eq('user_id', userId)
-      .eq('tutorial_id', tutorialId);
-
-    if (error) {
-      console.error('Error updating certificate URL:', error);
-      throw error;
-    }
-    return true;
-  } catch (error) {
-    console.error('Error updating certificate URL:', error);
-    return false;
-  }
 }
\ No newline at end of file
@@ -0,0 +1,424 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { awardPoints, pointsIdempotencyKey } from '../points-ledger';
+import {
+  drawDrillStepContent,
+  drillStepQuestion,
+  initialResponse,
+  publicDrillStepContent,
+  scoreResponse,
+  storedResponse,
+  type DrillQuestionContent,
+  type QuestionResponse
+} from '../question-types';
+import { GradingError } from './errors';
+
+/**
+ * Virtual drill runs. A run starts when the student starts the drill
+ * (user_drills.started_at, set here only) and gets its own draw of each
+ * question step (the step's question or one of its variants, options
+ * shuffled), kept in quiz_attempts. Each question step is graded here against
+ * that draw as it's answered and recorded in drill_attempts, and finishing the
+ * run scores it from those attempts and awards the points. Steps come without
+ * their answers until answered. Until the drill is first completed, an
+ * answered run can't be started over, only resumed. All functions need a
+ * service-role client.
+ */
+
+// Steps with a question to answer; info and action steps are just read
+export const GRADED_STEP_TYPES = ['question', 'decision'];
+
+export interface DrillStep {
+  id: string;
+  step_number: number;
+  step_title: string;
+  step_description: string;
+  step_type: string;
+  content: DrillQuestionContent & { question?: string | null };
+  points: number;
+  time_limit: number | null;
+  // Set on steps already answered in the current run
+  answer?: DrillStepAnswer;
+}
+
+export interface DrillStepAnswer {
+  response: QuestionResponse;
+  // Share of the step's points earned, 0 to 1
+  score: number;
+  pointsEarned: number;
+}
+
+export interface DrillRunStart {
+  // True when an unfinished run was picked up where it was left
+  resumed: boolean;
+  // Runs after the first completion are practice and earn no points
+  isRetry: boolean;
+}
+
+export interface DrillStepGrade {
+  stepNumber: number;
+  // Share of the step's points earned, 0 to 1
+  score: number;
+  pointsEarned: number;
+  // The step's full content, answer and explanation included
+  content: DrillStep['content'];
+  // The answer as a response to the full content
+  response: QuestionResponse;
+}
+
+export interface DrillRunResult {
+  score: number;
+  bestScore: number;
+  completionTime: string;
+  // Runs after the first completion are practice and earn no points
+  isRetry: boolean;
+  scoreImproved: boolean;
+  pointsAwarded: number;
+}
+
+interface DrillRun {
+  id: string;
+  user_id: string;
+  score: number | null;
+  completion_time: string | null;
+  completed_at: string | null;
+  started_at: string | null;
+  created_at: string;
+}
+
+async function loadSteps(supabase: SupabaseClient, drillId: string): Promise<DrillStep[]> {
+  const { data, error } = await supabase
+    .from('drill_content')
+    .select('id, step_number, step_title, step_description, step_type, content, points, time_limit')
+    .eq('drill_id', drillId)
+    .order('step_number', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as DrillStep[];
+}
+
+// The question content each question step got in a run, by step number
+type RunDraw = Map<number, DrillStep['content']>;
+
+async function findRun(supabase: SupabaseClient, userId: string, drillId: string): Promise<DrillRun | null> {
+  const { data, error } = await supabase
+    .from('user_drills')
+    .select('id, user_id, score, completion_time, completed_at, started_at, created_at')
+    .eq('user_id', userId)
+    .eq('drill_id', drillId)
+    .eq('status', 'in_progress')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function loadRun(supabase: SupabaseClient, userId: string, drillId: string): Promise<DrillRun> {
+  const run = await findRun(supabase, userId, drillId);
+  if (!run) {
+    throw new GradingError('Start the drill before answering', 409);
+  }
+  return run;
+}
+
+async function findRunDraw(supabase: SupabaseClient, run: DrillRun): Promise<RunDraw | null> {
+  // The first one, should two requests have drawn at once
+  const { data, error } = await supabase
+    .from('quiz_attempts')
+    .select('questions')
+    .eq('user_drill_id', run.id)
+    .gte('created_at', run.started_at || run.created_at)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return new Map((data.questions as { step_number: number; content: DrillStep['content'] }[])
+    .map(question => [question.step_number, question.content]));
+}
+
+// The run's draw, made on first use
+async function loadRunDraw(supabase: SupabaseClient, run: DrillRun, steps: DrillStep[]): Promise<RunDraw> {
+  const existing = await findRunDraw(supabase, run);
+  if (existing) return existing;
+
+  const questions = steps
+    .filter(step => GRADED_STEP_TYPES.includes(step.step_type))
+    .map(step => ({ step_number: step.step_number, content: drawDrillStepContent(step.content) }));
+
+  const { error } = await supabase
+    .from('quiz_attempts')
+    .insert({ user_id: run.user_id, user_drill_id: run.id, questions });
+
+  if (error) throw error;
+  return (await findRunDraw(supabase, run)) || new Map();
+}
+
+interface RunAttempt {
+  points_earned: number | null;
+  is_correct: boolean | null;
+  user_answer: { selected?: QuestionResponse } | null;
+}
+
+// The run's attempts, first one per step
+async function loadRunAttempts(
+  supabase: SupabaseClient,
+  run: DrillRun
+): Promise<Map<number, RunAttempt>> {
+  const { data, error } = await supabase
+    .from('drill_attempts')
+    .select('step_number, points_earned, is_correct, user_answer, created_at')
+    .eq('user_drill_id', run.id)
+    .gte('created_at', run.started_at || run.created_at)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const attempts = new Map<number, RunAttempt>();
+  for (const attempt of data || []) {
+    if (!attempts.has(attempt.step_number)) {
+      attempts.set(attempt.step_number, attempt);
+    }
+  }
+  return attempts;
+}
+
+async function requireCompletedModule(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { data: completedModules, error } = await supabase
+    .from('user_modules')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('completed', true)
+    .limit(1);
+
+  if (error) throw error;
+  if (!completedModules || completedModules.length === 0) {
+    throw new GradingError('You must complete at least one module before accessing drills.', 403);
+  }
+}
+
+function formatDuration(from: string): string {
+  const totalSeconds = Math.max(0, Math.floor((Date.now() - new Date(from).getTime()) / 1000));
+  return `${Math.floor(totalSeconds / 60)}m ${totalSeconds % 60}s`;
+}
+
+/**
+ * Start a run of a virtual drill. Until the drill is first completed, a run
+ * that already has answers is resumed instead, so its answers can't be seen
+ * and then given again in a fresh run.
+ */
+export async function startDrillRun(supabase: SupabaseClient, userId: string, drillId: string): Promise<DrillRunStart> {
+  await requireCompletedModule(supabase, userId);
+
+  const { data: drill, error: drillError } = await supabase
+    .from('drills')
+    .select('id, type')
+    .eq('id', drillId)
+    .maybeSingle();
+
+  if (drillError) throw drillError;
+  if (!drill) {
+    throw new GradingError('Drill not found', 404);
+  }
+  if (drill.type !== 'Virtual') {
+    throw new GradingError('Only virtual drills can be started');
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('user_drills')
+    .select('id, user_id, status, score, completion_time, completed_at, started_at, created_at')
+    .eq('user_id', userId)
+    .eq('drill_id', drillId)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  const isRetry = !!existing?.completed_at;
+  if (existing && existing.status === 'in_progress' && !isRetry) {
+    const attempts = await loadRunAttempts(supabase, existing);
+    if (attempts.size > 0) {
+      return { resumed: true, isRetry };
+    }
+  }
+
+  const run = { status: 'in_progress', started_at: new Date().toISOString() };
+  const { error } = existing
+    ? await supabase.from('user_drills').update(run).eq('id', existing.id)
+    : await supabase.from('user_drills').insert({ user_id: userId, drill_id: drillId, ...run });
+
+  if (error) throw error;
+  return { resumed: false, isRetry };
+}
+
+/**
+ * A drill's steps as the student goes through them, with the questions drawn
+ * for their current run. Steps already answered in the run come with their
+ * answer, as graded.
+ */
+export async function getDrillSteps(supabase: SupabaseClient, userId: string, drillId: string): Promise<DrillStep[]> {
+  const [steps, run] = await Promise.all([
+    loadSteps(supabase, drillId),
+    findRun(supabase, userId, drillId)
+  ]);
+  const draw = run ? await loadRunDraw(supabase, run, steps) : new Map() as RunDraw;
+  const attempts = run ? await loadRunAttempts(supabase, run) : new Map<number, RunAttempt>();
+
+  return steps.map(step => {
+    if (!GRADED_STEP_TYPES.includes(step.step_type)) return step;
+
+    const content = draw.get(step.step_number) || step.content;
+    const attempt = attempts.get(step.step_number);
+    if (!attempt) {
+      return { ...step, content: publicDrillStepContent(content) };
+    }
+
+    const pointsEarned = attempt.points_earned || 0;
+    return {
+      ...step,
+      content,
+      answer: {
+        response: attempt.user_answer?.selected ?? initialResponse(drillStepQuestion(content)),
+        score: step.points ? pointsEarned / step.points : (attempt.is_correct ? 1 : 0),
+        pointsEarned
+      }
+    };
+  });
+}
+
+/**
+ * Grade and record the answer to one step of the student's current run.
+ * Each step is answered once per run.
+ */
+export async function gradeDrillStep(
+  supabase: SupabaseClient,
+  userId: string,
+  drillId: string,
+  stepNumber: number,
+  response: unknown,
+  timeSpent: number | null
+): Promise<DrillStepGrade> {
+  const [steps, run] = await Promise.all([
+    loadSteps(supabase, drillId),
+    loadRun(supabase, userId, drillId)
+  ]);
+
+  const step = steps.find(candidate => candidate.step_number === stepNumber);
+  if (!step) {
+    throw new GradingError('Step not found', 404);
+  }
+  if (!GRADED_STEP_TYPES.includes(step.step_type)) {
+    throw new GradingError('This step has no question to answer');
+  }
+
+  const attempts = await loadRunAttempts(supabase, run);
+  if (attempts.has(stepNumber)) {
+    throw new GradingError('This step has already been answered', 409);
+  }
+
+  const draw = await loadRunDraw(supabase, run, steps);
+  const content = draw.get(stepNumber) || drawDrillStepContent(step.content);
+  const question = drillStepQuestion(content);
+  const answer = storedResponse(question, response);
+  // Partly right answers earn part of the step's points
+  const score = scoreResponse(question, answer);
+  const pointsEarned = Math.round((step.points || 0) * score);
+
+  const { error } = await supabase
+    .from('drill_attempts')
+    .insert({
+      user_drill_id: run.id,
+      step_number: stepNumber,
+      user_answer: { selected: answer },
+      is_correct: score === 1,
+      points_earned: pointsEarned,
+      time_spent: timeSpent
+    });
+
+  if (error) throw error;
+
+  return { stepNumber, score, pointsEarned, content, response: answer };
+}
+
+/**
+ * Finish the student's current run: score it from its attempts (unanswered
+ * steps earn nothing), keep the best score and fastest time, and award points
+ * for an improved score on a first completion.
+ */
+export async function completeDrillRun(supabase: SupabaseClient, userId: string, drillId: string): Promise<DrillRunResult> {
+  await requireCompletedModule(supabase, userId);
+
+  const [steps, run] = await Promise.all([
+    loadSteps(supabase, drillId),
+    loadRun(supabase, userId, drillId)
+  ]);
+  const attempts = await loadRunAttempts(supabase, run);
+
+  const totalPoints = steps.reduce((sum, step) => sum + (step.points || 0), 0);
+  const earnedPoints = [...attempts.values()].reduce((sum, attempt) => sum + (attempt.points_earned || 0), 0);
+  const score = totalPoints > 0 ? Math.min(100, Math.round((earnedPoints / totalPoints) * 100)) : 0;
+  const completionTime = formatDuration(run.started_at || run.created_at);
+
+  const isRetry = run.completed_at !== null;
+  const previousScore = typeof run.score === 'number' ? run.score : 0;
+
+  // Only update score if new score is better than previous score
+  const scoreImproved = score > previousScore;
+  const bestScore = scoreImproved ? score : previousScore;
+
+  // Always update completion time if it's faster, or if there's no previous time
+  const finalTime = !run.completion_time || completionTime < run.completion_time ? completionTime : run.completion_time;
+
+  const { error: updateError } = await supabase
+    .from('user_drills')
+    .update({
+      status: 'completed',
+      score: bestScore,
+      completion_time: finalTime,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', run.id);
+
+  if (updateError) throw updateError;
+
+  const { error: drawError } = await supabase
+    .from('quiz_attempts')
+    .update({
+      responses: Object.fromEntries([...attempts].map(([stepNumber, attempt]) => [stepNumber, attempt.user_answer?.selected ?? null])),
+      score,
+      submitted_at: new Date().toISOString()
+    })
+    .eq('user_drill_id', run.id)
+    .gte('created_at', run.started_at || run.created_at)
+    .is('submitted_at', null);
+
+  if (drawError) throw drawError;
+
+  let pointsAwarded = 0;
+  if (!isRetry && scoreImproved) {
+    const { data: drill, error: drillError } = await supabase
+      .from('drills')
+      .select('points')
+      .eq('id', drillId)
+      .single();
+
+    if (drillError) throw drillError;
+
+    const pointsEarned = Math.round((drill.points || 0) * (score / 100));
+
+    // Each improved score earns one award, so the score is part of the key
+    const award = await awardPoints(supabase, {
+      userId,
+      amount: pointsEarned,
+      sourceType: 'drill',
+      sourceId: drillId,
+      idempotencyKey: pointsIdempotencyKey('drill', drillId, userId, `score-${score}`),
+      action: 'Completed drill',
+      item: `${drillId}`
+    });
+    pointsAwarded = award.awarded ? pointsEarned : 0;
+  }
+
+  return { score, bestScore, completionTime: finalTime, isRetry, scoreImproved, pointsAwarded };
+}
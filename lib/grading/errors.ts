@@ -0,0 +1,6 @@
+export class GradingError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'GradingError';
+  }
+}
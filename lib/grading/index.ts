@@ -0,0 +1,34 @@
+/**
+ * Server-side grading for lesson quizzes, modules and virtual drills:
+ * lesson-quiz grades whole quiz attempts, module-completion scores a finished
+ * module from those grades, drill-steps grades drill answers step by step
+ * and scores finished runs. Every quiz attempt and drill run gets its own draw
+ * of questions, kept in quiz_attempts and graded against. Questions leave the
+ * server without their answers until they've been answered. Server-only;
+ * client code goes through lib/lesson-utils.ts, lib/modules-utils.ts and
+ * lib/drills-utils.ts.
+ */
+
+export { GradingError } from './errors';
+export {
+  MAX_QUIZ_ATTEMPTS,
+  QUIZ_PASS_SCORE,
+  getLessonQuiz,
+  gradeLessonQuiz,
+  type LessonQuiz,
+  type LessonQuizGrade,
+  type LessonQuizQuestion
+} from './lesson-quiz';
+export { MODULE_PASS_SCORE, completeModule, type ModuleCompletion } from './module-completion';
+export {
+  GRADED_STEP_TYPES,
+  completeDrillRun,
+  getDrillSteps,
+  gradeDrillStep,
+  startDrillRun,
+  type DrillRunResult,
+  type DrillRunStart,
+  type DrillStep,
+  type DrillStepAnswer,
+  type DrillStepGrade
+} from './drill-steps';
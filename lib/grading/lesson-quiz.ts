@@ -0,0 +1,306 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  arrangeQuestion,
+  drawQuestions,
+  publicQuestion,
+  scoreResponse,
+  storedResponse,
+  type AnswerKey,
+  type QuestionDifficulty,
+  type QuestionResponse,
+  type QuestionType
+} from '../question-types';
+import { GradingError } from './errors';
+
+/**
+ * Lesson quizzes. Each attempt draws its questions from the lesson's pool
+ * (and the module's question bank, if the lesson uses it) with the options
+ * shuffled, and keeps that draw in quiz_attempts. Students get the questions
+ * without their answers, submit all their responses at once, and the attempt
+ * is graded against its draw and recorded in quiz_attempts and
+ * user_lesson_progress here. The answers and explanations only come back with
+ * the grade. All functions need a service-role client.
+ */
+
+export const MAX_QUIZ_ATTEMPTS = 3;
+
+// A lesson is completed by passing its quiz or by using every attempt
+export const QUIZ_PASS_SCORE = 70;
+
+export interface LessonQuizQuestion {
+  id: string;
+  question: string;
+  question_type: QuestionType;
+  options: string[];
+  // Left out (-1 and empty) until the quiz has been graded
+  correct_answer: number;
+  answer_key: AnswerKey | null;
+  explanation: string;
+  // Position in the attempt
+  order_number: number;
+  topic: string | null;
+  difficulty: QuestionDifficulty;
+}
+
+export interface LessonQuiz {
+  lessonId: string;
+  questions: LessonQuizQuestion[];
+  attempts: number;
+  bestScore: number | null;
+}
+
+export interface LessonQuizGrade {
+  lessonId: string;
+  // This attempt's score; bestScore is what's kept
+  score: number;
+  bestScore: number;
+  attempts: number;
+  completed: boolean;
+  questions: LessonQuizQuestion[];
+  // Per question, in the same order, as answers to the graded questions
+  responses: QuestionResponse[];
+}
+
+interface ProgressRow {
+  id: string;
+  quiz_score: number | null;
+  attempts: number | null;
+  completed: boolean | null;
+}
+
+interface LessonQuizSettings {
+  id: string;
+  module_id: string;
+  // Questions per attempt; null for the whole pool
+  quiz_question_count: number | null;
+  quiz_uses_module_bank: boolean | null;
+}
+
+// An attempt not submitted yet; a student has at most one per lesson
+interface OpenAttempt {
+  id: string;
+  questions: LessonQuizQuestion[];
+}
+
+async function loadLesson(supabase: SupabaseClient, lessonId: string): Promise<LessonQuizSettings> {
+  const { data, error } = await supabase
+    .from('lessons')
+    .select('id, module_id, quiz_question_count, quiz_uses_module_bank')
+    .eq('id', lessonId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new GradingError('Lesson not found', 404);
+  }
+  return data;
+}
+
+async function loadPool(supabase: SupabaseClient, lesson: LessonQuizSettings): Promise<LessonQuizQuestion[]> {
+  let query = supabase
+    .from('quiz_questions')
+    .select('id, question, question_type, options, correct_answer, answer_key, explanation, order_number, topic, difficulty');
+  query = lesson.quiz_uses_module_bank
+    ? query.or(`lesson_id.eq.${lesson.id},module_id.eq.${lesson.module_id}`)
+    : query.eq('lesson_id', lesson.id);
+
+  const { data, error } = await query.order('order_number', { ascending: true });
+  if (error) throw error;
+  return (data || []) as LessonQuizQuestion[];
+}
+
+function drawAttempt(pool: LessonQuizQuestion[], count: number | null): LessonQuizQuestion[] {
+  return drawQuestions(pool, count).map((question, index) => ({
+    ...arrangeQuestion(question),
+    explanation: question.explanation || '',
+    order_number: index + 1
+  }));
+}
+
+async function loadOpenAttempt(supabase: SupabaseClient, userId: string, lessonId: string): Promise<OpenAttempt | null> {
+  const { data, error } = await supabase
+    .from('quiz_attempts')
+    .select('id, questions')
+    .eq('user_id', userId)
+    .eq('lesson_id', lessonId)
+    .is('submitted_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// The student's open attempt, or a new draw if the lesson has a quiz
+async function openAttempt(
+  supabase: SupabaseClient,
+  userId: string,
+  lesson: LessonQuizSettings
+): Promise<OpenAttempt | null> {
+  const existing = await loadOpenAttempt(supabase, userId, lesson.id);
+  if (existing) return existing;
+
+  const questions = drawAttempt(await loadPool(supabase, lesson), lesson.quiz_question_count);
+  if (questions.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from('quiz_attempts')
+    .insert({ user_id: userId, lesson_id: lesson.id, questions })
+    .select('id, questions')
+    .single();
+
+  if (error) {
+    // Opened by another request just now
+    if (error.code === '23505') return loadOpenAttempt(supabase, userId, lesson.id);
+    throw error;
+  }
+  return data;
+}
+
+async function loadProgress(supabase: SupabaseClient, userId: string, lessonId: string): Promise<ProgressRow | null> {
+  const { data, error } = await supabase
+    .from('user_lesson_progress')
+    .select('id, quiz_score, attempts, completed')
+    .eq('user_id', userId)
+    .eq('lesson_id', lessonId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Moving past a lesson without a quiz also counts an attempt, so only scored rows have used any
+function quizAttempts(progress: ProgressRow | null): number {
+  return progress?.quiz_score === null || progress?.quiz_score === undefined ? 0 : progress.attempts || 1;
+}
+
+function withoutAnswers(question: LessonQuizQuestion): LessonQuizQuestion {
+  return { ...question, ...publicQuestion(question), explanation: '' };
+}
+
+/**
+ * A lesson's quiz as the student answers it, with the attempts they've used.
+ * The questions are drawn once per attempt: reloading gets the same ones
+ * until they're submitted.
+ */
+export async function getLessonQuiz(supabase: SupabaseClient, userId: string, lessonId: string): Promise<LessonQuiz> {
+  const [lesson, progress] = await Promise.all([
+    loadLesson(supabase, lessonId),
+    loadProgress(supabase, userId, lessonId)
+  ]);
+  const attempts = quizAttempts(progress);
+
+  // With no attempts left there's nothing to record; a draw still shows whether there's a quiz
+  const questions = attempts < MAX_QUIZ_ATTEMPTS
+    ? (await openAttempt(supabase, userId, lesson))?.questions || []
+    : drawAttempt(await loadPool(supabase, lesson), lesson.quiz_question_count);
+
+  return {
+    lessonId,
+    questions: questions.map(withoutAnswers),
+    attempts,
+    bestScore: progress?.quiz_score ?? null
+  };
+}
+
+/**
+ * Grade the student's open attempt. `responses` maps question ids to answers
+ * to the questions from getLessonQuiz; missing or malformed answers score
+ * nothing. The best score so far is kept.
+ */
+export async function gradeLessonQuiz(
+  supabase: SupabaseClient,
+  userId: string,
+  lessonId: string,
+  responses: unknown
+): Promise<LessonQuizGrade> {
+  if (!responses || typeof responses !== 'object' || Array.isArray(responses)) {
+    throw new GradingError('responses must be an object of question ids to answers');
+  }
+
+  await loadLesson(supabase, lessonId);
+  const [attempt, progress] = await Promise.all([
+    loadOpenAttempt(supabase, userId, lessonId),
+    loadProgress(supabase, userId, lessonId)
+  ]);
+
+  if (!attempt || attempt.questions.length === 0) {
+    throw new GradingError('This quiz has no attempt in progress; reload the lesson to start one.', 409);
+  }
+  const { questions } = attempt;
+
+  const previousAttempts = quizAttempts(progress);
+  if (previousAttempts >= MAX_QUIZ_ATTEMPTS) {
+    throw new GradingError(`You have already used all ${MAX_QUIZ_ATTEMPTS} attempts for this quiz.`, 409);
+  }
+
+  const submitted = responses as Record<string, unknown>;
+  const graded = questions.map(question => storedResponse(question, submitted[question.id]));
+  // Partly right answers count for part of a question
+  const correct = questions.reduce((total, question, index) => total + scoreResponse(question, graded[index]), 0);
+  const score = Math.round((correct / questions.length) * 100);
+
+  const attempts = previousAttempts + 1;
+
+  // Closing the attempt first means it's graded once
+  const { data: closed, error: closeError } = await supabase
+    .from('quiz_attempts')
+    .update({
+      responses: graded,
+      score,
+      attempt_number: attempts,
+      submitted_at: new Date().toISOString()
+    })
+    .eq('id', attempt.id)
+    .is('submitted_at', null)
+    .select('id');
+
+  if (closeError) throw closeError;
+  if (!closed || closed.length === 0) {
+    throw new GradingError('This quiz was just submitted; reload the lesson to see your score.', 409);
+  }
+
+  const bestScore = Math.max(score, progress?.quiz_score ?? 0);
+  const completed = !!progress?.completed || attempts >= MAX_QUIZ_ATTEMPTS || bestScore >= QUIZ_PASS_SCORE;
+  const progressData = {
+    quiz_score: bestScore,
+    attempts,
+    completed,
+    completed_at: new Date().toISOString()
+  };
+
+  if (progress) {
+    // Only if no other attempt was recorded since we read it
+    let update = supabase
+      .from('user_lesson_progress')
+      .update(progressData)
+      .eq('id', progress.id);
+    update = progress.attempts === null ? update.is('attempts', null) : update.eq('attempts', progress.attempts);
+
+    const { data, error } = await update.select('id');
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new GradingError('This quiz was just submitted; reload the lesson to see your score.', 409);
+    }
+  } else {
+    const { error } = await supabase
+      .from('user_lesson_progress')
+      .insert({ user_id: userId, lesson_id: lessonId, ...progressData });
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new GradingError('This quiz was just submitted; reload the lesson to see your score.', 409);
+      }
+      throw error;
+    }
+  }
+
+  return {
+    lessonId,
+    score,
+    bestScore,
+    attempts,
+    completed,
+    questions,
+    responses: graded
+  };
+}
@@ -0,0 +1,200 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { awardPoints, pointsIdempotencyKey } from '../points-ledger';
+import { GradingError } from './errors';
+
+/**
+ * Module completion. The module's score comes from the student's graded
+ * lesson quizzes in user_lesson_progress, and its points are awarded here.
+ * All functions need a service-role client.
+ */
+
+// Modules scored below this are completed without points
+export const MODULE_PASS_SCORE = 50;
+
+export interface ModuleCompletion {
+  moduleId: string;
+  score: number;
+  pointsEarned: number;
+  modulePoints: number;
+  // False when the module was already completed; nothing was changed then
+  newlyCompleted: boolean;
+}
+
+interface LessonProgressRow {
+  lesson_id: string;
+  quiz_score: number | null;
+  completed: boolean | null;
+}
+
+/**
+ * How many questions each scored quiz had: the draw of the attempt its best
+ * score came from, or for scores from before attempts were kept, how many a
+ * draw takes now (lesson_quiz_sizes)
+ */
+async function loadDrawnQuestionCounts(
+  supabase: SupabaseClient,
+  userId: string,
+  scored: LessonProgressRow[]
+): Promise<Map<string, number>> {
+  const lessonIds = scored.map(row => row.lesson_id);
+
+  const { data: attempts, error: attemptsError } = await supabase
+    .from('quiz_attempts')
+    .select('lesson_id, score, questions')
+    .eq('user_id', userId)
+    .in('lesson_id', lessonIds)
+    .not('submitted_at', 'is', null);
+
+  if (attemptsError) throw attemptsError;
+
+  const questionCounts = new Map<string, number>();
+  for (const row of scored) {
+    const best = (attempts || []).find(attempt => attempt.lesson_id === row.lesson_id && attempt.score === row.quiz_score);
+    if (best) questionCounts.set(row.lesson_id, (best.questions as unknown[]).length);
+  }
+
+  const missing = lessonIds.filter(id => !questionCounts.has(id));
+  if (missing.length > 0) {
+    const { data: sizes, error: sizesError } = await supabase
+      .from('lesson_quiz_sizes')
+      .select('lesson_id, question_count')
+      .in('lesson_id', missing);
+
+    if (sizesError) throw sizesError;
+    for (const size of sizes || []) {
+      questionCounts.set(size.lesson_id as string, size.question_count as number);
+    }
+  }
+
+  return questionCounts;
+}
+
+/**
+ * Complete a module whose lessons the student has all finished: the score is
+ * the average of their quiz scores, and a passing score earns the module's
+ * points weighted by how many questions each quiz drew
+ */
+export async function completeModule(
+  supabase: SupabaseClient,
+  userId: string,
+  moduleId: string
+): Promise<ModuleCompletion> {
+  const { data: module, error: moduleError } = await supabase
+    .from('modules')
+    .select('id, title, points')
+    .eq('id', moduleId)
+    .maybeSingle();
+
+  if (moduleError) throw moduleError;
+  if (!module) {
+    throw new GradingError('Module not found', 404);
+  }
+
+  const modulePoints = module.points || 0;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('user_modules')
+    .select('id, completed, score')
+    .eq('user_id', userId)
+    .eq('module_id', moduleId)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existing?.completed) {
+    return { moduleId, score: existing.score ?? 0, pointsEarned: 0, modulePoints, newlyCompleted: false };
+  }
+
+  const { data: lessons, error: lessonsError } = await supabase
+    .from('lessons')
+    .select('id')
+    .eq('module_id', moduleId);
+
+  if (lessonsError) throw lessonsError;
+  const lessonIds = (lessons || []).map(lesson => lesson.id as string);
+
+  const { data: progressRows, error: progressError } = await supabase
+    .from('user_lesson_progress')
+    .select('lesson_id, quiz_score, completed')
+    .eq('user_id', userId)
+    .in('lesson_id', lessonIds);
+
+  if (progressError) throw progressError;
+  const progress = (progressRows || []) as LessonProgressRow[];
+
+  const finished = new Set(progress.filter(row => row.completed).map(row => row.lesson_id));
+  if (lessonIds.some(id => !finished.has(id))) {
+    throw new GradingError('Finish every lesson before completing the module.', 409);
+  }
+
+  // Lessons without a quiz don't count towards the score
+  const scored = progress.filter(row => row.quiz_score !== null);
+  const score = scored.length === 0
+    ? 0
+    : Math.round(scored.reduce((total, row) => total + (row.quiz_score || 0), 0) / scored.length);
+
+  let pointsEarned = 0;
+  if (score >= MODULE_PASS_SCORE && scored.length > 0) {
+    const questionCounts = await loadDrawnQuestionCounts(supabase, userId, scored);
+
+    let totalCorrect = 0;
+    let totalQuestions = 0;
+    for (const row of scored) {
+      const questionCount = questionCounts.get(row.lesson_id) || 0;
+      totalCorrect += Math.round(((row.quiz_score || 0) / 100) * questionCount);
+      totalQuestions += questionCount;
+    }
+
+    pointsEarned = totalQuestions > 0 ? Math.round((totalCorrect / totalQuestions) * modulePoints) : 0;
+  }
+
+  const completion = { completed: true, score, completed_at: new Date().toISOString() };
+
+  if (existing) {
+    // Only if it wasn't completed since we read it
+    const { data, error } = await supabase
+      .from('user_modules')
+      .update(completion)
+      .eq('id', existing.id)
+      .eq('completed', false)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new GradingError('This module was just completed; reload to see your score.', 409);
+    }
+  } else {
+    const { error } = await supabase
+      .from('user_modules')
+      .insert({ user_id: userId, module_id: moduleId, last_lesson_index: 0, ...completion });
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new GradingError('This module was just completed; reload to see your score.', 409);
+      }
+      throw error;
+    }
+  }
+
+  if (score >= MODULE_PASS_SCORE) {
+    // A repeated completion is a no-op through the idempotency key
+    await awardPoints(supabase, {
+      userId,
+      amount: pointsEarned,
+      sourceType: 'module',
+      sourceId: moduleId,
+      idempotencyKey: pointsIdempotencyKey('module', moduleId, userId),
+      action: 'Completed Module',
+      item: module.title
+    });
+  } else {
+    const { error } = await supabase
+      .from('activity_log')
+      .insert({ user_id: userId, action: 'Completed Module', item: module.title, points: 0 });
+
+    if (error) {
+      console.error('[Module Completion] Error logging activity:', error);
+    }
+  }
+
+  return { moduleId, score, pointsEarned, modulePoints, newlyCompleted: true };
+}
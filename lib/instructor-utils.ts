@@ -0,0 +1,119 @@
+import { supabase } from './supabase';
+
+export type AssignableEventKind = 'drill' | 'session';
+
+export interface InstructorOption {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+export interface AssignedEventIds {
+  drill: string[];
+  session: string[];
+}
+
+const ASSIGNMENT_TABLES: Record<AssignableEventKind, { table: string; eventColumn: string }> = {
+  drill: { table: 'drill_instructors', eventColumn: 'drill_id' },
+  session: { table: 'session_instructors', eventColumn: 'session_id' }
+};
+
+/**
+ * Instructors the user can assign: everyone with the role for platform admins,
+ * their members with the role for organization admins
+ */
+export async function getInstructors(): Promise<InstructorOption[]> {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name, email')
+      .eq('role', 'instructor')
+      .order('full_name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching instructors:', error);
+    throw error;
+  }
+}
+
+/**
+ * Instructors assigned to a drill or session
+ */
+export async function getEventInstructorIds(kind: AssignableEventKind, eventId: string): Promise<string[]> {
+  try {
+    const { table, eventColumn } = ASSIGNMENT_TABLES[kind];
+    const { data, error } = await supabase
+      .from(table)
+      .select('instructor_id')
+      .eq(eventColumn, eventId);
+
+    if (error) throw error;
+    return (data || []).map(row => row.instructor_id);
+  } catch (error) {
+    console.error('Error fetching event instructors:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the instructors assigned to a drill or session (platform admins, and
+ * organization admins for their sessions)
+ */
+export async function setEventInstructors(
+  kind: AssignableEventKind,
+  eventId: string,
+  instructorIds: string[]
+): Promise<void> {
+  try {
+    const { table, eventColumn } = ASSIGNMENT_TABLES[kind];
+    const current = await getEventInstructorIds(kind, eventId);
+
+    const removed = current.filter(id => !instructorIds.includes(id));
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq(eventColumn, eventId)
+        .in('instructor_id', removed);
+
+      if (error) throw error;
+    }
+
+    const added = instructorIds.filter(id => !current.includes(id));
+    if (added.length > 0) {
+      const { error } = await supabase
+        .from(table)
+        .insert(added.map(instructorId => ({ [eventColumn]: eventId, instructor_id: instructorId })));
+
+      if (error) throw error;
+    }
+  } catch (error) {
+    console.error('Error assigning instructors:', error);
+    throw new Error('Failed to update instructors. Please try again.');
+  }
+}
+
+/**
+ * The drills and sessions an instructor is assigned to
+ */
+export async function getAssignedEventIds(instructorId: string): Promise<AssignedEventIds> {
+  try {
+    const [drills, sessions] = await Promise.all([
+      supabase.from('drill_instructors').select('drill_id').eq('instructor_id', instructorId),
+      supabase.from('session_instructors').select('session_id').eq('instructor_id', instructorId)
+    ]);
+
+    if (drills.error) throw drills.error;
+    if (sessions.error) throw sessions.error;
+
+    return {
+      drill: (drills.data || []).map(row => row.drill_id),
+      session: (sessions.data || []).map(row => row.session_id)
+    };
+  } catch (error) {
+    console.error('Error fetching assigned events:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,129 @@
+import type Redis from 'ioredis';
+
+/**
+ * Background job status, kept in Redis so the API can report on jobs the worker runs.
+ * Shared by the API routes (lib/redis) and the worker (worker/redisClient).
+ */
+
+export type JobState = 'pending' | 'processing' | 'retrying' | 'done' | 'failed';
+
+// Reported by jobs that work through a list, e.g. bulk registration actions
+export interface JobProgress {
+  processed: number;
+  total: number;
+}
+
+export interface JobStatus {
+  id: string;
+  type: string;
+  userId: string;
+  state: JobState;
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  nextRetryAt: string | null;
+  progress: JobProgress | null;
+  result: unknown;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Finished jobs are only interesting for a while
+const JOB_STATUS_TTL_SECONDS = 86400;
+
+function jobKey(jobId: string): string {
+  return `job:${jobId}`;
+}
+
+export async function getJobStatus(redis: Redis, jobId: string): Promise<JobStatus | null> {
+  const raw = await redis.get(jobKey(jobId));
+  return raw ? (JSON.parse(raw) as JobStatus) : null;
+}
+
+export async function createJobStatus(
+  redis: Redis,
+  job: { id: string; type: string; userId: string; maxAttempts: number }
+): Promise<JobStatus> {
+  const now = new Date().toISOString();
+  const status: JobStatus = {
+    ...job,
+    state: 'pending',
+    attempts: 0,
+    error: null,
+    nextRetryAt: null,
+    progress: null,
+    result: null,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await redis.set(jobKey(job.id), JSON.stringify(status), 'EX', JOB_STATUS_TTL_SECONDS);
+  return status;
+}
+
+/**
+ * Merge an update into a job's status. Unknown jobs (expired or published
+ * before status tracking) are recreated from the fields given.
+ */
+export async function updateJobStatus(
+  redis: Redis,
+  jobId: string,
+  update: Partial<Omit<JobStatus, 'id' | 'createdAt' | 'updatedAt'>>
+): Promise<void> {
+  try {
+    const current = await getJobStatus(redis, jobId);
+    const now = new Date().toISOString();
+    const next: JobStatus = {
+      id: jobId,
+      type: 'unknown',
+      userId: '',
+      state: 'pending',
+      attempts: 0,
+      maxAttempts: 1,
+      error: null,
+      nextRetryAt: null,
+      progress: null,
+      result: null,
+      createdAt: now,
+      ...current,
+      ...update,
+      updatedAt: now
+    };
+
+    await redis.set(jobKey(jobId), JSON.stringify(next), 'EX', JOB_STATUS_TTL_SECONDS);
+  } catch (error) {
+    // Status is informational - never fail the job because of it
+    console.error(`Error updating status for job ${jobId}:`, error);
+  }
+}
+
+// A file a job produced (e.g. an exported report), downloaded through GET /api/jobs/:id/file
+export interface JobFile {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+function jobFileKey(jobId: string): string {
+  return `job:${jobId}:file`;
+}
+
+/**
+ * Keep a job's output file for as long as its status
+ */
+export async function saveJobFile(redis: Redis, jobId: string, file: JobFile): Promise<void> {
+  const stored = JSON.stringify({
+    filename: file.filename,
+    contentType: file.contentType,
+    data: file.data.toString('base64')
+  });
+  await redis.set(jobFileKey(jobId), stored, 'EX', JOB_STATUS_TTL_SECONDS);
+}
+
+export async function getJobFile(redis: Redis, jobId: string): Promise<JobFile | null> {
+  const raw = await redis.get(jobFileKey(jobId));
+  if (!raw) return null;
+
+  const stored = JSON.parse(raw) as { filename: string; contentType: string; data: string };
+  return { ...stored, data: Buffer.from(stored.data, 'base64') };
+}
@@ -0,0 +1,66 @@
+import { authorizedFetch } from './api-client';
+import type { JobProgress, JobStatus } from './job-status';
+
+export type { JobProgress, JobStatus };
+
+/**
+ * Get the status of a background job (pending, processing, retrying, done or failed)
+ */
+export async function fetchJobStatus(jobId: string): Promise<JobStatus | null> {
+  try {
+    const response = await authorizedFetch(`/api/jobs/${jobId}`, { cache: 'no-store' });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fetch job status');
+    }
+
+    return data.job;
+  } catch (error) {
+    console.error('Error fetching job status:', error);
+    throw error;
+  }
+}
+
+// Thrown by waitForJob when timeoutMs passes before the job finishes
+export class JobStillRunningError extends Error {
+  constructor(public readonly jobId: string) {
+    super('The job is still running');
+    this.name = 'JobStillRunningError';
+  }
+}
+
+/**
+ * Poll a job until the worker finishes it and resolve with its result.
+ * Throws if the job failed or expired, JobStillRunningError once timeoutMs
+ * (if given) has passed, and the signal's reason if it is aborted.
+ */
+export async function waitForJob<T>(
+  jobId: string,
+  options: { intervalMs?: number; timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<T> {
+  const deadline = options.timeoutMs ? Date.now() + options.timeoutMs : null;
+
+  for (;;) {
+    options.signal?.throwIfAborted();
+
+    const job = await fetchJobStatus(jobId);
+    if (!job) {
+      throw new Error('The job expired before it finished.');
+    }
+
+    if (job.state === 'done') return job.result as T;
+    if (job.state === 'failed') {
+      throw new Error(job.error || 'The job failed');
+    }
+
+    if (deadline && Date.now() >= deadline) {
+      throw new JobStillRunningError(jobId);
+    }
+    await new Promise(resolve => setTimeout(resolve, options.intervalMs ?? 1000));
+  }
+}
@@ -0,0 +1,251 @@
+import type Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import { BADGE_QUEUE, PermanentJobError, getMaxJobAttempts, getQueueDriver } from './queue';
+import { createJobStatus, updateJobStatus } from './job-status';
+import { CERTIFICATE_KINDS, type CertificateKind } from './certificates/templates';
+
+/**
+ * Background job types. Producers and the worker share these definitions:
+ * the payload schema is checked when a job is enqueued and again when the
+ * worker picks it up. Handlers live in worker/registry.ts.
+ *
+ * Adding a job type: add a definition here, then a handler in the worker registry.
+ */
+
+export class JobPayloadError extends PermanentJobError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobPayloadError';
+  }
+}
+
+export interface JobDefinition<T> {
+  queue: string;
+  // Jobs of this type one worker runs at the same time
+  concurrency: number;
+  // A run taking longer than this fails (and is retried)
+  timeoutMs: number;
+  parse(input: unknown): T;
+}
+
+function asObject(input: unknown, type: string): Record<string, unknown> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new JobPayloadError(`${type} payload must be an object`);
+  }
+  return input as Record<string, unknown>;
+}
+
+function requireString(payload: Record<string, unknown>, field: string, type: string): string {
+  const value = payload[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new JobPayloadError(`${type}.${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalString(payload: Record<string, unknown>, field: string, type: string): string | null {
+  const value = payload[field];
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    throw new JobPayloadError(`${type}.${field} must be a string`);
+  }
+  return value;
+}
+
+function requireStringArray(payload: Record<string, unknown>, field: string, type: string, maxLength: number): string[] {
+  const value = payload[field];
+  if (!Array.isArray(value) || value.length === 0 || value.some(item => typeof item !== 'string' || !item.trim())) {
+    throw new JobPayloadError(`${type}.${field} must be a non-empty array of strings`);
+  }
+  if (value.length > maxLength) {
+    throw new JobPayloadError(`${type}.${field} can have at most ${maxLength} entries`);
+  }
+  return [...new Set(value as string[])];
+}
+
+function requireOneOf<T extends string>(payload: Record<string, unknown>, field: string, type: string, allowed: readonly T[]): T {
+  const value = payload[field];
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new JobPayloadError(`${type}.${field} must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+export interface BadgeCheckPayload {
+  userId: string;
+  moduleId: string | null;
+}
+
+export interface RecommendationRefreshPayload {
+  userId: string;
+}
+
+export const BULK_REGISTRATION_KINDS = ['drill', 'session'] as const;
+export const BULK_REGISTRATION_ACTIONS = ['approve', 'decline', 'complete', 'issue_certificates'] as const;
+// Registrations one bulk job may touch
+export const MAX_BULK_REGISTRATIONS = 500;
+
+export type BulkRegistrationKind = typeof BULK_REGISTRATION_KINDS[number];
+export type BulkRegistrationAction = typeof BULK_REGISTRATION_ACTIONS[number];
+
+export interface BulkRegistrationPayload {
+  // Who asked; the worker only touches registrations they manage
+  userId: string;
+  kind: BulkRegistrationKind;
+  action: BulkRegistrationAction;
+  registrationIds: string[];
+}
+
+export interface CertificateIssuePayload {
+  // Who asked; checked against the completion before the job is queued
+  userId: string;
+  kind: CertificateKind;
+  recordId: string;
+}
+
+export interface DrillReportExportPayload {
+  userId: string;
+  drillId: string;
+}
+
+export interface NotificationDeliveryPayload {
+  userId: string;
+  // The notification_outbox row to send
+  notificationId: string;
+}
+
+export interface JobPayloads {
+  badge_check: BadgeCheckPayload;
+  ai_recommendations_refresh: RecommendationRefreshPayload;
+  registration_bulk_action: BulkRegistrationPayload;
+  certificate_issue: CertificateIssuePayload;
+  drill_report_export: DrillReportExportPayload;
+  notification_delivery: NotificationDeliveryPayload;
+}
+
+export type JobType = keyof JobPayloads;
+export type JobPayload<K extends JobType> = JobPayloads[K];
+
+export const JOB_DEFINITIONS: { [K in JobType]: JobDefinition<JobPayloads[K]> } = {
+  badge_check: {
+    // Existing queue name, so jobs queued before this change are still consumed
+    queue: BADGE_QUEUE,
+    concurrency: 2,
+    timeoutMs: 30_000,
+    parse(input: unknown): BadgeCheckPayload {
+      const payload = asObject(input, 'badge_check');
+      return {
+        userId: requireString(payload, 'userId', 'badge_check'),
+        moduleId: optionalString(payload, 'moduleId', 'badge_check')
+      };
+    }
+  },
+
+  ai_recommendations_refresh: {
+    queue: 'jobs.ai_recommendations_refresh',
+    // Bounded by the Gemini rate limit rather than by the worker
+    concurrency: 1,
+    timeoutMs: 60_000,
+    parse(input: unknown): RecommendationRefreshPayload {
+      const payload = asObject(input, 'ai_recommendations_refresh');
+      return { userId: requireString(payload, 'userId', 'ai_recommendations_refresh') };
+    }
+  },
+
+  registration_bulk_action: {
+    queue: 'jobs.registration_bulk_action',
+    // Certificates are rendered one at a time; a busy admin shouldn't starve the others
+    concurrency: 1,
+    // Sized for the largest batch issuing certificates
+    timeoutMs: 15 * 60_000,
+    parse(input: unknown): BulkRegistrationPayload {
+      const payload = asObject(input, 'registration_bulk_action');
+      return {
+        userId: requireString(payload, 'userId', 'registration_bulk_action'),
+        kind: requireOneOf(payload, 'kind', 'registration_bulk_action', BULK_REGISTRATION_KINDS),
+        action: requireOneOf(payload, 'action', 'registration_bulk_action', BULK_REGISTRATION_ACTIONS),
+        registrationIds: requireStringArray(payload, 'registrationIds', 'registration_bulk_action', MAX_BULK_REGISTRATIONS)
+      };
+    }
+  },
+
+  certificate_issue: {
+    queue: 'jobs.certificate_issue',
+    concurrency: 2,
+    timeoutMs: 60_000,
+    parse(input: unknown): CertificateIssuePayload {
+      const payload = asObject(input, 'certificate_issue');
+      return {
+        userId: requireString(payload, 'userId', 'certificate_issue'),
+        kind: requireOneOf(payload, 'kind', 'certificate_issue', CERTIFICATE_KINDS),
+        recordId: requireString(payload, 'recordId', 'certificate_issue')
+      };
+    }
+  },
+
+  drill_report_export: {
+    queue: 'jobs.drill_report_export',
+    concurrency: 1,
+    timeoutMs: 60_000,
+    parse(input: unknown): DrillReportExportPayload {
+      const payload = asObject(input, 'drill_report_export');
+      return {
+        userId: requireString(payload, 'userId', 'drill_report_export'),
+        drillId: requireString(payload, 'drillId', 'drill_report_export')
+      };
+    }
+  },
+
+  notification_delivery: {
+    queue: 'jobs.notification_delivery',
+    concurrency: 4,
+    // A send attempt; retries with backoff are the outbox's job, not the queue's
+    timeoutMs: 30_000,
+    parse(input: unknown): NotificationDeliveryPayload {
+      const payload = asObject(input, 'notification_delivery');
+      return {
+        userId: requireString(payload, 'userId', 'notification_delivery'),
+        notificationId: requireString(payload, 'notificationId', 'notification_delivery')
+      };
+    }
+  }
+};
+
+export const JOB_TYPES = Object.keys(JOB_DEFINITIONS) as JobType[];
+
+/**
+ * The one way to start background work: validates the payload, records a
+ * pending status (see GET /api/jobs/:id) and publishes to the job's queue.
+ * Returns the job id.
+ */
+export async function enqueueJob<K extends JobType>(
+  redis: Redis,
+  type: K,
+  payload: JobPayload<K>,
+  options: { userId: string }
+): Promise<string> {
+  const definition = JOB_DEFINITIONS[type];
+  const validPayload = definition.parse(payload);
+  const jobId = randomUUID();
+
+  await createJobStatus(redis, {
+    id: jobId,
+    type,
+    userId: options.userId,
+    maxAttempts: getMaxJobAttempts()
+  });
+
+  try {
+    await getQueueDriver().publish(definition.queue, jobId, {
+      ...validPayload,
+      jobId,
+      type,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    await updateJobStatus(redis, jobId, { state: 'failed', error: 'Failed to queue job' });
+    throw error;
+  }
+
+  return jobId;
+}
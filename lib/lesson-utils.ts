@@ -0,0 +1,338 @@
+import { supabase, type Lesson, type QuizQuestion } from './supabase';
+import { authorizedFetch } from './api-client';
+import { cleanQuestionAnswers, validateQuestionAnswers, type QuestionResponse } from './question-types';
+import type { LessonQuiz, LessonQuizGrade, LessonQuizQuestion } from './grading';
+
+export type { Lesson, QuizQuestion, LessonQuiz, LessonQuizGrade, LessonQuizQuestion };
+
+// Same limit the grading API enforces
+export const MAX_QUIZ_ATTEMPTS = 3;
+
+export type LessonInput = Pick<
+  Lesson,
+  'title' | 'description' | 'content' | 'duration' | 'quiz_question_count' | 'quiz_uses_module_bank'
+>;
+
+// Questions without an id are new
+export type QuizQuestionInput = Pick<
+  QuizQuestion,
+  'question' | 'question_type' | 'options' | 'correct_answer' | 'answer_key' | 'explanation' | 'topic' | 'difficulty'
+> & {
+  id?: string;
+};
+
+export interface LessonWithQuestions extends Lesson {
+  quiz_questions: QuizQuestion[];
+}
+
+const byOrder = (a: { order_number: number }, b: { order_number: number }) => a.order_number - b.order_number;
+
+/**
+ * Check a lesson and its quiz before saving; throws a user-facing message
+ */
+export function validateLesson(lesson: LessonInput, questions: QuizQuestionInput[]): void {
+  if (!lesson.title.trim()) {
+    throw new Error('Lesson title is required.');
+  }
+  if (!lesson.content.trim()) {
+    throw new Error('Lesson content is required.');
+  }
+  if (lesson.quiz_question_count !== null
+    && (!Number.isInteger(lesson.quiz_question_count) || lesson.quiz_question_count < 1)) {
+    throw new Error('Questions per attempt must be a whole number of at least 1, or empty for all of them.');
+  }
+
+  validateQuestions(questions, 'Quiz question');
+}
+
+function validateQuestions(questions: QuizQuestionInput[], labelPrefix: string): void {
+  questions.forEach((question, index) => {
+    const label = `${labelPrefix} ${index + 1}`;
+
+    if (!question.question.trim()) {
+      throw new Error(`${label} needs a question.`);
+    }
+    validateQuestionAnswers(question, label);
+  });
+}
+
+/**
+ * A module's lessons with their quiz questions, in order (admins)
+ */
+export async function getModuleLessons(moduleId: string): Promise<LessonWithQuestions[]> {
+  try {
+    const { data, error } = await supabase
+      .from('lessons')
+      .select('*, quiz_questions (*)')
+      .eq('module_id', moduleId)
+      .order('order_number', { ascending: true });
+
+    if (error) throw error;
+
+    return ((data || []) as LessonWithQuestions[]).map(lesson => ({
+      ...lesson,
+      quiz_questions: [...(lesson.quiz_questions || [])].sort(byOrder)
+    }));
+  } catch (error) {
+    console.error('Error fetching module lessons:', error);
+    throw error;
+  }
+}
+
+/**
+ * A module's question bank, in order (admins)
+ */
+export async function getModuleQuestionBank(moduleId: string): Promise<QuizQuestion[]> {
+  try {
+    const { data, error } = await supabase
+      .from('quiz_questions')
+      .select('*')
+      .eq('module_id', moduleId)
+      .order('order_number', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching question bank:', error);
+    throw error;
+  }
+}
+
+// Questions belong to a lesson or to a module's bank
+async function saveQuizQuestions(
+  owner: { lesson_id: string } | { module_id: string },
+  questions: QuizQuestionInput[],
+  existing: QuizQuestion[]
+): Promise<void> {
+  const keptIds = questions.map(question => question.id).filter(Boolean) as string[];
+  const removedIds = existing.map(question => question.id).filter(id => !keptIds.includes(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from('quiz_questions')
+      .delete()
+      .in('id', removedIds);
+
+    if (error) throw error;
+  }
+
+  const rows = questions.map((question, index) => ({
+    ...(question.id && { id: question.id }),
+    ...owner,
+    question: question.question.trim(),
+    ...cleanQuestionAnswers(question),
+    explanation: question.explanation?.trim() || '',
+    topic: question.topic?.trim() || null,
+    difficulty: question.difficulty,
+    order_number: index + 1
+  }));
+
+  const updates = rows.filter(row => row.id);
+  const inserts = rows.filter(row => !row.id);
+
+  if (updates.length > 0) {
+    const { error } = await supabase.from('quiz_questions').upsert(updates);
+    if (error) throw error;
+  }
+  if (inserts.length > 0) {
+    const { error } = await supabase.from('quiz_questions').insert(inserts);
+    if (error) throw error;
+  }
+}
+
+function cleanLesson(lesson: LessonInput): LessonInput {
+  return {
+    title: lesson.title.trim(),
+    description: lesson.description?.trim() || null,
+    content: lesson.content,
+    duration: lesson.duration.trim(),
+    quiz_question_count: lesson.quiz_question_count,
+    quiz_uses_module_bank: lesson.quiz_uses_module_bank
+  };
+}
+
+/**
+ * Add a lesson to the end of a module (admins). The module's lesson count
+ * follows by trigger.
+ */
+export async function createLesson(
+  moduleId: string,
+  lesson: LessonInput,
+  questions: QuizQuestionInput[]
+): Promise<void> {
+  try {
+    validateLesson(lesson, questions);
+
+    const { data: last, error: lastError } = await supabase
+      .from('lessons')
+      .select('order_number')
+      .eq('module_id', moduleId)
+      .order('order_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lastError) throw lastError;
+
+    const { data, error } = await supabase
+      .from('lessons')
+      .insert({ ...cleanLesson(lesson), module_id: moduleId, order_number: (last?.order_number || 0) + 1 })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    await saveQuizQuestions({ lesson_id: data.id }, questions, []);
+  } catch (error) {
+    console.error('Error creating lesson:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save a lesson and replace its quiz with the given questions, in order (admins)
+ */
+export async function updateLesson(
+  lesson: LessonWithQuestions,
+  changes: LessonInput,
+  questions: QuizQuestionInput[]
+): Promise<void> {
+  try {
+    validateLesson(changes, questions);
+
+    const { error } = await supabase
+      .from('lessons')
+      .update(cleanLesson(changes))
+      .eq('id', lesson.id);
+
+    if (error) throw error;
+
+    await saveQuizQuestions({ lesson_id: lesson.id }, questions, lesson.quiz_questions);
+  } catch (error) {
+    console.error('Error updating lesson:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replace a module's question bank with the given questions, in order (admins).
+ * Lessons that use the bank draw from it on their next attempt.
+ */
+export async function saveModuleQuestionBank(
+  moduleId: string,
+  questions: QuizQuestionInput[],
+  existing: QuizQuestion[]
+): Promise<void> {
+  try {
+    validateQuestions(questions, 'Bank question');
+    await saveQuizQuestions({ module_id: moduleId }, questions, existing);
+  } catch (error) {
+    console.error('Error saving question bank:', error);
+    throw error;
+  }
+}
+
+/**
+ * Put a module's lessons in the given order, numbered from 1 (admins)
+ */
+export async function reorderLessons(moduleId: string, lessonIds: string[]): Promise<void> {
+  const { error } = await supabase.rpc('reorder_lessons', {
+    p_module_id: moduleId,
+    p_lesson_ids: lessonIds
+  });
+
+  if (error) {
+    console.error('Error reordering lessons:', error);
+    // The function raises user-facing messages
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Delete a lesson with its quiz and everyone's progress on it, then close the
+ * gap in the numbering (admins)
+ */
+export async function deleteLesson(lesson: Lesson): Promise<void> {
+  try {
+    const { error: progressError } = await supabase
+      .from('user_lesson_progress')
+      .delete()
+      .eq('lesson_id', lesson.id);
+
+    if (progressError) {
+      console.warn('Error deleting lesson progress:', progressError);
+      // Continue anyway
+    }
+
+    const { error: questionsError } = await supabase
+      .from('quiz_questions')
+      .delete()
+      .eq('lesson_id', lesson.id);
+
+    if (questionsError) throw questionsError;
+
+    const { error } = await supabase
+      .from('lessons')
+      .delete()
+      .eq('id', lesson.id);
+
+    if (error) throw error;
+
+    const { data: remaining, error: remainingError } = await supabase
+      .from('lessons')
+      .select('id')
+      .eq('module_id', lesson.module_id)
+      .order('order_number', { ascending: true });
+
+    if (remainingError) throw remainingError;
+    await reorderLessons(lesson.module_id, (remaining || []).map(row => row.id));
+  } catch (error) {
+    console.error('Error deleting lesson:', error);
+    throw error;
+  }
+}
+
+/**
+ * A lesson's quiz for the signed-in user, without the answers
+ */
+export async function getLessonQuiz(lessonId: string): Promise<LessonQuiz> {
+  try {
+    const response = await authorizedFetch(`/api/lessons/${lessonId}/quiz`);
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to load quiz');
+    }
+
+    return result.quiz;
+  } catch (error) {
+    console.error('Error loading quiz:', error);
+    throw error;
+  }
+}
+
+/**
+ * Submit a quiz attempt to be graded and recorded. The grade includes the
+ * answers and explanations, and the responses re-indexed to match them.
+ */
+export async function submitLessonQuiz(
+  lessonId: string,
+  responses: Record<string, QuestionResponse>
+): Promise<LessonQuizGrade> {
+  try {
+    const response = await authorizedFetch(`/api/lessons/${lessonId}/quiz`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ responses })
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to submit quiz');
+    }
+
+    return result.grade;
+  } catch (error) {
+    console.error('Error submitting quiz:', error);
+    throw error;
+  }
+}
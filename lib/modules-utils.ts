@@ -1,4 +1,12 @@
 import { supabase } from './supabase';
+import { requestBadgeCheck } from './badge-utils';
+import { authorizedFetch } from './api-client';
+import type { ModuleCompletion } from './grading';
+
+export type { ModuleCompletion };
+
+// Same pass mark the completion API uses; below it a module earns no points
+export const MODULE_PASS_SCORE = 50;
 
 /**
  * Start a module - creates a user_modules entry
@@ -55,215 +63,30 @@ export async function startModule(userId: string, moduleId: string): Promise<voi
 }
 
 /**
- * Complete a module - updates user_modules and awards points
+ * Complete a module for the signed-in user. The server scores it from the
+ * graded lesson quizzes and awards the points; badges are checked after.
  */
-export async function completeModule(
-  userId: string,
-  moduleId: string,
-  score: number = 100
-): Promise<void> {
+export async function completeModule(moduleId: string): Promise<ModuleCompletion> {
   try {
-    if (!userId || !moduleId) {
-      throw new Error('User ID and Module ID are required');
-    }
-
-    // Get module information
-    const { data: module, error: moduleError } = await supabase
-      .from('modules')
-      .select('title, points')
-      .eq('id', moduleId)
-      .single();
-
-    if (moduleError) throw moduleError;
-    if (!module) throw new Error('Module not found');
+    const response = await authorizedFetch(`/api/modules/${moduleId}/complete`, { method: 'POST' });
 
-    // Check if already completed
-    const { data: existingProgress } = await supabase
-      .from('user_modules')
-      .select('completed, id')
-      .eq('user_id', userId)
-      .eq('module_id', moduleId)
-      .maybeSingle();
-
-    const alreadyCompleted = existingProgress?.completed;
-
-    // Update or insert user_modules
-    if (existingProgress) {
-      await supabase
-        .from('user_modules')
-        .update({
-          completed: true,
-          score: score,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', existingProgress.id);
-    } else {
-      await supabase
-        .from('user_modules')
-        .insert({
-          user_id: userId,
-          module_id: moduleId,
-          completed: true,
-          score: score,
-          last_lesson_index: 0,
-          completed_at: new Date().toISOString()
-        });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to complete module');
     }
 
-    // Only award points if not previously completed and score >= 50
-    if (!alreadyCompleted && score >= 50) {
-      // Get current points
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('points')
-        .eq('id', userId)
-        .single();
-
-      if (profileError) throw profileError;
-
-      // Update points
-      const newPoints = (profile.points || 0) + module.points;
-      await supabase
-        .from('profiles')
-        .update({ 
-          points: newPoints,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', userId);
-
-      // Update rank based on new points
-      await updateUserRank(userId, newPoints);
-
-      // Log activity (check if not already logged)
-      const { data: existingLog } = await supabase
-        .from('activity_log')
-        .select('id')
-        .eq('user_id', userId)
-        .eq('action', 'Completed Module')
-        .eq('item', module.title)
-        .maybeSingle();
-
-      if (!existingLog) {
-        await supabase
-          .from('activity_log')
-          .insert({
-            user_id: userId,
-            action: 'Completed Module',
-            item: module.title,
-            points: module.points
-          });
-      }
-
-      // Check for badge achievements
-      await checkAndAwardBadges(userId);
+    // Badge rules are evaluated server-side by the badge engine
+    if (result.completion.newlyCompleted) {
+      await requestBadgeCheck(moduleId);
     }
+
+    return result.completion;
   } catch (error) {
     console.error('Error completing module:', error);
     throw error;
   }
 }
 
-/**
- * Update user rank based on points
- */
-async function updateUserRank(userId: string, points: number): Promise<void> {
-  try {
-    let newRank = 'Beginner';
-    
-    if (points >= 5000) newRank = 'Master Coordinator';
-    else if (points >= 2000) newRank = 'Disaster Specialist';
-    else if (points >= 1000) newRank = 'Emergency Responder';
-    else if (points >= 500) newRank = 'Responder';
-
-    await supabase
-      .from('profiles')
-      .update({ rank: newRank })
-      .eq('id', userId);
-  } catch (error) {
-    console.error('Error updating rank:', error);
-  }
-}
-
-/**
- * Check and award badges based on achievements
- */
-async function checkAndAwardBadges(userId: string): Promise<void> {
-  try {
-    if (!userId) return;
-
-    // Get completed modules count
-    const { data: completedModules, error: modulesError } = await supabase
-      .from('user_modules')
-      .select('module_id')
-      .eq('user_id', userId)
-      .eq('completed', true);
-
-    if (modulesError) throw modulesError;
-
-    const completedCount = completedModules?.length || 0;
-
-    // Get user points
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('points')
-      .eq('id', userId)
-      .single();
-
-    if (profileError) throw profileError;
-
-    const points = profile.points || 0;
-
-    // Award badges based on milestones
-    const badges: { badge: string; threshold: number; type: 'modules' | 'points' }[] = [
-      { badge: 'First Steps', threshold: 1, type: 'modules' },
-      { badge: 'Learning Enthusiast', threshold: 3, type: 'modules' },
-      { badge: 'Knowledge Seeker', threshold: 5, type: 'modules' },
-      { badge: 'Expert Learner', threshold: 8, type: 'modules' },
-      { badge: 'Rising Star', threshold: 500, type: 'points' },
-      { badge: 'Dedicated Responder', threshold: 1000, type: 'points' },
-      { badge: 'Elite Specialist', threshold: 2000, type: 'points' }
-    ];
-
-    for (const { badge, threshold, type } of badges) {
-      const value = type === 'modules' ? completedCount : points;
-      
-      if (value >= threshold) {
-        // Check if badge already awarded
-        const { data: existingBadge } = await supabase
-          .from('activity_log')
-          .select('id')
-          .eq('user_id', userId)
-          .eq('action', 'Earned Badge')
-          .eq('item', badge)
-          .maybeSingle();
-
-        if (!existingBadge) {
-          // Award badge
-          await supabase
-            .from('activity_log')
-            .insert({
-              user_id: userId,
-              action: 'Earned Badge',
-              item: badge,
-              points: 50
-            });
-
-          // Add bonus points for badge
-          await supabase
-            .from('profiles')
-            .update({ 
-              points: points + 50,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', userId);
-        }
-      }
-    }
-  } catch (error) {
-    console.error('Error checking badges:', error);
-  }
-}
-
 /**
  * Get user's module progress with proper calculation
  */
@@ -0,0 +1,100 @@
+import { authorizedFetch } from './api-client';
+import { supabase } from './supabase';
+import type { InAppNotification } from './notifications/inbox';
+import type { NotificationTemplateData, NotificationTemplateName } from './notifications/templates';
+
+export type { InAppNotification, NotificationTemplateData, NotificationTemplateName };
+
+const IN_APP_NOTIFICATION_LIMIT = 30;
+
+/**
+ * Email a user through the server's notification outbox (admin only).
+ * fullName is filled in from the user's profile when omitted.
+ */
+export async function sendNotification<K extends Exclude<NotificationTemplateName, 'password_reset'>>(
+  template: K,
+  userId: string,
+  data: Omit<NotificationTemplateData[K], 'fullName'> & { fullName?: string }
+): Promise<{ id: string; status: string; jobId: string | null }> {
+  try {
+    const response = await authorizedFetch('/api/notifications', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ template, userId, data })
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to send notification');
+    }
+
+    return result.notification;
+  } catch (error) {
+    console.error('Error sending notification:', error);
+    throw error;
+  }
+}
+
+/**
+ * Email a password reset link. Succeeds whether or not the address has an
+ * account, so the form can't be used to discover accounts.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  try {
+    const response = await fetch('/api/auth/password-reset', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email })
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to send reset email. Please try again.');
+    }
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    throw error;
+  }
+}
+
+/**
+ * The user's most recent in-app notifications, newest first
+ */
+export async function getInAppNotifications(userId: string): Promise<InAppNotification[]> {
+  try {
+    const { data, error } = await supabase
+      .from('user_notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(IN_APP_NOTIFICATION_LIMIT);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    throw error;
+  }
+}
+
+/**
+ * Mark all of the user's unread in-app notifications as read
+ */
+export async function markNotificationsRead(userId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('user_notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,41 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * In-app notifications: the list behind the bell in the navigation bar.
+ * Written by the server with the service role; users read their own rows and
+ * mark them read (lib/notification-utils.ts).
+ */
+
+export type InAppNotificationKind = 'reminder';
+
+export interface InAppNotification {
+  id: string;
+  user_id: string;
+  kind: InAppNotificationKind;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export async function createInAppNotification(
+  supabase: SupabaseClient,
+  notification: { userId: string; kind: InAppNotificationKind; title: string; body?: string | null }
+): Promise<InAppNotification> {
+  const { data, error } = await supabase
+    .from('user_notifications')
+    .insert({
+      user_id: notification.userId,
+      kind: notification.kind,
+      title: notification.title,
+      body: notification.body || null
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create in-app notification: ${error?.message}`);
+  }
+
+  return data;
+}
@@ -0,0 +1,45 @@
+/**
+ * Email notifications: templates render a message, the outbox stores it and
+ * retries failed sends, and the transport delivers it. The inbox holds in-app
+ * notifications. Server-only; client code goes through lib/notification-utils.ts.
+ */
+
+export {
+  NOTIFICATION_TEMPLATES,
+  NOTIFICATION_TEMPLATE_NAMES,
+  NotificationTemplateError,
+  isNotificationTemplateName,
+  renderEmail,
+  renderNotification,
+  type NotificationTemplateData,
+  type NotificationTemplateName,
+  type RenderedEmail
+} from './templates';
+export {
+  CatchAllNotificationTransport,
+  FileNotificationTransport,
+  SmtpNotificationTransport,
+  createNotificationTransport,
+  getNotificationTransport,
+  getNotificationTransportName,
+  setNotificationTransport,
+  type NotificationTransport,
+  type NotificationTransportName,
+  type OutgoingEmail
+} from './transports';
+export {
+  deliverNotification,
+  deliverQueuedNotification,
+  getUserRecipient,
+  processOutbox,
+  queueNotification,
+  queueNotificationDelivery,
+  type NotificationStatus,
+  type OutboxNotification,
+  type Recipient
+} from './outbox';
+export {
+  createInAppNotification,
+  type InAppNotification,
+  type InAppNotificationKind
+} from './inbox';
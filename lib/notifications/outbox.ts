@@ -0,0 +1,285 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type Redis from 'ioredis';
+import { enqueueJob } from '../jobs';
+import { renderNotification, type NotificationTemplateData, type NotificationTemplateName } from './templates';
+import { getNotificationTransport } from './transports';
+
+/**
+ * Every email is rendered into `notification_outbox` first and sent from
+ * there, so a failed send is retried with backoff instead of being lost.
+ * API routes use queueNotificationDelivery, which leaves the send to a
+ * notification_delivery job; the worker uses queueNotification, which tries
+ * to deliver straight away. The worker's poller (worker/notificationOutbox.ts)
+ * picks up whatever is still due.
+ */
+
+export type NotificationStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface OutboxNotification {
+  id: string;
+  template: NotificationTemplateName;
+  template_version: number;
+  user_id: string | null;
+  recipient: string;
+  subject: string;
+  html: string;
+  text: string;
+  status: NotificationStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  transport: string | null;
+  message_id: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+export interface Recipient {
+  email: string;
+  fullName: string | null;
+}
+
+// How long a claimed message may stay in 'sending' before another process retries it
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+// Read lazily: the worker loads .env.local after its imports are evaluated
+export function getMaxNotificationAttempts(): number {
+  return Number(process.env.NOTIFICATION_MAX_ATTEMPTS) || 5;
+}
+
+/**
+ * Delay before the given retry (1-based): base, 2x base, 4x base, ...
+ */
+export function getNotificationRetryDelay(retry: number): number {
+  const baseDelay = Number(process.env.NOTIFICATION_RETRY_BASE_DELAY_MS) || 60_000;
+  return baseDelay * 2 ** (retry - 1);
+}
+
+/**
+ * Email address and name from the user's profile, or null for unknown users
+ */
+export async function getUserRecipient(supabase: SupabaseClient, userId: string): Promise<Recipient | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('email, full_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up recipient: ${error.message}`);
+  }
+  if (!data?.email) return null;
+
+  return { email: data.email, fullName: data.full_name };
+}
+
+/**
+ * Render a template into the outbox and, unless deliver is false, try to send
+ * it now. Delivery failures are recorded for retry rather than thrown; check
+ * the returned status. Throws NotificationTemplateError for invalid data.
+ */
+export async function queueNotification<K extends NotificationTemplateName>(
+  supabase: SupabaseClient,
+  template: K,
+  data: NotificationTemplateData[K],
+  options: { to: string; userId?: string | null; deliver?: boolean }
+): Promise<OutboxNotification> {
+  const rendered = renderNotification(template, data);
+
+  const { data: notification, error } = await supabase
+    .from('notification_outbox')
+    .insert({
+      template,
+      template_version: rendered.version,
+      user_id: options.userId || null,
+      recipient: options.to,
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text
+    })
+    .select('*')
+    .single();
+
+  if (error || !notification) {
+    throw new Error(`Failed to queue ${template} notification: ${error?.message}`);
+  }
+
+  if (options.deliver === false) {
+    return notification;
+  }
+
+  return (await deliverNotification(supabase, notification)) || notification;
+}
+
+/**
+ * Render a template into the outbox and queue a notification_delivery job to
+ * send it, so the request doesn't wait on the mail server. requestedBy owns
+ * the job (see GET /api/jobs/:id). If the job can't be queued the message
+ * stays due in the outbox and the poller sends it; jobId is null then.
+ */
+export async function queueNotificationDelivery<K extends NotificationTemplateName>(
+  supabase: SupabaseClient,
+  redis: Redis,
+  template: K,
+  data: NotificationTemplateData[K],
+  options: { to: string; userId?: string | null; requestedBy: string }
+): Promise<{ notification: OutboxNotification; jobId: string | null }> {
+  const notification = await queueNotification(supabase, template, data, {
+    to: options.to,
+    userId: options.userId,
+    deliver: false
+  });
+
+  try {
+    const jobId = await enqueueJob(
+      redis,
+      'notification_delivery',
+      { userId: options.requestedBy, notificationId: notification.id },
+      { userId: options.requestedBy }
+    );
+    return { notification, jobId };
+  } catch (error) {
+    console.warn(`⚠️ [Notifications] Could not queue delivery of ${notification.id}, leaving it to the outbox poller:`, error);
+    return { notification, jobId: null };
+  }
+}
+
+/**
+ * Send one message from the outbox now (the notification_delivery job).
+ * Messages already sent, given up on or claimed by another process are left
+ * alone. Returns the status afterwards, or null if the message doesn't exist.
+ */
+export async function deliverQueuedNotification(
+  supabase: SupabaseClient,
+  notificationId: string
+): Promise<NotificationStatus | null> {
+  const { data: notification, error } = await supabase
+    .from('notification_outbox')
+    .select('*')
+    .eq('id', notificationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load notification ${notificationId}: ${error.message}`);
+  }
+  if (!notification) return null;
+  if (notification.status !== 'pending') return notification.status;
+
+  const updated = await deliverNotification(supabase, notification);
+  return updated?.status ?? 'sending';
+}
+
+/**
+ * One send attempt. Returns the updated row, or null if another process
+ * claimed the message first.
+ */
+export async function deliverNotification(
+  supabase: SupabaseClient,
+  notification: OutboxNotification
+): Promise<OutboxNotification | null> {
+  const attempt = notification.attempts + 1;
+
+  // Claim by attempt count so two pollers never send the same message
+  const { data: claimed, error: claimError } = await supabase
+    .from('notification_outbox')
+    .update({
+      status: 'sending',
+      attempts: attempt,
+      next_attempt_at: new Date(Date.now() + SEND_LEASE_MS).toISOString()
+    })
+    .eq('id', notification.id)
+    .eq('attempts', notification.attempts)
+    .in('status', ['pending', 'sending'])
+    .select('*')
+    .maybeSingle();
+
+  if (claimError) {
+    throw new Error(`Failed to claim notification ${notification.id}: ${claimError.message}`);
+  }
+  if (!claimed) return null;
+
+  const transport = getNotificationTransport();
+  let update: Partial<OutboxNotification>;
+
+  try {
+    const { messageId } = await transport.send({
+      to: claimed.recipient,
+      subject: claimed.subject,
+      html: claimed.html,
+      text: claimed.text
+    });
+
+    update = {
+      status: 'sent',
+      transport: transport.name,
+      message_id: messageId,
+      sent_at: new Date().toISOString(),
+      last_error: null
+    };
+    console.log(`✅ [Notifications] Sent ${claimed.template} to ${claimed.recipient} via ${transport.name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const maxAttempts = getMaxNotificationAttempts();
+
+    if (attempt < maxAttempts) {
+      const delay = getNotificationRetryDelay(attempt);
+      update = {
+        status: 'pending',
+        transport: transport.name,
+        last_error: message,
+        next_attempt_at: new Date(Date.now() + delay).toISOString()
+      };
+      console.warn(`🔁 [Notifications] ${claimed.template} to ${claimed.recipient} failed (attempt ${attempt}/${maxAttempts}), retrying in ${delay}ms: ${message}`);
+    } else {
+      update = { status: 'failed', transport: transport.name, last_error: message };
+      console.error(`☠️ [Notifications] ${claimed.template} to ${claimed.recipient} failed after ${attempt} attempt(s): ${message}`);
+    }
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('notification_outbox')
+    .update(update)
+    .eq('id', claimed.id)
+    .select('*')
+    .single();
+
+  if (updateError) {
+    throw new Error(`Failed to record notification ${claimed.id}: ${updateError.message}`);
+  }
+
+  return updated;
+}
+
+/**
+ * Send messages whose next attempt is due, including ones left in 'sending'
+ * by a process that died mid-send. Needs a service-role client.
+ */
+export async function processOutbox(
+  supabase: SupabaseClient,
+  options: { limit?: number } = {}
+): Promise<{ sent: number; retrying: number; failed: number }> {
+  const { data, error } = await supabase
+    .from('notification_outbox')
+    .select('*')
+    .in('status', ['pending', 'sending'])
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(options.limit ?? 20);
+
+  if (error) {
+    throw new Error(`Failed to read notification outbox: ${error.message}`);
+  }
+
+  const result = { sent: 0, retrying: 0, failed: 0 };
+
+  for (const notification of data || []) {
+    const updated = await deliverNotification(supabase, notification);
+    if (!updated) continue;
+
+    if (updated.status === 'sent') result.sent++;
+    else if (updated.status === 'failed') result.failed++;
+    else result.retrying++;
+  }
+
+  return result;
+}
@@ -0,0 +1,449 @@
+/**
+ * Email templates. Each template validates its data, then describes the
+ * message as structured content; one layout renders every template to HTML
+ * and plain text. No server dependencies, so client code can share the types.
+ *
+ * Changing the wording or layout of a template: bump its version. The outbox
+ * records the version each message was rendered with.
+ */
+
+export class NotificationTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationTemplateError';
+  }
+}
+
+// Community session or physical drill
+export interface RegistrationNotificationData {
+  fullName: string;
+  sessionTitle: string;
+  sessionDate: string | null;
+  sessionTime: string | null;
+  location: string | null;
+}
+
+export interface RegistrationDeclinedData extends RegistrationNotificationData {
+  reason: string | null;
+}
+
+export interface SessionReminderData {
+  fullName: string;
+  sessionTitle: string;
+  sessionDate: string;
+  sessionTime: string | null;
+  location: string | null;
+  // 'drill' or 'session' (the default) in the wording
+  eventType?: string | null;
+  // e.g. "in 2 hours"
+  startsIn?: string | null;
+}
+
+export interface CertificateIssuedData {
+  fullName: string;
+  courseTitle: string;
+  date: string | null;
+  location: string | null;
+  serial: string | null;
+  verificationUrl: string | null;
+}
+
+export interface BadgeEarnedData {
+  fullName: string;
+  badgeName: string;
+  description: string | null;
+  points: number;
+}
+
+export interface PasswordResetData {
+  fullName: string | null;
+  resetUrl: string;
+}
+
+export interface NotificationTemplateData {
+  registration_approved: RegistrationNotificationData;
+  registration_declined: RegistrationDeclinedData;
+  waitlist_promoted: RegistrationNotificationData;
+  session_reminder: SessionReminderData;
+  certificate_issued: CertificateIssuedData;
+  badge_earned: BadgeEarnedData;
+  password_reset: PasswordResetData;
+}
+
+export type NotificationTemplateName = keyof NotificationTemplateData;
+
+/**
+ * Structured message body; see renderEmail for how each part is laid out
+ */
+export interface EmailContent {
+  subject: string;
+  heading: string;
+  // Greeted by name when known
+  recipientName: string | null;
+  intro: string[];
+  details?: {
+    title: string;
+    rows: [label: string, value: string | null][];
+  };
+  notice?: {
+    title: string;
+    body: string;
+  };
+  action?: {
+    label: string;
+    url: string;
+  };
+  closing?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface NotificationTemplate<T> {
+  version: number;
+  parse(input: unknown): T;
+  compose(data: T): EmailContent;
+}
+
+function asObject(input: unknown, template: string): Record<string, unknown> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new NotificationTemplateError(`${template} data must be an object`);
+  }
+  return input as Record<string, unknown>;
+}
+
+function requireString(data: Record<string, unknown>, field: string, template: string): string {
+  const value = data[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new NotificationTemplateError(`${template}.${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalString(data: Record<string, unknown>, field: string, template: string): string | null {
+  const value = data[field];
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    throw new NotificationTemplateError(`${template}.${field} must be a string`);
+  }
+  return value;
+}
+
+function parseRegistration(input: unknown, template: string): RegistrationNotificationData {
+  const data = asObject(input, template);
+  return {
+    fullName: requireString(data, 'fullName', template),
+    sessionTitle: requireString(data, 'sessionTitle', template),
+    sessionDate: optionalString(data, 'sessionDate', template),
+    sessionTime: optionalString(data, 'sessionTime', template),
+    location: optionalString(data, 'location', template)
+  };
+}
+
+// DATE columns come back as YYYY-MM-DD; read them as calendar dates, not UTC midnight
+function formatDate(value: string): string {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return new Date(dateOnly ? `${value}T00:00:00Z` : value).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    ...(dateOnly ? { timeZone: 'UTC' } : {})
+  });
+}
+
+function sessionRows(data: { sessionDate: string | null; sessionTime: string | null; location: string | null }): [string, string | null][] {
+  return [
+    ['Date', data.sessionDate ? formatDate(data.sessionDate) : null],
+    ['Time', data.sessionTime],
+    ['Location', data.location]
+  ];
+}
+
+export const NOTIFICATION_TEMPLATES: { [K in NotificationTemplateName]: NotificationTemplate<NotificationTemplateData[K]> } = {
+  registration_approved: {
+    version: 1,
+    parse: input => parseRegistration(input, 'registration_approved'),
+    compose: data => ({
+      subject: `✅ Registration Approved - ${data.sessionTitle}`,
+      heading: 'REGISTRATION APPROVED',
+      recipientName: data.fullName,
+      intro: ['Your registration has been approved. We look forward to seeing you at:'],
+      details: { title: data.sessionTitle, rows: sessionRows(data) },
+      closing: 'Please arrive a few minutes early. If you can no longer attend, cancel from your dashboard so someone else can take your seat.'
+    })
+  },
+
+  registration_declined: {
+    version: 1,
+    parse(input) {
+      const data = asObject(input, 'registration_declined');
+      return {
+        ...parseRegistration(input, 'registration_declined'),
+        reason: optionalString(data, 'reason', 'registration_declined')
+      };
+    },
+    compose: data => ({
+      subject: `Registration Update - ${data.sessionTitle}`,
+      heading: 'REGISTRATION UPDATE',
+      recipientName: data.fullName,
+      intro: ['Unfortunately we could not confirm your registration for:'],
+      details: {
+        title: data.sessionTitle,
+        rows: [...sessionRows(data), ['Reason', data.reason]]
+      },
+      closing: 'Other sessions are listed in the app - we hope to see you at one of them.'
+    })
+  },
+
+  waitlist_promoted: {
+    version: 1,
+    parse: input => parseRegistration(input, 'waitlist_promoted'),
+    compose: data => ({
+      subject: `🎟️ A Spot Opened Up - ${data.sessionTitle}`,
+      heading: 'YOU ARE OFF THE WAITLIST',
+      recipientName: data.fullName,
+      intro: ['A spot has opened up and you have been moved off the waitlist for:'],
+      details: { title: data.sessionTitle, rows: sessionRows(data) },
+      closing: 'Your registration is now awaiting approval. You can follow its status in the app.'
+    })
+  },
+
+  session_reminder: {
+    version: 2,
+    parse(input) {
+      const data = asObject(input, 'session_reminder');
+      return {
+        fullName: requireString(data, 'fullName', 'session_reminder'),
+        sessionTitle: requireString(data, 'sessionTitle', 'session_reminder'),
+        sessionDate: requireString(data, 'sessionDate', 'session_reminder'),
+        sessionTime: optionalString(data, 'sessionTime', 'session_reminder'),
+        location: optionalString(data, 'location', 'session_reminder'),
+        eventType: optionalString(data, 'eventType', 'session_reminder'),
+        startsIn: optionalString(data, 'startsIn', 'session_reminder')
+      };
+    },
+    compose: data => ({
+      subject: `⏰ Reminder - ${data.sessionTitle}`,
+      heading: `${(data.eventType || 'session').toUpperCase()} REMINDER`,
+      recipientName: data.fullName,
+      intro: [
+        `This is a reminder that you are registered for an upcoming ${data.eventType || 'session'}${data.startsIn ? `, starting ${data.startsIn}` : ''}:`
+      ],
+      details: { title: data.sessionTitle, rows: sessionRows(data) },
+      closing: 'If you can no longer attend, cancel from your dashboard so someone else can take your seat.'
+    })
+  },
+
+  certificate_issued: {
+    version: 1,
+    parse(input) {
+      const data = asObject(input, 'certificate_issued');
+      return {
+        fullName: requireString(data, 'fullName', 'certificate_issued'),
+        courseTitle: requireString(data, 'courseTitle', 'certificate_issued'),
+        date: optionalString(data, 'date', 'certificate_issued'),
+        location: optionalString(data, 'location', 'certificate_issued'),
+        serial: optionalString(data, 'serial', 'certificate_issued'),
+        verificationUrl: optionalString(data, 'verificationUrl', 'certificate_issued')
+      };
+    },
+    compose: data => ({
+      subject: `🎉 Training Completed - ${data.courseTitle}`,
+      heading: '🎉 CONGRATULATIONS',
+      recipientName: data.fullName,
+      intro: ['Great news! You have successfully completed the following training:'],
+      details: {
+        title: data.courseTitle,
+        rows: [
+          ['Date', data.date ? formatDate(data.date) : null],
+          ['Location', data.location],
+          ['Certificate', data.serial]
+        ]
+      },
+      notice: {
+        title: '📜 Your Certificate is Ready!',
+        body: 'Your completion certificate is now available in your dashboard and can be downloaded at any time.'
+      },
+      action: data.verificationUrl ? { label: 'Verify Certificate', url: data.verificationUrl } : undefined,
+      closing: 'Keep up the excellent work in your training journey!'
+    })
+  },
+
+  badge_earned: {
+    version: 1,
+    parse(input) {
+      const data = asObject(input, 'badge_earned');
+      if (typeof data.points !== 'number' || !Number.isFinite(data.points)) {
+        throw new NotificationTemplateError('badge_earned.points must be a number');
+      }
+      return {
+        fullName: requireString(data, 'fullName', 'badge_earned'),
+        badgeName: requireString(data, 'badgeName', 'badge_earned'),
+        description: optionalString(data, 'description', 'badge_earned'),
+        points: data.points
+      };
+    },
+    compose: data => ({
+      subject: `🏅 Badge Earned - ${data.badgeName}`,
+      heading: '🏅 NEW BADGE',
+      recipientName: data.fullName,
+      intro: ['You have earned a new badge:'],
+      details: {
+        title: data.badgeName,
+        rows: [
+          ['About', data.description],
+          ['Bonus', data.points > 0 ? `${data.points} points` : null]
+        ]
+      },
+      closing: 'See all your badges on your dashboard.'
+    })
+  },
+
+  password_reset: {
+    version: 1,
+    parse(input) {
+      const data = asObject(input, 'password_reset');
+      return {
+        fullName: optionalString(data, 'fullName', 'password_reset'),
+        resetUrl: requireString(data, 'resetUrl', 'password_reset')
+      };
+    },
+    compose: data => ({
+      subject: 'Reset your LifeCraft password',
+      heading: 'PASSWORD RESET',
+      recipientName: data.fullName,
+      intro: ['We received a request to reset the password for your LifeCraft account.'],
+      action: { label: 'Reset Password', url: data.resetUrl },
+      closing: 'If you did not ask to reset your password, you can ignore this email - your password will not change.'
+    })
+  }
+};
+
+export const NOTIFICATION_TEMPLATE_NAMES = Object.keys(NOTIFICATION_TEMPLATES) as NotificationTemplateName[];
+
+export function isNotificationTemplateName(value: unknown): value is NotificationTemplateName {
+  return typeof value === 'string' && (NOTIFICATION_TEMPLATE_NAMES as string[]).includes(value);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Shared LifeCraft email layout (black and white, table-based for mail clients)
+ */
+export function renderEmail(content: EmailContent): RenderedEmail {
+  const rows = content.details?.rows.filter((row): row is [string, string] => Boolean(row[1])) || [];
+  const paragraph = (text: string) =>
+    `<p style="margin: 0 0 20px; font-size: 16px; color: #333333; line-height: 1.6;">${escapeHtml(text)}</p>`;
+
+  const html = `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  </head>
+  <body style="margin: 0; padding: 0; background-color: #f5f5f5; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+    <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 40px 0;">
+      <tr>
+        <td align="center">
+          <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 8px rgba(0,0,0,0.1); border: 2px solid #000000;">
+            <tr>
+              <td style="background-color: #000000; padding: 40px 30px; text-align: center; border-bottom: 3px solid #333333;">
+                <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: bold; letter-spacing: 1px;">${escapeHtml(content.heading)}</h1>
+              </td>
+            </tr>
+            <tr>
+              <td style="padding: 40px 30px;">
+                <p style="margin: 0 0 20px; font-size: 16px; color: #000000; line-height: 1.6;">
+                  Hello${content.recipientName ? ` <strong>${escapeHtml(content.recipientName)}</strong>` : ''},
+                </p>
+                ${content.intro.map(paragraph).join('\n                ')}
+                ${content.details ? `
+                <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f9f9f9; border: 2px solid #000000; border-radius: 6px; margin: 20px 0;">
+                  <tr>
+                    <td style="padding: 20px;">
+                      <h2 style="margin: 0 0 15px; font-size: 20px; color: #000000; font-weight: bold;">${escapeHtml(content.details.title)}</h2>
+                      ${rows.map(([label, value]) => `<p style="margin: 5px 0; font-size: 14px; color: #333333;"><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</p>`).join('\n                      ')}
+                    </td>
+                  </tr>
+                </table>` : ''}
+                ${content.notice ? `
+                <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #e8e8e8; border: 2px solid #666666; border-radius: 6px; margin: 20px 0;">
+                  <tr>
+                    <td style="padding: 20px; text-align: center;">
+                      <p style="margin: 0 0 10px; font-size: 16px; color: #000000; font-weight: bold;">${escapeHtml(content.notice.title)}</p>
+                      <p style="margin: 0; font-size: 14px; color: #333333; line-height: 1.6;">${escapeHtml(content.notice.body)}</p>
+                    </td>
+                  </tr>
+                </table>` : ''}
+                ${content.action ? `
+                <table width="100%" cellpadding="0" cellspacing="0" style="margin: 20px 0;">
+                  <tr>
+                    <td align="center">
+                      <a href="${escapeHtml(content.action.url)}" style="display: inline-block; background-color: #000000; color: #ffffff; padding: 14px 28px; border-radius: 6px; font-size: 16px; font-weight: bold; text-decoration: none;">${escapeHtml(content.action.label)}</a>
+                    </td>
+                  </tr>
+                </table>` : ''}
+                ${content.closing ? `<p style="margin: 20px 0 0; font-size: 16px; color: #000000; line-height: 1.6;">${escapeHtml(content.closing)}</p>` : ''}
+              </td>
+            </tr>
+            <tr>
+              <td style="background-color: #f0f0f0; padding: 30px; text-align: center; border-top: 2px solid #cccccc;">
+                <p style="margin: 0 0 10px; font-size: 16px; color: #000000; font-weight: bold;">LifeCraft Training Program</p>
+                <p style="margin: 0; font-size: 14px; color: #555555;">Building skills, saving lives</p>
+              </td>
+            </tr>
+          </table>
+          <table width="600" cellpadding="0" cellspacing="0" style="margin-top: 20px;">
+            <tr>
+              <td style="padding: 0 30px; text-align: center;">
+                <p style="margin: 0; font-size: 12px; color: #888888; line-height: 1.5;">
+                  This is an automated notification from LifeCraft Training Program.<br/>
+                  Please do not reply to this email.
+                </p>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+  const text = [
+    `Hello${content.recipientName ? ` ${content.recipientName}` : ''},`,
+    ...content.intro,
+    content.details
+      ? [content.details.title, ...rows.map(([label, value]) => `${label}: ${value}`)].join('\n')
+      : null,
+    content.notice ? `${content.notice.title}\n${content.notice.body}` : null,
+    content.action ? `${content.action.label}: ${content.action.url}` : null,
+    content.closing || null,
+    '— LifeCraft Training Program\nBuilding skills, saving lives'
+  ].filter(Boolean).join('\n\n');
+
+  return { subject: content.subject, html, text };
+}
+
+/**
+ * Validate the data and render a template. Throws NotificationTemplateError
+ * for invalid data.
+ */
+export function renderNotification<K extends NotificationTemplateName>(
+  name: K,
+  input: unknown
+): RenderedEmail & { version: number } {
+  const template = NOTIFICATION_TEMPLATES[name] as NotificationTemplate<NotificationTemplateData[K]>;
+  const data = template.parse(input);
+  return { ...renderEmail(template.compose(data)), version: template.version };
+}
@@ -0,0 +1,149 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { RenderedEmail } from './templates';
+
+/**
+ * How rendered emails leave the app. The outbox calls send() once per
+ * attempt; a thrown error schedules a retry.
+ */
+export interface NotificationTransport {
+  readonly name: NotificationTransportName;
+  send(email: OutgoingEmail): Promise<{ messageId: string }>;
+}
+
+export type NotificationTransportName = 'smtp' | 'catchall' | 'file';
+
+export interface OutgoingEmail extends RenderedEmail {
+  to: string;
+}
+
+function getFromAddress(fallbackUser?: string): string {
+  return process.env.NOTIFICATION_FROM || `"LifeCraft Training" <${fallbackUser || 'no-reply@lifecraft.local'}>`;
+}
+
+/**
+ * Real SMTP server. SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS, or the Gmail
+ * app password (GMAIL_USER/GMAIL_APP_PASS) used before this module existed.
+ */
+export class SmtpNotificationTransport implements NotificationTransport {
+  readonly name = 'smtp' as const;
+  private transporter: Transporter | null = null;
+  private from = '';
+
+  private getTransporter(): Transporter {
+    if (this.transporter) return this.transporter;
+
+    if (process.env.SMTP_HOST) {
+      const port = Number(process.env.SMTP_PORT) || 587;
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+      });
+      this.from = getFromAddress(process.env.SMTP_USER);
+    } else if (process.env.GMAIL_USER && process.env.GMAIL_APP_PASS) {
+      this.transporter = nodemailer.createTransport({
+        service: 'gmail',
+        auth: {
+          user: process.env.GMAIL_USER,
+          pass: process.env.GMAIL_APP_PASS
+        }
+      });
+      this.from = getFromAddress(process.env.GMAIL_USER);
+    } else {
+      throw new Error('SMTP is not configured: set SMTP_HOST or GMAIL_USER and GMAIL_APP_PASS');
+    }
+
+    return this.transporter;
+  }
+
+  async send(email: OutgoingEmail): Promise<{ messageId: string }> {
+    const transporter = this.getTransporter();
+    const info = await transporter.sendMail({ from: this.from, ...email });
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Local SMTP catch-all such as Mailpit or MailHog: no auth, no TLS.
+ * SMTP_CATCHALL_HOST (default localhost) and SMTP_CATCHALL_PORT (default 1025).
+ */
+export class CatchAllNotificationTransport implements NotificationTransport {
+  readonly name = 'catchall' as const;
+  private readonly transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_CATCHALL_HOST || 'localhost',
+      port: Number(process.env.SMTP_CATCHALL_PORT) || 1025,
+      secure: false,
+      ignoreTLS: true
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<{ messageId: string }> {
+    const info = await this.transporter.sendMail({ from: getFromAddress(), ...email });
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Development sink: writes each message as an .eml file (open it in any mail
+ * client) under NOTIFICATION_FILE_DIR and logs it to the console
+ */
+export class FileNotificationTransport implements NotificationTransport {
+  readonly name = 'file' as const;
+  private readonly transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private readonly root = path.resolve(process.env.NOTIFICATION_FILE_DIR || '.mail')) {}
+
+  async send(email: OutgoingEmail): Promise<{ messageId: string }> {
+    const info = await this.transporter.sendMail({ from: getFromAddress(), ...email });
+    const file = path.join(this.root, `${Date.now()}-${info.messageId.replace(/[^a-z0-9]/gi, '_')}.eml`);
+
+    await mkdir(this.root, { recursive: true });
+    await writeFile(file, info.message);
+    console.log(`📧 [Notifications] "${email.subject}" to ${email.to} written to ${file}`);
+
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * NOTIFICATION_TRANSPORT picks the driver; SMTP in production, the file sink
+ * otherwise
+ */
+export function getNotificationTransportName(): NotificationTransportName {
+  const configured = process.env.NOTIFICATION_TRANSPORT;
+  if (configured === 'smtp' || configured === 'catchall' || configured === 'file') return configured;
+  return process.env.NODE_ENV === 'production' ? 'smtp' : 'file';
+}
+
+export function createNotificationTransport(name = getNotificationTransportName()): NotificationTransport {
+  switch (name) {
+    case 'smtp':
+      return new SmtpNotificationTransport();
+    case 'catchall':
+      return new CatchAllNotificationTransport();
+    case 'file':
+      return new FileNotificationTransport();
+  }
+}
+
+let transport: NotificationTransport | null = null;
+
+export function getNotificationTransport(): NotificationTransport {
+  if (!transport) {
+    transport = createNotificationTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replace the transport (test harnesses, local tooling)
+ */
+export function setNotificationTransport(next: NotificationTransport): void {
+  transport = next;
+}
@@ -0,0 +1,323 @@
+import { supabase, type Organization, type OrganizationMember } from './supabase';
+
+export type OrganizationRole = OrganizationMember['role'];
+
+export interface OrganizationMembership {
+  role: OrganizationRole;
+  organization: Organization;
+}
+
+export interface OrganizationMemberDetails extends OrganizationMember {
+  full_name: string | null;
+  email: string;
+}
+
+export type OrganizationDetails = Pick<
+  Organization,
+  'name' | 'logo_url' | 'brand_color' | 'certificate_signatory' | 'certificate_signatory_title'
+>;
+
+export interface OrganizationSessionReport {
+  id: string;
+  title: string;
+  date: string;
+  capacity: number;
+  confirmed: number;
+  pending: number;
+  waitlisted: number;
+  checkedIn: number;
+  completed: number;
+  certificates: number;
+}
+
+export interface OrganizationReport {
+  memberCount: number;
+  sessions: OrganizationSessionReport[];
+}
+
+const BRAND_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * URL-safe slug of an organization name, matching public.organization_slug
+ */
+export function toOrganizationSlug(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function validateDetails(details: Partial<OrganizationDetails>): void {
+  if (details.name !== undefined && !toOrganizationSlug(details.name)) {
+    throw new Error('Organization name must contain letters or numbers.');
+  }
+  if (details.brand_color && !BRAND_COLOR_PATTERN.test(details.brand_color)) {
+    throw new Error('Brand colour must be a hex colour such as #b91c1c.');
+  }
+}
+
+/**
+ * Every organization, by name. Names and branding are public.
+ */
+export async function getOrganizations(): Promise<Organization[]> {
+  try {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching organizations:', error);
+    throw error;
+  }
+}
+
+/**
+ * The organizations a user belongs to, with their role in each
+ */
+export async function getMemberships(userId: string): Promise<OrganizationMembership[]> {
+  try {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('role, organizations:organization_id (*)')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    return ((data || []) as unknown as { role: OrganizationRole; organizations: Organization | null }[])
+      .filter(row => row.organizations)
+      .map(row => ({ role: row.role, organization: row.organizations as Organization }))
+      .sort((a, b) => a.organization.name.localeCompare(b.organization.name));
+  } catch (error) {
+    console.error('Error fetching memberships:', error);
+    throw error;
+  }
+}
+
+/**
+ * The organizations a user can publish sessions for: all of them for platform
+ * admins, otherwise the ones they're an admin of
+ */
+export async function getPublishableOrganizations(profile: { id: string; role: string }): Promise<Organization[]> {
+  if (profile.role === 'admin') return getOrganizations();
+
+  const memberships = await getMemberships(profile.id);
+  return memberships
+    .filter(membership => membership.role === 'admin')
+    .map(membership => membership.organization);
+}
+
+/**
+ * Create an organization (platform admins only)
+ */
+export async function createOrganization(details: OrganizationDetails): Promise<Organization> {
+  try {
+    validateDetails(details);
+
+    const { data, error } = await supabase
+      .from('organizations')
+      .insert({ ...details, name: details.name.trim(), slug: toOrganizationSlug(details.name) })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') throw new Error('An organization with that name already exists.');
+      throw error;
+    }
+    return data;
+  } catch (error) {
+    console.error('Error creating organization:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update an organization's name or branding (platform admins and the
+ * organization's admins). Renaming renames its sessions too.
+ */
+export async function updateOrganization(
+  organizationId: string,
+  details: Partial<OrganizationDetails>
+): Promise<Organization> {
+  try {
+    validateDetails(details);
+
+    const changes = details.name !== undefined
+      ? { ...details, name: details.name.trim(), slug: toOrganizationSlug(details.name) }
+      : details;
+
+    const { data, error } = await supabase
+      .from('organizations')
+      .update(changes)
+      .eq('id', organizationId)
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') throw new Error('An organization with that name already exists.');
+      throw error;
+    }
+    return data;
+  } catch (error) {
+    console.error('Error updating organization:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete an organization (platform admins only). Its sessions are kept as
+ * platform sessions.
+ */
+export async function deleteOrganization(organizationId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('organizations')
+      .delete()
+      .eq('id', organizationId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting organization:', error);
+    throw new Error('Failed to delete organization. Please try again.');
+  }
+}
+
+/**
+ * Members of an organization with their names (the organization's admins)
+ */
+export async function getOrganizationMembers(organizationId: string): Promise<OrganizationMemberDetails[]> {
+  try {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select(`
+        organization_id,
+        user_id,
+        role,
+        created_at,
+        profiles!organization_members_user_id_fkey (
+          full_name,
+          email
+        )
+      `)
+      .eq('organization_id', organizationId);
+
+    if (error) throw error;
+
+    return ((data || []) as unknown as (OrganizationMember & { profiles: { full_name: string | null; email: string } | null })[])
+      .map(({ profiles, ...member }) => ({
+        ...member,
+        full_name: profiles?.full_name ?? null,
+        email: profiles?.email ?? ''
+      }))
+      .sort((a, b) => (a.full_name || a.email).localeCompare(b.full_name || b.email));
+  } catch (error) {
+    console.error('Error fetching organization members:', error);
+    throw error;
+  }
+}
+
+/**
+ * Add someone with a LifeCraft account to an organization by email, or change
+ * their role if they're already a member
+ */
+export async function addOrganizationMember(
+  organizationId: string,
+  email: string,
+  role: OrganizationRole = 'member'
+): Promise<void> {
+  const { error } = await supabase.rpc('add_organization_member', {
+    p_organization_id: organizationId,
+    p_email: email,
+    p_role: role
+  });
+
+  if (error) {
+    console.error('Error adding organization member:', error);
+    // The function raises user-facing messages
+    throw new Error(error.message);
+  }
+}
+
+export async function setOrganizationMemberRole(
+  organizationId: string,
+  userId: string,
+  role: OrganizationRole
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('organization_members')
+      .update({ role })
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error changing member role:', error);
+    throw new Error('Failed to change the member\'s role. Please try again.');
+  }
+}
+
+/**
+ * Remove a member (the organization's admins), or leave an organization
+ */
+export async function removeOrganizationMember(organizationId: string, userId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error removing organization member:', error);
+    throw new Error('Failed to remove member. Please try again.');
+  }
+}
+
+/**
+ * Registration figures for each of an organization's sessions, newest first
+ * (the organization's admins)
+ */
+export async function getOrganizationReport(organizationId: string): Promise<OrganizationReport> {
+  try {
+    const [members, sessions] = await Promise.all([
+      supabase
+        .from('organization_members')
+        .select('*', { count: 'exact', head: true })
+        .eq('organization_id', organizationId),
+      supabase
+        .from('community_sessions')
+        .select('id, title, date, capacity, user_community_sessions (status, checked_in_at, certificate_serial)')
+        .eq('organization_id', organizationId)
+        .order('date', { ascending: false })
+    ]);
+
+    if (members.error) throw members.error;
+    if (sessions.error) throw sessions.error;
+
+    return {
+      memberCount: members.count || 0,
+      sessions: (sessions.data || []).map(session => {
+        const registrations = session.user_community_sessions || [];
+        const countStatus = (...statuses: string[]) =>
+          registrations.filter(registration => statuses.includes(registration.status)).length;
+
+        return {
+          id: session.id,
+          title: session.title,
+          date: session.date,
+          capacity: session.capacity,
+          confirmed: countStatus('registered', 'approved'),
+          pending: countStatus('pending'),
+          waitlisted: countStatus('waitlisted'),
+          checkedIn: registrations.filter(registration => registration.checked_in_at).length,
+          completed: countStatus('completed'),
+          certificates: registrations.filter(registration => registration.certificate_serial).length
+        };
+      })
+    };
+  } catch (error) {
+    console.error('Error building organization report:', error);
+    throw error;
+  }
+}
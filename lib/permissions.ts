@@ -0,0 +1,236 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AuthenticatedUser } from './request-auth';
+
+/**
+ * Who manages which drills and sessions. Platform admins manage everything;
+ * organization admins their organization's sessions; instructors only the
+ * events they're assigned to (drill_instructors, session_instructors). These
+ * mirror the database's can_manage_drill, can_manage_session and
+ * can_view_participant for API routes, which use the service role and so
+ * aren't covered by the policies.
+ */
+
+export type ManagedEventKind = 'drill' | 'session';
+
+export type ManagedEventIds =
+  | { all: true }
+  | { all: false; drill: string[]; session: string[] };
+
+type PermissionSubject = Pick<AuthenticatedUser, 'id' | 'role'>;
+
+const MANAGED_EVENT_SOURCES: Record<ManagedEventKind, {
+  assignmentTable: string;
+  registrationTable: string;
+  eventColumn: string;
+}> = {
+  drill: {
+    assignmentTable: 'drill_instructors',
+    registrationTable: 'user_drills',
+    eventColumn: 'drill_id'
+  },
+  session: {
+    assignmentTable: 'session_instructors',
+    registrationTable: 'user_community_sessions',
+    eventColumn: 'session_id'
+  }
+};
+
+const MANAGED_EVENT_KINDS = Object.keys(MANAGED_EVENT_SOURCES) as ManagedEventKind[];
+
+export function isAdmin(user: Pick<AuthenticatedUser, 'role'>): boolean {
+  return user.role === 'admin';
+}
+
+/**
+ * The organizations the user is an admin of
+ */
+export async function getAdministeredOrganizationIds(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('organization_id')
+    .eq('user_id', userId)
+    .eq('role', 'admin');
+
+  if (error) throw new Error(`Failed to load organization memberships: ${error.message}`);
+  return (data || []).map(row => row.organization_id);
+}
+
+async function getAssignedEventIds(
+  supabase: SupabaseClient,
+  user: PermissionSubject,
+  kind: ManagedEventKind
+): Promise<string[]> {
+  if (user.role !== 'instructor') return [];
+
+  const source = MANAGED_EVENT_SOURCES[kind];
+  const { data, error } = await supabase
+    .from(source.assignmentTable)
+    .select(source.eventColumn)
+    .eq('instructor_id', user.id);
+
+  if (error) throw new Error(`Failed to load ${kind} assignments: ${error.message}`);
+  return ((data || []) as unknown as Record<string, string>[]).map(row => row[source.eventColumn]);
+}
+
+/**
+ * Every event the user manages: all of them for platform admins, otherwise
+ * their organizations' sessions plus the events they're assigned to
+ */
+export async function getManagedEventIds(
+  supabase: SupabaseClient,
+  user: PermissionSubject
+): Promise<ManagedEventIds> {
+  if (isAdmin(user)) return { all: true };
+
+  const [drill, assignedSessions, organizationIds] = await Promise.all([
+    getAssignedEventIds(supabase, user, 'drill'),
+    getAssignedEventIds(supabase, user, 'session'),
+    getAdministeredOrganizationIds(supabase, user.id)
+  ]);
+
+  const session = new Set(assignedSessions);
+  if (organizationIds.length > 0) {
+    const { data, error } = await supabase
+      .from('community_sessions')
+      .select('id')
+      .in('organization_id', organizationIds);
+
+    if (error) throw new Error(`Failed to load organization sessions: ${error.message}`);
+    for (const row of data || []) session.add(row.id);
+  }
+
+  return { all: false, drill, session: [...session] };
+}
+
+export async function canManageEvent(
+  supabase: SupabaseClient,
+  user: PermissionSubject,
+  kind: ManagedEventKind,
+  eventId: string
+): Promise<boolean> {
+  if (isAdmin(user)) return true;
+
+  if (kind === 'session') {
+    const { data, error } = await supabase
+      .from('community_sessions')
+      .select('organization_id')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load session: ${error.message}`);
+    if (data?.organization_id) {
+      const organizationIds = await getAdministeredOrganizationIds(supabase, user.id);
+      if (organizationIds.includes(data.organization_id)) return true;
+    }
+  }
+
+  if (user.role !== 'instructor') return false;
+
+  const source = MANAGED_EVENT_SOURCES[kind];
+  const { data, error } = await supabase
+    .from(source.assignmentTable)
+    .select('instructor_id')
+    .eq(source.eventColumn, eventId)
+    .eq('instructor_id', user.id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to check ${kind} assignment: ${error.message}`);
+  return !!data;
+}
+
+/**
+ * Whether the user manages the event a registration (user_drills or
+ * user_community_sessions row) belongs to
+ */
+export async function canManageRegistration(
+  supabase: SupabaseClient,
+  user: PermissionSubject,
+  kind: ManagedEventKind,
+  registrationId: string
+): Promise<boolean> {
+  if (isAdmin(user)) return true;
+
+  const source = MANAGED_EVENT_SOURCES[kind];
+  const { data, error } = await supabase
+    .from(source.registrationTable)
+    .select(source.eventColumn)
+    .eq('id', registrationId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load ${kind} registration: ${error.message}`);
+  if (!data) return false;
+
+  return canManageEvent(supabase, user, kind, (data as unknown as Record<string, string>)[source.eventColumn]);
+}
+
+/**
+ * Whether the participant is a member of one of the user's organizations or
+ * registered for an event the user manages - organization admins and
+ * instructors can only contact and see their own people
+ */
+export async function canManageParticipant(
+  supabase: SupabaseClient,
+  user: PermissionSubject,
+  participantId: string
+): Promise<boolean> {
+  const managed = await getManagedEventIds(supabase, user);
+  if (managed.all) return true;
+
+  const organizationIds = await getAdministeredOrganizationIds(supabase, user.id);
+  if (organizationIds.length > 0) {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('user_id')
+      .eq('user_id', participantId)
+      .in('organization_id', organizationIds)
+      .limit(1);
+
+    if (error) throw new Error(`Failed to check organization members: ${error.message}`);
+    if (data && data.length > 0) return true;
+  }
+
+  for (const kind of MANAGED_EVENT_KINDS) {
+    if (managed[kind].length === 0) continue;
+
+    const source = MANAGED_EVENT_SOURCES[kind];
+    const { data, error } = await supabase
+      .from(source.registrationTable)
+      .select('id')
+      .eq('user_id', participantId)
+      .in(source.eventColumn, managed[kind])
+      .limit(1);
+
+    if (error) throw new Error(`Failed to check ${kind} registrations: ${error.message}`);
+    if (data && data.length > 0) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Whether the user manages the completion a certificate was issued for.
+ * First aid certificates aren't tied to an event, so only admins manage them.
+ */
+export async function canManageCertificate(
+  supabase: SupabaseClient,
+  user: PermissionSubject,
+  serial: string
+): Promise<boolean> {
+  if (isAdmin(user)) return true;
+
+  const { data, error } = await supabase
+    .from('certificates')
+    .select('kind, record_id')
+    .eq('serial', serial)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load certificate: ${error.message}`);
+  if (!data) return false;
+
+  if (data.kind === 'drill') return canManageRegistration(supabase, user, 'drill', data.record_id);
+  if (data.kind === 'community_session') return canManageRegistration(supabase, user, 'session', data.record_id);
+  return false;
+}
@@ -0,0 +1,150 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Points ledger - every award is an immutable row in `points_ledger`.
+ *
+ * `profiles.points` and `profiles.rank` are only ever changed inside the
+ * `award_points` / `sync_points_balance` SQL functions, which update the
+ * balance in the same transaction as the ledger insert. The idempotency key
+ * makes retries and double-clicks safe: the second call is a no-op.
+ *
+ * Server only: the SQL functions can only be executed by the service role,
+ * so every award goes through an API route or the worker, which work out the
+ * amount themselves.
+ */
+
+export type PointsSourceType = 'module' | 'lesson' | 'drill' | 'badge' | 'adjustment' | 'legacy';
+
+export interface PointsAward {
+  userId: string;
+  amount: number;
+  sourceType: PointsSourceType;
+  sourceId: string;
+  idempotencyKey: string;
+  // Mirrored into activity_log so the activity feed stays unchanged
+  action: string;
+  item: string;
+}
+
+export interface PointsAwardResult {
+  awarded: boolean;
+  balance: number;
+  rank: string;
+}
+
+export interface PointsDrift {
+  userId: string;
+  profilePoints: number;
+  ledgerPoints: number;
+  historyPoints: number;
+  missingLedgerPoints: number;
+}
+
+export interface ReconciliationReport {
+  checkedUsers: number;
+  drifted: PointsDrift[];
+  applied: boolean;
+}
+
+/**
+ * Build the idempotency key for an award; one award per (source, user, discriminator)
+ */
+export function pointsIdempotencyKey(
+  sourceType: PointsSourceType,
+  sourceId: string,
+  userId: string,
+  discriminator?: string | number
+): string {
+  return [sourceType, sourceId, userId, discriminator].filter(part => part !== undefined).join(':');
+}
+
+/**
+ * Atomically append a ledger entry and update the user's balance and rank
+ */
+export async function awardPoints(supabase: SupabaseClient, award: PointsAward): Promise<PointsAwardResult> {
+  const { data, error } = await supabase
+    .rpc('award_points', {
+      p_user_id: award.userId,
+      p_amount: Math.round(award.amount),
+      p_source_type: award.sourceType,
+      p_source_id: award.sourceId,
+      p_idempotency_key: award.idempotencyKey,
+      p_action: award.action,
+      p_item: award.item
+    })
+    .single<PointsAwardResult>();
+
+  if (error) {
+    console.error('[Points Ledger] Error awarding points:', error);
+    throw new Error(`Failed to award points: ${error.message}`);
+  }
+
+  return data;
+}
+
+const PAGE_SIZE = 500;
+
+/**
+ * Compare every user's balance with the ledger and the activity_log history.
+ *
+ * Drift means either the profile balance differs from the ledger total, or
+ * activity_log contains point-bearing rows that never reached the ledger
+ * (awards made before the ledger existed, or by old clients).
+ * With `apply`, missing rows are backfilled and balances re-derived from the ledger.
+ */
+export async function reconcilePointsBalances(
+  supabase: SupabaseClient,
+  options: { apply?: boolean } = {}
+): Promise<ReconciliationReport> {
+  const drifted: PointsDrift[] = [];
+  let checkedUsers = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('points_balance_audit')
+      .select('user_id, profile_points, ledger_points, history_points, missing_ledger_points')
+      .order('user_id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[Points Ledger] Error reading balance audit:', error);
+      throw new Error(`Failed to read balance audit: ${error.message}`);
+    }
+
+    const rows = data || [];
+    checkedUsers += rows.length;
+
+    for (const row of rows) {
+      const drift: PointsDrift = {
+        userId: row.user_id,
+        profilePoints: row.profile_points ?? 0,
+        ledgerPoints: row.ledger_points ?? 0,
+        historyPoints: row.history_points ?? 0,
+        missingLedgerPoints: row.missing_ledger_points ?? 0
+      };
+
+      if (drift.profilePoints !== drift.ledgerPoints || drift.missingLedgerPoints !== 0) {
+        drifted.push(drift);
+      }
+    }
+
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  if (options.apply) {
+    for (const drift of drifted) {
+      const { error: backfillError } = await supabase.rpc('backfill_points_ledger', { p_user_id: drift.userId });
+      if (backfillError) {
+        console.error(`[Points Ledger] Backfill failed for ${drift.userId}:`, backfillError);
+        continue;
+      }
+
+      const { error: syncError } = await supabase.rpc('sync_points_balance', { p_user_id: drift.userId });
+      if (syncError) {
+        console.error(`[Points Ledger] Balance sync failed for ${drift.userId}:`, syncError);
+      }
+    }
+  }
+
+  return { checkedUsers, drifted, applied: !!options.apply };
+}
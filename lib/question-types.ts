@@ -0,0 +1,550 @@
+/**
+ * Quiz question types shared by lesson quizzes and virtual drills: how each
+ * is answered, checked when authored, and scored (0 to 1, with partial credit).
+ *
+ * Choice-based types keep their answers in `options`. Single choice and
+ * true/false mark the right one with `correct_answer`; everything else keeps
+ * its answer in `answer_key`:
+ *   multiple_choice  correct_answers: every option that must be picked
+ *   ordering         options are stored in the right order and shown shuffled
+ *   matching         matches[i] belongs with options[i]
+ *   numeric          value, tolerance and an optional unit
+ *   short_text       accepted: the answers counted as right
+ *
+ * Quizzes are drawn from pools of questions tagged by topic and difficulty;
+ * each attempt gets its own draw with the options shuffled (`drawQuestions`,
+ * `arrangeQuestion`).
+ */
+
+export type QuestionType =
+  | 'single_choice'
+  | 'multiple_choice'
+  | 'true_false'
+  | 'ordering'
+  | 'matching'
+  | 'numeric'
+  | 'short_text';
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface AnswerKey {
+  correct_answers?: number[];
+  matches?: string[];
+  value?: number;
+  tolerance?: number;
+  unit?: string;
+  accepted?: string[];
+}
+
+export interface GradableQuestion {
+  question_type: QuestionType;
+  options: string[];
+  correct_answer: number;
+  answer_key: AnswerKey | null;
+}
+
+/**
+ * A student's answer: an option index (single choice, true/false), option
+ * indexes (multiple choice picks, ordering sequence, the match picked for each
+ * option) or typed text (numeric, short text). Unanswered is -1 or ''.
+ */
+export type QuestionResponse = number | number[] | string;
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: 'Single choice',
+  multiple_choice: 'Multiple choice (select all)',
+  true_false: 'True / False',
+  ordering: 'Put in order',
+  matching: 'Matching',
+  numeric: 'Number',
+  short_text: 'Short text'
+};
+
+export const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+export const QUESTION_DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard'
+};
+
+export const QUESTION_DIFFICULTIES = Object.keys(QUESTION_DIFFICULTY_LABELS) as QuestionDifficulty[];
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+function normalizeText(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!?]+$/, '');
+}
+
+// 1,000 or 12,345,678 (and the same with dots): groups of three after the first
+const COMMA_GROUPS = /^[-+]?[1-9]\d{0,2}(,\d{3})+$/;
+const DOT_GROUPS = /^[-+]?[1-9]\d{0,2}(\.\d{3}){2,}$/;
+
+/**
+ * A typed number. Thousands separators are dropped (1,000 and 1.000.000); a
+ * lone comma otherwise is a decimal comma (1,5). With both, the last one is
+ * the decimal point (1,234.5 or 1.234,5). Anything else isn't a number.
+ */
+export function parseNumber(value: string): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    const [thousands, decimal] = lastComma > lastDot ? ['.', ','] : [',', '.'];
+    const [whole, fraction, ...rest] = text.split(decimal);
+    if (rest.length > 0 || !new RegExp(`^[-+]?[1-9]\\d{0,2}(\\${thousands}\\d{3})*$`).test(whole)) return null;
+    text = `${whole.split(thousands).join('')}.${fraction}`;
+  } else if (lastComma !== -1) {
+    text = COMMA_GROUPS.test(text) ? text.replace(/,/g, '') : text.replace(',', '.');
+  } else if (DOT_GROUPS.test(text)) {
+    text = text.replace(/\./g, '');
+  }
+
+  const parsed = Number(text);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Questions saved before there were types are single choice
+ */
+export function questionType(question: { question_type?: QuestionType | null }): QuestionType {
+  return question.question_type || 'single_choice';
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * The starting answer for a question. Ordering questions start shuffled
+ * (never already in order when that can be avoided).
+ */
+export function initialResponse(question: GradableQuestion, random: () => number = Math.random): QuestionResponse {
+  switch (questionType(question)) {
+    case 'multiple_choice':
+      return [];
+    case 'ordering': {
+      const indexes = question.options.map((_, index) => index);
+      if (indexes.length < 2) return indexes;
+      let order = shuffle(indexes, random);
+      for (let tries = 0; tries < 5 && order.every((value, index) => value === index); tries++) {
+        order = shuffle(indexes, random);
+      }
+      return order;
+    }
+    case 'matching':
+      return question.options.map(() => -1);
+    case 'numeric':
+    case 'short_text':
+      return '';
+    default:
+      return -1;
+  }
+}
+
+export function isAnswered(question: GradableQuestion, response: QuestionResponse | undefined): boolean {
+  if (response === undefined) return false;
+
+  switch (questionType(question)) {
+    case 'multiple_choice':
+      return Array.isArray(response) && response.length > 0;
+    case 'ordering':
+      return Array.isArray(response) && response.length === question.options.length;
+    case 'matching':
+      return Array.isArray(response) && response.length === question.options.length && !response.includes(-1);
+    case 'numeric':
+      return typeof response === 'string' && parseNumber(response) !== null;
+    case 'short_text':
+      return typeof response === 'string' && response.trim() !== '';
+    default:
+      return typeof response === 'number' && response >= 0;
+  }
+}
+
+/**
+ * Credit for an answer, from 0 to 1:
+ * - multiple choice: right picks less wrong picks, over the number of right answers
+ * - ordering: share of items in the right place
+ * - matching: share of options given the right match
+ * - everything else: all or nothing
+ */
+export function scoreResponse(question: GradableQuestion, response: QuestionResponse | undefined): number {
+  if (!isAnswered(question, response)) return 0;
+  const key = question.answer_key || {};
+
+  switch (questionType(question)) {
+    case 'multiple_choice': {
+      const correct = key.correct_answers || [];
+      if (correct.length === 0) return 0;
+      const picked = new Set(response as number[]);
+      const right = correct.filter(index => picked.has(index)).length;
+      const wrong = picked.size - right;
+      return Math.max(0, (right - wrong) / correct.length);
+    }
+    case 'ordering': {
+      const order = response as number[];
+      return order.filter((optionIndex, position) => optionIndex === position).length / order.length;
+    }
+    case 'matching': {
+      const matches = key.matches || [];
+      const picks = response as number[];
+      const right = picks.filter((pick, index) => matches[pick] !== undefined && matches[pick] === matches[index]).length;
+      return right / question.options.length;
+    }
+    case 'numeric': {
+      const value = parseNumber(response as string);
+      if (value === null || typeof key.value !== 'number') return 0;
+      return Math.abs(value - key.value) <= (key.tolerance || 0) + Number.EPSILON ? 1 : 0;
+    }
+    case 'short_text': {
+      const answer = normalizeText(response as string);
+      return (key.accepted || []).some(accepted => normalizeText(accepted) === answer) ? 1 : 0;
+    }
+    default:
+      return response === question.correct_answer ? 1 : 0;
+  }
+}
+
+/**
+ * The right answer in words, shown once a quiz is submitted
+ */
+export function describeCorrectAnswer(question: GradableQuestion): string {
+  const key = question.answer_key || {};
+
+  switch (questionType(question)) {
+    case 'multiple_choice':
+      return (key.correct_answers || []).map(index => question.options[index]).join(', ');
+    case 'ordering':
+      return question.options.join(' → ');
+    case 'matching':
+      return question.options.map((option, index) => `${option} → ${key.matches?.[index] ?? ''}`).join('; ');
+    case 'numeric': {
+      const tolerance = key.tolerance ? ` (± ${key.tolerance})` : '';
+      return `${key.value}${key.unit ? ` ${key.unit}` : ''}${tolerance}`;
+    }
+    case 'short_text':
+      return (key.accepted || []).join(' or ');
+    default:
+      return question.options[question.correct_answer] ?? '';
+  }
+}
+
+/**
+ * Check a question's answer setup before saving; throws a user-facing message
+ * starting with `label`
+ */
+export function validateQuestionAnswers(question: GradableQuestion, label: string): void {
+  const type = questionType(question);
+  const key = question.answer_key || {};
+  const options = question.options.map(option => option.trim());
+  const needsOptions = type !== 'numeric' && type !== 'short_text' && type !== 'true_false';
+
+  if (needsOptions && (options.length < 2 || options.some(option => !option))) {
+    throw new Error(type === 'matching'
+      ? `${label} needs at least two pairs, none of them blank.`
+      : `${label} needs at least two answers, none of them blank.`);
+  }
+
+  switch (type) {
+    case 'single_choice':
+    case 'true_false': {
+      const count = type === 'true_false' ? TRUE_FALSE_OPTIONS.length : options.length;
+      if (!Number.isInteger(question.correct_answer) || question.correct_answer < 0 || question.correct_answer >= count) {
+        throw new Error(`${label} needs a correct answer.`);
+      }
+      break;
+    }
+    case 'multiple_choice':
+      if (!key.correct_answers?.length || key.correct_answers.some(index => index < 0 || index >= options.length)) {
+        throw new Error(`${label} needs at least one correct answer.`);
+      }
+      break;
+    case 'matching':
+      if ((key.matches || []).length !== options.length || key.matches!.some(match => !match.trim())) {
+        throw new Error(`${label} needs a match for every item.`);
+      }
+      break;
+    case 'numeric':
+      if (typeof key.value !== 'number' || !Number.isFinite(key.value)) {
+        throw new Error(`${label} needs a correct number.`);
+      }
+      if (key.tolerance !== undefined && (!Number.isFinite(key.tolerance) || key.tolerance < 0)) {
+        throw new Error(`${label} needs a tolerance of zero or more.`);
+      }
+      break;
+    case 'short_text':
+      if (!(key.accepted || []).some(answer => answer.trim())) {
+        throw new Error(`${label} needs at least one accepted answer.`);
+      }
+      break;
+  }
+}
+
+/**
+ * A question's answer fields as saved: trimmed, with only what its type uses
+ */
+export function cleanQuestionAnswers(question: GradableQuestion): GradableQuestion {
+  const type = questionType(question);
+  const key = question.answer_key || {};
+  const options = question.options.map(option => option.trim());
+
+  switch (type) {
+    case 'true_false':
+      return { question_type: type, options: TRUE_FALSE_OPTIONS, correct_answer: question.correct_answer, answer_key: null };
+    case 'multiple_choice':
+      return {
+        question_type: type,
+        options,
+        correct_answer: 0,
+        answer_key: { correct_answers: [...new Set(key.correct_answers || [])].sort((a, b) => a - b) }
+      };
+    case 'ordering':
+      return { question_type: type, options, correct_answer: 0, answer_key: null };
+    case 'matching':
+      return {
+        question_type: type,
+        options,
+        correct_answer: 0,
+        answer_key: { matches: (key.matches || []).map(match => match.trim()) }
+      };
+    case 'numeric':
+      return {
+        question_type: type,
+        options: [],
+        correct_answer: 0,
+        answer_key: { value: key.value, tolerance: key.tolerance || 0, ...(key.unit?.trim() && { unit: key.unit.trim() }) }
+      };
+    case 'short_text':
+      return {
+        question_type: type,
+        options: [],
+        correct_answer: 0,
+        answer_key: { accepted: (key.accepted || []).map(answer => answer.trim()).filter(Boolean) }
+      };
+    default:
+      return { question_type: type, options, correct_answer: question.correct_answer, answer_key: null };
+  }
+}
+
+/**
+ * A question with its options in a random order and its answer moved to
+ * match. Ordering questions keep their stored order (it's the answer), and
+ * true/false and typed answers have nothing to shuffle.
+ */
+export function arrangeQuestion<T extends GradableQuestion>(question: T, random: () => number = Math.random): T {
+  const type = questionType(question);
+  if (type !== 'single_choice' && type !== 'multiple_choice' && type !== 'matching') return question;
+
+  // order[newIndex] = stored index
+  const order = shuffle(question.options.map((_, index) => index), random);
+  const options = order.map(index => question.options[index]);
+  const key = question.answer_key || {};
+
+  switch (type) {
+    case 'multiple_choice':
+      return {
+        ...question,
+        options,
+        answer_key: {
+          ...key,
+          correct_answers: (key.correct_answers || []).map(index => order.indexOf(index)).sort((a, b) => a - b)
+        }
+      };
+    case 'matching':
+      return { ...question, options, answer_key: { ...key, matches: order.map(index => key.matches?.[index] ?? '') } };
+    default:
+      return { ...question, options, correct_answer: order.indexOf(question.correct_answer) };
+  }
+}
+
+/**
+ * Draw `count` questions (all of them when null) from a pool, spread as evenly
+ * as possible over its topic and difficulty combinations, in a random order
+ */
+export function drawQuestions<T extends { topic?: string | null; difficulty?: QuestionDifficulty | null }>(
+  pool: T[],
+  count: number | null,
+  random: () => number = Math.random
+): T[] {
+  const groups = new Map<string, T[]>();
+  for (const question of shuffle(pool, random)) {
+    const group = `${question.topic?.trim().toLowerCase() || ''}|${question.difficulty || 'medium'}`;
+    groups.set(group, [...(groups.get(group) || []), question]);
+  }
+
+  const queues = shuffle([...groups.values()], random);
+  const limit = count === null ? pool.length : Math.min(Math.max(count, 0), pool.length);
+  const drawn: T[] = [];
+  // One from each group in turn
+  while (drawn.length < limit) {
+    for (const queue of queues) {
+      const next = queue.shift();
+      if (next && drawn.length < limit) drawn.push(next);
+    }
+  }
+
+  return shuffle(drawn, random);
+}
+
+const MAX_TEXT_RESPONSE = 500;
+
+function alphabetical(values: string[]): string[] {
+  return [...values].sort((a, b) => a.localeCompare(b));
+}
+
+function indexList(value: unknown): number[] | null {
+  return Array.isArray(value) && value.every(item => Number.isInteger(item)) ? value as number[] : null;
+}
+
+/**
+ * A question as students get it before answering: no correct answer and
+ * nothing that gives it away. Ordering steps are listed alphabetically (the
+ * stored order is the answer) and matching sends only the list of matches
+ * to pick from. Responses to it go through `storedResponse` before scoring.
+ */
+export function publicQuestion(question: GradableQuestion): GradableQuestion {
+  const type = questionType(question);
+
+  switch (type) {
+    case 'ordering':
+      return { question_type: type, options: alphabetical(question.options), correct_answer: -1, answer_key: null };
+    case 'matching':
+      return {
+        question_type: type,
+        options: question.options,
+        correct_answer: -1,
+        answer_key: { matches: alphabetical([...new Set(question.answer_key?.matches || [])]) }
+      };
+    case 'numeric':
+      return {
+        question_type: type,
+        options: [],
+        correct_answer: -1,
+        answer_key: question.answer_key?.unit ? { unit: question.answer_key.unit } : null
+      };
+    default:
+      return {
+        question_type: type,
+        options: type === 'true_false' ? TRUE_FALSE_OPTIONS : question.options,
+        correct_answer: -1,
+        answer_key: null
+      };
+  }
+}
+
+/**
+ * Turn a submitted response to `publicQuestion(question)` into a response to
+ * the stored question. Anything malformed comes back unanswered.
+ */
+export function storedResponse(question: GradableQuestion, response: unknown): QuestionResponse {
+  const type = questionType(question);
+  const shown = publicQuestion(question);
+
+  switch (type) {
+    case 'multiple_choice': {
+      const picks = indexList(response);
+      return picks ? [...new Set(picks)].filter(index => index >= 0 && index < question.options.length) : [];
+    }
+    case 'ordering': {
+      const order = indexList(response);
+      if (!order || order.length !== shown.options.length || new Set(order).size !== order.length) return [];
+      // Repeated step texts take the stored positions in turn
+      const used = new Set<number>();
+      const stored = order.map(position => {
+        const index = question.options.findIndex((option, i) => !used.has(i) && option === shown.options[position]);
+        used.add(index);
+        return index;
+      });
+      return stored.includes(-1) ? [] : stored;
+    }
+    case 'matching': {
+      const picks = indexList(response);
+      const choices = shown.answer_key?.matches || [];
+      const matches = question.answer_key?.matches || [];
+      if (!picks || picks.length !== question.options.length) return question.options.map(() => -1);
+      return picks.map(pick => (pick >= 0 && pick < choices.length ? matches.indexOf(choices[pick]) : -1));
+    }
+    case 'numeric':
+    case 'short_text':
+      return typeof response === 'string' ? response.slice(0, MAX_TEXT_RESPONSE) : '';
+    default:
+      return Number.isInteger(response) ? response as number : -1;
+  }
+}
+
+/**
+ * The question fields of a drill step's `content`. Drill content is
+ * camelCase, and the oldest steps used `correct_answer`. `variants` are
+ * alternative versions of the question; each run gets one of them or the
+ * step's own.
+ */
+export interface DrillQuestionContent {
+  question?: string | null;
+  questionType?: QuestionType | null;
+  options?: string[] | null;
+  correctAnswer?: number | null;
+  correct_answer?: number | null;
+  answerKey?: AnswerKey | null;
+  explanation?: string | null;
+  variants?: DrillQuestionContent[] | null;
+}
+
+/**
+ * The question in a drill step's `content`
+ */
+export function drillStepQuestion(content: DrillQuestionContent | null): GradableQuestion {
+  return {
+    question_type: content?.questionType || 'single_choice',
+    options: content?.options || [],
+    correct_answer: content?.correctAnswer ?? content?.correct_answer ?? -1,
+    answer_key: content?.answerKey || null
+  };
+}
+
+/**
+ * A drill step's `content` as students get it before answering; the
+ * counterpart of `publicQuestion`
+ */
+export function publicDrillStepContent(content: DrillQuestionContent | null): DrillQuestionContent {
+  const shown = { ...content };
+  delete shown.correctAnswer;
+  delete shown.correct_answer;
+  delete shown.answerKey;
+  delete shown.explanation;
+  delete shown.variants;
+  if (!Array.isArray(shown.options)) return shown;
+
+  const question = publicQuestion(drillStepQuestion(content));
+  return { ...shown, questionType: question.question_type, options: question.options, answerKey: question.answer_key };
+}
+
+/**
+ * The question a run of a drill gets for a step: the step's own or one of its
+ * variants, with the options shuffled. Keeps the answer; it's what the run is
+ * graded against.
+ */
+export function drawDrillStepContent(
+  content: DrillQuestionContent | null,
+  random: () => number = Math.random
+): DrillQuestionContent {
+  const { variants, ...base } = content || {};
+  const candidates = [base, ...(variants || []).map(variant => ({ ...base, ...variant }))];
+  const drawn = candidates[Math.floor(random() * candidates.length)];
+  if (!Array.isArray(drawn.options)) return drawn;
+
+  const arranged = arrangeQuestion(drillStepQuestion(drawn), random);
+  return {
+    ...drawn,
+    questionType: arranged.question_type,
+    options: arranged.options,
+    correctAnswer: arranged.correct_answer,
+    answerKey: arranged.answer_key
+  };
+}
@@ -0,0 +1,177 @@
+import amqp, { type ChannelModel, type ConfirmChannel } from 'amqplib';
+import {
+  ATTEMPT_HEADER,
+  assertQueueTopology,
+  getDeadLetterQueue,
+  getRabbitUrl,
+  getRetryQueue,
+  publishJob,
+  sendConfirmed
+} from '../rabbitmq';
+import type { ConsumeOptions, DeliveryHandler, QueueDriver } from './types';
+
+interface Subscription {
+  queue: string;
+  handler: DeliveryHandler<never>;
+  options: ConsumeOptions;
+}
+
+/**
+ * RabbitMQ driver. Publishing goes through the pooled publisher in lib/rabbitmq;
+ * consumers share one connection that is re-established (with its
+ * subscriptions) whenever the broker drops it.
+ */
+export class AmqpQueueDriver implements QueueDriver {
+  readonly name = 'amqp' as const;
+
+  private connection: ChannelModel | null = null;
+  private channel: ConfirmChannel | null = null;
+  private subscriptions: Subscription[] = [];
+  private consumerTags: string[] = [];
+  private stopped = false;
+  private closing = false;
+
+  async publish(queue: string, jobId: string, payload: object): Promise<void> {
+    await publishJob(queue, jobId, payload);
+  }
+
+  async consume<T>(queue: string, handler: DeliveryHandler<T>, options: ConsumeOptions = {}): Promise<void> {
+    const subscription = { queue, handler: handler as DeliveryHandler<never>, options };
+    this.subscriptions.push(subscription);
+
+    const channel = await this.getConsumerChannel();
+    await this.subscribe(channel, subscription);
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    const channel = this.channel;
+    const tags = this.consumerTags;
+    this.consumerTags = [];
+
+    if (channel) {
+      for (const tag of tags) {
+        try {
+          await channel.cancel(tag);
+        } catch {}
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    this.stopped = true;
+    this.closing = true;
+    try {
+      if (this.channel) await this.channel.close();
+    } catch {}
+    try {
+      if (this.connection) await this.connection.close();
+    } catch {}
+    this.channel = null;
+    this.connection = null;
+  }
+
+  private async getConsumerChannel(): Promise<ConfirmChannel> {
+    if (this.channel) return this.channel;
+
+    const connection = await amqp.connect(getRabbitUrl(), {
+      heartbeat: 60 // Send heartbeat every 60 seconds
+    });
+    const channel = await connection.createConfirmChannel();
+
+    connection.on('error', (err) => {
+      console.error('❌ [AMQP Driver] Connection error:', err);
+    });
+
+    connection.on('close', () => {
+      this.channel = null;
+      this.connection = null;
+      if (this.closing) return;
+
+      console.log('⚠️ [AMQP Driver] Connection closed. Reconnecting in 5s...');
+      setTimeout(() => this.reconnect(), 5000);
+    });
+
+    this.connection = connection;
+    this.channel = channel;
+    this.consumerTags = [];
+    console.log('✅ [AMQP Driver] Connected to RabbitMQ');
+    return channel;
+  }
+
+  private async reconnect(): Promise<void> {
+    try {
+      if (this.stopped) return;
+      const channel = await this.getConsumerChannel();
+      for (const subscription of this.subscriptions) {
+        await this.subscribe(channel, subscription);
+      }
+    } catch (error) {
+      console.error('❌ [AMQP Driver] Reconnect failed, retrying in 5s:', error);
+      setTimeout(() => this.reconnect(), 5000);
+    }
+  }
+
+  private async subscribe(channel: ConfirmChannel, { queue, handler, options }: Subscription): Promise<void> {
+    await assertQueueTopology(channel, queue);
+    await channel.prefetch(options.concurrency || 1);
+
+    const { consumerTag } = await channel.consume(queue, async (msg) => {
+      if (!msg) return;
+
+      const headers = msg.properties.headers || {};
+      // The original message is only acked once its successor is safely stored
+      const forward = (target: string, extraHeaders: Record<string, unknown>) =>
+        sendConfirmed(channel, target, msg.content, {
+          messageId: msg.properties.messageId,
+          headers: { ...headers, ...extraHeaders }
+        });
+
+      let payload: { jobId?: string; timestamp?: number };
+      try {
+        payload = JSON.parse(msg.content.toString());
+      } catch (error) {
+        // Malformed payloads can never succeed - straight to the dead-letter queue
+        console.error(`❌ [AMQP Driver] Unparseable message on ${queue}, dead-lettering:`, error);
+        try {
+          await forward(getDeadLetterQueue(queue), { 'x-error': 'Invalid JSON payload' });
+          channel.ack(msg);
+        } catch {
+          channel.nack(msg, false, true);
+        }
+        return;
+      }
+
+      const attempt = (Number(headers[ATTEMPT_HEADER]) || 0) + 1;
+      const jobId = payload.jobId || msg.properties.messageId || `legacy-${payload.timestamp}`;
+
+      try {
+        await handler({
+          jobId,
+          payload: payload as never,
+          attempt,
+          ack: async () => channel.ack(msg),
+          retry: async (_delayMs, error) => {
+            // The delay is the retry queue's TTL, declared in assertQueueTopology
+            await forward(getRetryQueue(queue, attempt), { [ATTEMPT_HEADER]: attempt, 'x-error': error });
+            channel.ack(msg);
+          },
+          deadLetter: async (error) => {
+            await forward(getDeadLetterQueue(queue), {
+              [ATTEMPT_HEADER]: attempt,
+              'x-error': error,
+              'x-failed-at': new Date().toISOString()
+            });
+            channel.ack(msg);
+          }
+        });
+      } catch (error) {
+        // Couldn't park the job anywhere - let the broker redeliver it
+        console.error(`❌ [AMQP Driver] Failed to settle job ${jobId}:`, error);
+        channel.nack(msg, false, true);
+      }
+    }, { noAck: false }); // Manual acknowledgment
+
+    this.consumerTags.push(consumerTag);
+  }
+}
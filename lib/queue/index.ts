@@ -0,0 +1,54 @@
+import { AmqpQueueDriver } from './amqp-driver';
+import { MemoryQueueDriver } from './memory-driver';
+import { RedisListQueueDriver } from './redis-driver';
+import type { QueueDriver, QueueDriverName } from './types';
+
+export type { QueueDriver, QueueDriverName, QueueDelivery, DeliveryHandler, ConsumeOptions } from './types';
+export { consumeJobs, getMaxJobAttempts, getRetryDelay, PermanentJobError, waitForActiveJobs, type JobContext } from './retry';
+export { AmqpQueueDriver, MemoryQueueDriver, RedisListQueueDriver };
+
+export const BADGE_QUEUE = 'badge_jobs';
+
+/**
+ * Driver selected by QUEUE_DRIVER: "amqp" (default, RabbitMQ), "redis"
+ * (Redis lists) or "memory" (in-process; the app runs the consumers itself,
+ * see instrumentation.ts).
+ */
+export function getQueueDriverName(): QueueDriverName {
+  const name = (process.env.QUEUE_DRIVER || 'amqp').toLowerCase();
+  if (name === 'amqp' || name === 'memory' || name === 'redis') {
+    return name;
+  }
+  throw new Error(`Unknown QUEUE_DRIVER "${name}" (expected amqp, redis or memory)`);
+}
+
+export function createQueueDriver(name: QueueDriverName = getQueueDriverName()): QueueDriver {
+  switch (name) {
+    case 'amqp':
+      return new AmqpQueueDriver();
+    case 'redis':
+      return new RedisListQueueDriver();
+    case 'memory':
+      return new MemoryQueueDriver();
+  }
+}
+
+// Kept on globalThis so dev-server module reloads still share one in-memory queue
+const globalForQueue = globalThis as typeof globalThis & { __queueDriver?: QueueDriver };
+
+/**
+ * Process-wide queue driver
+ */
+export function getQueueDriver(): QueueDriver {
+  if (!globalForQueue.__queueDriver) {
+    globalForQueue.__queueDriver = createQueueDriver();
+  }
+  return globalForQueue.__queueDriver;
+}
+
+/**
+ * Swap the process-wide driver (e.g. a MemoryQueueDriver in tests)
+ */
+export function setQueueDriver(driver: QueueDriver): void {
+  globalForQueue.__queueDriver = driver;
+}
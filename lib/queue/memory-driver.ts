@@ -0,0 +1,132 @@
+import type { ConsumeOptions, DeliveryHandler, QueueDriver } from './types';
+
+interface MemoryMessage {
+  jobId: string;
+  payload: unknown;
+  attempt: number;
+}
+
+interface MemoryQueue {
+  pending: MemoryMessage[];
+  dead: (MemoryMessage & { error: string })[];
+  consumers: { handler: DeliveryHandler<never>; concurrency: number; active: number }[];
+}
+
+/**
+ * In-process driver for local development and tests: no broker needed, the
+ * publisher and the consumer must live in the same process. Nothing survives
+ * a restart.
+ */
+export class MemoryQueueDriver implements QueueDriver {
+  readonly name = 'memory' as const;
+
+  private queues = new Map<string, MemoryQueue>();
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private stopped = false;
+  private closed = false;
+
+  async publish(queue: string, jobId: string, payload: object): Promise<void> {
+    // Copy so the consumer never shares an object with the publisher
+    this.enqueue(queue, { jobId, payload: JSON.parse(JSON.stringify(payload)), attempt: 1 });
+  }
+
+  async consume<T>(queue: string, handler: DeliveryHandler<T>, options: ConsumeOptions = {}): Promise<void> {
+    this.getQueue(queue).consumers.push({
+      handler: handler as DeliveryHandler<never>,
+      concurrency: options.concurrency || 1,
+      active: 0
+    });
+    this.dispatch(queue);
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+  }
+
+  async close(): Promise<void> {
+    this.stopped = true;
+    this.closed = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Jobs that failed every attempt (for inspection in development and tests)
+   */
+  getDeadLetters(queue: string) {
+    return [...this.getQueue(queue).dead];
+  }
+
+  /**
+   * Number of jobs waiting for a consumer
+   */
+  getPendingCount(queue: string): number {
+    return this.getQueue(queue).pending.length;
+  }
+
+  private getQueue(queue: string): MemoryQueue {
+    let state = this.queues.get(queue);
+    if (!state) {
+      state = { pending: [], dead: [], consumers: [] };
+      this.queues.set(queue, state);
+    }
+    return state;
+  }
+
+  private enqueue(queue: string, message: MemoryMessage) {
+    if (this.closed) return;
+    this.getQueue(queue).pending.push(message);
+    // Deliver asynchronously, like a real broker
+    queueMicrotask(() => this.dispatch(queue));
+  }
+
+  private later(fn: () => void, delayMs: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  private dispatch(queue: string) {
+    const state = this.getQueue(queue);
+
+    for (const consumer of state.consumers) {
+      while (!this.stopped && consumer.active < consumer.concurrency && state.pending.length > 0) {
+        const message = state.pending.shift()!;
+        consumer.active++;
+
+        let settled = false;
+        const settle = () => {
+          settled = true;
+        };
+
+        consumer.handler({
+          jobId: message.jobId,
+          payload: message.payload as never,
+          attempt: message.attempt,
+          ack: async () => settle(),
+          retry: async (delayMs) => {
+            settle();
+            this.later(() => this.enqueue(queue, { ...message, attempt: message.attempt + 1 }), delayMs);
+          },
+          deadLetter: async (error) => {
+            settle();
+            state.dead.push({ ...message, error });
+          }
+        })
+          .catch(error => {
+            console.error(`❌ [Memory Queue] Handler crashed on job ${message.jobId}:`, error);
+          })
+          .finally(() => {
+            // Unsettled messages are redelivered, as a broker would on a lost channel
+            if (!settled) {
+              this.later(() => this.enqueue(queue, message), 1000);
+            }
+            consumer.active--;
+            this.dispatch(queue);
+          });
+      }
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import type { ConsumeOptions, DeliveryHandler, QueueDriver } from './types';
+
+interface RedisMessage {
+  jobId: string;
+  payload: unknown;
+  attempt: number;
+}
+
+// How long a blocking pop waits before checking whether the driver was stopped
+const BLOCK_TIMEOUT_SECONDS = 5;
+const PROMOTE_INTERVAL_MS = 1000;
+// A consumer whose heartbeat is older than the TTL is gone; its jobs are requeued
+const HEARTBEAT_INTERVAL_MS = 10_000;
+const HEARTBEAT_TTL_SECONDS = 30;
+
+/**
+ * Redis list driver - durable without RabbitMQ, using the Redis the app already needs.
+ *
+ *   queue:<name>                        pending jobs (LPUSH / BRPOPLPUSH)
+ *   queue:<name>:processing:<consumer>  jobs handed to a consumer but not settled yet
+ *   queue:<name>:consumers              consumers that have a processing list
+ *   queue:<name>:delayed                retries, scored by when they are due
+ *   queue:<name>:dead                   jobs that failed every attempt
+ *   queue-consumer:<consumer>           heartbeat, expires when the consumer is gone
+ *
+ * Each consumer (one per driver instance) refreshes its heartbeat while it
+ * runs. Jobs left in the processing list of a consumer whose heartbeat expired
+ * are requeued by the other consumers, so handlers must be idempotent (badge
+ * awards are, via the points ledger). Jobs other live consumers are still
+ * running are left alone.
+ */
+export class RedisListQueueDriver implements QueueDriver {
+  readonly name = 'redis' as const;
+
+  private client: Redis | null = null;
+  private blockingClients: Redis[] = [];
+  private promoters: ReturnType<typeof setInterval>[] = [];
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private stopped = false;
+  private readonly consumerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  private getClient(): Redis {
+    if (!this.client) {
+      this.client = new Redis({
+        host: process.env.REDIS_HOST || '127.0.0.1',
+        port: Number(process.env.REDIS_PORT) || 6379
+      });
+      this.client.on('error', (err) => {
+        console.error('❌ [Redis Queue] Error:', err);
+      });
+    }
+    return this.client;
+  }
+
+  async publish(queue: string, jobId: string, payload: object): Promise<void> {
+    const message: RedisMessage = { jobId, payload, attempt: 1 };
+    await this.getClient().lpush(`queue:${queue}`, JSON.stringify(message));
+  }
+
+  private heartbeatKey(consumerId: string): string {
+    return `queue-consumer:${consumerId}`;
+  }
+
+  private async beat(): Promise<void> {
+    await this.getClient().set(this.heartbeatKey(this.consumerId), Date.now().toString(), 'EX', HEARTBEAT_TTL_SECONDS);
+  }
+
+  private startHeartbeat(): Promise<void> {
+    if (!this.heartbeat) {
+      this.heartbeat = setInterval(() => {
+        this.beat().catch(error => console.error('❌ [Redis Queue] Failed to refresh heartbeat:', error));
+      }, HEARTBEAT_INTERVAL_MS);
+    }
+    return this.beat();
+  }
+
+  /**
+   * Requeue the unsettled jobs of consumers whose heartbeat expired
+   */
+  private async reclaimAbandoned(queue: string): Promise<void> {
+    const client = this.getClient();
+    const pendingKey = `queue:${queue}`;
+    const consumersKey = `${pendingKey}:consumers`;
+    const owners = await client.smembers(consumersKey);
+
+    for (const owner of owners) {
+      if (owner === this.consumerId || await client.exists(this.heartbeatKey(owner))) continue;
+
+      const ownerKey = `${pendingKey}:processing:${owner}`;
+      let moved = 0;
+      // RPOPLPUSH is atomic, so two consumers reclaiming together never duplicate a job
+      while (await client.rpoplpush(ownerKey, pendingKey)) {
+        moved++;
+      }
+      await client.srem(consumersKey, owner);
+
+      if (moved > 0) {
+        console.warn(`⚠️ [Redis Queue] Requeued ${moved} job(s) on ${queue} left by stopped consumer ${owner}`);
+      }
+    }
+  }
+
+  async consume<T>(queue: string, handler: DeliveryHandler<T>, options: ConsumeOptions = {}): Promise<void> {
+    const client = this.getClient();
+    const pendingKey = `queue:${queue}`;
+    const processingKey = `${pendingKey}:processing:${this.consumerId}`;
+    const delayedKey = `${pendingKey}:delayed`;
+    const deadKey = `${pendingKey}:dead`;
+
+    // Heartbeat first, so nobody mistakes this consumer's list for an abandoned one
+    await this.startHeartbeat();
+    await client.sadd(`${pendingKey}:consumers`, this.consumerId);
+    await this.reclaimAbandoned(queue);
+
+    // The shared processing list of workers from before per-consumer lists;
+    // those workers have no heartbeat, so stop them before starting this one
+    while (await client.rpoplpush(`${pendingKey}:processing`, pendingKey)) {
+      // moved one job back
+    }
+
+    // Move due retries back onto the pending list; now and then, recover abandoned jobs
+    let ticks = 0;
+    this.promoters.push(setInterval(async () => {
+      try {
+        if (++ticks % Math.round(HEARTBEAT_INTERVAL_MS / PROMOTE_INTERVAL_MS) === 0) {
+          await this.reclaimAbandoned(queue);
+        }
+
+        const due = await client.zrangebyscore(delayedKey, '-inf', Date.now(), 'LIMIT', 0, 100);
+        for (const raw of due) {
+          // Only the consumer that removes it moves it, so a retry is never duplicated
+          if (await client.zrem(delayedKey, raw)) {
+            await client.lpush(pendingKey, raw);
+          }
+        }
+      } catch (error) {
+        console.error(`❌ [Redis Queue] Failed to promote retries on ${queue}:`, error);
+      }
+    }, PROMOTE_INTERVAL_MS));
+
+    const worker = async (blocking: Redis) => {
+      while (!this.stopped) {
+        let raw: string | null;
+        try {
+          raw = await blocking.brpoplpush(pendingKey, processingKey, BLOCK_TIMEOUT_SECONDS);
+        } catch (error) {
+          if (this.stopped) return;
+          console.error(`❌ [Redis Queue] Failed to read from ${queue}:`, error);
+          await new Promise(resolve => setTimeout(resolve, 1000));
+          continue;
+        }
+        if (!raw) continue;
+
+        if (this.stopped) {
+          // Taken while stopping - hand it back to the front of the queue
+          await client.multi().lrem(processingKey, 1, raw).rpush(pendingKey, raw).exec();
+          return;
+        }
+
+        let message: RedisMessage;
+        try {
+          message = JSON.parse(raw);
+        } catch {
+          // Malformed payloads can never succeed - straight to the dead-letter list
+          console.error(`❌ [Redis Queue] Unparseable message on ${queue}, dead-lettering`);
+          await client.multi().lrem(processingKey, 1, raw).lpush(deadKey, raw).exec();
+          continue;
+        }
+
+        try {
+          await handler({
+            jobId: message.jobId,
+            payload: message.payload as T,
+            attempt: message.attempt,
+            ack: async () => {
+              await client.lrem(processingKey, 1, raw);
+            },
+            retry: async (delayMs, error) => {
+              const next = JSON.stringify({ ...message, attempt: message.attempt + 1, error });
+              await client.multi().lrem(processingKey, 1, raw).zadd(delayedKey, Date.now() + delayMs, next).exec();
+            },
+            deadLetter: async (error) => {
+              const dead = JSON.stringify({ ...message, error, failedAt: new Date().toISOString() });
+              await client.multi().lrem(processingKey, 1, raw).lpush(deadKey, dead).exec();
+            }
+          });
+        } catch (error) {
+          // Leave it in the processing list; it is requeued once this consumer is gone
+          console.error(`❌ [Redis Queue] Failed to settle job ${message.jobId}:`, error);
+        }
+      }
+    };
+
+    const startWorker = (blocking: Redis) => {
+      worker(blocking).catch((error) => {
+        if (this.stopped) {
+          console.error(`❌ [Redis Queue] Consumer on ${queue} failed while stopping:`, error);
+          return;
+        }
+        console.error(`❌ [Redis Queue] Consumer on ${queue} failed, restarting:`, error);
+        setTimeout(() => {
+          if (!this.stopped) startWorker(blocking);
+        }, 1000);
+      });
+    };
+
+    // Each concurrent consumer needs its own connection for blocking reads
+    for (let i = 0; i < (options.concurrency || 1); i++) {
+      const blocking = client.duplicate();
+      this.blockingClients.push(blocking);
+      startWorker(blocking);
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.promoters.forEach(timer => clearInterval(timer));
+    this.promoters = [];
+  }
+
+  async close(): Promise<void> {
+    await this.stop();
+
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+      // Anything still unsettled is requeued by the next consumer to look
+      await this.getClient().del(this.heartbeatKey(this.consumerId)).catch(() => undefined);
+    }
+
+    // Blocking reads return within BLOCK_TIMEOUT_SECONDS; disconnect instead of waiting
+    this.blockingClients.forEach(blocking => blocking.disconnect());
+    this.blockingClients = [];
+
+    if (this.client) {
+      await this.client.quit();
+      this.client = null;
+    }
+  }
+}
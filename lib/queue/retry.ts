@@ -0,0 +1,123 @@
+import type Redis from 'ioredis';
+import { updateJobStatus } from '../job-status';
+import type { ConsumeOptions, QueueDelivery, QueueDriver } from './types';
+
+/**
+ * Thrown by a handler when retrying can't help (e.g. an invalid payload);
+ * the job goes straight to the dead-letter queue
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+export interface JobContext {
+  jobId: string;
+  attempt: number;
+}
+
+// Read lazily: the worker loads .env.local after its imports are evaluated
+export function getMaxJobAttempts(): number {
+  return Number(process.env.JOB_MAX_ATTEMPTS) || 5;
+}
+
+/**
+ * Delay before the given retry (1-based): base, 2x base, 4x base, ...
+ */
+export function getRetryDelay(retry: number): number {
+  const baseDelay = Number(process.env.JOB_RETRY_BASE_DELAY_MS) || 5000;
+  return baseDelay * 2 ** (retry - 1);
+}
+
+async function handleFailure(redis: Redis, delivery: QueueDelivery, queue: string, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  const maxAttempts = getMaxJobAttempts();
+  const { jobId, attempt } = delivery;
+
+  if (attempt < maxAttempts && !(error instanceof PermanentJobError)) {
+    const delay = getRetryDelay(attempt);
+    console.warn(`🔁 [Queue] Job ${jobId} failed (attempt ${attempt}/${maxAttempts}), retrying in ${delay}ms`);
+
+    await delivery.retry(delay, message);
+    await updateJobStatus(redis, jobId, {
+      state: 'retrying',
+      attempts: attempt,
+      maxAttempts,
+      error: message,
+      nextRetryAt: new Date(Date.now() + delay).toISOString()
+    });
+  } else {
+    console.error(`☠️ [Queue] Job ${jobId} failed after ${attempt} attempt(s), moving to the ${queue} dead-letter queue`);
+
+    await delivery.deadLetter(message);
+    await updateJobStatus(redis, jobId, {
+      state: 'failed',
+      attempts: attempt,
+      maxAttempts,
+      error: message,
+      nextRetryAt: null
+    });
+  }
+}
+
+// Deliveries being handled (including their ack/retry), for graceful shutdown
+const activeDeliveries = new Set<Promise<void>>();
+
+/**
+ * Wait until every delivery in this process is settled, or graceMs passes.
+ * Returns the number still running at the deadline.
+ */
+export async function waitForActiveJobs(graceMs: number): Promise<number> {
+  if (activeDeliveries.size === 0) return 0;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, graceMs);
+  });
+
+  await Promise.race([Promise.allSettled([...activeDeliveries]), deadline]);
+  clearTimeout(timer);
+  return activeDeliveries.size;
+}
+
+/**
+ * Consume a queue with the shared retry policy: status is tracked in Redis,
+ * failures are retried with exponential backoff and then dead-lettered.
+ * The handler only sees the job payload, so it doesn't care which driver runs it.
+ */
+export async function consumeJobs<T extends { userId?: string }>(
+  driver: QueueDriver,
+  queue: string,
+  redis: Redis,
+  handler: (payload: T, context: JobContext) => Promise<unknown>,
+  options: ConsumeOptions = {}
+): Promise<void> {
+  const handleDelivery = async (delivery: QueueDelivery<T>) => {
+    const { jobId, attempt, payload } = delivery;
+
+    console.log(`📨 [Queue] Received job ${jobId} from ${queue} (attempt ${attempt})`);
+    await updateJobStatus(redis, jobId, {
+      state: 'processing',
+      attempts: attempt,
+      ...(payload?.userId ? { userId: payload.userId } : {}),
+      nextRetryAt: null
+    });
+
+    try {
+      const result = await handler(payload, { jobId, attempt });
+      await updateJobStatus(redis, jobId, { state: 'done', attempts: attempt, error: null, result: result ?? null });
+      await delivery.ack();
+    } catch (error) {
+      console.error(`❌ [Queue] Job ${jobId} failed:`, error);
+      await handleFailure(redis, delivery, queue, error);
+    }
+  };
+
+  await driver.consume<T>(queue, (delivery) => {
+    const settled = handleDelivery(delivery);
+    activeDeliveries.add(settled);
+    return settled.finally(() => activeDeliveries.delete(settled));
+  }, options);
+}
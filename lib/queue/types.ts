@@ -0,0 +1,36 @@
+/**
+ * Queue transport abstraction. Drivers only move messages around; the retry
+ * policy and job status tracking live in consumeJobs() (./retry.ts), so every
+ * driver behaves the same from a handler's point of view.
+ */
+
+export type QueueDriverName = 'amqp' | 'memory' | 'redis';
+
+export interface QueueDelivery<T = unknown> {
+  jobId: string;
+  payload: T;
+  // 1 on first delivery, incremented on every retry
+  attempt: number;
+  ack(): Promise<void>;
+  // Redeliver after delayMs (the driver owns the delay mechanism)
+  retry(delayMs: number, error: string): Promise<void>;
+  // Park the job in the dead-letter queue for inspection
+  deadLetter(error: string): Promise<void>;
+}
+
+export type DeliveryHandler<T = unknown> = (delivery: QueueDelivery<T>) => Promise<void>;
+
+export interface ConsumeOptions {
+  // Deliveries handled at the same time by this consumer
+  concurrency?: number;
+}
+
+export interface QueueDriver {
+  readonly name: QueueDriverName;
+  publish(queue: string, jobId: string, payload: object): Promise<void>;
+  consume<T>(queue: string, handler: DeliveryHandler<T>, options?: ConsumeOptions): Promise<void>;
+  // Stop taking new deliveries; deliveries already handed out can still be settled
+  stop(): Promise<void>;
+  // Stop consuming and release connections
+  close(): Promise<void>;
+}
@@ -1,25 +1,139 @@
-import amqp from "amqplib";
+import amqp, { type Channel, type ChannelModel, type ConfirmChannel } from "amqplib";
+import { getMaxJobAttempts, getRetryDelay } from "./queue/retry";
+
+/**
+ * AMQP topology for a job queue. Every queue is durable and every message persistent.
+ *
+ *   <queue>            work queue, consumed by the worker
+ *   <queue>.retry.<n>  holding queue for retry n; its TTL dead-letters the
+ *                      message back to <queue> (exponential backoff)
+ *   <queue>.dead       jobs that failed every attempt, kept for inspection
+ *
+ * Retry queue TTLs are fixed when declared, so changing JOB_RETRY_BASE_DELAY_MS
+ * means deleting the <queue>.retry.* queues first. The old non-durable
+ * badge_processing_queue is no longer used and can be deleted once drained.
+ */
+
+// Message header carrying how many times the job has already failed
+export const ATTEMPT_HEADER = "x-attempt";
+
+export function getRabbitUrl(): string {
+  return process.env.RABBITMQ_URL || "amqp://localhost";
+}
+
+export function getDeadLetterQueue(queue: string): string {
+  return `${queue}.dead`;
+}
+
+export function getRetryQueue(queue: string, retry: number): string {
+  return `${queue}.retry.${retry}`;
+}
+
+/**
+ * Declare the work, retry and dead-letter queues (idempotent)
+ */
+export async function assertQueueTopology(channel: Channel, queue: string): Promise<void> {
+  await channel.assertQueue(queue, { durable: true });
+  await channel.assertQueue(getDeadLetterQueue(queue), { durable: true });
+
+  // One queue per retry so a short delay never waits behind a long one
+  for (let retry = 1; retry < getMaxJobAttempts(); retry++) {
+    await channel.assertQueue(getRetryQueue(queue, retry), {
+      durable: true,
+      arguments: {
+        "x-message-ttl": getRetryDelay(retry),
+        "x-dead-letter-exchange": "",
+        "x-dead-letter-routing-key": queue
+      }
+    });
+  }
+}
+
+// Pooled publisher: one connection and confirm channel per server process
+let publisher: Promise<ConfirmChannel> | null = null;
+let assertedQueues = new Set<string>();
+
+async function openPublisher(): Promise<ConfirmChannel> {
+  let connection: ChannelModel | undefined;
 
-export async function getRabbitChannel() {
   try {
-    const connection = await amqp.connect(
-      process.env.RABBITMQ_URL || "amqp://localhost",
+    connection = await amqp.connect(getRabbitUrl(), { heartbeat: 30 });
+    const channel = await connection.createConfirmChannel();
+
+    const reset = () => {
+      publisher = null;
+      assertedQueues = new Set();
+    };
+    connection.on("close", reset);
+    connection.on("error", (error) => {
+      console.error("❌ [RabbitMQ] Publisher connection error:", error);
+      reset();
+    });
+    channel.on("close", reset);
+
+    console.log("✅ [RabbitMQ] Publisher connected");
+    return channel;
+  } catch (error) {
+    try {
+      if (connection) await connection.close();
+    } catch {}
+    throw error;
+  }
+}
+
+export function getPublisherChannel(): Promise<ConfirmChannel> {
+  if (!publisher) {
+    publisher = openPublisher().catch((error) => {
+      publisher = null;
+      throw error;
+    });
+  }
+  return publisher;
+}
+
+/**
+ * Publish on a confirm channel and wait for the broker to store the message
+ */
+export function sendConfirmed(
+  channel: ConfirmChannel,
+  queue: string,
+  content: Buffer,
+  options: { messageId?: string; headers?: Record<string, unknown> }
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    channel.sendToQueue(
+      queue,
+      content,
       {
-        heartbeat: 30  // Shorter heartbeat
-      }
+        persistent: true,
+        contentType: "application/json",
+        ...options
+      },
+      (error) => (error ? reject(error) : resolve())
     );
-    
-    const channel = await connection.createChannel();
-    
-    // Create the badge processing queue
-    await channel.assertQueue("badge_processing_queue", { durable: false });
-
-    console.log("✅ [RabbitMQ] Connected successfully");
-    
-    // Don't keep connection open - return channel that will be used and closed
-    return channel;
+  });
+}
+
+/**
+ * Publish a persistent job through the pooled publisher
+ */
+export async function publishJob(
+  queue: string,
+  jobId: string,
+  payload: object,
+  headers: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    const channel = await getPublisherChannel();
+
+    if (!assertedQueues.has(queue)) {
+      await assertQueueTopology(channel, queue);
+      assertedQueues.add(queue);
+    }
+
+    await sendConfirmed(channel, queue, Buffer.from(JSON.stringify(payload)), { messageId: jobId, headers });
   } catch (error) {
-    console.error("❌ [RabbitMQ] Connection failed:", error);
+    console.error("❌ [RabbitMQ] Publish failed:", error);
     throw error;
   }
-}
\ No newline at end of file
+}
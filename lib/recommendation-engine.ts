@@ -0,0 +1,340 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type Redis from 'ioredis';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getEarnedBadgeNames } from './badge-engine';
+import { enqueueJob } from './jobs';
+
+/**
+ * AI module recommendations (Gemini, with a rule-based fallback), cached in
+ * Redis per user. Used by /api/ai-recommendations and by the
+ * ai_recommendations_refresh background job.
+ */
+
+export interface ModuleRecommendation {
+  moduleId: string;
+  title: string;
+  reason: string;
+  difficulty: string;
+  points: number;
+}
+
+const CACHE_TTL_SECONDS = 60 * 10;
+
+function cacheKey(userId: string): string {
+  return `ai_reco_${userId}`;
+}
+
+// Set while a refresh job is queued, so a user has at most one waiting
+const REFRESH_QUEUED_TTL_SECONDS = 60 * 5;
+
+function refreshQueuedKey(userId: string): string {
+  return `ai_reco_refresh_${userId}`;
+}
+
+interface ModuleData {
+  title: string;
+  category: string;
+  difficulty: string;
+}
+
+interface UserModuleWithDetails {
+  score: number | null;
+  modules: ModuleData;
+}
+
+interface UserStats {
+  userId: string;
+  totalPoints: number;
+  rank: string;
+  completedModules: number;
+  totalModules: number;
+  completedModuleDetails: Array<{
+    title: string;
+    category: string;
+    difficulty: string;
+    score: number;
+  }>;
+  badges: string[];
+  averageScore: number;
+}
+
+interface ModuleOption {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  difficulty: string;
+  points: number;
+  lessons: number;
+  duration: string;
+}
+
+/**
+ * Cached recommendations, or null on a cache miss (or if Redis is unavailable)
+ */
+export async function getCachedRecommendations(redis: Redis, userId: string): Promise<ModuleRecommendation[] | null> {
+  try {
+    const cached = await redis.get(cacheKey(userId));
+    return cached ? JSON.parse(cached) : null;
+  } catch (cacheError) {
+    console.error('⚠️ [Redis] Cache read failed:', cacheError);
+    return null;
+  }
+}
+
+/**
+ * Queue an ai_recommendations_refresh job for the user, unless one is already
+ * waiting. Returns the job id, or null when one was already queued.
+ */
+export async function queueRecommendationRefresh(redis: Redis, userId: string): Promise<string | null> {
+  const claimed = await redis.set(refreshQueuedKey(userId), '1', 'EX', REFRESH_QUEUED_TTL_SECONDS, 'NX');
+  if (!claimed) return null;
+
+  try {
+    return await enqueueJob(redis, 'ai_recommendations_refresh', { userId }, { userId });
+  } catch (error) {
+    await redis.del(refreshQueuedKey(userId));
+    throw error;
+  }
+}
+
+/**
+ * Generate fresh recommendations and cache them for 10 minutes
+ */
+export async function refreshRecommendations(
+  supabase: SupabaseClient,
+  redis: Redis,
+  userId: string
+): Promise<{ recommendations: ModuleRecommendation[]; generationTime: number; allCompleted: boolean }> {
+  const startTime = Date.now();
+
+  // Changes from here on need a refresh of their own
+  try {
+    await redis.del(refreshQueuedKey(userId));
+  } catch (cacheError) {
+    console.error('⚠️ [Redis] Failed to clear queued refresh:', cacheError);
+  }
+
+  console.log('🤖 [Gemini] Generating AI recommendations...');
+
+  const userStats = await fetchUserStats(supabase, userId);
+  const availableModules = await fetchAvailableModules(supabase, userId);
+
+  if (availableModules.length === 0) {
+    return { recommendations: [], generationTime: Date.now() - startTime, allCompleted: true };
+  }
+
+  const recommendations = await generateRecommendations(userStats, availableModules);
+
+  const generationTime = Date.now() - startTime;
+  console.log('✅ [Gemini] Generated in', generationTime, 'ms');
+
+  try {
+    await redis.set(cacheKey(userId), JSON.stringify(recommendations), 'EX', CACHE_TTL_SECONDS);
+    console.log('💾 [Redis] Cached recommendations for 10 minutes');
+
+    // Also store metadata for debugging
+    await redis.set(
+      `${cacheKey(userId)}_meta`,
+      JSON.stringify({
+        cachedAt: new Date().toISOString(),
+        generationTime,
+        userId
+      }),
+      'EX',
+      CACHE_TTL_SECONDS
+    );
+  } catch (cacheError) {
+    console.error('⚠️ [Redis] Cache write failed:', cacheError);
+  }
+
+  return { recommendations, generationTime, allCompleted: false };
+}
+
+async function fetchUserStats(supabase: SupabaseClient, userId: string): Promise<UserStats> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('points, rank, full_name')
+    .eq('id', userId)
+    .single();
+
+  const { data: completedModules } = await supabase
+    .from('user_modules')
+    .select(`
+      score,
+      modules (
+        title,
+        category,
+        difficulty
+      )
+    `)
+    .eq('user_id', userId)
+    .eq('completed', true)
+    .returns<UserModuleWithDetails[]>();
+
+  const { count: totalModules } = await supabase
+    .from('modules')
+    .select('*', { count: 'exact', head: true });
+
+  const badges = await getEarnedBadgeNames(supabase, userId).catch(() => []);
+
+  const scores = completedModules?.map(m => m.score || 0).filter(s => s > 0) || [];
+  const averageScore = scores.length > 0
+    ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length)
+    : 0;
+
+  const completedModuleDetails = completedModules?.map(m => ({
+    title: m.modules?.title || 'Unknown Module',
+    category: m.modules?.category || 'General',
+    difficulty: m.modules?.difficulty || 'Beginner',
+    score: m.score || 0
+  })) || [];
+
+  return {
+    userId,
+    totalPoints: profile?.points || 0,
+    rank: profile?.rank || 'Beginner',
+    completedModules: completedModules?.length || 0,
+    totalModules: totalModules || 0,
+    completedModuleDetails,
+    badges,
+    averageScore
+  };
+}
+
+async function fetchAvailableModules(supabase: SupabaseClient, userId: string): Promise<ModuleOption[]> {
+  const { data: allModules } = await supabase
+    .from('modules')
+    .select('*')
+    .eq('locked', false);
+
+  const { data: completedModuleIds } = await supabase
+    .from('user_modules')
+    .select('module_id')
+    .eq('user_id', userId)
+    .eq('completed', true);
+
+  const completedIds = new Set(completedModuleIds?.map(m => m.module_id) || []);
+  const availableModules = allModules?.filter(m => !completedIds.has(m.id)) || [];
+
+  return availableModules.map(m => ({
+    id: m.id,
+    title: m.title || 'Untitled Module',
+    description: m.description || '',
+    category: m.category || 'General',
+    difficulty: m.difficulty || 'Beginner',
+    points: m.points || 0,
+    lessons: m.lessons || 0,
+    duration: m.duration || 'N/A'
+  }));
+}
+
+async function generateRecommendations(
+  userStats: UserStats,
+  availableModules: ModuleOption[]
+): Promise<ModuleRecommendation[]> {
+  // Created lazily: the worker loads .env.local after its imports are evaluated
+  const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+
+  const prompt = `You are an AI learning advisor for LifeCraft, a disaster preparedness training platform. Analyze the user's learning journey and recommend the top 3 most suitable modules.
+
+USER PROFILE:
+- Total Points: ${userStats.totalPoints}
+- Current Rank: ${userStats.rank}
+- Completed Modules: ${userStats.completedModules}/${userStats.totalModules}
+- Average Score: ${userStats.averageScore}%
+- Badges Earned: ${userStats.badges.join(', ') || 'None yet'}
+
+COMPLETED MODULES:
+${userStats.completedModuleDetails.map(m => 
+  `- ${m.title} (${m.category}, ${m.difficulty}) - Score: ${m.score}%`
+).join('\n') || 'None yet'}
+
+AVAILABLE MODULES:
+${availableModules.map((m, i) => 
+  `${i + 1}. ${m.title}
+   Category: ${m.category}
+   Difficulty: ${m.difficulty}
+   Points: ${m.points}
+   Duration: ${m.duration}
+   Description: ${m.description}`
+).join('\n\n')}
+
+RECOMMENDATION CRITERIA:
+1. Consider the user's current skill level (rank and average score)
+2. Build on completed modules for progressive learning
+3. Balance difficulty - not too easy, not too hard
+4. Prioritize categories the user hasn't explored yet for variety
+5. Consider high scores as readiness for harder challenges
+6. For beginners, start with foundational topics
+7. For advanced users, recommend specialized or advanced topics
+
+Respond with EXACTLY 3 recommendations in this JSON format (no markdown, no code blocks, just pure JSON):
+[
+  {
+    "moduleId": "module_id_here",
+    "title": "Module Title",
+    "reason": "One clear, engaging sentence explaining why this module is recommended based on their progress and learning patterns",
+    "difficulty": "Beginner/Intermediate/Advanced",
+    "points": 100
+  }
+]
+
+Make reasons personal, specific, and motivating. Focus on learning progression and skill building.`;
+
+  try {
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+    const text = response.text();
+    
+    const cleanedText = text
+      .replace(/```json\n?/g, '')
+      .replace(/```\n?/g, '')
+      .trim();
+    
+    const recommendations = JSON.parse(cleanedText);
+    
+    if (Array.isArray(recommendations)) {
+      return recommendations.slice(0, 3).map(rec => ({
+        moduleId: rec.moduleId || '',
+        title: rec.title || 'Recommended Module',
+        reason: rec.reason || 'Great next step in your training',
+        difficulty: rec.difficulty || 'Beginner',
+        points: rec.points || 0
+      }));
+    }
+    
+    throw new Error('Invalid recommendation format');
+  } catch (error) {
+    console.error('Error parsing AI response:', error);
+    return generateFallbackRecommendations(userStats, availableModules);
+  }
+}
+
+function generateFallbackRecommendations(
+  userStats: UserStats,
+  availableModules: ModuleOption[]
+): ModuleRecommendation[] {
+  const sortedModules = [...availableModules].sort((a, b) => {
+    const difficultyScore = (m: ModuleOption) => {
+      if (userStats.averageScore >= 80) {
+        return m.difficulty === 'Advanced' ? 3 : m.difficulty === 'Intermediate' ? 2 : 1;
+      } else if (userStats.averageScore >= 60) {
+        return m.difficulty === 'Intermediate' ? 3 : m.difficulty === 'Beginner' ? 2 : 1;
+      } else {
+        return m.difficulty === 'Beginner' ? 3 : m.difficulty === 'Intermediate' ? 2 : 1;
+      }
+    };
+
+    return difficultyScore(b) - difficultyScore(a);
+  });
+
+  return sortedModules.slice(0, 3).map(m => ({
+    moduleId: m.id,
+    title: m.title,
+    reason: `Great next step in your ${m.category.toLowerCase()} training journey`,
+    difficulty: m.difficulty,
+    points: m.points
+  }));
+}
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { authorizedFetch } from './api-client';
+import type { ReminderPreferences } from './reminders/schedule';
+
+export type { ReminderPreferences };
+export { describeOffset } from './reminders/schedule';
+
+export interface ReminderSettings {
+  preferences: ReminderPreferences & { isDefault: boolean };
+  // Hours before an event the user can pick from
+  choices: number[];
+  maxOffsets: number;
+}
+
+/**
+ * The signed-in user's reminder preferences and the available reminder times
+ */
+export async function getReminderSettings(): Promise<ReminderSettings> {
+  try {
+    const response = await authorizedFetch('/api/reminders/preferences');
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to load reminder preferences');
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error loading reminder preferences:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save the user's reminder preferences, or with null go back to the defaults.
+ * An empty offsetsHours list turns reminders off.
+ */
+export async function saveReminderPreferences(
+  preferences: ReminderPreferences | null
+): Promise<ReminderPreferences & { isDefault: boolean }> {
+  try {
+    const response = await authorizedFetch('/api/reminders/preferences', preferences
+      ? {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(preferences)
+      }
+      : { method: 'DELETE' });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to save reminder preferences');
+    }
+
+    return result.preferences;
+  } catch (error) {
+    console.error('Error saving reminder preferences:', error);
+    throw error;
+  }
+}
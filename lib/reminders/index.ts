@@ -0,0 +1,27 @@
+/**
+ * Reminders before physical drills and community sessions: schedule holds the
+ * timing rules and preference validation (safe for client code), scheduler
+ * keeps `event_reminders` in sync and sends the due ones. The scheduler is
+ * server-only; client code goes through lib/reminder-utils.ts.
+ */
+
+export {
+  MAX_REMINDER_OFFSETS,
+  REMINDER_OFFSET_CHOICES,
+  ReminderPreferencesError,
+  describeOffset,
+  getEventStart,
+  parseReminderOffsets,
+  type ReminderEventKind,
+  type ReminderPreferences
+} from './schedule';
+export {
+  getDefaultReminderPreferences,
+  getReminderPreferences,
+  saveReminderPreferences,
+  sendDueReminders,
+  syncReminders,
+  type ReminderSendSummary,
+  type ReminderStatus,
+  type ReminderSyncSummary
+} from './scheduler';
@@ -0,0 +1,71 @@
+import { parseTimeRange } from '../calendar/ics';
+
+/**
+ * Reminder timing, shared by the scheduler and the preferences form. No
+ * server dependencies.
+ */
+
+export type ReminderEventKind = 'drill' | 'session';
+
+export interface ReminderPreferences {
+  // Hours before the event, largest first
+  offsetsHours: number[];
+  email: boolean;
+  inApp: boolean;
+}
+
+export class ReminderPreferencesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReminderPreferencesError';
+  }
+}
+
+// What users can pick from; the scheduler looks this far ahead
+export const REMINDER_OFFSET_CHOICES = [168, 72, 48, 24, 12, 6, 2, 1];
+
+export const MAX_REMINDER_OFFSETS = 4;
+
+// Events whose time can't be read ("All day", "TBA") are treated as starting at 9 AM
+const DEFAULT_START_HOUR = 9;
+
+/**
+ * Validate a list of offsets from a form or request: known choices only,
+ * de-duplicated, largest first. An empty list turns reminders off.
+ */
+export function parseReminderOffsets(value: unknown): number[] {
+  if (!Array.isArray(value)) {
+    throw new ReminderPreferencesError('offsetsHours must be a list of hours');
+  }
+
+  const offsets = [...new Set(value)];
+  for (const offset of offsets) {
+    if (!REMINDER_OFFSET_CHOICES.includes(offset as number)) {
+      throw new ReminderPreferencesError(`Reminders can be sent ${REMINDER_OFFSET_CHOICES.join(', ')} hours before an event`);
+    }
+  }
+  if (offsets.length > MAX_REMINDER_OFFSETS) {
+    throw new ReminderPreferencesError(`Choose at most ${MAX_REMINDER_OFFSETS} reminder times`);
+  }
+
+  return (offsets as number[]).sort((a, b) => b - a);
+}
+
+/**
+ * "1 week", "3 days", "48 hours", "1 hour"
+ */
+export function describeOffset(hours: number): string {
+  if (hours % 168 === 0) return hours === 168 ? '1 week' : `${hours / 168} weeks`;
+  if (hours > 48 && hours % 24 === 0) return `${hours / 24} days`;
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+/**
+ * When an event starts, from its date and the admin-entered time text. Times
+ * are wall-clock times in the scheduler's time zone (TZ).
+ */
+export function getEventStart(date: string, time: string | null | undefined): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const start = parseTimeRange(time)?.start;
+  return new Date(year, month - 1, day, start?.hour ?? DEFAULT_START_HOUR, start?.minute ?? 0);
+}
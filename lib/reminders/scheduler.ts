@@ -0,0 +1,523 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createInAppNotification, getUserRecipient, queueNotification } from '../notifications';
+import {
+  REMINDER_OFFSET_CHOICES,
+  ReminderPreferencesError,
+  describeOffset,
+  getEventStart,
+  parseReminderOffsets,
+  type ReminderEventKind,
+  type ReminderPreferences
+} from './schedule';
+
+/**
+ * Reminders before physical drills and community sessions. Every pass of the
+ * worker's scheduler first syncs `event_reminders` with the current state of
+ * events, registrations and preferences - adding reminders for new approvals,
+ * moving them when an event's time changes, cancelling them when a
+ * registration is cancelled, an event is deleted or the user changes their
+ * preferences - and then sends the ones that are due, by email and in-app.
+ * All functions need a service-role client.
+ */
+
+export type ReminderStatus = 'scheduled' | 'sent' | 'cancelled' | 'skipped';
+
+export interface ReminderSyncSummary {
+  scheduled: number;
+  rescheduled: number;
+  cancelled: number;
+}
+
+export interface ReminderSendSummary {
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+interface ReminderSource {
+  eventTable: string;
+  registrationTable: string;
+  eventColumn: string;
+  // Registrations with an approved seat
+  statuses: string[];
+  physicalOnly: boolean;
+}
+
+const REMINDER_SOURCES: Record<ReminderEventKind, ReminderSource> = {
+  drill: {
+    eventTable: 'drills',
+    registrationTable: 'user_drills',
+    eventColumn: 'drill_id',
+    statuses: ['approved'],
+    physicalOnly: true
+  },
+  session: {
+    eventTable: 'community_sessions',
+    registrationTable: 'user_community_sessions',
+    eventColumn: 'session_id',
+    statuses: ['registered', 'approved'],
+    physicalOnly: false
+  }
+};
+
+interface ReminderEvent {
+  kind: ReminderEventKind;
+  id: string;
+  title: string;
+  date: string;
+  time: string | null;
+  location: string | null;
+  sequence: number;
+  start: Date;
+}
+
+interface ReminderRow {
+  id: string;
+  user_id: string;
+  event_kind: ReminderEventKind;
+  event_id: string;
+  registration_id: string;
+  offset_hours: number;
+  schedule_sequence: number;
+  send_at: string;
+  status: ReminderStatus;
+}
+
+type DesiredReminder = Omit<ReminderRow, 'id' | 'status'>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A reminder that only became known after its send time still goes out if it's this late at most
+const LATE_REMINDER_TOLERANCE_MS = 30 * 60 * 1000;
+
+// Keeps .in() filters well inside URL length limits
+const ID_CHUNK_SIZE = 100;
+
+const SEND_BATCH_SIZE = 100;
+
+const FALLBACK_DEFAULT_OFFSETS = [48, 2];
+
+/**
+ * Preferences for users who haven't chosen their own. REMINDER_DEFAULT_OFFSETS_HOURS
+ * sets the times, e.g. "48,2".
+ */
+export function getDefaultReminderPreferences(): ReminderPreferences {
+  const configured = process.env.REMINDER_DEFAULT_OFFSETS_HOURS;
+  let offsetsHours = FALLBACK_DEFAULT_OFFSETS;
+
+  if (configured !== undefined) {
+    try {
+      offsetsHours = parseReminderOffsets(configured.split(',').filter(Boolean).map(Number));
+    } catch (error) {
+      console.warn('⚠️ [Reminders] Ignoring REMINDER_DEFAULT_OFFSETS_HOURS:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  return { offsetsHours, email: true, inApp: true };
+}
+
+function chunk<T>(items: T[], size = ID_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Event dates are wall-clock dates in the scheduler's time zone, like getEventStart
+function localDate(value: Date): string {
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+function reminderKey(reminder: Pick<ReminderRow, 'event_kind' | 'registration_id' | 'offset_hours' | 'schedule_sequence'>): string {
+  return `${reminder.event_kind}:${reminder.registration_id}:${reminder.offset_hours}:${reminder.schedule_sequence}`;
+}
+
+function toReminderEvent(kind: ReminderEventKind, row: {
+  id: string;
+  title: string;
+  date: string;
+  time: string | null;
+  location: string | null;
+  schedule_sequence: number | null;
+}): ReminderEvent {
+  return {
+    kind,
+    id: row.id,
+    title: row.title,
+    date: row.date,
+    time: row.time,
+    location: row.location,
+    sequence: row.schedule_sequence ?? 0,
+    start: getEventStart(row.date, row.time)
+  };
+}
+
+const EVENT_COLUMNS = 'id, title, date, time, location, schedule_sequence';
+
+async function loadUpcomingEvents(supabase: SupabaseClient, now: Date, until: Date): Promise<Map<string, ReminderEvent>> {
+  const events = new Map<string, ReminderEvent>();
+
+  for (const kind of ['drill', 'session'] as ReminderEventKind[]) {
+    const source = REMINDER_SOURCES[kind];
+    let query = supabase
+      .from(source.eventTable)
+      .select(EVENT_COLUMNS)
+      .gte('date', localDate(now))
+      .lte('date', localDate(until));
+    if (source.physicalOnly) query = query.eq('type', 'Physical');
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to load upcoming ${kind}s: ${error.message}`);
+
+    for (const row of data || []) {
+      const event = toReminderEvent(kind, row);
+      if (event.start > now) events.set(`${kind}:${event.id}`, event);
+    }
+  }
+
+  return events;
+}
+
+async function loadEventsById(supabase: SupabaseClient, kind: ReminderEventKind, ids: string[]): Promise<Map<string, ReminderEvent>> {
+  const events = new Map<string, ReminderEvent>();
+
+  for (const batch of chunk([...new Set(ids)])) {
+    const { data, error } = await supabase
+      .from(REMINDER_SOURCES[kind].eventTable)
+      .select(EVENT_COLUMNS)
+      .in('id', batch);
+
+    if (error) throw new Error(`Failed to load ${kind}s: ${error.message}`);
+    for (const row of data || []) {
+      if (row.date) events.set(row.id, toReminderEvent(kind, row));
+    }
+  }
+
+  return events;
+}
+
+async function loadApprovedRegistrations(
+  supabase: SupabaseClient,
+  events: Map<string, ReminderEvent>
+): Promise<{ kind: ReminderEventKind; id: string; userId: string; eventId: string }[]> {
+  const registrations: { kind: ReminderEventKind; id: string; userId: string; eventId: string }[] = [];
+
+  for (const kind of ['drill', 'session'] as ReminderEventKind[]) {
+    const source = REMINDER_SOURCES[kind];
+    const eventIds = [...events.values()].filter(event => event.kind === kind).map(event => event.id);
+
+    for (const ids of chunk(eventIds)) {
+      const columns: string = `id, user_id, ${source.eventColumn}`;
+      const { data, error } = await supabase
+        .from(source.registrationTable)
+        .select(columns)
+        .in(source.eventColumn, ids)
+        .in('status', source.statuses);
+
+      if (error) throw new Error(`Failed to load ${kind} registrations: ${error.message}`);
+      for (const row of (data || []) as unknown as Record<string, string>[]) {
+        registrations.push({ kind, id: row.id, userId: row.user_id, eventId: row[source.eventColumn] });
+      }
+    }
+  }
+
+  return registrations;
+}
+
+async function loadPreferences(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, ReminderPreferences>> {
+  const preferences = new Map<string, ReminderPreferences>();
+
+  for (const ids of chunk([...new Set(userIds)])) {
+    const { data, error } = await supabase
+      .from('reminder_preferences')
+      .select('user_id, offsets_hours, email_enabled, in_app_enabled')
+      .in('user_id', ids);
+
+    if (error) throw new Error(`Failed to load reminder preferences: ${error.message}`);
+    for (const row of data || []) {
+      preferences.set(row.user_id, {
+        offsetsHours: row.offsets_hours || [],
+        email: row.email_enabled,
+        inApp: row.in_app_enabled
+      });
+    }
+  }
+
+  return preferences;
+}
+
+/**
+ * The user's reminder preferences, or the defaults if they haven't set any
+ */
+export async function getReminderPreferences(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ReminderPreferences & { isDefault: boolean }> {
+  const preferences = await loadPreferences(supabase, [userId]);
+  const saved = preferences.get(userId);
+  return saved ? { ...saved, isDefault: false } : { ...getDefaultReminderPreferences(), isDefault: true };
+}
+
+/**
+ * Save the user's preferences from a request body ({ offsetsHours, email, inApp }),
+ * or with null go back to the defaults. Scheduled reminders follow on the
+ * scheduler's next pass.
+ */
+export async function saveReminderPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  input: unknown
+): Promise<ReminderPreferences & { isDefault: boolean }> {
+  if (input === null) {
+    const { error } = await supabase.from('reminder_preferences').delete().eq('user_id', userId);
+    if (error) throw new Error(`Failed to reset reminder preferences: ${error.message}`);
+    return { ...getDefaultReminderPreferences(), isDefault: true };
+  }
+
+  const { offsetsHours, email, inApp } = (input || {}) as Record<string, unknown>;
+  if (typeof email !== 'boolean' || typeof inApp !== 'boolean') {
+    throw new ReminderPreferencesError('email and inApp must be true or false');
+  }
+
+  const preferences: ReminderPreferences = { offsetsHours: parseReminderOffsets(offsetsHours), email, inApp };
+
+  const { error } = await supabase
+    .from('reminder_preferences')
+    .upsert({
+      user_id: userId,
+      offsets_hours: preferences.offsetsHours,
+      email_enabled: preferences.email,
+      in_app_enabled: preferences.inApp
+    }, { onConflict: 'user_id' });
+
+  if (error) throw new Error(`Failed to save reminder preferences: ${error.message}`);
+  return { ...preferences, isDefault: false };
+}
+
+async function loadReminders(supabase: SupabaseClient, registrationIds: string[]): Promise<ReminderRow[]> {
+  const rows: ReminderRow[] = [];
+
+  for (const ids of chunk(registrationIds)) {
+    const { data, error } = await supabase
+      .from('event_reminders')
+      .select('*')
+      .in('registration_id', ids);
+
+    if (error) throw new Error(`Failed to load reminders: ${error.message}`);
+    rows.push(...(data || []));
+  }
+
+  return rows;
+}
+
+/**
+ * Bring `event_reminders` in line with upcoming events, approved registrations
+ * and preferences
+ */
+export async function syncReminders(supabase: SupabaseClient, now = new Date()): Promise<ReminderSyncSummary> {
+  const summary: ReminderSyncSummary = { scheduled: 0, rescheduled: 0, cancelled: 0 };
+  const lookahead = new Date(now.getTime() + (Math.max(...REMINDER_OFFSET_CHOICES) + 24) * HOUR_MS);
+
+  const events = await loadUpcomingEvents(supabase, now, lookahead);
+  const registrations = await loadApprovedRegistrations(supabase, events);
+  const preferences = await loadPreferences(supabase, registrations.map(registration => registration.userId));
+  const defaults = getDefaultReminderPreferences();
+
+  const desired = new Map<string, DesiredReminder>();
+  for (const registration of registrations) {
+    const event = events.get(`${registration.kind}:${registration.eventId}`);
+    const userPreferences = preferences.get(registration.userId) || defaults;
+    if (!event || (!userPreferences.email && !userPreferences.inApp)) continue;
+
+    for (const offset of userPreferences.offsetsHours) {
+      const reminder: DesiredReminder = {
+        user_id: registration.userId,
+        event_kind: registration.kind,
+        event_id: event.id,
+        registration_id: registration.id,
+        offset_hours: offset,
+        schedule_sequence: event.sequence,
+        send_at: new Date(event.start.getTime() - offset * HOUR_MS).toISOString()
+      };
+      desired.set(reminderKey(reminder), reminder);
+    }
+  }
+
+  const existing = new Map(
+    (await loadReminders(supabase, registrations.map(registration => registration.id)))
+      .map(row => [reminderKey(row), row])
+  );
+
+  const statusFor = (sendAt: string): ReminderStatus =>
+    new Date(sendAt).getTime() < now.getTime() - LATE_REMINDER_TOLERANCE_MS ? 'skipped' : 'scheduled';
+
+  const inserts: (DesiredReminder & { status: ReminderStatus })[] = [];
+  for (const [key, reminder] of desired) {
+    const row = existing.get(key);
+
+    if (!row) {
+      inserts.push({ ...reminder, status: statusFor(reminder.send_at) });
+      continue;
+    }
+
+    const moved = new Date(row.send_at).getTime() !== new Date(reminder.send_at).getTime();
+    // Cancelled reminders come back, e.g. when a preference is switched back on
+    if ((row.status === 'scheduled' && moved) || row.status === 'cancelled') {
+      const { error } = await supabase
+        .from('event_reminders')
+        .update({ send_at: reminder.send_at, status: statusFor(reminder.send_at) })
+        .eq('id', row.id)
+        .eq('status', row.status);
+
+      if (error) throw new Error(`Failed to reschedule reminder: ${error.message}`);
+      summary.rescheduled++;
+    }
+  }
+
+  if (inserts.length > 0) {
+    // Another scheduler may have inserted the same reminders already
+    const { error } = await supabase
+      .from('event_reminders')
+      .upsert(inserts, {
+        onConflict: 'event_kind,registration_id,offset_hours,schedule_sequence',
+        ignoreDuplicates: true
+      });
+
+    if (error) throw new Error(`Failed to schedule reminders: ${error.message}`);
+    summary.scheduled += inserts.filter(reminder => reminder.status === 'scheduled').length;
+  }
+
+  // Anything still scheduled that no longer matches an approved registration,
+  // the event's current time or the user's preferences
+  const { data: scheduled, error: scheduledError } = await supabase
+    .from('event_reminders')
+    .select('id, event_kind, registration_id, offset_hours, schedule_sequence')
+    .eq('status', 'scheduled');
+
+  if (scheduledError) throw new Error(`Failed to load scheduled reminders: ${scheduledError.message}`);
+
+  const stale = (scheduled || []).filter(row => !desired.has(reminderKey(row))).map(row => row.id);
+  for (const ids of chunk(stale)) {
+    const { error } = await supabase
+      .from('event_reminders')
+      .update({ status: 'cancelled' })
+      .in('id', ids)
+      .eq('status', 'scheduled');
+
+    if (error) throw new Error(`Failed to cancel reminders: ${error.message}`);
+  }
+  summary.cancelled = stale.length;
+
+  return summary;
+}
+
+function startsIn(start: Date, now: Date): string {
+  const hours = Math.max(1, Math.round((start.getTime() - now.getTime()) / HOUR_MS));
+  return `in ${describeOffset(hours)}`;
+}
+
+/**
+ * Send every scheduled reminder whose time has come. Each reminder is claimed
+ * before sending, so two schedulers never send the same one.
+ */
+export async function sendDueReminders(supabase: SupabaseClient, now = new Date()): Promise<ReminderSendSummary> {
+  const summary: ReminderSendSummary = { sent: 0, skipped: 0, failed: 0 };
+
+  const { data, error } = await supabase
+    .from('event_reminders')
+    .select('*')
+    .eq('status', 'scheduled')
+    .lte('send_at', now.toISOString())
+    .order('send_at', { ascending: true })
+    .limit(SEND_BATCH_SIZE);
+
+  if (error) throw new Error(`Failed to load due reminders: ${error.message}`);
+
+  const due = (data || []) as ReminderRow[];
+  if (due.length === 0) return summary;
+
+  const events = new Map<string, ReminderEvent>();
+  for (const kind of ['drill', 'session'] as ReminderEventKind[]) {
+    const byId = await loadEventsById(supabase, kind, due.filter(row => row.event_kind === kind).map(row => row.event_id));
+    for (const [id, event] of byId) events.set(`${kind}:${id}`, event);
+  }
+  const preferences = await loadPreferences(supabase, due.map(row => row.user_id));
+  const defaults = getDefaultReminderPreferences();
+
+  for (const reminder of due) {
+    const event = events.get(`${reminder.event_kind}:${reminder.event_id}`);
+
+    if (!event || event.start <= now) {
+      await supabase
+        .from('event_reminders')
+        .update({ status: 'skipped' })
+        .eq('id', reminder.id)
+        .eq('status', 'scheduled');
+      summary.skipped++;
+      continue;
+    }
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('event_reminders')
+      .update({ status: 'sent', sent_at: new Date().toISOString() })
+      .eq('id', reminder.id)
+      .eq('status', 'scheduled')
+      .select('id');
+
+    if (claimError) throw new Error(`Failed to claim reminder ${reminder.id}: ${claimError.message}`);
+    if (!claimed || claimed.length === 0) continue;
+
+    const userPreferences = preferences.get(reminder.user_id) || defaults;
+    const eventLabel = reminder.event_kind === 'drill' ? 'drill' : 'session';
+    const when = startsIn(event.start, now);
+
+    try {
+      let notificationId: string | null = null;
+
+      if (userPreferences.email) {
+        const recipient = await getUserRecipient(supabase, reminder.user_id);
+        if (recipient) {
+          const notification = await queueNotification(supabase, 'session_reminder', {
+            fullName: recipient.fullName || 'there',
+            sessionTitle: event.title,
+            sessionDate: event.date,
+            sessionTime: event.time,
+            location: event.location,
+            eventType: eventLabel,
+            startsIn: when
+          }, { to: recipient.email, userId: reminder.user_id });
+          notificationId = notification.id;
+        }
+      }
+
+      if (userPreferences.inApp) {
+        await createInAppNotification(supabase, {
+          userId: reminder.user_id,
+          kind: 'reminder',
+          title: `Reminder: ${event.title}`,
+          body: [
+            `Your ${eventLabel} starts ${when}`,
+            event.time,
+            event.location
+          ].filter(Boolean).join(' · ')
+        });
+      }
+
+      if (notificationId) {
+        await supabase.from('event_reminders').update({ notification_id: notificationId }).eq('id', reminder.id);
+      }
+      summary.sent++;
+    } catch (sendError) {
+      console.error(`❌ [Reminders] Failed to send reminder ${reminder.id}:`, sendError);
+      await supabase
+        .from('event_reminders')
+        .update({ last_error: sendError instanceof Error ? sendError.message : String(sendError) })
+        .eq('id', reminder.id);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from './supabase-admin';
+import type { Profile } from './supabase';
+
+export type UserRole = Profile['role'];
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string | null;
+  role: UserRole;
+}
+
+/**
+ * Resolves a Supabase access token to the user it belongs to,
+ * or null when the token is missing, expired or forged.
+ */
+export type TokenVerifier = (accessToken: string) => Promise<AuthenticatedUser | null>;
+
+export type AuthResult =
+  | { ok: true; user: AuthenticatedUser }
+  | { ok: false; response: NextResponse };
+
+// Platform admins. Organization admins and instructors only manage some
+// events, which lib/permissions.ts decides per request.
+export const ADMIN_ROLES: UserRole[] = ['admin'];
+
+/**
+ * Default verifier - asks Supabase Auth who owns the token, then reads the
+ * role from profiles so a client can never choose its own role.
+ */
+const supabaseTokenVerifier: TokenVerifier = async (accessToken) => {
+  const supabase = getSupabaseAdmin();
+
+  const { data: { user }, error } = await supabase.auth.getUser(accessToken);
+  if (error || !user) {
+    return null;
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError) {
+    console.error('❌ [Auth] Failed to load profile role:', profileError);
+    return null;
+  }
+
+  return {
+    id: user.id,
+    email: user.email ?? null,
+    role: (profile?.role as UserRole) || 'student'
+  };
+};
+
+let tokenVerifier: TokenVerifier = supabaseTokenVerifier;
+
+/**
+ * Replace the token verifier (test harnesses, local tooling)
+ */
+export function setTokenVerifier(verifier: TokenVerifier): void {
+  tokenVerifier = verifier;
+}
+
+/**
+ * Restore the Supabase-backed token verifier
+ */
+export function resetTokenVerifier(): void {
+  tokenVerifier = supabaseTokenVerifier;
+}
+
+/**
+ * Read the bearer token from the Authorization header
+ */
+export function getAccessToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  if (!header) return null;
+
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+
+  return token.trim();
+}
+
+/**
+ * Authenticate an API request and optionally require one of the given roles.
+ *
+ * Usage:
+ *   const auth = await requireAuth(request, { roles: ADMIN_ROLES });
+ *   if (!auth.ok) return auth.response;
+ */
+export async function requireAuth(
+  request: Request,
+  options: { roles?: UserRole[] } = {}
+): Promise<AuthResult> {
+  const accessToken = getAccessToken(request);
+
+  if (!accessToken) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    };
+  }
+
+  let user: AuthenticatedUser | null = null;
+  try {
+    user = await tokenVerifier(accessToken);
+  } catch (error) {
+    console.error('❌ [Auth] Token verification failed:', error);
+  }
+
+  if (!user) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Invalid or expired session' }, { status: 401 })
+    };
+  }
+
+  if (options.roles && !options.roles.includes(user.role)) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'You do not have permission to perform this action' }, { status: 403 })
+    };
+  }
+
+  return { ok: true, user };
+}
+
+/**
+ * Admins may act on another user's behalf; everyone else is pinned to their
+ * own id regardless of what they ask for.
+ */
+export function resolveTargetUserId(user: AuthenticatedUser, requestedUserId?: string | null): string {
+  if (requestedUserId && ADMIN_ROLES.includes(user.role)) {
+    return requestedUserId;
+  }
+  return user.id;
+}
@@ -0,0 +1,137 @@
+import { defaultSchema, type Options as SanitizeSchema } from 'rehype-sanitize';
+import type { Nodes, Parent, PhrasingContent, RootContent } from 'mdast';
+
+/**
+ * Markdown for lesson and tutorial bodies. On top of GitHub-flavoured Markdown
+ * (tables, task-list checklists, links, images) authors get directive blocks:
+ *
+ *   :::warning[Optional title]      callouts: note, tip, warning, danger
+ *   Body text
+ *   :::
+ *
+ *   :::steps                        numbered step-by-step instructions
+ *   1. First
+ *   2. Second
+ *   :::
+ *
+ *   ::video[Title]{src="https://youtu.be/..."}
+ */
+
+export const CALLOUT_KINDS = ['note', 'tip', 'warning', 'danger'] as const;
+export type CalloutKind = typeof CALLOUT_KINDS[number];
+
+export type VideoEmbed =
+  | { kind: 'iframe'; src: string }
+  | { kind: 'file'; src: string };
+
+const VIDEO_FILE = /\.(mp4|webm|ogg)$/i;
+
+function isCallout(name: string): name is CalloutKind {
+  return (CALLOUT_KINDS as readonly string[]).includes(name);
+}
+
+function phrasingText(nodes: PhrasingContent[]): string {
+  return nodes.map(node => ('value' in node ? node.value : 'children' in node ? phrasingText(node.children) : '')).join('');
+}
+
+function transform(parent: Parent): void {
+  parent.children = parent.children.flatMap((child: Nodes): RootContent[] => {
+    if (child.type === 'textDirective') {
+      // No inline directives are defined, so "note:this" is just text
+      const label = child.children.length > 0 ? `[${phrasingText(child.children)}]` : '';
+      return [{ type: 'text', value: `:${child.name}${label}` }];
+    }
+
+    if (child.type === 'leafDirective') {
+      const src = child.attributes?.src;
+      if (child.name !== 'video' || !src) {
+        return [{ type: 'paragraph', children: [{ type: 'text', value: `::${child.name}${phrasingText(child.children) ? `[${phrasingText(child.children)}]` : ''}` }] }];
+      }
+      child.data = {
+        hName: 'div',
+        hProperties: { dataVideo: src, title: phrasingText(child.children) || undefined },
+        hChildren: []
+      };
+      return [child];
+    }
+
+    if (child.type === 'containerDirective') {
+      if (isCallout(child.name)) {
+        // The [label] becomes the callout's title
+        const [first] = child.children;
+        const hasLabel = first?.type === 'paragraph' && !!first.data?.directiveLabel;
+        if (hasLabel) child.children = child.children.slice(1);
+        child.data = {
+          hName: 'div',
+          hProperties: { dataCallout: child.name, title: hasLabel ? phrasingText(first.children) : undefined }
+        };
+      } else {
+        child.data = { hName: 'div', hProperties: child.name === 'steps' ? { dataSteps: true } : {} };
+      }
+    }
+
+    if ('children' in child) transform(child);
+    return [child as RootContent];
+  });
+}
+
+/**
+ * Turn directive blocks into the elements RichContent renders. Runs after
+ * remark-directive.
+ */
+export function remarkContentBlocks() {
+  return (tree: Parent) => transform(tree);
+}
+
+/**
+ * GitHub's sanitizing rules plus the attributes the directive blocks use.
+ * Raw HTML in content (older tutorials are stored as HTML) goes through this too.
+ */
+export const richContentSchema: SanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    div: [
+      ...(defaultSchema.attributes?.div || []),
+      ['dataCallout', ...CALLOUT_KINDS],
+      'dataSteps',
+      'dataVideo',
+      'title'
+    ]
+  }
+};
+
+/**
+ * Where a ::video block may play from: YouTube and Vimeo embeds, or a video
+ * file over https. Anything else isn't embedded.
+ */
+export function getVideoEmbed(url: string): VideoEmbed | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'https:') return null;
+
+  const host = parsed.hostname.replace(/^(www\.|m\.)/, '');
+  const segments = parsed.pathname.split('/').filter(Boolean);
+
+  if (host === 'youtube.com' || host === 'youtu.be') {
+    const id = host === 'youtu.be'
+      ? segments[0]
+      : segments[0] === 'embed' || segments[0] === 'shorts'
+        ? segments[1]
+        : parsed.searchParams.get('v');
+    return id && /^[\w-]{11}$/.test(id)
+      ? { kind: 'iframe', src: `https://www.youtube-nocookie.com/embed/${id}` }
+      : null;
+  }
+
+  if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+    const id = segments.find(segment => /^\d+$/.test(segment));
+    return id ? { kind: 'iframe', src: `https://player.vimeo.com/video/${id}` } : null;
+  }
+
+  return VIDEO_FILE.test(parsed.pathname) ? { kind: 'file', src: parsed.href } : null;
+}
@@ -0,0 +1,130 @@
+/**
+ * Recurrence rules for community session series, stored as JSON on
+ * `session_series.recurrence`. Examples:
+ *   { "frequency": "weekly", "startDate": "2025-03-01", "endDate": "2025-05-31" }
+ *   { "frequency": "biweekly", "startDate": "2025-03-01", "endDate": "2025-12-31" }
+ *   { "frequency": "monthly", "startDate": "2025-01-31", "endDate": "2025-06-30" }  // 28th/30th in short months
+ *   { "frequency": "dates", "dates": ["2025-03-01", "2025-03-22"] }
+ * Dates are calendar dates (YYYY-MM-DD) with no time zone, like community_sessions.date.
+ */
+
+export const RECURRENCE_FREQUENCIES = ['weekly', 'biweekly', 'monthly', 'dates'] as const;
+
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+export type RecurrenceRule =
+  | { frequency: 'weekly' | 'biweekly' | 'monthly'; startDate: string; endDate: string }
+  | { frequency: 'dates'; dates: string[] };
+
+// Keeps a typo'd end date from creating years of sessions
+export const MAX_SERIES_OCCURRENCES = 52;
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: unknown, field: string): number {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new RecurrenceError(`${field} must be a date (YYYY-MM-DD)`);
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  const time = Date.UTC(year, month - 1, day);
+  // Rejects 2025-02-30 and friends, which Date.UTC would roll over
+  if (new Date(time).getUTCDate() !== day) {
+    throw new RecurrenceError(`${field} is not a valid date: ${value}`);
+  }
+  return time;
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Validate untrusted JSON (admin input, DB rows) into a RecurrenceRule
+ */
+export function parseRecurrenceRule(input: unknown): RecurrenceRule {
+  if (!input || typeof input !== 'object') {
+    throw new RecurrenceError('recurrence must be an object');
+  }
+  const rule = input as Record<string, unknown>;
+
+  if (rule.frequency === 'dates') {
+    if (!Array.isArray(rule.dates) || rule.dates.length === 0) {
+      throw new RecurrenceError('Pick at least one date');
+    }
+    rule.dates.forEach((date, index) => parseDate(date, `dates[${index}]`));
+    return { frequency: 'dates', dates: [...new Set(rule.dates as string[])].sort() };
+  }
+
+  if (rule.frequency === 'weekly' || rule.frequency === 'biweekly' || rule.frequency === 'monthly') {
+    const start = parseDate(rule.startDate, 'startDate');
+    const end = parseDate(rule.endDate, 'endDate');
+    if (end < start) {
+      throw new RecurrenceError('The series must end on or after its first date');
+    }
+    return { frequency: rule.frequency, startDate: rule.startDate as string, endDate: rule.endDate as string };
+  }
+
+  throw new RecurrenceError(`frequency must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`);
+}
+
+/**
+ * Every occurrence date of a rule, in order
+ */
+export function expandRecurrence(rule: RecurrenceRule): string[] {
+  let dates: string[];
+
+  if (rule.frequency === 'dates') {
+    dates = [...new Set(rule.dates)].sort();
+  } else {
+    const start = parseDate(rule.startDate, 'startDate');
+    const end = parseDate(rule.endDate, 'endDate');
+    dates = [];
+
+    if (rule.frequency === 'monthly') {
+      const first = new Date(start);
+      const day = first.getUTCDate();
+      for (let i = 0; dates.length <= MAX_SERIES_OCCURRENCES; i++) {
+        const year = first.getUTCFullYear();
+        const month = first.getUTCMonth() + i;
+        // Day 0 of the next month is the last day of this one
+        const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+        const time = Date.UTC(year, month, Math.min(day, lastDay));
+        if (time > end) break;
+        dates.push(formatDate(time));
+      }
+    } else {
+      const step = (rule.frequency === 'weekly' ? 7 : 14) * DAY_MS;
+      for (let time = start; time <= end && dates.length <= MAX_SERIES_OCCURRENCES; time += step) {
+        dates.push(formatDate(time));
+      }
+    }
+  }
+
+  if (dates.length > MAX_SERIES_OCCURRENCES) {
+    throw new RecurrenceError(`A series can have at most ${MAX_SERIES_OCCURRENCES} sessions`);
+  }
+  return dates;
+}
+
+/**
+ * Short label for session cards, e.g. "Every other week"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.frequency) {
+    case 'weekly':
+      return 'Weekly';
+    case 'biweekly':
+      return 'Every other week';
+    case 'monthly':
+      return 'Monthly';
+    case 'dates':
+      return `${rule.dates.length} scheduled dates`;
+  }
+}
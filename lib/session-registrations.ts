@@ -0,0 +1,162 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Community session seats. Capacity is enforced inside the `reserve_session_seat`
+ * and `set_session_registration_status` SQL functions, which lock the session
+ * row, so two people can't take the last seat at the same time. Registrations
+ * past capacity are either waitlisted in arrival order (and promoted to pending
+ * as seats free up) or turned away with a 'full' result.
+ */
+
+export type SessionReservationStatus = 'pending' | 'waitlisted' | 'full';
+
+export interface SessionReservation {
+  // null when the session was full and nothing was written
+  registrationId: string | null;
+  status: SessionReservationStatus;
+  // 1-based, null unless waitlisted
+  waitlistPosition: number | null;
+}
+
+export interface PromotedSessionRegistration {
+  registrationId: string;
+  userId: string;
+  sessionId: string;
+}
+
+export interface SessionAvailability {
+  seatsTaken: number;
+  waitlistLength: number;
+  // The signed-in user's place on this session's waitlist
+  myWaitlistPosition: number | null;
+}
+
+/**
+ * Take a seat in one step. When the session is full the user joins the
+ * waitlist, or with joinWaitlist: false gets status 'full' back. Users may
+ * only register themselves; a service-role client may register anyone.
+ */
+export async function reserveSessionSeat(
+  supabase: SupabaseClient,
+  userId: string,
+  sessionId: string,
+  { joinWaitlist = true }: { joinWaitlist?: boolean } = {}
+): Promise<SessionReservation> {
+  const { data, error } = await supabase
+    .rpc('reserve_session_seat', { p_user_id: userId, p_session_id: sessionId, p_join_waitlist: joinWaitlist })
+    .single<{ registration_id: string | null; registration_status: SessionReservationStatus; waitlist_position: number | null }>();
+
+  if (error) {
+    console.error('[Session Registrations] Error reserving seat:', error);
+    // The function raises user-facing messages
+    throw new Error(error.message);
+  }
+
+  return {
+    registrationId: data.registration_id,
+    status: data.registration_status,
+    waitlistPosition: data.waitlist_position
+  };
+}
+
+function toPromoted(rows: { registration_id: string; user_id: string; session_id: string }[] | null): PromotedSessionRegistration[] {
+  return (rows || []).map(row => ({
+    registrationId: row.registration_id,
+    userId: row.user_id,
+    sessionId: row.session_id
+  }));
+}
+
+/**
+ * Approve ('registered'), decline, cancel or reset a registration to pending
+ * (admins or service role). Returns the waitlisted registrations promoted into
+ * the freed seats.
+ */
+export async function setSessionRegistrationStatus(
+  supabase: SupabaseClient,
+  registrationId: string,
+  status: 'pending' | 'registered' | 'declined' | 'cancelled'
+): Promise<PromotedSessionRegistration[]> {
+  const { data, error } = await supabase.rpc('set_session_registration_status', {
+    p_registration_id: registrationId,
+    p_status: status
+  });
+
+  if (error) {
+    console.error('[Session Registrations] Error updating registration:', error);
+    throw new Error(error.message);
+  }
+
+  return toPromoted(data);
+}
+
+/**
+ * Fill any free seats from the waitlist, e.g. after a session's capacity was raised
+ */
+export async function promoteSessionWaitlist(supabase: SupabaseClient, sessionId: string): Promise<PromotedSessionRegistration[]> {
+  const { data, error } = await supabase.rpc('promote_session_waitlist', { p_session_id: sessionId });
+
+  if (error) {
+    console.error('[Session Registrations] Error promoting waitlist:', error);
+    throw new Error(error.message);
+  }
+
+  return toPromoted(data);
+}
+
+/**
+ * Seats taken and waitlist length for every session, keyed by session id
+ */
+export async function getSessionAvailability(supabase: SupabaseClient): Promise<Map<string, SessionAvailability>> {
+  const { data, error } = await supabase.rpc('get_session_availability');
+
+  if (error) {
+    console.error('[Session Registrations] Error fetching availability:', error);
+    throw new Error(error.message);
+  }
+
+  const availability = new Map<string, SessionAvailability>();
+  for (const row of (data || []) as { session_id: string; seats_taken: number; waitlist_length: number; my_waitlist_position: number | null }[]) {
+    availability.set(row.session_id, {
+      seatsTaken: row.seats_taken,
+      waitlistLength: row.waitlist_length,
+      myWaitlistPosition: row.my_waitlist_position
+    });
+  }
+  return availability;
+}
+
+export interface SeriesReservation extends SessionReservation {
+  sessionId: string;
+}
+
+/**
+ * Reserve a seat in every upcoming occurrence of a session series, each one
+ * as atomically as reserveSessionSeat. Occurrences the user is already
+ * registered for are left out of the result.
+ */
+export async function reserveSeriesSeats(
+  supabase: SupabaseClient,
+  userId: string,
+  seriesId: string,
+  { joinWaitlist = true }: { joinWaitlist?: boolean } = {}
+): Promise<SeriesReservation[]> {
+  const { data, error } = await supabase.rpc('reserve_series_seats', {
+    p_user_id: userId,
+    p_series_id: seriesId,
+    p_join_waitlist: joinWaitlist
+  });
+
+  if (error) {
+    console.error('[Session Registrations] Error reserving series seats:', error);
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as { session_id: string; registration_id: string | null; registration_status: SessionReservationStatus; waitlist_position: number | null }[])
+    .map(row => ({
+      sessionId: row.session_id,
+      registrationId: row.registration_id,
+      status: row.registration_status,
+      waitlistPosition: row.waitlist_position
+    }));
+}
@@ -0,0 +1,25 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+let adminClient: SupabaseClient | null = null;
+
+/**
+ * Service-role Supabase client for API routes and the worker.
+ * Created lazily so the worker can load .env.local before the first call.
+ * Never import this from client components.
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (!adminClient) {
+    adminClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false
+        }
+      }
+    );
+  }
+
+  return adminClient;
+}
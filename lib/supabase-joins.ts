@@ -0,0 +1,7 @@
+/**
+ * The row of a to-one join. Without a generated schema Supabase types
+ * to-one joins as arrays, so either shape is accepted.
+ */
+export function joined<T>(value: T | T[] | null | undefined): T | null {
+  return Array.isArray(value) ? value[0] ?? null : value ?? null;
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { AnswerKey, QuestionDifficulty, QuestionType } from './question-types';
 
 // Get environment variables
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -73,17 +74,27 @@ export interface Lesson {
   content: string;
   order_number: number;
   duration: string;
+  // Questions drawn per quiz attempt; null for all of them
+  quiz_question_count: number | null;
+  // Whether the quiz also draws from the module's question bank
+  quiz_uses_module_bank: boolean;
   created_at: string;
   updated_at: string;
 }
 
 export interface QuizQuestion {
   id: string;
-  lesson_id: string;
+  // Set for a lesson's own questions; module_id for the module's question bank
+  lesson_id: string | null;
+  module_id: string | null;
   question: string;
+  question_type: QuestionType;
   options: string[];
   correct_answer: number;
+  answer_key: AnswerKey | null;
   explanation: string;
+  topic: string | null;
+  difficulty: QuestionDifficulty;
   order_number: number;
   created_at: string;
   updated_at: string;
@@ -134,6 +145,7 @@ export interface CommunitySession {
   title: string;
   description: string | null;
   organization: string | null;
+  organization_id: string | null;
   category: string | null;
   level: string | null;
   date: string;
@@ -147,6 +159,60 @@ export interface CommunitySession {
   updated_at: string;
 }
 
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  logo_url: string | null;
+  brand_color: string | null;
+  certificate_signatory: string | null;
+  certificate_signatory_title: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrganizationMember {
+  organization_id: string;
+  user_id: string;
+  role: 'admin' | 'member';
+  created_at: string;
+}
+
+export interface FeedbackQuestion {
+  id: string;
+  type: 'likert' | 'choice' | 'text';
+  prompt: string;
+  // Choice questions only
+  options?: string[];
+  required: boolean;
+}
+
+export interface FeedbackSurvey {
+  id: string;
+  title: string;
+  description: string | null;
+  questions: FeedbackQuestion[];
+  target_kind: 'session' | 'drill' | 'module';
+  // null for every session, drill or module
+  target_id: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FeedbackResponse {
+  id: string;
+  survey_id: string;
+  user_id: string;
+  target_kind: FeedbackSurvey['target_kind'];
+  target_id: string;
+  instructor_ids: string[];
+  organization_id: string | null;
+  answers: Record<string, number | string>;
+  created_at: string;
+}
+
 export interface UserCommunitySession {
   id: string;
   user_id: string;
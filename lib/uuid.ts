@@ -0,0 +1,9 @@
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a route parameter or decoded value is a UUID, checked before it
+ * reaches a query
+ */
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
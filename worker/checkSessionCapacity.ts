@@ -0,0 +1,199 @@
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, resolve } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+dotenv.config({ path: resolve(__dirname, '../.env.local') });
+
+import { randomUUID } from 'crypto';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import {
+  getSessionAvailability,
+  reserveSessionSeat,
+  setSessionRegistrationStatus
+} from '../lib/session-registrations.js';
+
+/**
+ * Session capacity check. Creates throwaway users and a throwaway session,
+ * races more seat reservations than it has seats, and fails if the capacity
+ * is ever exceeded. The users, the session and its registrations are deleted
+ * afterwards; real profiles are never touched.
+ *
+ * Only runs against a local Supabase (supabase start). Another project, such
+ * as a staging copy, has to be named on the command line; never point it at
+ * production.
+ *   npm run check:session-capacity                  capacity 3, 12 users
+ *   npm run check:session-capacity -- --capacity=5 --users=20
+ *   npm run check:session-capacity -- --allow-host=abcd.supabase.co
+ */
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]', 'host.docker.internal'];
+
+// Reserved by RFC 2606, so nothing is ever delivered to the fixture users
+const FIXTURE_EMAIL_DOMAIN = 'capacity-check.invalid';
+
+function stringArg(name: string): string | null {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : null;
+}
+
+function numberArg(name: string, fallback: number): number {
+  const value = parseInt(stringArg(name) || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * The Supabase URL to check against, or an error saying why it isn't safe
+ */
+function checkTarget(): string {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  if (!url) throw new Error('NEXT_PUBLIC_SUPABASE_URL is not set');
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Refusing to run with NODE_ENV=production');
+  }
+
+  const { hostname } = new URL(url);
+  if (LOCAL_HOSTS.includes(hostname) || hostname.endsWith('.local') || hostname === stringArg('allow-host')) {
+    return url;
+  }
+
+  throw new Error(
+    `Refusing to run against ${hostname}: the check writes to the database. ` +
+    'Use a local Supabase, or pass --allow-host=<host> for a disposable project.'
+  );
+}
+
+async function createFixtureUsers(supabase: SupabaseClient, count: number, runId: string): Promise<string[]> {
+  const userIds: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const { data, error } = await supabase.auth.admin.createUser({
+      email: `user-${runId}-${i}@${FIXTURE_EMAIL_DOMAIN}`,
+      password: randomUUID(),
+      email_confirm: true,
+      user_metadata: { full_name: `Capacity Check ${i + 1}` }
+    });
+
+    if (error || !data.user) {
+      // Clean up the ones already made before giving up
+      await deleteFixtureUsers(supabase, userIds);
+      throw new Error(`Failed to create fixture user: ${error?.message}`);
+    }
+    userIds.push(data.user.id);
+  }
+
+  return userIds;
+}
+
+// Profiles first (their registrations cascade), then the auth users they reference
+async function deleteFixtureUsers(supabase: SupabaseClient, userIds: string[]): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const { error: profilesError } = await supabase.from('profiles').delete().in('id', userIds);
+  if (profilesError) console.error('⚠️ [Capacity Check] Failed to delete fixture profiles:', profilesError);
+
+  for (const userId of userIds) {
+    const { error } = await supabase.auth.admin.deleteUser(userId);
+    if (error) console.error(`⚠️ [Capacity Check] Failed to delete fixture user ${userId}:`, error);
+  }
+}
+
+async function seatsTaken(supabase: SupabaseClient, sessionId: string) {
+  const availability = await getSessionAvailability(supabase);
+  return availability.get(sessionId) || { seatsTaken: 0, waitlistLength: 0, myWaitlistPosition: null };
+}
+
+async function main() {
+  const capacity = numberArg('capacity', 3);
+  const userCount = numberArg('users', 12);
+  if (userCount <= capacity) {
+    throw new Error('--users must be more than --capacity to oversubscribe the session');
+  }
+
+  const supabase = createClient(
+    checkTarget(),
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
+
+  const runId = randomUUID().slice(0, 8);
+  console.log(`🔄 [Capacity Check] Creating ${userCount} fixture users (run ${runId})...`);
+  const userIds = await createFixtureUsers(supabase, userCount, runId);
+
+  const { data: session, error: sessionError } = await supabase
+    .from('community_sessions')
+    .insert({
+      title: `Capacity check ${runId}`,
+      // In the past, so the reminder scheduler never picks it up
+      date: '2000-01-01',
+      time: '00:00',
+      location: 'Capacity check',
+      capacity,
+      certified: false,
+      volunteer: false
+    })
+    .select('id')
+    .single();
+
+  if (sessionError) {
+    await deleteFixtureUsers(supabase, userIds);
+    throw new Error(`Failed to create check session: ${sessionError.message}`);
+  }
+
+  const failures: string[] = [];
+  try {
+    console.log(`🔄 [Capacity Check] Racing ${userIds.length} registrations for ${capacity} seats...`);
+
+    // Every other user declines the waitlist, so both outcomes of a full session are exercised
+    const results = await Promise.allSettled(
+      userIds.map((userId, index) =>
+        reserveSessionSeat(supabase, userId, session.id, { joinWaitlist: index % 2 === 0 })
+      )
+    );
+
+    const rejected = results.filter(r => r.status === 'rejected');
+    const reservations = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+    const pending = reservations.filter(r => r.status === 'pending').length;
+    const waitlisted = reservations.filter(r => r.status === 'waitlisted').length;
+    const full = reservations.filter(r => r.status === 'full').length;
+
+    console.log(`ℹ️ [Capacity Check] pending=${pending} waitlisted=${waitlisted} full=${full} errors=${rejected.length}`);
+
+    if (rejected.length > 0) failures.push(`${rejected.length} reservations failed unexpectedly`);
+    if (pending !== capacity) failures.push(`expected ${capacity} seats handed out, got ${pending}`);
+
+    const afterRace = await seatsTaken(supabase, session.id);
+    if (afterRace.seatsTaken > capacity) {
+      failures.push(`capacity exceeded after race: ${afterRace.seatsTaken}/${capacity}`);
+    }
+
+    // Freeing a seat should pull exactly one person off the waitlist
+    const seated = reservations.find(r => r.status === 'pending');
+    if (seated?.registrationId && waitlisted > 0) {
+      const promoted = await setSessionRegistrationStatus(supabase, seated.registrationId, 'cancelled');
+      if (promoted.length !== 1) failures.push(`expected 1 promotion after a cancellation, got ${promoted.length}`);
+
+      const afterPromotion = await seatsTaken(supabase, session.id);
+      if (afterPromotion.seatsTaken > capacity) {
+        failures.push(`capacity exceeded after promotion: ${afterPromotion.seatsTaken}/${capacity}`);
+      }
+    }
+  } finally {
+    const { error: deleteError } = await supabase.from('community_sessions').delete().eq('id', session.id);
+    if (deleteError) console.error('⚠️ [Capacity Check] Failed to delete check session:', deleteError);
+    await deleteFixtureUsers(supabase, userIds);
+  }
+
+  if (failures.length > 0) {
+    for (const failure of failures) console.error(`❌ [Capacity Check] ${failure}`);
+    process.exit(1);
+  }
+
+  console.log('✅ [Capacity Check] Capacity held under concurrent registration');
+}
+
+main().catch(error => {
+  console.error('❌ [Capacity Check] Failed:', error);
+  process.exit(1);
+});
@@ -7,68 +7,63 @@ const __dirname = dirname(__filename);
 
 dotenv.config({ path: resolve(__dirname, '../.env.local') });
 
-import amqp from "amqplib";
-import processRecommendation from "./processRecommendation.js";
+import { createQueueDriver, getQueueDriver, setQueueDriver } from "../lib/queue/index.js";
+import { drainJobs, startJobConsumers } from "./registry.js";
+import { startOutboxPoller, stopOutboxPoller } from "./notificationOutbox.js";
+import { startReminderScheduler, stopReminderScheduler } from "./reminderScheduler.js";
+
+// How long running jobs get to finish on SIGTERM/SIGINT before they are aborted
+const SHUTDOWN_GRACE_MS = Number(process.env.WORKER_SHUTDOWN_GRACE_MS) || 30_000;
+
+let shuttingDown = false;
+
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+
+  console.log(`\n🛑 [Worker] ${signal} received, draining running jobs...`);
+  const driver = getQueueDriver();
+
+  // No new deliveries; running jobs can still ack or schedule their retry
+  await driver.stop();
+  await stopOutboxPoller();
+  await stopReminderScheduler();
+  const aborted = await drainJobs(SHUTDOWN_GRACE_MS);
+  if (aborted > 0) {
+    console.warn(`⚠️ [Worker] Aborted ${aborted} job(s) still running after ${SHUTDOWN_GRACE_MS}ms`);
+  }
+
+  await driver.close();
+  console.log('✅ [Worker] Shut down cleanly');
+  process.exit(0);
+}
 
 async function startWorker() {
+  const driver = getQueueDriver();
+
   try {
-    console.log("🔄 [Worker] Starting...");
-    
-    // Add heartbeat configuration
-    const connection = await amqp.connect("amqp://localhost", {
-      heartbeat: 60 // Send heartbeat every 60 seconds
-    });
-    
-    const channel = await connection.createChannel();
-    
-    // Set prefetch to process one message at a time
-    await channel.prefetch(1);
-    await channel.assertQueue("badge_processing_queue", { durable: false });
-
-    console.log("✅ [Worker] Connected to RabbitMQ");
-    console.log("⏳ [Worker] Waiting for badge processing jobs...");
-
-    channel.consume("badge_processing_queue", async (msg) => {
-      if (!msg) return;
-
-      const { userId, moduleId, timestamp } = JSON.parse(msg.content.toString());
-      
-      console.log(`📨 [Worker] Received job:`, { userId, moduleId });
-      console.log(`⏱️  [Worker] Queue time: ${Date.now() - timestamp}ms`);
-
-      try {
-        await processRecommendation(userId, moduleId);
-        console.log(`✅ [Worker] Job completed for user: ${userId}`);
-        channel.ack(msg);
-      } catch (error) {
-        console.error(`❌ [Worker] Job failed:`, error);
-        channel.nack(msg, false, false); // Don't requeue on failure
-      }
-    }, { noAck: false }); // Manual acknowledgment
-
-    connection.on('error', (err) => {
-      console.error('❌ [Worker] Connection error:', err);
-      process.exit(1);
-    });
-
-    connection.on('close', () => {
-      console.log('⚠️ [Worker] Connection closed. Reconnecting in 5s...');
-      setTimeout(startWorker, 5000);
-    });
-
-    // Keep process alive
-    process.on('SIGINT', async () => {
-      console.log('\n🛑 [Worker] Shutting down gracefully...');
-      await channel.close();
-      await connection.close();
-      process.exit(0);
-    });
+    console.log(`🔄 [Worker] Starting with the ${driver.name} queue driver...`);
+
+    if (driver.name === 'memory') {
+      console.warn("⚠️ [Worker] The memory driver only sees jobs published in this process - the app runs its own consumers when QUEUE_DRIVER=memory");
+    }
+
+    await startJobConsumers(driver);
+    startOutboxPoller();
+    startReminderScheduler();
+
+    console.log("⏳ [Worker] Waiting for jobs...");
 
   } catch (error) {
     console.error("❌ [Worker] Failed to start:", error);
     console.log("🔄 [Worker] Retrying in 5 seconds...");
+    await driver.close();
+    setQueueDriver(createQueueDriver());
     setTimeout(startWorker, 5000);
   }
 }
 
-startWorker();
\ No newline at end of file
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
+
+startWorker();
@@ -0,0 +1,44 @@
+import { getSupabaseAdmin } from "../lib/supabase-admin.js";
+import { processOutbox } from "../lib/notifications/index.js";
+
+/**
+ * Polls the notification outbox for messages whose next attempt is due:
+ * retries of failed sends, and messages queued without immediate delivery.
+ */
+
+let timer: NodeJS.Timeout | null = null;
+let running: Promise<void> | null = null;
+
+async function flush() {
+  try {
+    const { sent, retrying, failed } = await processOutbox(getSupabaseAdmin());
+    if (sent + retrying + failed > 0) {
+      console.log(`📧 [Outbox] ${sent} sent, ${retrying} retrying, ${failed} failed`);
+    }
+  } catch (error) {
+    console.error("❌ [Outbox] Failed to process notification outbox:", error);
+  }
+}
+
+export function startOutboxPoller(intervalMs = Number(process.env.NOTIFICATION_POLL_INTERVAL_MS) || 30_000): void {
+  if (timer) return;
+
+  const tick = () => {
+    running = flush().finally(() => {
+      running = null;
+      if (timer) timer = setTimeout(tick, intervalMs);
+    });
+  };
+
+  timer = setTimeout(tick, 0);
+  console.log(`✅ [Outbox] Polling the notification outbox every ${intervalMs}ms`);
+}
+
+/**
+ * Stop polling and wait for a flush in progress to finish
+ */
+export async function stopOutboxPoller(): Promise<void> {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  await running;
+}
@@ -0,0 +1,47 @@
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, resolve } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+dotenv.config({ path: resolve(__dirname, '../.env.local') });
+
+import { createClient } from '@supabase/supabase-js';
+import { reconcilePointsBalances } from '../lib/points-ledger.js';
+
+/**
+ * Points reconciliation job.
+ *   npm run reconcile:points            report drift only
+ *   npm run reconcile:points -- --apply backfill the ledger from activity_log and re-derive balances
+ */
+async function main() {
+  const apply = process.argv.includes('--apply');
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
+
+  console.log(`🔄 [Reconcile] Checking points balances${apply ? ' (apply mode)' : ''}...`);
+
+  const report = await reconcilePointsBalances(supabase, { apply });
+
+  for (const drift of report.drifted) {
+    console.log(
+      `⚠️ [Reconcile] ${drift.userId}: profile=${drift.profilePoints} ledger=${drift.ledgerPoints} ` +
+      `history=${drift.historyPoints} missing_from_ledger=${drift.missingLedgerPoints}`
+    );
+  }
+
+  console.log(`✅ [Reconcile] Checked ${report.checkedUsers} users, ${report.drifted.length} drifted`);
+  if (report.drifted.length > 0 && !report.applied) {
+    console.log('ℹ️ [Reconcile] Re-run with --apply to fix balances');
+  }
+}
+
+main().catch(error => {
+  console.error('❌ [Reconcile] Failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+import redis from "./redisClient.js";
+import processRecommendation from "./processRecommendation.js";
+import { PermanentJobError, consumeJobs, waitForActiveJobs, type JobContext, type QueueDriver } from "../lib/queue/index.js";
+import {
+  JOB_DEFINITIONS,
+  JOB_TYPES,
+  type JobPayload,
+  type JobType
+} from "../lib/jobs.js";
+import { getSupabaseAdmin } from "../lib/supabase-admin.js";
+import { getCachedRecommendations, queueRecommendationRefresh, refreshRecommendations } from "../lib/recommendation-engine.js";
+import { runBulkRegistrationAction } from "../lib/bulk-registrations.js";
+import { saveJobFile, updateJobStatus } from "../lib/job-status.js";
+import { CertificateError, issueCertificate } from "../lib/certificates/index.js";
+import { drillReportFilename, loadDrillReport, renderDrillReport } from "../lib/drill-report.js";
+import { deliverQueuedNotification } from "../lib/notifications/index.js";
+
+/**
+ * Job registry: one handler per job type in lib/jobs.ts. Handlers receive an
+ * already-validated payload and an AbortSignal that fires on timeout or shutdown.
+ */
+type JobHandler<K extends JobType> = (
+  payload: JobPayload<K>,
+  context: JobContext & { signal: AbortSignal }
+) => Promise<unknown>;
+
+const JOB_HANDLERS: { [K in JobType]: JobHandler<K> } = {
+  badge_check: async ({ userId, moduleId }) => {
+    const { newBadges } = await processRecommendation(userId, moduleId || undefined);
+
+    // New badges change what should come next; otherwise the recommendations
+    // are only regenerated once their cache has expired
+    if (newBadges.length > 0 || !(await getCachedRecommendations(redis, userId))) {
+      await queueRecommendationRefresh(redis, userId);
+    }
+
+    // Shown on the dashboard, which polls the job
+    return { newBadges };
+  },
+
+  ai_recommendations_refresh: async ({ userId }) => {
+    const { recommendations } = await refreshRecommendations(getSupabaseAdmin(), redis, userId);
+    return { count: recommendations.length };
+  },
+
+  registration_bulk_action: async (payload, { jobId, signal }) => {
+    // The summary becomes the job's result, with a row per registration
+    return runBulkRegistrationAction(getSupabaseAdmin(), payload, {
+      signal,
+      onProgress: (progress) => updateJobStatus(redis, jobId, { progress })
+    });
+  },
+
+  certificate_issue: async ({ kind, recordId }) => {
+    try {
+      const certificate = await issueCertificate(getSupabaseAdmin(), kind, recordId);
+      return { serial: certificate.serial, url: certificate.url, checksum: certificate.checksum };
+    } catch (error) {
+      // A missing or unfinished completion won't fix itself on retry
+      if (error instanceof CertificateError) throw new PermanentJobError(error.message);
+      throw error;
+    }
+  },
+
+  drill_report_export: async ({ drillId }, { jobId }) => {
+    const report = await loadDrillReport(getSupabaseAdmin(), drillId);
+    if (!report) throw new PermanentJobError("Drill not found");
+
+    // Downloaded from GET /api/jobs/:id/file
+    const filename = drillReportFilename(report);
+    await saveJobFile(redis, jobId, { filename, contentType: "application/pdf", data: renderDrillReport(report) });
+    return { filename };
+  },
+
+  notification_delivery: async ({ notificationId }) => {
+    // A failed send is retried by the outbox with its own backoff, not by the queue
+    const status = await deliverQueuedNotification(getSupabaseAdmin(), notificationId);
+    if (!status) throw new PermanentJobError("Notification not found");
+    return { status };
+  }
+};
+
+export class JobTimeoutError extends Error {
+  constructor(type: JobType, timeoutMs: number) {
+    super(`${type} job timed out after ${timeoutMs}ms`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+const shutdown = new AbortController();
+
+async function runJob<K extends JobType>(type: K, input: unknown, context: JobContext): Promise<unknown> {
+  const definition = JOB_DEFINITIONS[type];
+  const handler = JOB_HANDLERS[type] as JobHandler<K>;
+
+  // Throws JobPayloadError, which dead-letters the job without retrying
+  const payload = definition.parse(input);
+
+  const controller = new AbortController();
+  const onShutdown = () => controller.abort(shutdown.signal.reason);
+  shutdown.signal.addEventListener('abort', onShutdown);
+
+  const timer = setTimeout(() => controller.abort(new JobTimeoutError(type, definition.timeoutMs)), definition.timeoutMs);
+
+  // Settle as soon as the job is aborted, even if the handler ignores the signal
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+
+  try {
+    return await Promise.race([handler(payload, { ...context, signal: controller.signal }), aborted]);
+  } finally {
+    clearTimeout(timer);
+    shutdown.signal.removeEventListener('abort', onShutdown);
+  }
+}
+
+/**
+ * Start consumers for the given job types (all by default), each with the
+ * concurrency from its definition
+ */
+export async function startJobConsumers(driver: QueueDriver, types: JobType[] = JOB_TYPES): Promise<void> {
+  for (const type of types) {
+    const { queue, concurrency } = JOB_DEFINITIONS[type];
+
+    await consumeJobs(driver, queue, redis, (payload, context) => runJob(type, payload, context), { concurrency });
+    console.log(`✅ [Worker] Consuming ${type} jobs from ${queue} (concurrency ${concurrency})`);
+  }
+}
+
+/**
+ * Wait for running jobs to finish. After graceMs the remaining jobs are
+ * aborted and settled through the normal failure path (retried later).
+ * Returns the number of jobs that had to be aborted.
+ */
+export async function drainJobs(graceMs: number): Promise<number> {
+  const remaining = await waitForActiveJobs(graceMs);
+  if (remaining === 0) return 0;
+
+  shutdown.abort(new Error('Worker shutting down'));
+  // Give aborted jobs a moment to record their retry
+  await waitForActiveJobs(5000);
+  return remaining;
+}
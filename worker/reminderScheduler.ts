@@ -0,0 +1,50 @@
+import { getSupabaseAdmin } from "../lib/supabase-admin.js";
+import { sendDueReminders, syncReminders } from "../lib/reminders/index.js";
+
+/**
+ * Keeps event reminders in step with drills, sessions, registrations and
+ * preferences, then sends the ones that are due.
+ */
+
+let timer: NodeJS.Timeout | null = null;
+let running: Promise<void> | null = null;
+
+async function flush() {
+  try {
+    const supabase = getSupabaseAdmin();
+    const { scheduled, rescheduled, cancelled } = await syncReminders(supabase);
+    if (scheduled + rescheduled + cancelled > 0) {
+      console.log(`⏰ [Reminders] ${scheduled} scheduled, ${rescheduled} rescheduled, ${cancelled} cancelled`);
+    }
+
+    const { sent, skipped, failed } = await sendDueReminders(supabase);
+    if (sent + skipped + failed > 0) {
+      console.log(`⏰ [Reminders] ${sent} sent, ${skipped} skipped, ${failed} failed`);
+    }
+  } catch (error) {
+    console.error("❌ [Reminders] Failed to process reminders:", error);
+  }
+}
+
+export function startReminderScheduler(intervalMs = Number(process.env.REMINDER_POLL_INTERVAL_MS) || 300_000): void {
+  if (timer) return;
+
+  const tick = () => {
+    running = flush().finally(() => {
+      running = null;
+      if (timer) timer = setTimeout(tick, intervalMs);
+    });
+  };
+
+  timer = setTimeout(tick, 0);
+  console.log(`✅ [Reminders] Checking for reminders every ${intervalMs}ms`);
+}
+
+/**
+ * Stop checking and wait for a pass in progress to finish
+ */
+export async function stopReminderScheduler(): Promise<void> {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  await running;
+}